@@ -0,0 +1,20 @@
+-- Create auth sessions table
+-- Each row backs one refresh token; revoking the row invalidates its access tokens too
+CREATE TABLE IF NOT EXISTS auth_sessions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,  -- SHA-256 hex of the opaque refresh token
+    user_agent TEXT,
+    ip_address VARCHAR(64),
+
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires_at ON auth_sessions_cw(expires_at);
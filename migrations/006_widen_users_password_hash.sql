@@ -0,0 +1,3 @@
+-- Widen password_hash for encoded scrypt hashes (scrypt$N$r$p$salt$hash)
+-- Legacy SHA-256 hex digests keep working and are upgraded on the next successful login
+ALTER TABLE users_cw ALTER COLUMN password_hash TYPE TEXT;
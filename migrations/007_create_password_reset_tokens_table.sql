@@ -0,0 +1,18 @@
+-- Create password reset tokens table
+-- Only SHA-256 hashes of the emailed tokens are stored; a token is consumed by setting used_at
+CREATE TABLE IF NOT EXISTS password_reset_tokens_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    requested_ip VARCHAR(64),
+
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_created_at ON password_reset_tokens_cw(created_at);
@@ -0,0 +1,22 @@
+-- Track email verification on users
+ALTER TABLE users_cw ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+
+-- Accounts created before verification existed are treated as verified
+UPDATE users_cw SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+-- Create email verification tokens table (only SHA-256 hashes of emailed tokens are stored)
+CREATE TABLE IF NOT EXISTS email_verification_tokens_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    email VARCHAR(255) NOT NULL,      -- address the token was sent to
+
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_id ON email_verification_tokens_cw(user_id);
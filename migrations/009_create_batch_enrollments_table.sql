@@ -0,0 +1,28 @@
+-- Seat counter kept in sync by enrollments (declared in 002 but missing on older databases)
+ALTER TABLE batches_cw ADD COLUMN IF NOT EXISTS enrolled_students INTEGER NOT NULL DEFAULT 0;
+
+-- Create batch enrollments table
+CREATE TABLE IF NOT EXISTS batch_enrollments_cw (
+    id BIGSERIAL PRIMARY KEY,
+    batch_id INTEGER NOT NULL REFERENCES batches_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'ENROLLED' CHECK (status IN ('ENROLLED', 'WITHDRAWN')),
+    enrolled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    withdrawn_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    -- One row per student and batch; re-enrolling reactivates the row
+    UNIQUE (batch_id, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_batch_enrollments_user_id ON batch_enrollments_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_batch_enrollments_batch_status ON batch_enrollments_cw(batch_id, status);
+
+-- Backfill seat counts
+UPDATE batches_cw b SET enrolled_students = (
+  SELECT COUNT(*) FROM batch_enrollments_cw e WHERE e.batch_id = b.id AND e.status = 'ENROLLED'
+);
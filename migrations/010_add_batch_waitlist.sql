@@ -0,0 +1,10 @@
+-- Allow enrollments to sit on an ordered waitlist when a batch is full
+ALTER TABLE batch_enrollments_cw ADD COLUMN IF NOT EXISTS waitlisted_at TIMESTAMP;
+
+ALTER TABLE batch_enrollments_cw DROP CONSTRAINT IF EXISTS batch_enrollments_cw_status_check;
+ALTER TABLE batch_enrollments_cw ADD CONSTRAINT batch_enrollments_cw_status_check
+  CHECK (status IN ('ENROLLED', 'WAITLISTED', 'WITHDRAWN'));
+
+-- Waitlist order lookups
+CREATE INDEX IF NOT EXISTS idx_batch_enrollments_waitlist
+  ON batch_enrollments_cw(batch_id, waitlisted_at, id) WHERE status = 'WAITLISTED';
@@ -0,0 +1,40 @@
+-- Create course sections table
+CREATE TABLE IF NOT EXISTS course_sections_cw (
+    id BIGSERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    sort_order INT NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create course lessons table
+-- course_id is denormalized from the section so a whole curriculum loads in one query
+CREATE TABLE IF NOT EXISTS course_lessons_cw (
+    id BIGSERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+    section_id BIGINT NOT NULL REFERENCES course_sections_cw(id) ON DELETE CASCADE,
+
+    title VARCHAR(255) NOT NULL,
+    lesson_type VARCHAR(20) NOT NULL CHECK (lesson_type IN ('VIDEO', 'ARTICLE', 'QUIZ', 'ATTACHMENT')),
+    summary TEXT,
+    content TEXT,                      -- article body
+    video_url TEXT,
+    duration_seconds INT,
+    attachment_url TEXT,
+
+    is_preview BOOLEAN NOT NULL DEFAULT FALSE,   -- visible without enrollment
+    is_published BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INT NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_course_sections_course_order ON course_sections_cw(course_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_section_order ON course_lessons_cw(section_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_course_id ON course_lessons_cw(course_id);
@@ -0,0 +1,8 @@
+-- Drip content: each lesson unlocks a number of days after the course's anchor date
+ALTER TABLE course_lessons_cw ADD COLUMN IF NOT EXISTS drip_offset_days INT NOT NULL DEFAULT 0;
+
+-- Anchor for drip offsets: the student's enrollment date or the batch start date
+ALTER TABLE public.course ADD COLUMN IF NOT EXISTS drip_anchor VARCHAR(20) NOT NULL DEFAULT 'ENROLLMENT';
+ALTER TABLE public.course DROP CONSTRAINT IF EXISTS course_drip_anchor_check;
+ALTER TABLE public.course ADD CONSTRAINT course_drip_anchor_check
+  CHECK (drip_anchor IN ('ENROLLMENT', 'BATCH_START'));
@@ -0,0 +1,31 @@
+-- Create lesson progress table (one row per student and lesson)
+CREATE TABLE IF NOT EXISTS lesson_progress_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+    lesson_id BIGINT NOT NULL REFERENCES course_lessons_cw(id) ON DELETE CASCADE,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'STARTED' CHECK (status IN ('STARTED', 'COMPLETED')),
+    last_position_seconds INT NOT NULL DEFAULT 0,   -- resume point for video lessons
+
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (user_id, lesson_id)
+);
+
+-- Create course completions table; a row is written once when every published lesson is completed
+CREATE TABLE IF NOT EXISTS course_completions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+
+    completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (user_id, course_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_user_course ON lesson_progress_cw(user_id, course_id);
+CREATE INDEX IF NOT EXISTS idx_course_completions_course_id ON course_completions_cw(course_id);
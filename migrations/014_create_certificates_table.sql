@@ -0,0 +1,26 @@
+-- Create certificates table
+-- Names, titles and dates are snapshotted at issue time so a certificate never changes afterwards
+CREATE TABLE IF NOT EXISTS certificates_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+    batch_id INTEGER REFERENCES batches_cw(id) ON DELETE SET NULL,
+
+    verification_code VARCHAR(32) NOT NULL UNIQUE,
+
+    student_name VARCHAR(255) NOT NULL,
+    course_title VARCHAR(255) NOT NULL,
+    program_name VARCHAR(255),
+    instructor_name VARCHAR(255),
+    completed_at TIMESTAMP NOT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    pdf_url TEXT,                      -- Cloudinary secure_url of the rendered PDF
+    pdf_public_id VARCHAR(255),
+
+    -- One certificate per student and course
+    UNIQUE (user_id, course_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_certificates_user_id ON certificates_cw(user_id);
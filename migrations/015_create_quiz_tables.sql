@@ -0,0 +1,57 @@
+-- Create quizzes table (one quiz per QUIZ lesson)
+CREATE TABLE IF NOT EXISTS quizzes_cw (
+    id BIGSERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES public.course(id) ON DELETE CASCADE,
+    lesson_id BIGINT NOT NULL UNIQUE REFERENCES course_lessons_cw(id) ON DELETE CASCADE,
+
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    pass_percentage INT NOT NULL DEFAULT 70 CHECK (pass_percentage BETWEEN 0 AND 100),
+    max_attempts INT CHECK (max_attempts > 0),    -- NULL means unlimited
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create quiz questions table
+-- options: JSON array of option texts; correct_answers: option indexes, a boolean or accepted texts
+CREATE TABLE IF NOT EXISTS quiz_questions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    quiz_id BIGINT NOT NULL REFERENCES quizzes_cw(id) ON DELETE CASCADE,
+
+    question_type VARCHAR(20) NOT NULL
+      CHECK (question_type IN ('MULTIPLE_CHOICE', 'MULTI_SELECT', 'TRUE_FALSE', 'SHORT_ANSWER')),
+    prompt TEXT NOT NULL,
+    options JSONB,
+    correct_answers JSONB NOT NULL,
+    explanation TEXT,
+    points INT NOT NULL DEFAULT 1 CHECK (points > 0),
+    sort_order INT NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create quiz attempts table
+CREATE TABLE IF NOT EXISTS quiz_attempts_cw (
+    id BIGSERIAL PRIMARY KEY,
+    quiz_id BIGINT NOT NULL REFERENCES quizzes_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    attempt_number INT NOT NULL,
+    answers JSONB NOT NULL,
+    results JSONB NOT NULL,            -- per-question grading
+    score INT NOT NULL,
+    max_score INT NOT NULL,
+    percentage NUMERIC(5, 2) NOT NULL,
+    passed BOOLEAN NOT NULL,
+
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (quiz_id, user_id, attempt_number)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_quizzes_course_id ON quizzes_cw(course_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_quiz_order ON quiz_questions_cw(quiz_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz_user ON quiz_attempts_cw(quiz_id, user_id);
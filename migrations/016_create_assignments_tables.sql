@@ -0,0 +1,44 @@
+-- Create batch assignments table
+CREATE TABLE IF NOT EXISTS assignments_cw (
+    id BIGSERIAL PRIMARY KEY,
+    batch_id INTEGER NOT NULL REFERENCES batches_cw(id) ON DELETE CASCADE,
+
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    due_at TIMESTAMP,                  -- NULL means no deadline
+    max_points INT NOT NULL DEFAULT 100 CHECK (max_points > 0),
+    allow_late_submissions BOOLEAN NOT NULL DEFAULT TRUE,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create assignment submissions table (one per student; resubmitting replaces it until graded)
+CREATE TABLE IF NOT EXISTS assignment_submissions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    assignment_id BIGINT NOT NULL REFERENCES assignments_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    text_response TEXT,
+    file_url TEXT,                     -- Cloudinary secure_url
+    file_public_id VARCHAR(255),
+    file_name VARCHAR(255),
+
+    status VARCHAR(20) NOT NULL DEFAULT 'SUBMITTED' CHECK (status IN ('SUBMITTED', 'GRADED')),
+    is_late BOOLEAN NOT NULL DEFAULT FALSE,
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    points INT,
+    feedback TEXT,
+    graded_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    graded_at TIMESTAMP,
+
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (assignment_id, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_assignments_batch_id ON assignments_cw(batch_id);
+CREATE INDEX IF NOT EXISTS idx_assignment_submissions_user_id ON assignment_submissions_cw(user_id);
@@ -0,0 +1,67 @@
+-- Create CTF challenges table
+-- Flags are never stored in plain text: flag_hash is `<salt>$<hmac-sha256>` (hex)
+CREATE TABLE IF NOT EXISTS challenges_cw (
+    id BIGSERIAL PRIMARY KEY,
+    batch_id INTEGER REFERENCES batches_cw(id) ON DELETE CASCADE, -- NULL means a global challenge
+
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    category VARCHAR(50) NOT NULL,
+    difficulty VARCHAR(20) NOT NULL CHECK (difficulty IN ('EASY', 'MEDIUM', 'HARD', 'INSANE')),
+    points INT NOT NULL CHECK (points > 0),
+    flag_hash VARCHAR(255) NOT NULL,
+    is_published BOOLEAN NOT NULL DEFAULT FALSE,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create challenge hints table (unlocking a hint costs points from the eventual solve)
+CREATE TABLE IF NOT EXISTS challenge_hints_cw (
+    id BIGSERIAL PRIMARY KEY,
+    challenge_id BIGINT NOT NULL REFERENCES challenges_cw(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    cost INT NOT NULL DEFAULT 0 CHECK (cost >= 0),
+    sort_order INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create hint unlocks table
+CREATE TABLE IF NOT EXISTS challenge_hint_unlocks_cw (
+    id BIGSERIAL PRIMARY KEY,
+    hint_id BIGINT NOT NULL REFERENCES challenge_hints_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    unlocked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (hint_id, user_id)
+);
+
+-- Create flag submissions log (every attempt, right or wrong)
+CREATE TABLE IF NOT EXISTS challenge_submissions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    challenge_id BIGINT NOT NULL REFERENCES challenges_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    is_correct BOOLEAN NOT NULL,
+    ip_address VARCHAR(64),
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create solves table (one per user and challenge)
+CREATE TABLE IF NOT EXISTS challenge_solves_cw (
+    id BIGSERIAL PRIMARY KEY,
+    challenge_id BIGINT NOT NULL REFERENCES challenges_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    points_awarded INT NOT NULL,       -- Challenge points minus unlocked hint costs, never below 0
+    solved_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (challenge_id, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_challenges_batch_id ON challenges_cw(batch_id);
+CREATE INDEX IF NOT EXISTS idx_challenges_category ON challenges_cw(category);
+CREATE INDEX IF NOT EXISTS idx_challenge_hints_challenge_id ON challenge_hints_cw(challenge_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_hint_unlocks_user_id ON challenge_hint_unlocks_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_submissions_challenge_user ON challenge_submissions_cw(challenge_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_solves_user_id ON challenge_solves_cw(user_id);
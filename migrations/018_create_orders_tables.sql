@@ -0,0 +1,55 @@
+-- Create orders table
+-- An order buys a seat in `batch_id`; item_type/item_id record what was priced (the batch itself,
+-- or a course sold through one of its batches)
+CREATE TABLE IF NOT EXISTS orders_cw (
+    id BIGSERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('COURSE', 'BATCH')),
+    item_id INTEGER NOT NULL,
+    batch_id INTEGER NOT NULL REFERENCES batches_cw(id) ON DELETE RESTRICT,
+    description VARCHAR(255) NOT NULL,
+
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+    currency VARCHAR(3) NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING'
+        CHECK (status IN ('PENDING', 'PAID', 'FAILED', 'CANCELLED', 'REFUNDED')),
+    provider VARCHAR(50) NOT NULL,
+    provider_reference VARCHAR(255),
+    checkout_url TEXT,
+    failure_reason TEXT,
+
+    paid_at TIMESTAMP,
+    cancelled_at TIMESTAMP,
+    refunded_at TIMESTAMP,
+    fulfilled_at TIMESTAMP,            -- Set once the buyer has been enrolled
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (provider, provider_reference)
+);
+
+-- Create payment events table
+-- Every verified webhook is stored once; the unique (provider, event_id) makes redelivery a no-op
+CREATE TABLE IF NOT EXISTS payment_events_cw (
+    id BIGSERIAL PRIMARY KEY,
+    order_id BIGINT REFERENCES orders_cw(id) ON DELETE SET NULL,
+    provider VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (provider, event_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders_cw(status);
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON payment_events_cw(order_id);
+
+-- At most one open checkout per user and batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_pending_user_batch
+    ON orders_cw(user_id, batch_id) WHERE status = 'PENDING';
@@ -0,0 +1,55 @@
+-- Create coupons table
+CREATE TABLE IF NOT EXISTS coupons_cw (
+    id BIGSERIAL PRIMARY KEY,
+    code VARCHAR(50) NOT NULL UNIQUE,  -- Stored upper-case
+    description TEXT,
+
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('PERCENT', 'FIXED')),
+    discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+
+    starts_at TIMESTAMP,               -- NULL means valid immediately
+    expires_at TIMESTAMP,              -- NULL means no expiry
+    max_redemptions INT CHECK (max_redemptions > 0),                   -- NULL means unlimited
+    max_redemptions_per_user INT DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+    times_redeemed INT NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK (discount_type <> 'PERCENT' OR discount_value <= 100)
+);
+
+-- Create coupon scopes table (a coupon without scopes applies to every course and batch)
+CREATE TABLE IF NOT EXISTS coupon_scopes_cw (
+    id BIGSERIAL PRIMARY KEY,
+    coupon_id BIGINT NOT NULL REFERENCES coupons_cw(id) ON DELETE CASCADE,
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('COURSE', 'BATCH')),
+    item_id INTEGER NOT NULL,
+
+    UNIQUE (coupon_id, item_type, item_id)
+);
+
+-- Create coupon redemptions table (one per order; released again when the order is cancelled)
+CREATE TABLE IF NOT EXISTS coupon_redemptions_cw (
+    id BIGSERIAL PRIMARY KEY,
+    coupon_id BIGINT NOT NULL REFERENCES coupons_cw(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users_cw(id) ON DELETE CASCADE,
+    order_id BIGINT NOT NULL UNIQUE REFERENCES orders_cw(id) ON DELETE CASCADE,
+    discount_amount DECIMAL(10, 2) NOT NULL,
+    redeemed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Orders keep the pre-discount price and the coupon that was applied; amount is what is charged
+ALTER TABLE orders_cw ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10, 2);
+ALTER TABLE orders_cw ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders_cw ADD COLUMN IF NOT EXISTS coupon_id BIGINT REFERENCES coupons_cw(id) ON DELETE SET NULL;
+ALTER TABLE orders_cw ADD COLUMN IF NOT EXISTS coupon_code VARCHAR(50);
+
+UPDATE orders_cw SET subtotal = amount WHERE subtotal IS NULL;
+ALTER TABLE orders_cw ALTER COLUMN subtotal SET NOT NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_coupon_scopes_coupon_id ON coupon_scopes_cw(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON coupon_redemptions_cw(coupon_id, user_id);
@@ -0,0 +1,57 @@
+-- Create invoice number counters (one row per year; locked while a number is taken so numbers are gapless)
+CREATE TABLE IF NOT EXISTS invoice_counters_cw (
+    year INT PRIMARY KEY,
+    last_number INT NOT NULL DEFAULT 0
+);
+
+-- Create invoices table
+-- Bill-to details are copied onto the invoice so it never changes when the user or quote does
+CREATE TABLE IF NOT EXISTS invoices_cw (
+    id BIGSERIAL PRIMARY KEY,
+    invoice_number VARCHAR(30) NOT NULL UNIQUE,   -- e.g. INV-2026-00042
+
+    user_id INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    order_id BIGINT UNIQUE REFERENCES orders_cw(id) ON DELETE SET NULL,
+    quote_id INTEGER,                              -- Quote the corporate client came in through
+
+    bill_to_name VARCHAR(255) NOT NULL,
+    bill_to_email VARCHAR(255) NOT NULL,
+    bill_to_company VARCHAR(255),
+    bill_to_address TEXT,
+
+    currency VARCHAR(3) NOT NULL,
+    subtotal DECIMAL(12, 2) NOT NULL,
+    tax_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total DECIMAL(12, 2) NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'ISSUED' CHECK (status IN ('ISSUED', 'PAID', 'VOID')),
+    notes TEXT,
+    issued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    due_at TIMESTAMP,
+    paid_at TIMESTAMP,
+    voided_at TIMESTAMP,
+    emailed_at TIMESTAMP,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create invoice line items table
+CREATE TABLE IF NOT EXISTS invoice_items_cw (
+    id BIGSERIAL PRIMARY KEY,
+    invoice_id BIGINT NOT NULL REFERENCES invoices_cw(id) ON DELETE CASCADE,
+    description VARCHAR(500) NOT NULL,
+    quantity DECIMAL(10, 2) NOT NULL CHECK (quantity > 0),
+    unit_price DECIMAL(12, 2) NOT NULL,
+    tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),  -- Percent
+    line_subtotal DECIMAL(12, 2) NOT NULL,
+    tax_amount DECIMAL(12, 2) NOT NULL,
+    sort_order INT NOT NULL DEFAULT 0
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices_cw(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices_cw(status);
+CREATE INDEX IF NOT EXISTS idx_invoices_issued_at ON invoices_cw(issued_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON invoice_items_cw(invoice_id);
@@ -0,0 +1,33 @@
+-- Quote (lead) lifecycle: status, assignment and conversion tracking
+-- The application stores quotes in get_quotes; bring it in line with the columns 001 defines for quotes
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS subject VARCHAR(500);
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS status VARCHAR(50) NOT NULL DEFAULT 'PENDING';
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS assigned_to INTEGER REFERENCES users_cw(id) ON DELETE SET NULL;
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS converted_user_id INTEGER REFERENCES users_cw(id) ON DELETE SET NULL;
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS converted_enrollment_id BIGINT REFERENCES batch_enrollments_cw(id) ON DELETE SET NULL;
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS converted_at TIMESTAMP;
+
+ALTER TABLE get_quotes DROP CONSTRAINT IF EXISTS get_quotes_status_check;
+ALTER TABLE get_quotes ADD CONSTRAINT get_quotes_status_check
+  CHECK (status IN ('PENDING', 'CONTACTED', 'CONVERTED', 'REJECTED'));
+
+-- Create quote activity table (internal notes plus an audit trail of status, assignment and conversion changes)
+CREATE TABLE IF NOT EXISTS quote_activities_cw (
+    id BIGSERIAL PRIMARY KEY,
+    quote_id INTEGER NOT NULL REFERENCES get_quotes(id) ON DELETE CASCADE,
+    actor_id INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+
+    type VARCHAR(20) NOT NULL CHECK (type IN ('NOTE', 'STATUS_CHANGE', 'ASSIGNMENT', 'CONVERSION')),
+    note TEXT,
+    from_value VARCHAR(100),
+    to_value VARCHAR(100),
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_get_quotes_status ON get_quotes(status);
+CREATE INDEX IF NOT EXISTS idx_get_quotes_assigned_to ON get_quotes(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_get_quotes_created_at ON get_quotes(created_at);
+CREATE INDEX IF NOT EXISTS idx_quote_activities_quote_id ON quote_activities_cw(quote_id, created_at);
@@ -0,0 +1,5 @@
+-- Record where public quote submissions come from, for rate limiting and abuse review
+ALTER TABLE get_quotes ADD COLUMN IF NOT EXISTS ip_address VARCHAR(64);
+
+-- Create indexes for better query performance (per-email limits and duplicate detection)
+CREATE INDEX IF NOT EXISTS idx_get_quotes_email_created_at ON get_quotes(LOWER(email), created_at);
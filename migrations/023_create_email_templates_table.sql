@@ -0,0 +1,120 @@
+-- Create email templates table
+-- Templates, the layouts that wrap them and reusable partials share one table, keyed by a stable name
+CREATE TABLE IF NOT EXISTS email_templates_cw (
+    id BIGSERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    kind VARCHAR(20) NOT NULL DEFAULT 'TEMPLATE' CHECK (kind IN ('TEMPLATE', 'LAYOUT', 'PARTIAL')),
+    description TEXT,
+
+    subject VARCHAR(500),
+    html_body TEXT NOT NULL,
+    text_body TEXT,
+    layout_name VARCHAR(100),
+
+    sample_data JSONB NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    updated_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_templates_kind ON email_templates_cw(kind);
+
+-- Default layout and the quotation emails (previously hard-coded in utils/emailService.ts)
+INSERT INTO email_templates_cw (name, kind, description, html_body, text_body)
+VALUES (
+  'default_layout',
+  'LAYOUT',
+  'Standard CyberWhisper wrapper with header and footer',
+  $tpl$<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; background-color: #f4f4f4; margin: 0; padding: 0; }
+    .container { max-width: 600px; margin: 0 auto; background-color: #ffffff; padding: 40px; border-radius: 8px; }
+    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 8px 8px 0 0; text-align: center; margin: -40px -40px 30px -40px; }
+    .details { background-color: #f9f9f9; padding: 15px; border-radius: 4px; margin: 20px 0; }
+    .label { font-weight: 600; color: #667eea; }
+    .footer { border-top: 1px solid #ddd; margin-top: 30px; padding-top: 20px; font-size: 12px; color: #666; text-align: center; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header"><h1>CyberWhisper</h1></div>
+    {{{ content }}}
+    <div class="footer">
+      <p>&copy; {{ year }} CyberWhisper. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>$tpl$,
+  $tpl${{{ content }}}
+
+--
+(c) {{ year }} CyberWhisper$tpl$
+)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO email_templates_cw (name, kind, description, html_body)
+VALUES (
+  'quote_details',
+  'PARTIAL',
+  'Summary of a quotation request',
+  $tpl$<div class="details">
+  <p><span class="label">Name:</span> {{ name }}</p>
+  <p><span class="label">Email:</span> {{ email }}</p>
+  <p><span class="label">Phone:</span> {{ phone }}</p>
+  {{#if subject}}<p><span class="label">Subject:</span> {{ subject }}</p>{{/if}}
+  {{#if message}}<p><span class="label">Message:</span></p><p>{{ message }}</p>{{/if}}
+  <p><span class="label">Request Date:</span> {{ request_date }}</p>
+</div>$tpl$
+)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO email_templates_cw (name, kind, description, subject, html_body, text_body, layout_name, sample_data)
+VALUES (
+  'quote_confirmation',
+  'TEMPLATE',
+  'Sent to a visitor after they submit a quotation request',
+  'Quotation Request Received - CyberWhisper',
+  $tpl$<p>Hello {{ name }},</p>
+<p>Thank you for your interest in <strong>CyberWhisper</strong>! We've received your quotation request and our team will review it shortly. We typically respond within 24-48 hours.</p>
+<p>Here's a summary of your request:</p>
+{{> quote_details }}
+<p>If you have urgent questions, reach us at {{ support_email }} or {{ support_phone }}.</p>
+<p>Best regards,<br><strong>The CyberWhisper Team</strong></p>$tpl$,
+  $tpl$Hello {{ name }},
+
+Thank you for your interest in CyberWhisper! We've received your quotation request and will respond within 24-48 hours.
+
+Name: {{ name }}
+Email: {{ email }}
+Phone: {{ phone }}
+{{#if message}}Message: {{ message }}
+{{/if}}
+Questions? Contact {{ support_email }} or {{ support_phone }}.
+
+The CyberWhisper Team$tpl$,
+  'default_layout',
+  '{"name": "Jane Doe", "email": "jane@example.com", "phone": "+1 555 0100", "subject": "Corporate training", "message": "We would like a quote for 20 seats.", "request_date": "January 15, 2026"}'
+)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO email_templates_cw (name, kind, description, subject, html_body, layout_name, sample_data)
+VALUES (
+  'quote_admin_notification',
+  'TEMPLATE',
+  'Sent to the admin inbox for every new quotation request',
+  '[QUOTATION] New Request from {{ name }}',
+  $tpl$<h2>New Quotation Request</h2>
+{{> quote_details }}
+<p>Please review this request and follow up with the customer promptly.</p>$tpl$,
+  'default_layout',
+  '{"name": "Jane Doe", "email": "jane@example.com", "phone": "+1 555 0100", "subject": "Corporate training", "message": "We would like a quote for 20 seats.", "request_date": "January 15, 2026"}'
+)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,39 @@
+-- Create email outbox table
+-- Every outgoing email is queued here and delivered by the background worker (utils/emailQueue.ts)
+CREATE TABLE IF NOT EXISTS email_outbox_cw (
+    id BIGSERIAL PRIMARY KEY,
+    to_address VARCHAR(255) NOT NULL,
+    subject VARCHAR(500) NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT,
+    attachments JSONB NOT NULL DEFAULT '[]',     -- [{ filename, content (base64), contentType }]
+
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'DEAD')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    message_id VARCHAR(255),
+    sent_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create email log table (one row per delivery attempt)
+CREATE TABLE IF NOT EXISTS email_log_cw (
+    id BIGSERIAL PRIMARY KEY,
+    email_id BIGINT NOT NULL REFERENCES email_outbox_cw(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('SENT', 'FAILED')),
+    message_id VARCHAR(255),
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox_cw(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status ON email_outbox_cw(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_to_address ON email_outbox_cw(LOWER(to_address));
+CREATE INDEX IF NOT EXISTS idx_email_log_email_id ON email_log_cw(email_id);
@@ -0,0 +1,44 @@
+-- Create newsletter campaigns table
+CREATE TABLE IF NOT EXISTS newsletter_campaigns_cw (
+    id BIGSERIAL PRIMARY KEY,
+    subject VARCHAR(500) NOT NULL,
+    html_body TEXT NOT NULL,
+    text_body TEXT,                        -- Derived from the HTML when empty
+    layout_name VARCHAR(100),              -- Optional email_templates_cw layout
+
+    -- DRAFT -> SCHEDULED -> SENDING -> SENT; a scheduled campaign can go back to DRAFT
+    status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'SCHEDULED', 'SENDING', 'SENT')),
+    scheduled_at TIMESTAMP,
+    started_at TIMESTAMP,
+    sent_at TIMESTAMP,
+    recipient_count INTEGER NOT NULL DEFAULT 0,
+
+    created_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    updated_by INTEGER REFERENCES users_cw(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create campaign recipients table
+-- Subscribers are snapshotted when sending starts; delivery status comes from the linked outbox email
+CREATE TABLE IF NOT EXISTS newsletter_campaign_recipients_cw (
+    id BIGSERIAL PRIMARY KEY,
+    campaign_id BIGINT NOT NULL REFERENCES newsletter_campaigns_cw(id) ON DELETE CASCADE,
+    subscriber_id BIGINT REFERENCES newsletter_subscribers(id) ON DELETE SET NULL,
+    email VARCHAR(255) NOT NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'QUEUED', 'FAILED')),
+    email_id BIGINT REFERENCES email_outbox_cw(id) ON DELETE SET NULL,
+    error TEXT,
+    queued_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE (campaign_id, email)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_newsletter_campaigns_due ON newsletter_campaigns_cw(scheduled_at) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_newsletter_campaigns_status ON newsletter_campaigns_cw(status);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_pending ON newsletter_campaign_recipients_cw(campaign_id, id) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_email_id ON newsletter_campaign_recipients_cw(email_id);
@@ -0,0 +1,17 @@
+-- Newsletter double opt-in: new subscribers stay PENDING until they confirm by email
+-- Existing subscribers predate confirmation and are kept as CONFIRMED
+ALTER TABLE newsletter_subscribers ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'CONFIRMED';
+ALTER TABLE newsletter_subscribers ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+ALTER TABLE newsletter_subscribers ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMPTZ;
+
+UPDATE newsletter_subscribers SET confirmed_at = created_at WHERE status = 'CONFIRMED' AND confirmed_at IS NULL;
+
+ALTER TABLE newsletter_subscribers ALTER COLUMN status SET DEFAULT 'PENDING';
+
+ALTER TABLE newsletter_subscribers DROP CONSTRAINT IF EXISTS newsletter_subscribers_status_check;
+ALTER TABLE newsletter_subscribers ADD CONSTRAINT newsletter_subscribers_status_check
+  CHECK (status IN ('PENDING', 'CONFIRMED'));
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_newsletter_subscribers_status ON newsletter_subscribers(status);
+CREATE INDEX IF NOT EXISTS idx_newsletter_subscribers_pending ON newsletter_subscribers(created_at) WHERE status = 'PENDING';
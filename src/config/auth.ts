@@ -0,0 +1,28 @@
+// The built-in secret is public, so only an explicit development or test run may fall back to it
+const allowDevSecret = ['development', 'test'].includes(process.env.NODE_ENV || '');
+
+if (!process.env.JWT_SECRET) {
+  if (!allowDevSecret) {
+    throw new Error(
+      'JWT_SECRET must be set (NODE_ENV=development or test may use a built-in secret)'
+    );
+  }
+  if (process.env.NODE_ENV !== 'test') {
+    console.warn('⚠️ JWT_SECRET not configured, using an insecure development secret');
+  }
+}
+
+export const authConfig = {
+  jwtSecret: process.env.JWT_SECRET || 'cyberwhisper-dev-secret',
+  accessTokenTtlSeconds: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'),
+  refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+  passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+  // Reset emails a single account may request per hour
+  passwordResetMaxPerHour: parseInt(process.env.PASSWORD_RESET_MAX_PER_HOUR || '3'),
+  emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48'),
+  emailVerificationMaxPerHour: parseInt(process.env.EMAIL_VERIFICATION_MAX_PER_HOUR || '3'),
+  requireVerifiedEmailForLogin: process.env.REQUIRE_VERIFIED_EMAIL_FOR_LOGIN === 'true',
+  requireVerifiedEmailForEnrollment: process.env.REQUIRE_VERIFIED_EMAIL_FOR_ENROLLMENT !== 'false',
+};
+
+export default authConfig;
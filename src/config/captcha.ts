@@ -0,0 +1,12 @@
+if (process.env.NODE_ENV === 'production' && process.env.CAPTCHA_PROVIDER === 'stub') {
+  console.warn('⚠️ CAPTCHA_PROVIDER is "stub"; captcha checks can be passed with a fixed token');
+}
+
+export const captchaConfig = {
+  // Verifier used for public forms (see utils/captcha); "none" disables captcha checks
+  provider: process.env.CAPTCHA_PROVIDER || 'none',
+  // Token the local stub verifier accepts
+  stubToken: process.env.CAPTCHA_STUB_TOKEN || 'stub-captcha-pass',
+};
+
+export default captchaConfig;
@@ -1,4 +1,4 @@
-import { Pool, QueryResult } from 'pg';
+import { DatabaseError, Pool, PoolClient, QueryResult } from 'pg';
 
 const pool = new Pool({
   user: process.env.DB_USER || 'postgres',
@@ -38,4 +38,30 @@ export const getClient = async () => {
   return pool.connect();
 };
 
+/**
+ * Run a callback inside a transaction on a dedicated client.
+ * Commits when the callback resolves, rolls back when it throws.
+ */
+export const withTransaction = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Whether a query failed on a unique constraint
+ */
+export const isUniqueViolation = (error: unknown): boolean => {
+  return error instanceof DatabaseError && error.code === '23505';
+};
+
 export default pool;
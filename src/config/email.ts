@@ -0,0 +1,41 @@
+import path from 'path';
+
+export const emailConfig = {
+  from:
+    process.env.EMAIL_FROM ||
+    process.env.BREVO_FROM_EMAIL ||
+    process.env.BREVO_EMAIL ||
+    'noreply@cyberwhisper.com',
+  // Delivery driver: brevo | smtp | file | memory (see utils/emailTransport)
+  transport: process.env.EMAIL_TRANSPORT || 'brevo',
+  // Check the SMTP connection once at startup
+  verifyOnStartup: process.env.EMAIL_VERIFY_ON_STARTUP !== 'false',
+  brevo: {
+    user: process.env.BREVO_EMAIL || '',
+    pass: process.env.BREVO_SMTP_KEY || '',
+  },
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || '',
+    pass: process.env.SMTP_PASS || '',
+  },
+  // Where the file driver writes one JSON document per email
+  fileDir: process.env.EMAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'emails'),
+  queue: {
+    // Set to false on instances that should only enqueue (e.g. when a separate worker runs)
+    workerEnabled: process.env.EMAIL_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.EMAIL_QUEUE_POLL_INTERVAL_MS || '5000'),
+    batchSize: parseInt(process.env.EMAIL_QUEUE_BATCH_SIZE || '20'),
+    maxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5'),
+    // Retry n waits retryBaseDelaySeconds * 2^(n-1), capped at retryMaxDelaySeconds
+    retryBaseDelaySeconds: parseInt(process.env.EMAIL_RETRY_BASE_DELAY_SECONDS || '30'),
+    retryMaxDelaySeconds: parseInt(process.env.EMAIL_RETRY_MAX_DELAY_SECONDS || '3600'),
+    // Messages stuck in SENDING this long (worker crashed mid-send) are picked up again
+    staleLockMinutes: parseInt(process.env.EMAIL_STALE_LOCK_MINUTES || '10'),
+  },
+};
+
+export default emailConfig;
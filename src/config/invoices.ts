@@ -0,0 +1,15 @@
+export const invoiceConfig = {
+  // Invoice numbers look like <prefix>-<year>-<5-digit sequence>
+  prefix: process.env.INVOICE_PREFIX || 'INV',
+  // Percent applied to manual invoice lines that do not set their own tax_rate
+  defaultTaxRate: parseFloat(process.env.INVOICE_DEFAULT_TAX_RATE || '0'),
+  paymentTermsDays: parseInt(process.env.INVOICE_PAYMENT_TERMS_DAYS || '30'),
+  issuer: {
+    name: process.env.INVOICE_ISSUER_NAME || 'CyberWhisper',
+    address: process.env.INVOICE_ISSUER_ADDRESS || '',
+    email: process.env.INVOICE_ISSUER_EMAIL || process.env.BREVO_FROM_EMAIL || '',
+    taxId: process.env.INVOICE_ISSUER_TAX_ID || '',
+  },
+};
+
+export default invoiceConfig;
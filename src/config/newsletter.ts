@@ -0,0 +1,19 @@
+export const newsletterConfig = {
+  // Set to false on instances that should not send campaigns or purge expired sign-ups
+  workerEnabled: process.env.NEWSLETTER_WORKER_ENABLED !== 'false',
+  // Throttling: at most batchSize recipients per campaign are queued every batchIntervalMs
+  batchSize: parseInt(process.env.NEWSLETTER_BATCH_SIZE || '50'),
+  batchIntervalMs: parseInt(process.env.NEWSLETTER_BATCH_INTERVAL_MS || '10000'),
+  // Addresses a single test send may go to
+  testMaxRecipients: parseInt(process.env.NEWSLETTER_TEST_MAX_RECIPIENTS || '5'),
+  // Unconfirmed sign-ups (and their confirmation links) expire after this long
+  confirmTtlHours: parseInt(process.env.NEWSLETTER_CONFIRM_TTL_HOURS || '48'),
+  // Signing up again while pending resends the confirmation at most this often
+  confirmResendMinutes: parseInt(process.env.NEWSLETTER_CONFIRM_RESEND_MINUTES || '10'),
+  // Client page that handles unsubscribe links (?email=...)
+  unsubscribeUrl:
+    process.env.NEWSLETTER_UNSUBSCRIBE_URL ||
+    `${process.env.CLIENT_URL || 'http://localhost:3000'}/newsletter/unsubscribe`,
+};
+
+export default newsletterConfig;
@@ -0,0 +1,38 @@
+const provider = process.env.PAYMENT_PROVIDER || 'fake';
+
+// The fake provider pays any order without moving money, so it must be switched on explicitly
+// and is never available outside development or test
+const fakeEnabled =
+  process.env.FAKE_PAYMENTS_ENABLED === 'true' &&
+  ['development', 'test'].includes(process.env.NODE_ENV || '');
+
+if (!process.env.PAYMENT_WEBHOOK_SECRET) {
+  if (provider !== 'fake') {
+    throw new Error(`PAYMENT_WEBHOOK_SECRET must be set for the ${provider} payment provider`);
+  }
+  if (fakeEnabled && process.env.NODE_ENV !== 'test') {
+    console.warn('⚠️ PAYMENT_WEBHOOK_SECRET not configured, using an insecure development secret');
+  }
+}
+
+if (provider === 'fake' && !fakeEnabled && process.env.NODE_ENV !== 'test') {
+  console.warn(
+    '⚠️ Paid checkouts are disabled: the fake payment provider needs FAKE_PAYMENTS_ENABLED=true and NODE_ENV development or test'
+  );
+}
+
+const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+export const paymentConfig = {
+  // Gateway used for new checkouts; see utils/paymentGateway
+  provider,
+  fakeEnabled,
+  currency: (process.env.PAYMENT_CURRENCY || 'USD').toUpperCase(),
+  webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || 'cyberwhisper-dev-webhook-secret',
+  // Signed webhooks older than this are rejected as replays
+  webhookToleranceSeconds: parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300'),
+  // Where the fake provider's hosted checkout page lives
+  fakeCheckoutUrl: process.env.FAKE_PAYMENT_CHECKOUT_URL || `${apiUrl}/api/payments/fake/checkout`,
+};
+
+export default paymentConfig;
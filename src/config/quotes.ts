@@ -0,0 +1,12 @@
+export const quoteConfig = {
+  // Public quote submissions allowed per client IP per hour
+  ipMaxPerHour: parseInt(process.env.QUOTE_IP_MAX_PER_HOUR || '5'),
+  // Quotes (and therefore confirmation emails) allowed per email address per day
+  emailMaxPerDay: parseInt(process.env.QUOTE_EMAIL_MAX_PER_DAY || '3'),
+  // An identical submission from the same email within this window is treated as a resend
+  duplicateWindowMinutes: parseInt(process.env.QUOTE_DUPLICATE_WINDOW_MINUTES || '60'),
+  // Hidden form field real users leave empty; bots tend to fill it in
+  honeypotField: process.env.QUOTE_HONEYPOT_FIELD || 'website',
+};
+
+export default quoteConfig;
@@ -5,19 +5,44 @@ dotenv.config();
 
 import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
+import authRoutes from './routes/authRoutes';
 import courseRoutes from './routes/courseRoutes';
+import curriculumRoutes from './routes/curriculumRoutes';
+import quizRoutes from './routes/quizRoutes';
 import blogRoutes from './routes/blogRoutes';
 import batchRoutes from './routes/batchRoutes';
+import assignmentRoutes from './routes/assignmentRoutes';
 import userRoutes from './routes/userRoutes';
 import skillRoutes from './routes/skillRoutes';
 import quoteRoutes from './routes/quoteRoutes';
 import newsletterRoutes from './routes/newsletterRoutes';
+import newsletterCampaignRoutes from './routes/newsletterCampaignRoutes';
 import galleryRoutes from './routes/galleryRoutes';
+import certificateRoutes from './routes/certificateRoutes';
+import challengeRoutes from './routes/challengeRoutes';
+import orderRoutes from './routes/orderRoutes';
+import couponRoutes from './routes/couponRoutes';
+import invoiceRoutes from './routes/invoiceRoutes';
+import emailTemplateRoutes from './routes/emailTemplateRoutes';
+import emailRoutes from './routes/emailRoutes';
+import paymentRoutes from './routes/paymentRoutes';
 import { errorHandler } from './middleware/errorHandler';
+import { registerCertificateIssuing } from './utils/certificateService';
+import { startEmailWorker } from './utils/emailQueue';
+import { verifyEmailTransport } from './utils/emailTransport';
+import { startNewsletterWorker } from './utils/newsletterCampaigns';
+import { startSubscriptionCleanup } from './utils/newsletterSubscriptions';
+import { emailConfig } from './config/email';
 
 const app: Express = express();
 const port = process.env.PORT || 3000;
 
+// Rate limits and logs key on req.ip, which is the proxy's address behind a load balancer unless
+// the proxy is trusted. TRUST_PROXY is a hop count or a comma-separated list of proxy
+// addresses/subnets; unset trusts no proxy, so X-Forwarded-For cannot be spoofed.
+const trustProxy = process.env.TRUST_PROXY || '';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy || false);
+
 // CORS configuration
 const corsOptions = {
   origin: (origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) => {
@@ -50,6 +75,8 @@ const corsOptions = {
 
 // Middleware
 app.use(cors(corsOptions));
+// Webhook signatures are computed over the exact bytes received, so keep the raw body
+app.use('/api/payments/webhook', express.raw({ type: '*/*' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -60,6 +87,7 @@ app.get('/', (_req: Request, res: Response) => {
     status: 'running',
     version: '1.0.0',
     endpoints: {
+      auth: '/api/auth',
       courses: '/api/courses',
       blogs: '/api/blogs',
       batches: '/api/batches',
@@ -68,20 +96,34 @@ app.get('/', (_req: Request, res: Response) => {
       quotes: '/api/quotes',
       newsletter: '/api/newsletter',
       gallery: '/api/gallery',
+      certificates: '/api/certificates',
       health: '/',
     },
   });
 });
 
 // API Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/courses', courseRoutes);
+app.use('/api/courses', curriculumRoutes);
+app.use('/api/courses', quizRoutes);
 app.use('/api/blogs', blogRoutes);
 app.use('/api/batches', batchRoutes);
+app.use('/api/batches', assignmentRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/skills', skillRoutes);
 app.use('/api/quotes', quoteRoutes);
+app.use('/api/newsletter/campaigns', newsletterCampaignRoutes);
 app.use('/api/newsletter', newsletterRoutes);
 app.use('/api/gallery', galleryRoutes);
+app.use('/api/certificates', certificateRoutes);
+app.use('/api/challenges', challengeRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/email-templates', emailTemplateRoutes);
+app.use('/api/emails', emailRoutes);
+app.use('/api/payments', paymentRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -95,6 +137,17 @@ app.use((req: Request, res: Response) => {
 // Error handler middleware
 app.use(errorHandler);
 
+// Domain event hooks
+registerCertificateIssuing();
+
+// Background workers
+if (emailConfig.verifyOnStartup) {
+  verifyEmailTransport();
+}
+startEmailWorker();
+startNewsletterWorker();
+startSubscriptionCleanup();
+
 app.listen(port, () => {
   console.log(`✓ Server running on http://localhost:${port}`);
   console.log(`✓ Database: ${process.env.DB_NAME || 'cyberwhisper'}`);
@@ -0,0 +1,102 @@
+import { Response, NextFunction } from 'express';
+import { AuthSessionRepository } from '../repositories/authSessionRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { verifyAccessToken } from '../utils/tokenService';
+import { toPublicUser } from '../utils/publicUser';
+import { sendUnauthorized, sendForbidden } from './authorize';
+import { AuthenticatedRequest } from '../types/auth';
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+const getBearerToken = (req: AuthenticatedRequest): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice(7).trim() || null;
+};
+
+/**
+ * Resolve the user and session behind a request's access token.
+ * Returns false when a token is present but no longer valid.
+ */
+const resolveUser = async (req: AuthenticatedRequest, token: string): Promise<boolean> => {
+  const payload = verifyAccessToken(token);
+  if (!payload) {
+    return false;
+  }
+
+  // A revoked or expired session invalidates its access tokens immediately
+  const session = await AuthSessionRepository.getActiveSessionById(payload.sid);
+  if (!session || session.user_id !== payload.sub) {
+    return false;
+  }
+
+  const user = await UserRepository.getUserById(payload.sub);
+  if (!user || user.status !== 'ACTIVE') {
+    return false;
+  }
+
+  req.user = toPublicUser(user);
+  req.sessionId = Number(session.id);
+  return true;
+};
+
+/**
+ * Require a valid access token; responds 401 otherwise
+ */
+export const authenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    sendUnauthorized(res);
+    return;
+  }
+
+  resolveUser(req, token)
+    .then((valid) => {
+      if (!valid) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid or expired access token',
+        });
+        return;
+      }
+      next();
+    })
+    .catch(next);
+};
+
+/**
+ * Attach the user when a valid token is sent, but let anonymous callers through
+ */
+export const optionalAuthenticate = (req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    next();
+    return;
+  }
+
+  resolveUser(req, token)
+    .then(() => next())
+    .catch(next);
+};
+
+/**
+ * Require the authenticated user to have verified their email address
+ */
+export const requireVerifiedEmail = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    sendUnauthorized(res);
+    return;
+  }
+
+  if (!req.user.email_verified_at) {
+    sendForbidden(res, 'Email address not verified');
+    return;
+  }
+
+  next();
+};
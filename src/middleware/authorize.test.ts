@@ -0,0 +1,57 @@
+import { Request } from 'express';
+import { AuthenticatedRequest } from '../types/auth';
+import { UserRole } from '../types/user';
+import { pickEditableFields, Policy } from './authorize';
+
+const policy: Policy = {
+  roles: ['ADMIN'],
+  owner: { ownerId: () => 1 },
+  fields: {
+    editable: ['first_name', 'email', 'role'],
+    privileged: ['role'],
+  },
+};
+
+const request = (body: unknown, role?: UserRole): AuthenticatedRequest => {
+  const req = { body } as Request as AuthenticatedRequest;
+  if (role) {
+    req.user = { id: 1, role } as AuthenticatedRequest['user'];
+  }
+  return req;
+};
+
+describe('pickEditableFields', () => {
+  it('keeps only editable fields', () => {
+    const req = request(
+      { first_name: 'Ada', password_hash: 'x', enrolled_students: 99 },
+      'STUDENT'
+    );
+
+    expect(pickEditableFields(req, policy)).toEqual({ first_name: 'Ada' });
+  });
+
+  it('matches column names exactly, so case variants never reach SQL', () => {
+    const req = request({ ROLE: 'ADMIN', Email: 'a@b.co', 'role = $1, role': 'ADMIN' }, 'ADMIN');
+
+    expect(pickEditableFields(req, policy)).toEqual({});
+  });
+
+  it('drops privileged fields for callers granted through ownership', () => {
+    const req = request({ first_name: 'Ada', role: 'ADMIN' }, 'STUDENT');
+
+    expect(pickEditableFields(req, policy)).toEqual({ first_name: 'Ada' });
+  });
+
+  it('keeps privileged fields for callers granted through roles', () => {
+    const req = request({ first_name: 'Ada', role: 'INSTRUCTOR' }, 'ADMIN');
+
+    expect(pickEditableFields(req, policy)).toEqual({ first_name: 'Ada', role: 'INSTRUCTOR' });
+  });
+
+  it('ignores inherited properties and missing bodies', () => {
+    expect(
+      pickEditableFields(request(Object.create({ email: 'a@b.co' }), 'ADMIN'), policy)
+    ).toEqual({});
+    expect(pickEditableFields(request(undefined), policy)).toEqual({});
+  });
+});
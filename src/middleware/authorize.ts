@@ -0,0 +1,146 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types/auth';
+import { UserRole } from '../types/user';
+
+export type OwnerResolver = (
+  req: AuthenticatedRequest
+) => Promise<number | null | undefined> | number | null | undefined;
+
+export interface Policy {
+  // Roles that are always granted access
+  roles?: UserRole[];
+  // Grant access when the caller owns the resource
+  owner?: {
+    // Roles eligible for ownership access (any role when omitted)
+    roles?: UserRole[];
+    // Resolves the owning user ID; null/undefined when the resource does not exist
+    ownerId: OwnerResolver;
+  };
+  // Body fields the route may write; routes build their update data with `pickEditableFields`
+  fields?: EditableFields;
+  // Let anonymous callers through (privileged fields are still enforced)
+  allowAnonymous?: boolean;
+}
+
+export interface EditableFields {
+  // Every column the route accepts from the body; anything else is dropped
+  editable: readonly string[];
+  // Subset of `editable` only callers granted through `roles` may set
+  privileged?: readonly string[];
+}
+
+export const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    error: 'Authentication required',
+  });
+};
+
+export const sendForbidden = (res: Response, error: string = 'Insufficient permissions'): void => {
+  res.status(403).json({
+    success: false,
+    error,
+  });
+};
+
+const requestBody = (req: AuthenticatedRequest): Record<string, unknown> => {
+  return req.body && typeof req.body === 'object' ? req.body : {};
+};
+
+const hasRoleAccess = (policy: Policy, req: AuthenticatedRequest): boolean => {
+  return !!req.user && !!policy.roles && policy.roles.includes(req.user.role);
+};
+
+/**
+ * Privileged fields present in the request body
+ */
+const getSetFields = (req: AuthenticatedRequest, policy: Policy): string[] => {
+  const body = requestBody(req);
+  return (policy.fields?.privileged || []).filter((field) => body[field] !== undefined);
+};
+
+/**
+ * Copy the policy's editable fields from the request body, so only known columns ever reach a
+ * repository. Privileged fields are left out unless the caller was granted access through `roles`.
+ */
+export const pickEditableFields = <T>(req: AuthenticatedRequest, policy: Policy): Partial<T> => {
+  const body = requestBody(req);
+  const privileged = hasRoleAccess(policy, req) ? [] : policy.fields?.privileged || [];
+  const data: Record<string, unknown> = {};
+
+  for (const field of policy.fields?.editable || []) {
+    if (
+      Object.prototype.hasOwnProperty.call(body, field) &&
+      body[field] !== undefined &&
+      !privileged.includes(field)
+    ) {
+      data[field] = body[field];
+    }
+  }
+  return data as Partial<T>;
+};
+
+/**
+ * Evaluate a policy against the authenticated user.
+ * Must run after `authenticate` (or `optionalAuthenticate` for anonymous-friendly policies).
+ */
+export const authorize = (policy: Policy) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const user = req.user;
+
+    if (!user) {
+      if (!policy.allowAnonymous) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const setFields = getSetFields(req, policy);
+      if (setFields.length > 0) {
+        sendForbidden(res, `Not allowed to set: ${setFields.join(', ')}`);
+        return;
+      }
+
+      next();
+      return;
+    }
+
+    if (hasRoleAccess(policy, req)) {
+      next();
+      return;
+    }
+
+    const setFields = getSetFields(req, policy);
+    if (setFields.length > 0) {
+      sendForbidden(res, `Not allowed to set: ${setFields.join(', ')}`);
+      return;
+    }
+
+    if (policy.allowAnonymous) {
+      next();
+      return;
+    }
+
+    const owner = policy.owner;
+    if (!owner || (owner.roles && !owner.roles.includes(user.role))) {
+      sendForbidden(res);
+      return;
+    }
+
+    Promise.resolve(owner.ownerId(req))
+      .then((ownerId) => {
+        // Unknown resource: let the route answer with its own 400/404
+        if (ownerId === null || ownerId === undefined) {
+          next();
+          return;
+        }
+
+        if (Number(ownerId) !== user.id) {
+          sendForbidden(res);
+          return;
+        }
+
+        next();
+      })
+      .catch(next);
+  };
+};
@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../types/auth';
+import { Challenge } from '../types/challenge';
+import { Course } from '../types/course';
+import { UserRole } from '../types/user';
+import { ChallengeRepository } from '../repositories/challengeRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { authorize, pickEditableFields, Policy } from './authorize';
+import { policies } from './policies';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), getClient: jest.fn() }));
+
+const request = (
+  body: unknown,
+  role: UserRole,
+  id: number = 7,
+  params: Record<string, string> = {}
+): AuthenticatedRequest => {
+  const req = { body, params, query: {} } as Request as AuthenticatedRequest;
+  req.user = { id, role } as AuthenticatedRequest['user'];
+  return req;
+};
+
+const response = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+/**
+ * Run a policy and report whether the request got through, or the status it was refused with
+ */
+const evaluate = async (
+  req: AuthenticatedRequest,
+  policy: Policy = policies.courses.create
+): Promise<'next' | number> => {
+  const res = response();
+  return new Promise<'next' | number>((resolve) => {
+    res.json.mockImplementation(() => resolve(res.status.mock.calls[0][0]));
+    authorize(policy)(req, res as unknown as Response, () => resolve('next'));
+  });
+};
+
+describe('courses.create policy', () => {
+  it('lets an instructor create a course they are the creator of', async () => {
+    const req = request({ title: 'Intro to CTFs', creator: 7 }, 'INSTRUCTOR');
+
+    expect(await evaluate(req)).toBe('next');
+    expect(pickEditableFields(req, policies.courses.create)).toEqual({
+      title: 'Intro to CTFs',
+      creator: 7,
+    });
+  });
+
+  it('rejects an instructor setting privileged fields', async () => {
+    expect(
+      await evaluate(request({ title: 'Intro', creator: 7, is_top_course: 1 }, 'INSTRUCTOR'))
+    ).toBe(403);
+    expect(await evaluate(request({ title: 'Intro', creator: 7, is_admin: 1 }, 'INSTRUCTOR'))).toBe(
+      403
+    );
+  });
+
+  it('strips privileged fields from the insert data of an instructor', () => {
+    const req = request(
+      { title: 'Intro', creator: 7, is_top_course: 1, is_admin: 1 },
+      'INSTRUCTOR'
+    );
+
+    expect(pickEditableFields(req, policies.courses.create)).toEqual({
+      title: 'Intro',
+      creator: 7,
+    });
+  });
+
+  it('lets admins set privileged fields', async () => {
+    const req = request({ title: 'Intro', creator: 3, is_top_course: 1 }, 'ADMIN');
+
+    expect(await evaluate(req)).toBe('next');
+    expect(pickEditableFields(req, policies.courses.create)).toEqual({
+      title: 'Intro',
+      creator: 3,
+      is_top_course: 1,
+    });
+  });
+
+  it('drops fields that are not course columns', () => {
+    const req = request({ title: 'Intro', creator: 7, id: 99, created_at: 'now' }, 'ADMIN');
+
+    expect(pickEditableFields(req, policies.courses.create)).toEqual({
+      title: 'Intro',
+      creator: 7,
+    });
+  });
+});
+
+describe('course ownership policies', () => {
+  const course = (creator: number | null) => ({ id: 5, creator }) as Course;
+  const instructorRequest = () => request({}, 'INSTRUCTOR', 7, { id: '5' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lets the creator update the course and its curriculum', async () => {
+    jest.spyOn(CourseRepository, 'getCourseById').mockResolvedValue(course(7));
+
+    expect(await evaluate(instructorRequest(), policies.courses.update)).toBe('next');
+    expect(await evaluate(instructorRequest(), policies.courses.manageCurriculum)).toBe('next');
+  });
+
+  it('forbids other instructors', async () => {
+    jest.spyOn(CourseRepository, 'getCourseById').mockResolvedValue(course(8));
+
+    expect(await evaluate(instructorRequest(), policies.courses.update)).toBe(403);
+  });
+
+  it('forbids every instructor on a course without a creator', async () => {
+    jest.spyOn(CourseRepository, 'getCourseById').mockResolvedValue(course(null));
+
+    expect(await evaluate(instructorRequest(), policies.courses.update)).toBe(403);
+    expect(await evaluate(instructorRequest(), policies.courses.manageCurriculum)).toBe(403);
+  });
+
+  it('leaves a missing course to the route', async () => {
+    jest.spyOn(CourseRepository, 'getCourseById').mockResolvedValue(null);
+
+    expect(await evaluate(instructorRequest(), policies.courses.update)).toBe('next');
+  });
+});
+
+describe('challenge ownership policies', () => {
+  const challenge = (createdBy: number | null) => ({ id: 9, created_by: createdBy }) as Challenge;
+  const instructorRequest = () => request({}, 'INSTRUCTOR', 7, { id: '9' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lets the author update and delete the challenge', async () => {
+    jest.spyOn(ChallengeRepository, 'getChallengeById').mockResolvedValue(challenge(7));
+
+    expect(await evaluate(instructorRequest(), policies.challenges.update)).toBe('next');
+    expect(await evaluate(instructorRequest(), policies.challenges.delete)).toBe('next');
+  });
+
+  it('forbids every instructor on a challenge whose author was deleted', async () => {
+    jest.spyOn(ChallengeRepository, 'getChallengeById').mockResolvedValue(challenge(null));
+
+    expect(await evaluate(instructorRequest(), policies.challenges.update)).toBe(403);
+    expect(await evaluate(instructorRequest(), policies.challenges.delete)).toBe(403);
+  });
+
+  it('still lets admins manage it', async () => {
+    jest.spyOn(ChallengeRepository, 'getChallengeById').mockResolvedValue(challenge(null));
+
+    expect(await evaluate(request({}, 'ADMIN', 1, { id: '9' }), policies.challenges.delete)).toBe(
+      'next'
+    );
+  });
+});
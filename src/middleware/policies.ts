@@ -0,0 +1,330 @@
+import { BatchRepository } from '../repositories/batchRepository';
+import { BlogRepository } from '../repositories/blogRepository';
+import { CertificateRepository } from '../repositories/certificateRepository';
+import { ChallengeRepository } from '../repositories/challengeRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { InvoiceRepository } from '../repositories/invoiceRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import { SkillRepository } from '../repositories/skillRepository';
+import { AuthenticatedRequest } from '../types/auth';
+import { COURSE_FIELDS } from '../utils/courseValidation';
+import { EditableFields, Policy } from './authorize';
+
+/**
+ * Parse the :id route param, null when it is not numeric
+ */
+const paramId = (req: AuthenticatedRequest): number | null => {
+  const id = parseInt(req.params.id as string);
+  return isNaN(id) ? null : id;
+};
+
+/**
+ * Parse a numeric body field; NaN (never matches a user) when missing
+ */
+const bodyId = (field: string) => (req: AuthenticatedRequest): number => {
+  return parseInt(req.body?.[field]);
+};
+
+const batchInstructorId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const batch = await BatchRepository.getBatchById(id);
+  return batch ? batch.instructor_id : null;
+};
+
+const courseCreatorId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const course = await CourseRepository.getCourseById(id);
+  // Legacy courses without a creator have no owner: NaN never matches a user
+  return course ? (course.creator ?? NaN) : null;
+};
+
+const certificateOwnerId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const certificate = await CertificateRepository.getCertificateById(id);
+  return certificate ? certificate.user_id : null;
+};
+
+const challengeCreatorId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const challenge = await ChallengeRepository.getChallengeById(id);
+  // Challenges whose author was deleted have no owner: NaN never matches a user
+  return challenge ? (challenge.created_by ?? NaN) : null;
+};
+
+/**
+ * Instructor of the batch named by body batch_id; NaN (never matches a user) when missing
+ */
+const bodyBatchInstructorId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const batchId = parseInt(req.body?.batch_id);
+  if (isNaN(batchId)) return batchId;
+  const batch = await BatchRepository.getBatchById(batchId);
+  return batch ? batch.instructor_id : null;
+};
+
+const orderOwnerId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const order = await OrderRepository.getOrderById(id);
+  return order ? order.user_id : null;
+};
+
+const invoiceOwnerId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const invoice = await InvoiceRepository.getInvoiceById(id);
+  // Invoices billed to someone without an account have no owner: NaN never matches a user
+  return invoice ? (invoice.user_id ?? NaN) : null;
+};
+
+const blogAuthorId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const blog = await BlogRepository.getBlogById(id);
+  return blog ? blog.author_id : null;
+};
+
+/**
+ * Target user of an enrollment request: body user_id, defaulting to the caller
+ */
+const enrolleeId = (req: AuthenticatedRequest): number => {
+  const userId = req.body?.user_id ?? req.query.user_id;
+  if (userId === undefined) {
+    return req.user!.id;
+  }
+  return parseInt(userId);
+};
+
+const skillUserId = async (req: AuthenticatedRequest): Promise<number | null> => {
+  const id = paramId(req);
+  if (id === null) return null;
+  const skill = await SkillRepository.getSkillById(id);
+  return skill ? skill.user_id : null;
+};
+
+const adminOnly: Policy = { roles: ['ADMIN'] };
+
+// Columns writable through the API; only admins may elevate roles or change account state
+const userProfileFields = [
+  'first_name',
+  'last_name',
+  'title',
+  'email',
+  'phone',
+  'address',
+  'profile_image_url',
+  'biography',
+  'linkedin_url',
+  'github_url',
+];
+
+const userCreateFields: EditableFields = {
+  editable: [...userProfileFields, 'password', 'skills', 'role', 'is_instructor'],
+  privileged: ['role', 'is_instructor'],
+};
+
+const userUpdateFields: EditableFields = {
+  editable: [...userProfileFields, 'role', 'is_instructor', 'status', 'email_verified_at'],
+  privileged: ['role', 'is_instructor', 'status', 'email_verified_at'],
+};
+
+const courseFields: EditableFields = {
+  editable: COURSE_FIELDS,
+  privileged: ['creator', 'is_admin', 'is_top_course'],
+};
+
+// Instructors name themselves as creator on create (the owner check enforces it)
+const courseCreateFields: EditableFields = {
+  editable: COURSE_FIELDS,
+  privileged: ['is_admin', 'is_top_course'],
+};
+
+const blogFields: EditableFields = {
+  editable: [
+    'title',
+    'slug',
+    'category_id',
+    'author_id',
+    'content',
+    'keywords',
+    'short_description',
+    'reading_time',
+    'thumbnail_url',
+    'banner_url',
+    'image_alt_text',
+    'image_caption',
+    'is_popular',
+    'status',
+    'publish_date',
+    'visibility',
+    'seo_title',
+    'seo_description',
+    'focus_keyword',
+    'canonical_url',
+    'meta_robots',
+    'allow_comments',
+    'show_on_homepage',
+    'is_sticky',
+  ],
+  privileged: ['author_id'],
+};
+
+// Seat counts (enrolled_students) are maintained by enrollments, never written directly
+const batchFields: EditableFields = {
+  editable: [
+    'program_name',
+    'program_type',
+    'start_date',
+    'end_date',
+    'start_time',
+    'end_time',
+    'schedule_type',
+    'max_students',
+    'duration_weeks',
+    'instructor_id',
+    'price',
+    'discount_price',
+    'description',
+    'status',
+  ],
+  privileged: ['instructor_id'],
+};
+
+const challengeFields: EditableFields = {
+  editable: [
+    'title',
+    'category',
+    'description',
+    'batch_id',
+    'difficulty',
+    'points',
+    'flag',
+    'is_published',
+    'hints',
+  ],
+  privileged: ['batch_id'],
+};
+
+/**
+ * Access rules for every protected route, grouped by resource
+ */
+export const policies = {
+  users: {
+    // Public signup, but only admins may hand out elevated roles
+    create: {
+      roles: ['ADMIN'],
+      allowAnonymous: true,
+      fields: userCreateFields,
+    },
+    list: adminOnly,
+    view: { roles: ['ADMIN'], owner: { ownerId: paramId } },
+    update: {
+      roles: ['ADMIN'],
+      owner: { ownerId: paramId },
+      fields: userUpdateFields,
+    },
+    // Requires the current password, so only the account owner may change it
+    changePassword: { owner: { ownerId: paramId } },
+    delete: adminOnly,
+  },
+  courses: {
+    create: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: bodyId('creator') },
+      fields: courseCreateFields,
+    },
+    update: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: courseCreatorId },
+      fields: courseFields,
+    },
+    delete: adminOnly,
+    manageCurriculum: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: courseCreatorId },
+    },
+  },
+  skills: {
+    create: { roles: ['ADMIN'], owner: { ownerId: bodyId('user_id') } },
+    update: { roles: ['ADMIN'], owner: { ownerId: skillUserId } },
+    delete: { roles: ['ADMIN'], owner: { ownerId: skillUserId } },
+  },
+  blogs: {
+    uploadImage: { roles: ['ADMIN', 'INSTRUCTOR'] },
+    create: { roles: ['ADMIN'], owner: { roles: ['INSTRUCTOR'], ownerId: bodyId('author_id') } },
+    update: {
+      roles: ['ADMIN'],
+      owner: { ownerId: blogAuthorId },
+      fields: blogFields,
+    },
+    delete: { roles: ['ADMIN'], owner: { ownerId: blogAuthorId } },
+  },
+  batches: {
+    create: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: bodyId('instructor_id') },
+    },
+    update: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: batchInstructorId },
+      fields: batchFields,
+    },
+    delete: adminOnly,
+    viewStudents: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: batchInstructorId },
+    },
+    manageAssignments: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: batchInstructorId },
+    },
+    // Students manage their own enrollment; admins may act for anyone
+    enroll: { roles: ['ADMIN'], owner: { ownerId: enrolleeId } },
+  },
+  // Global challenges are admin-only; instructors author challenges for their own batches
+  challenges: {
+    create: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: bodyBatchInstructorId },
+    },
+    update: {
+      roles: ['ADMIN'],
+      owner: { roles: ['INSTRUCTOR'], ownerId: challengeCreatorId },
+      fields: challengeFields,
+    },
+    delete: { roles: ['ADMIN'], owner: { roles: ['INSTRUCTOR'], ownerId: challengeCreatorId } },
+  },
+  coupons: {
+    manage: adminOnly,
+  },
+  orders: {
+    list: adminOnly,
+    view: { roles: ['ADMIN'], owner: { ownerId: orderOwnerId } },
+    cancel: { roles: ['ADMIN'], owner: { ownerId: orderOwnerId } },
+  },
+  invoices: {
+    manage: adminOnly,
+    view: { roles: ['ADMIN'], owner: { ownerId: invoiceOwnerId } },
+  },
+  certificates: {
+    view: { roles: ['ADMIN'], owner: { ownerId: certificateOwnerId } },
+  },
+  gallery: {
+    manage: adminOnly,
+  },
+  quotes: {
+    manage: adminOnly,
+  },
+  newsletter: {
+    manage: adminOnly,
+  },
+  emailTemplates: {
+    manage: adminOnly,
+  },
+  emails: {
+    manage: adminOnly,
+  },
+} satisfies Record<string, Record<string, Policy>>;
@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitOptions {
+  // Length of the counting window in milliseconds
+  windowMs: number;
+  // Requests allowed per key within the window
+  max: number;
+  // Derives the bucket key; returning null skips limiting for the request
+  key?: (req: Request) => string | null | undefined;
+  message?: string;
+}
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window in-memory rate limiter.
+ * Counters live in process memory, so limits apply per server instance. The default key is the
+ * client IP, which is only correct behind a proxy when TRUST_PROXY is configured.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const { windowMs, max, message = 'Too many requests, please try again later' } = options;
+  const getKey = options.key || ((req: Request) => req.ip);
+  const buckets = new Map<string, Bucket>();
+
+  // Drop expired buckets so the map does not grow unbounded
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = getKey(req);
+    if (!key) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + windowMs };
+      buckets.set(key, bucket);
+    }
+
+    bucket.count++;
+
+    if (bucket.count > max) {
+      res.setHeader('Retry-After', Math.ceil((bucket.resetAt - now) / 1000).toString());
+      res.status(429).json({
+        success: false,
+        error: message,
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,276 @@
+import { query } from '../config/database';
+import {
+  Assignment,
+  AssignmentSubmission,
+  SubmissionWithStudent,
+  CreateAssignmentRequest,
+  UpdateAssignmentRequest,
+  SubmitAssignmentData,
+  GradeSubmissionRequest,
+  Gradebook,
+} from '../types/assignment';
+
+export class AssignmentRepository {
+  /**
+   * Create an assignment for a batch
+   */
+  static async createAssignment(
+    batchId: number,
+    createdBy: number,
+    data: CreateAssignmentRequest
+  ): Promise<Assignment> {
+    const result = await query(
+      `INSERT INTO assignments_cw (batch_id, title, description, due_at, max_points, allow_late_submissions, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        batchId,
+        data.title,
+        data.description || null,
+        data.due_at || null,
+        data.max_points ?? 100,
+        data.allow_late_submissions ?? true,
+        createdBy,
+      ]
+    );
+    return result.rows[0] as Assignment;
+  }
+
+  /**
+   * Get the assignments of a batch, soonest due first
+   */
+  static async getAssignmentsByBatch(batchId: number): Promise<Assignment[]> {
+    const result = await query(
+      `SELECT * FROM assignments_cw WHERE batch_id = $1
+       ORDER BY due_at ASC NULLS LAST, created_at ASC`,
+      [batchId]
+    );
+    return result.rows as Assignment[];
+  }
+
+  /**
+   * Get an assignment by ID, scoped to its batch
+   */
+  static async getAssignmentById(batchId: number, id: number): Promise<Assignment | null> {
+    const result = await query('SELECT * FROM assignments_cw WHERE id = $1 AND batch_id = $2', [
+      id,
+      batchId,
+    ]);
+    return result.rows.length > 0 ? (result.rows[0] as Assignment) : null;
+  }
+
+  /**
+   * Update assignment
+   */
+  static async updateAssignment(
+    batchId: number,
+    id: number,
+    data: UpdateAssignmentRequest
+  ): Promise<Assignment | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getAssignmentById(batchId, id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, batchId);
+
+    const result = await query(
+      `UPDATE assignments_cw
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND batch_id = $${paramIndex + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Assignment) : null;
+  }
+
+  /**
+   * Delete assignment together with its submissions
+   */
+  static async deleteAssignment(batchId: number, id: number): Promise<boolean> {
+    const result = await query('DELETE FROM assignments_cw WHERE id = $1 AND batch_id = $2', [
+      id,
+      batchId,
+    ]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Get Cloudinary IDs of every submitted file of an assignment (for cleanup on delete)
+   */
+  static async getSubmissionFileIds(assignmentId: number): Promise<string[]> {
+    const result = await query(
+      `SELECT file_public_id FROM assignment_submissions_cw
+       WHERE assignment_id = $1 AND file_public_id IS NOT NULL`,
+      [assignmentId]
+    );
+    return result.rows.map((row) => row.file_public_id);
+  }
+
+  /**
+   * Get a student's submission for an assignment
+   */
+  static async getSubmission(
+    assignmentId: number,
+    userId: number
+  ): Promise<AssignmentSubmission | null> {
+    const result = await query(
+      'SELECT * FROM assignment_submissions_cw WHERE assignment_id = $1 AND user_id = $2',
+      [assignmentId, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AssignmentSubmission) : null;
+  }
+
+  /**
+   * Get a submission by ID, scoped to its assignment
+   */
+  static async getSubmissionById(
+    assignmentId: number,
+    id: number
+  ): Promise<AssignmentSubmission | null> {
+    const result = await query(
+      'SELECT * FROM assignment_submissions_cw WHERE id = $1 AND assignment_id = $2',
+      [id, assignmentId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AssignmentSubmission) : null;
+  }
+
+  /**
+   * Create or replace a student's submission. Graded submissions are never replaced;
+   * returns null in that case.
+   */
+  static async submit(
+    assignmentId: number,
+    userId: number,
+    data: SubmitAssignmentData
+  ): Promise<AssignmentSubmission | null> {
+    const result = await query(
+      `INSERT INTO assignment_submissions_cw (
+        assignment_id, user_id, text_response, file_url, file_public_id, file_name, is_late
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (assignment_id, user_id) DO UPDATE
+      SET text_response = EXCLUDED.text_response,
+          file_url = EXCLUDED.file_url,
+          file_public_id = EXCLUDED.file_public_id,
+          file_name = EXCLUDED.file_name,
+          is_late = EXCLUDED.is_late,
+          submitted_at = NOW(),
+          updated_at = NOW()
+      WHERE assignment_submissions_cw.status = 'SUBMITTED'
+      RETURNING *`,
+      [
+        assignmentId,
+        userId,
+        data.text_response,
+        data.file_url,
+        data.file_public_id,
+        data.file_name,
+        data.is_late,
+      ]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AssignmentSubmission) : null;
+  }
+
+  /**
+   * Get all submissions of an assignment with student details
+   */
+  static async getSubmissions(assignmentId: number): Promise<SubmissionWithStudent[]> {
+    const result = await query(
+      `SELECT s.*, u.first_name, u.last_name, u.email
+       FROM assignment_submissions_cw s
+       JOIN users_cw u ON u.id = s.user_id
+       WHERE s.assignment_id = $1
+       ORDER BY s.submitted_at ASC`,
+      [assignmentId]
+    );
+    return result.rows as SubmissionWithStudent[];
+  }
+
+  /**
+   * Grade a submission (regrading overwrites the previous grade)
+   */
+  static async gradeSubmission(
+    assignmentId: number,
+    id: number,
+    gradedBy: number,
+    data: GradeSubmissionRequest
+  ): Promise<AssignmentSubmission | null> {
+    const result = await query(
+      `UPDATE assignment_submissions_cw
+       SET status = 'GRADED', points = $1, feedback = $2, graded_by = $3, graded_at = NOW(), updated_at = NOW()
+       WHERE id = $4 AND assignment_id = $5
+       RETURNING *`,
+      [data.points, data.feedback || null, gradedBy, id, assignmentId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AssignmentSubmission) : null;
+  }
+
+  /**
+   * Build the gradebook of a batch: every enrolled student against every assignment
+   */
+  static async getGradebook(batchId: number): Promise<Gradebook> {
+    const assignments = await this.getAssignmentsByBatch(batchId);
+
+    const studentsResult = await query(
+      `SELECT u.id AS user_id, u.first_name, u.last_name, u.email
+       FROM batch_enrollments_cw e
+       JOIN users_cw u ON u.id = e.user_id
+       WHERE e.batch_id = $1 AND e.status = 'ENROLLED'
+       ORDER BY u.last_name ASC, u.first_name ASC`,
+      [batchId]
+    );
+
+    const submissionsResult = await query(
+      `SELECT s.* FROM assignment_submissions_cw s
+       JOIN assignments_cw a ON a.id = s.assignment_id
+       WHERE a.batch_id = $1`,
+      [batchId]
+    );
+    const submissions = submissionsResult.rows as AssignmentSubmission[];
+
+    const students = studentsResult.rows.map((student) => {
+      const grades = assignments.map((assignment) => {
+        const submission = submissions.find(
+          (item) =>
+            Number(item.assignment_id) === Number(assignment.id) && item.user_id === student.user_id
+        );
+        return {
+          assignment_id: assignment.id,
+          status: submission ? submission.status : ('MISSING' as const),
+          points: submission ? submission.points : null,
+          is_late: submission ? submission.is_late : false,
+          submitted_at: submission ? submission.submitted_at : null,
+        };
+      });
+
+      return {
+        ...student,
+        grades,
+        total_points: grades.reduce((sum, grade) => sum + (grade.points || 0), 0),
+      };
+    });
+
+    return {
+      batch_id: batchId,
+      assignments: assignments.map(({ id, title, due_at, max_points }) => ({
+        id,
+        title,
+        due_at,
+        max_points,
+      })),
+      max_total_points: assignments.reduce((sum, assignment) => sum + assignment.max_points, 0),
+      students,
+    };
+  }
+}
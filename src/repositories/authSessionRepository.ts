@@ -0,0 +1,113 @@
+import { query } from '../config/database';
+import { AuthSession } from '../types/auth';
+
+export class AuthSessionRepository {
+  /**
+   * Create a new session for a user
+   */
+  static async createSession(data: {
+    user_id: number;
+    refresh_token_hash: string;
+    expires_at: Date;
+    user_agent?: string;
+    ip_address?: string;
+  }): Promise<AuthSession> {
+    const { user_id, refresh_token_hash, expires_at, user_agent, ip_address } = data;
+
+    const result = await query(
+      `INSERT INTO auth_sessions_cw (user_id, refresh_token_hash, expires_at, user_agent, ip_address)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [user_id, refresh_token_hash, expires_at, user_agent || null, ip_address || null]
+    );
+
+    return result.rows[0] as AuthSession;
+  }
+
+  /**
+   * Get a session that is neither revoked nor expired
+   */
+  static async getActiveSessionById(id: number): Promise<AuthSession | null> {
+    const result = await query(
+      `SELECT * FROM auth_sessions_cw
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [id]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AuthSession) : null;
+  }
+
+  /**
+   * Get an active session by refresh token hash
+   */
+  static async getActiveSessionByTokenHash(refreshTokenHash: string): Promise<AuthSession | null> {
+    const result = await query(
+      `SELECT * FROM auth_sessions_cw
+       WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [refreshTokenHash]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AuthSession) : null;
+  }
+
+  /**
+   * Get active sessions for a user
+   */
+  static async getActiveSessionsByUser(userId: number): Promise<AuthSession[]> {
+    const result = await query(
+      `SELECT * FROM auth_sessions_cw
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+    return result.rows as AuthSession[];
+  }
+
+  /**
+   * Replace the refresh token of an active session (token rotation)
+   */
+  static async rotateRefreshToken(
+    id: number,
+    currentHash: string,
+    newHash: string,
+    expiresAt: Date
+  ): Promise<AuthSession | null> {
+    const result = await query(
+      `UPDATE auth_sessions_cw
+       SET refresh_token_hash = $1, expires_at = $2, last_used_at = NOW()
+       WHERE id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL
+       RETURNING *`,
+      [newHash, expiresAt, id, currentHash]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as AuthSession) : null;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(id: number, userId?: number): Promise<boolean> {
+    const params: any[] = [id];
+    let userClause = '';
+    if (userId !== undefined) {
+      userClause = 'AND user_id = $2';
+      params.push(userId);
+    }
+
+    const result = await query(
+      `UPDATE auth_sessions_cw SET revoked_at = NOW()
+       WHERE id = $1 ${userClause} AND revoked_at IS NULL`,
+      params
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (e.g. the current session)
+   */
+  static async revokeAllForUser(userId: number, exceptSessionId?: number): Promise<number> {
+    const result = await query(
+      `UPDATE auth_sessions_cw SET revoked_at = NOW()
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($2::BIGINT IS NULL OR id <> $2)`,
+      [userId, exceptSessionId ?? null]
+    );
+    return result.rowCount ?? 0;
+  }
+}
@@ -110,6 +110,20 @@ export class BatchRepository {
     return result.rows.length > 0 ? (result.rows[0] as Batch) : null;
   }
 
+  /**
+   * Get the soonest-starting batch of a course that is still open for enrollment
+   */
+  static async getNextOpenBatch(courseId: number): Promise<Batch | null> {
+    const result = await query(
+      `SELECT * FROM batches_cw
+       WHERE course_id = $1 AND status IN ('ACTIVE', 'UPCOMING') AND start_date >= CURRENT_DATE
+       ORDER BY start_date ASC
+       LIMIT 1`,
+      [courseId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Batch) : null;
+  }
+
   /**
    * Get batches by course ID
    */
@@ -194,7 +208,7 @@ export class BatchRepository {
       return this.getBatchById(id);
     }
 
-    updates.push(`updated_at = NOW()`);
+    updates.push('updated_at = NOW()');
     values.push(id);
 
     const result = await query(
@@ -141,7 +141,7 @@ export class BlogRepository {
       return this.getBlogById(id);
     }
 
-    updates.push(`updated_at = CURRENT_TIMESTAMP`);
+    updates.push('updated_at = CURRENT_TIMESTAMP');
     values.push(id);
 
     const updateQuery = `
@@ -168,7 +168,7 @@ export class BlogRepository {
    */
   static async getPopularBlogs(limit: number = 5): Promise<Blog[]> {
     const result = await query(
-      `SELECT * FROM blogs_cw WHERE is_popular = true AND status = 'PUBLISHED' AND visibility = 'PUBLIC' ORDER BY created_at DESC LIMIT $1`,
+      'SELECT * FROM blogs_cw WHERE is_popular = true AND status = \'PUBLISHED\' AND visibility = \'PUBLIC\' ORDER BY created_at DESC LIMIT $1',
       [limit]
     );
     return result.rows as Blog[];
@@ -185,7 +185,7 @@ export class BlogRepository {
     const total = parseInt(countResult.rows[0].count);
 
     const result = await query(
-      `SELECT * FROM blogs_cw WHERE category_id = $1 AND status = $2 AND visibility = $3 ORDER BY created_at DESC LIMIT $4 OFFSET $5`,
+      'SELECT * FROM blogs_cw WHERE category_id = $1 AND status = $2 AND visibility = $3 ORDER BY created_at DESC LIMIT $4 OFFSET $5',
       [categoryId, 'PUBLISHED', 'PUBLIC', limit, offset]
     );
 
@@ -199,13 +199,13 @@ export class BlogRepository {
     const searchPattern = `%${searchTerm}%`;
 
     const countResult = await query(
-      `SELECT COUNT(*) as count FROM blogs_cw WHERE (title ILIKE $1 OR keywords ILIKE $1) AND status = $2 AND visibility = $3`,
+      'SELECT COUNT(*) as count FROM blogs_cw WHERE (title ILIKE $1 OR keywords ILIKE $1) AND status = $2 AND visibility = $3',
       [searchPattern, 'PUBLISHED', 'PUBLIC']
     );
     const total = parseInt(countResult.rows[0].count);
 
     const result = await query(
-      `SELECT * FROM blogs_cw WHERE (title ILIKE $1 OR keywords ILIKE $1) AND status = $2 AND visibility = $3 ORDER BY created_at DESC LIMIT $4 OFFSET $5`,
+      'SELECT * FROM blogs_cw WHERE (title ILIKE $1 OR keywords ILIKE $1) AND status = $2 AND visibility = $3 ORDER BY created_at DESC LIMIT $4 OFFSET $5',
       [searchPattern, 'PUBLISHED', 'PUBLIC', limit, offset]
     );
 
@@ -217,7 +217,7 @@ export class BlogRepository {
    */
   static async getStickyBlogs(limit: number = 5): Promise<Blog[]> {
     const result = await query(
-      `SELECT * FROM blogs_cw WHERE is_sticky = true AND status = 'PUBLISHED' AND visibility = 'PUBLIC' ORDER BY created_at DESC LIMIT $1`,
+      'SELECT * FROM blogs_cw WHERE is_sticky = true AND status = \'PUBLISHED\' AND visibility = \'PUBLIC\' ORDER BY created_at DESC LIMIT $1',
       [limit]
     );
     return result.rows as Blog[];
@@ -228,7 +228,7 @@ export class BlogRepository {
    */
   static async getHomepageBlogs(limit: number = 10): Promise<Blog[]> {
     const result = await query(
-      `SELECT * FROM blogs_cw WHERE show_on_homepage = true AND status = 'PUBLISHED' AND visibility = 'PUBLIC' ORDER BY created_at DESC LIMIT $1`,
+      'SELECT * FROM blogs_cw WHERE show_on_homepage = true AND status = \'PUBLISHED\' AND visibility = \'PUBLIC\' ORDER BY created_at DESC LIMIT $1',
       [limit]
     );
     return result.rows as Blog[];
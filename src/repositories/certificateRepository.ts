@@ -0,0 +1,88 @@
+import { query } from '../config/database';
+import { Certificate, CreateCertificateRequest } from '../types/certificate';
+
+export class CertificateRepository {
+  /**
+   * Create a certificate; returns null when the student already holds one for the course
+   */
+  static async createCertificate(data: CreateCertificateRequest): Promise<Certificate | null> {
+    const result = await query(
+      `INSERT INTO certificates_cw (
+        user_id, course_id, batch_id, verification_code, student_name,
+        course_title, program_name, instructor_name, completed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (user_id, course_id) DO NOTHING
+      RETURNING *`,
+      [
+        data.user_id,
+        data.course_id,
+        data.batch_id || null,
+        data.verification_code,
+        data.student_name,
+        data.course_title,
+        data.program_name || null,
+        data.instructor_name || null,
+        data.completed_at,
+      ]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Certificate) : null;
+  }
+
+  /**
+   * Attach the stored PDF to a certificate
+   */
+  static async setPdf(
+    id: number,
+    pdfUrl: string,
+    pdfPublicId: string
+  ): Promise<Certificate | null> {
+    const result = await query(
+      'UPDATE certificates_cw SET pdf_url = $1, pdf_public_id = $2 WHERE id = $3 RETURNING *',
+      [pdfUrl, pdfPublicId, id]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Certificate) : null;
+  }
+
+  /**
+   * Get certificate by ID
+   */
+  static async getCertificateById(id: number): Promise<Certificate | null> {
+    const result = await query('SELECT * FROM certificates_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as Certificate) : null;
+  }
+
+  /**
+   * Get certificate by its public verification code
+   */
+  static async getCertificateByCode(code: string): Promise<Certificate | null> {
+    const result = await query('SELECT * FROM certificates_cw WHERE verification_code = $1', [
+      code,
+    ]);
+    return result.rows.length > 0 ? (result.rows[0] as Certificate) : null;
+  }
+
+  /**
+   * Get a student's certificate for a course
+   */
+  static async getCertificateForCourse(
+    userId: number,
+    courseId: number
+  ): Promise<Certificate | null> {
+    const result = await query(
+      'SELECT * FROM certificates_cw WHERE user_id = $1 AND course_id = $2',
+      [userId, courseId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Certificate) : null;
+  }
+
+  /**
+   * Get all certificates of a student, newest first
+   */
+  static async getCertificatesByUser(userId: number): Promise<Certificate[]> {
+    const result = await query(
+      'SELECT * FROM certificates_cw WHERE user_id = $1 ORDER BY issued_at DESC',
+      [userId]
+    );
+    return result.rows as Certificate[];
+  }
+}
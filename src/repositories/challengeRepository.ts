@@ -0,0 +1,352 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import {
+  Challenge,
+  ChallengeFields,
+  ChallengeFilters,
+  ChallengeHint,
+  ChallengeSolve,
+  ChallengeSummary,
+  HintInput,
+  PlayerHint,
+  ScoreboardEntry,
+  SubmitFlagResult,
+} from '../types/challenge';
+
+// Columns returned to API callers (everything but flag_hash)
+const PUBLIC_COLUMNS = `c.id, c.batch_id, c.title, c.description, c.category, c.difficulty, c.points,
+  c.is_published, c.created_by, c.created_at, c.updated_at`;
+
+export class ChallengeRepository {
+  /**
+   * Replace the hints of a challenge, keeping the given order
+   */
+  private static async replaceHints(
+    client: PoolClient,
+    challengeId: number,
+    hints: HintInput[]
+  ): Promise<void> {
+    await client.query('DELETE FROM challenge_hints_cw WHERE challenge_id = $1', [challengeId]);
+
+    for (const [index, hint] of hints.entries()) {
+      await client.query(
+        `INSERT INTO challenge_hints_cw (challenge_id, content, cost, sort_order)
+         VALUES ($1, $2, $3, $4)`,
+        [challengeId, hint.content, hint.cost ?? 0, index]
+      );
+    }
+  }
+
+  /**
+   * Create a challenge together with its hints
+   */
+  static async createChallenge(
+    createdBy: number,
+    fields: ChallengeFields,
+    hints: HintInput[] = []
+  ): Promise<Challenge> {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO challenges_cw (
+          batch_id, title, description, category, difficulty, points, flag_hash, is_published, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          fields.batch_id ?? null,
+          fields.title,
+          fields.description || null,
+          fields.category,
+          fields.difficulty,
+          fields.points,
+          fields.flag_hash,
+          fields.is_published ?? false,
+          createdBy,
+        ]
+      );
+      const challenge = result.rows[0] as Challenge;
+
+      await this.replaceHints(client, challenge.id, hints);
+
+      return challenge;
+    });
+  }
+
+  /**
+   * Get challenge by ID (including the flag hash)
+   */
+  static async getChallengeById(id: number): Promise<Challenge | null> {
+    const result = await query('SELECT * FROM challenges_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as Challenge) : null;
+  }
+
+  /**
+   * List challenges with solve counts and whether the given user solved each one.
+   * `batch_id: null` selects global challenges; omit it to list every challenge.
+   */
+  static async getChallenges(
+    filters: ChallengeFilters,
+    userId: number
+  ): Promise<ChallengeSummary[]> {
+    const conditions: string[] = [];
+    const values: any[] = [userId];
+    let paramIndex = 2;
+
+    if (filters.batch_id === null) {
+      conditions.push('c.batch_id IS NULL');
+    } else if (filters.batch_id !== undefined) {
+      conditions.push(`c.batch_id = $${paramIndex++}`);
+      values.push(filters.batch_id);
+    }
+
+    if (filters.category) {
+      conditions.push(`c.category = $${paramIndex++}`);
+      values.push(filters.category);
+    }
+
+    if (filters.difficulty) {
+      conditions.push(`c.difficulty = $${paramIndex++}`);
+      values.push(filters.difficulty);
+    }
+
+    if (!filters.include_unpublished) {
+      conditions.push('c.is_published = TRUE');
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await query(
+      `SELECT ${PUBLIC_COLUMNS},
+        (SELECT COUNT(*) FROM challenge_solves_cw s WHERE s.challenge_id = c.id)::int AS solve_count,
+        EXISTS (
+          SELECT 1 FROM challenge_solves_cw s WHERE s.challenge_id = c.id AND s.user_id = $1
+        ) AS solved
+       FROM challenges_cw c
+       ${whereClause}
+       ORDER BY c.category ASC, c.points ASC, c.id ASC`,
+      values
+    );
+    return result.rows as ChallengeSummary[];
+  }
+
+  /**
+   * Get a single challenge summary for a user
+   */
+  static async getChallengeSummary(id: number, userId: number): Promise<ChallengeSummary | null> {
+    const result = await query(
+      `SELECT ${PUBLIC_COLUMNS},
+        (SELECT COUNT(*) FROM challenge_solves_cw s WHERE s.challenge_id = c.id)::int AS solve_count,
+        EXISTS (
+          SELECT 1 FROM challenge_solves_cw s WHERE s.challenge_id = c.id AND s.user_id = $2
+        ) AS solved
+       FROM challenges_cw c
+       WHERE c.id = $1`,
+      [id, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as ChallengeSummary) : null;
+  }
+
+  /**
+   * Update a challenge; when `hints` is given the existing hints (and their unlocks) are replaced
+   */
+  static async updateChallenge(
+    id: number,
+    fields: ChallengeFields,
+    hints?: HintInput[]
+  ): Promise<Challenge | null> {
+    return withTransaction(async (client) => {
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) {
+          updates.push(`${key} = $${paramIndex++}`);
+          values.push(value);
+        }
+      });
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+
+      const result = await client.query(
+        `UPDATE challenges_cw
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex}
+         RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      if (hints) {
+        await this.replaceHints(client, id, hints);
+      }
+
+      return result.rows[0] as Challenge;
+    });
+  }
+
+  /**
+   * Delete challenge together with its hints and solves
+   */
+  static async deleteChallenge(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM challenges_cw WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Get every hint of a challenge (staff view)
+   */
+  static async getHints(challengeId: number): Promise<ChallengeHint[]> {
+    const result = await query(
+      'SELECT * FROM challenge_hints_cw WHERE challenge_id = $1 ORDER BY sort_order ASC',
+      [challengeId]
+    );
+    return result.rows as ChallengeHint[];
+  }
+
+  /**
+   * Get the hints of a challenge as seen by a player; locked hints hide their content
+   */
+  static async getPlayerHints(challengeId: number, userId: number): Promise<PlayerHint[]> {
+    const result = await query(
+      `SELECT h.id, h.cost, h.sort_order,
+        (u.id IS NOT NULL) AS unlocked,
+        CASE WHEN u.id IS NOT NULL THEN h.content ELSE NULL END AS content
+       FROM challenge_hints_cw h
+       LEFT JOIN challenge_hint_unlocks_cw u ON u.hint_id = h.id AND u.user_id = $2
+       WHERE h.challenge_id = $1
+       ORDER BY h.sort_order ASC`,
+      [challengeId, userId]
+    );
+    return result.rows as PlayerHint[];
+  }
+
+  /**
+   * Unlock a hint for a user (unlocking twice is a no-op)
+   */
+  static async unlockHint(
+    challengeId: number,
+    hintId: number,
+    userId: number
+  ): Promise<ChallengeHint | null> {
+    const hintResult = await query(
+      'SELECT * FROM challenge_hints_cw WHERE id = $1 AND challenge_id = $2',
+      [hintId, challengeId]
+    );
+    if (hintResult.rows.length === 0) {
+      return null;
+    }
+
+    await query(
+      `INSERT INTO challenge_hint_unlocks_cw (hint_id, user_id)
+       VALUES ($1, $2)
+       ON CONFLICT (hint_id, user_id) DO NOTHING`,
+      [hintId, userId]
+    );
+
+    return hintResult.rows[0] as ChallengeHint;
+  }
+
+  /**
+   * Get a user's solve of a challenge
+   */
+  static async getSolve(challengeId: number, userId: number): Promise<ChallengeSolve | null> {
+    const result = await query(
+      'SELECT * FROM challenge_solves_cw WHERE challenge_id = $1 AND user_id = $2',
+      [challengeId, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as ChallengeSolve) : null;
+  }
+
+  /**
+   * Record a flag submission and, when correct, the solve.
+   * Awarded points are the challenge points minus the cost of hints the user unlocked.
+   */
+  static async submitFlag(
+    challenge: Challenge,
+    userId: number,
+    isCorrect: boolean,
+    ipAddress?: string
+  ): Promise<SubmitFlagResult> {
+    return withTransaction(async (client) => {
+      const existing = await client.query(
+        'SELECT * FROM challenge_solves_cw WHERE challenge_id = $1 AND user_id = $2',
+        [challenge.id, userId]
+      );
+      if (existing.rows.length > 0) {
+        return { outcome: 'ALREADY_SOLVED', solve: existing.rows[0] as ChallengeSolve };
+      }
+
+      await client.query(
+        `INSERT INTO challenge_submissions_cw (challenge_id, user_id, is_correct, ip_address)
+         VALUES ($1, $2, $3, $4)`,
+        [challenge.id, userId, isCorrect, ipAddress || null]
+      );
+
+      if (!isCorrect) {
+        return { outcome: 'INCORRECT' };
+      }
+
+      const costResult = await client.query(
+        `SELECT COALESCE(SUM(h.cost), 0) AS cost
+         FROM challenge_hints_cw h
+         JOIN challenge_hint_unlocks_cw u ON u.hint_id = h.id
+         WHERE h.challenge_id = $1 AND u.user_id = $2`,
+        [challenge.id, userId]
+      );
+      const hintCost = parseInt(costResult.rows[0].cost);
+
+      const solveResult = await client.query(
+        `INSERT INTO challenge_solves_cw (challenge_id, user_id, points_awarded)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (challenge_id, user_id) DO NOTHING
+         RETURNING *`,
+        [challenge.id, userId, Math.max(challenge.points - hintCost, 0)]
+      );
+
+      // A concurrent request solved it first
+      if (solveResult.rows.length === 0) {
+        return { outcome: 'ALREADY_SOLVED' };
+      }
+
+      return { outcome: 'SOLVED', solve: solveResult.rows[0] as ChallengeSolve };
+    });
+  }
+
+  /**
+   * Rank players by awarded points; ties go to whoever reached the score first.
+   * With a batch ID only that batch's challenges count, otherwise every solve does.
+   */
+  static async getScoreboard(
+    batchId: number | null,
+    limit: number = 50
+  ): Promise<ScoreboardEntry[]> {
+    const values: any[] = [limit];
+    let batchClause = '';
+    if (batchId !== null) {
+      batchClause = 'WHERE c.batch_id = $2';
+      values.push(batchId);
+    }
+
+    const result = await query(
+      `SELECT
+        RANK() OVER (ORDER BY SUM(s.points_awarded) DESC, MAX(s.solved_at) ASC)::int AS rank,
+        u.id AS user_id, u.first_name, u.last_name,
+        SUM(s.points_awarded)::int AS score,
+        COUNT(*)::int AS solves,
+        MAX(s.solved_at) AS last_solved_at
+       FROM challenge_solves_cw s
+       JOIN challenges_cw c ON c.id = s.challenge_id
+       JOIN users_cw u ON u.id = s.user_id
+       ${batchClause}
+       GROUP BY u.id, u.first_name, u.last_name
+       ORDER BY rank ASC
+       LIMIT $1`,
+      values
+    );
+    return result.rows as ScoreboardEntry[];
+  }
+}
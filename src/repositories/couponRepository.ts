@@ -0,0 +1,270 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import {
+  Coupon,
+  CouponRedemptionWithUser,
+  CouponScope,
+  CouponUsage,
+  CouponWithScopes,
+  CreateCouponRequest,
+  UpdateCouponRequest,
+} from '../types/coupon';
+
+export class CouponRepository {
+  /**
+   * Replace the scopes of a coupon
+   */
+  private static async replaceScopes(
+    client: PoolClient,
+    couponId: number,
+    scopes: CouponScope[]
+  ): Promise<void> {
+    await client.query('DELETE FROM coupon_scopes_cw WHERE coupon_id = $1', [couponId]);
+
+    for (const scope of scopes) {
+      await client.query(
+        `INSERT INTO coupon_scopes_cw (coupon_id, item_type, item_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (coupon_id, item_type, item_id) DO NOTHING`,
+        [couponId, scope.item_type, scope.item_id]
+      );
+    }
+  }
+
+  /**
+   * Get the scopes of a coupon
+   */
+  static async getScopes(couponId: number, client?: PoolClient): Promise<CouponScope[]> {
+    const sql = 'SELECT item_type, item_id FROM coupon_scopes_cw WHERE coupon_id = $1 ORDER BY id';
+    const result = client ? await client.query(sql, [couponId]) : await query(sql, [couponId]);
+    return result.rows as CouponScope[];
+  }
+
+  /**
+   * Create a coupon together with its scopes
+   */
+  static async createCoupon(
+    createdBy: number,
+    data: CreateCouponRequest
+  ): Promise<CouponWithScopes> {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO coupons_cw (
+          code, description, discount_type, discount_value, starts_at, expires_at,
+          max_redemptions, max_redemptions_per_user, is_active, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *`,
+        [
+          data.code,
+          data.description || null,
+          data.discount_type,
+          data.discount_value,
+          data.starts_at || null,
+          data.expires_at || null,
+          data.max_redemptions ?? null,
+          data.max_redemptions_per_user === undefined ? 1 : data.max_redemptions_per_user,
+          data.is_active ?? true,
+          createdBy,
+        ]
+      );
+      const coupon = result.rows[0] as Coupon;
+      const scopes = data.scopes || [];
+
+      await this.replaceScopes(client, coupon.id, scopes);
+
+      return { ...coupon, scopes };
+    });
+  }
+
+  /**
+   * Get all coupons with pagination
+   */
+  static async getAllCoupons(
+    limit: number = 10,
+    offset: number = 0,
+    isActive?: boolean
+  ): Promise<{ coupons: Coupon[]; total: number }> {
+    const whereClause = isActive !== undefined ? 'WHERE is_active = $1' : '';
+    const values: any[] = isActive !== undefined ? [isActive] : [];
+
+    const countResult = await query(
+      `SELECT COUNT(*) as count FROM coupons_cw ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT * FROM coupons_cw ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+
+    return { coupons: result.rows as Coupon[], total };
+  }
+
+  /**
+   * Get coupon by ID with its scopes
+   */
+  static async getCouponById(id: number): Promise<CouponWithScopes | null> {
+    const result = await query('SELECT * FROM coupons_cw WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return { ...(result.rows[0] as Coupon), scopes: await this.getScopes(id) };
+  }
+
+  /**
+   * Get coupon by (normalized) code with its scopes
+   */
+  static async getCouponByCode(code: string): Promise<CouponWithScopes | null> {
+    const result = await query('SELECT * FROM coupons_cw WHERE code = $1', [code]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const coupon = result.rows[0] as Coupon;
+    return { ...coupon, scopes: await this.getScopes(coupon.id) };
+  }
+
+  /**
+   * Update coupon; when `scopes` is given the existing scopes are replaced
+   */
+  static async updateCoupon(
+    id: number,
+    data: UpdateCouponRequest
+  ): Promise<CouponWithScopes | null> {
+    const { scopes, ...fields } = data;
+
+    return withTransaction(async (client) => {
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) {
+          updates.push(`${key} = $${paramIndex++}`);
+          values.push(value);
+        }
+      });
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+
+      const result = await client.query(
+        `UPDATE coupons_cw
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex}
+         RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      if (scopes) {
+        await this.replaceScopes(client, id, scopes);
+      }
+
+      return { ...(result.rows[0] as Coupon), scopes: await this.getScopes(id, client) };
+    });
+  }
+
+  /**
+   * Delete coupon
+   */
+  static async deleteCoupon(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM coupons_cw WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Count redemptions of a coupon, overall and by one user
+   */
+  static async getUsage(
+    couponId: number,
+    userId: number,
+    client?: PoolClient
+  ): Promise<CouponUsage> {
+    const sql = `SELECT
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE user_id = $2)::int AS by_user
+       FROM coupon_redemptions_cw
+       WHERE coupon_id = $1`;
+    const result = client
+      ? await client.query(sql, [couponId, userId])
+      : await query(sql, [couponId, userId]);
+    return result.rows[0] as CouponUsage;
+  }
+
+  /**
+   * Lock a coupon for the rest of the transaction so concurrent checkouts see each other's redemptions
+   */
+  static async lockCoupon(client: PoolClient, id: number): Promise<Coupon | null> {
+    const result = await client.query('SELECT * FROM coupons_cw WHERE id = $1 FOR UPDATE', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as Coupon) : null;
+  }
+
+  /**
+   * Record a redemption for an order (the coupon must be locked by the caller)
+   */
+  static async recordRedemption(
+    client: PoolClient,
+    couponId: number,
+    userId: number,
+    orderId: number,
+    discountAmount: number
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO coupon_redemptions_cw (coupon_id, user_id, order_id, discount_amount)
+       VALUES ($1, $2, $3, $4)`,
+      [couponId, userId, orderId, discountAmount]
+    );
+    await client.query(
+      'UPDATE coupons_cw SET times_redeemed = times_redeemed + 1, updated_at = NOW() WHERE id = $1',
+      [couponId]
+    );
+  }
+
+  /**
+   * Give back the redemption of an abandoned order
+   */
+  static async releaseRedemption(orderId: number): Promise<boolean> {
+    return withTransaction(async (client) => {
+      // A late payment may have revived the order in the meantime; its redemption then stays
+      const result = await client.query(
+        `DELETE FROM coupon_redemptions_cw r
+         USING orders_cw o
+         WHERE r.order_id = $1 AND o.id = r.order_id AND o.status IN ('CANCELLED', 'FAILED')
+         RETURNING r.coupon_id`,
+        [orderId]
+      );
+      if (result.rows.length === 0) {
+        return false;
+      }
+
+      await client.query(
+        `UPDATE coupons_cw SET times_redeemed = GREATEST(times_redeemed - 1, 0), updated_at = NOW()
+         WHERE id = $1`,
+        [result.rows[0].coupon_id]
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Get the redemptions of a coupon with the redeeming user and order status
+   */
+  static async getRedemptions(couponId: number): Promise<CouponRedemptionWithUser[]> {
+    const result = await query(
+      `SELECT r.*, u.first_name, u.last_name, u.email, o.status AS order_status
+       FROM coupon_redemptions_cw r
+       JOIN users_cw u ON u.id = r.user_id
+       JOIN orders_cw o ON o.id = r.order_id
+       WHERE r.coupon_id = $1
+       ORDER BY r.redeemed_at DESC`,
+      [couponId]
+    );
+    return result.rows as CouponRedemptionWithUser[];
+  }
+}
@@ -1,5 +1,5 @@
 import { query } from '../config/database';
-import { Course } from '../types/course';
+import { Course, CreateCourseRequest, UpdateCourseRequest } from '../types/course';
 
 export class CourseRepository {
   /**
@@ -223,4 +223,84 @@ export class CourseRepository {
 
     return { courses: result.rows as Course[], total };
   }
+
+  /**
+   * Create a new course; date_added and last_modified are stamped as epoch seconds
+   */
+  static async createCourse(data: CreateCourseRequest): Promise<Course> {
+    const now = Math.floor(Date.now() / 1000);
+    const values: Record<string, any> = {
+      faqs: '[]',
+      discount_flag: 0,
+      is_top_course: 0,
+      multi_instructor: 0,
+      enable_drip_content: 0,
+      ...data,
+      date_added: now,
+      last_modified: now,
+    };
+
+    const columns = Object.keys(values).filter((key) => values[key] !== undefined);
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+    const result = await query(
+      `INSERT INTO public.course (${columns.map((column) => `"${column}"`).join(', ')})
+       VALUES (${placeholders.join(', ')})
+       RETURNING *`,
+      columns.map((column) => values[column])
+    );
+
+    return result.rows[0] as Course;
+  }
+
+  /**
+   * Update course and refresh last_modified
+   */
+  static async updateCourse(id: number, data: UpdateCourseRequest): Promise<Course | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`"${key}" = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    updates.push(`last_modified = $${paramIndex++}`);
+    values.push(Math.floor(Date.now() / 1000));
+    values.push(id);
+
+    const updateQuery = `
+      UPDATE public.course 
+      SET ${updates.join(', ')} 
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+
+    const result = await query(updateQuery, values);
+    return result.rows.length > 0 ? (result.rows[0] as Course) : null;
+  }
+
+  /**
+   * Delete course (its batches are removed by ON DELETE CASCADE)
+   */
+  static async deleteCourse(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM public.course WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Count students currently enrolled in any batch of a course
+   */
+  static async countActiveEnrollments(id: number): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM batch_enrollments_cw e
+       JOIN batches_cw b ON b.id = e.batch_id
+       WHERE b.course_id = $1 AND e.status IN ('ENROLLED', 'WAITLISTED')`,
+      [id]
+    );
+    return parseInt(result.rows[0].count);
+  }
 }
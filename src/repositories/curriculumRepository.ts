@@ -0,0 +1,295 @@
+import { query, withTransaction } from '../config/database';
+import {
+  CourseSection,
+  CourseLesson,
+  Curriculum,
+  CreateSectionRequest,
+  UpdateSectionRequest,
+  CreateLessonRequest,
+  UpdateLessonRequest,
+  SectionOrder,
+  LessonOrder,
+} from '../types/curriculum';
+
+export class CurriculumRepository {
+  /**
+   * Get sections of a course in display order
+   */
+  static async getSectionsByCourse(courseId: number): Promise<CourseSection[]> {
+    const result = await query(
+      'SELECT * FROM course_sections_cw WHERE course_id = $1 ORDER BY sort_order ASC, id ASC',
+      [courseId]
+    );
+    return result.rows as CourseSection[];
+  }
+
+  /**
+   * Get a section by ID, scoped to its course
+   */
+  static async getSectionById(courseId: number, id: number): Promise<CourseSection | null> {
+    const result = await query(
+      'SELECT * FROM course_sections_cw WHERE id = $1 AND course_id = $2',
+      [id, courseId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseSection) : null;
+  }
+
+  /**
+   * Create a section; appended after the last section unless sort_order is given
+   */
+  static async createSection(courseId: number, data: CreateSectionRequest): Promise<CourseSection> {
+    const result = await query(
+      `INSERT INTO course_sections_cw (course_id, title, description, sort_order)
+       VALUES ($1, $2, $3, COALESCE($4, (
+         SELECT COALESCE(MAX(sort_order) + 1, 0) FROM course_sections_cw WHERE course_id = $1
+       )))
+       RETURNING *`,
+      [courseId, data.title, data.description || null, data.sort_order ?? null]
+    );
+    return result.rows[0] as CourseSection;
+  }
+
+  /**
+   * Update section
+   */
+  static async updateSection(
+    courseId: number,
+    id: number,
+    data: UpdateSectionRequest
+  ): Promise<CourseSection | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getSectionById(courseId, id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, courseId);
+
+    const result = await query(
+      `UPDATE course_sections_cw
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND course_id = $${paramIndex + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseSection) : null;
+  }
+
+  /**
+   * Delete section (its lessons are removed by ON DELETE CASCADE)
+   */
+  static async deleteSection(courseId: number, id: number): Promise<boolean> {
+    const result = await query('DELETE FROM course_sections_cw WHERE id = $1 AND course_id = $2', [
+      id,
+      courseId,
+    ]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Reorder sections of a course.
+   * Returns false without changing anything when an ID does not belong to the course.
+   */
+  static async reorderSections(courseId: number, sectionOrders: SectionOrder[]): Promise<boolean> {
+    const ids = sectionOrders.map((item) => item.id);
+    const owned = await query(
+      'SELECT COUNT(*) as count FROM course_sections_cw WHERE id = ANY($1) AND course_id = $2',
+      [ids, courseId]
+    );
+    if (parseInt(owned.rows[0].count) !== new Set(ids).size) {
+      return false;
+    }
+
+    await withTransaction(async (client) => {
+      for (const item of sectionOrders) {
+        await client.query(
+          'UPDATE course_sections_cw SET sort_order = $1, updated_at = NOW() WHERE id = $2',
+          [item.sort_order, item.id]
+        );
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Get lessons of a course ordered by section, then lesson order
+   */
+  static async getLessonsByCourse(courseId: number): Promise<CourseLesson[]> {
+    const result = await query(
+      `SELECT l.* FROM course_lessons_cw l
+       JOIN course_sections_cw s ON s.id = l.section_id
+       WHERE l.course_id = $1
+       ORDER BY s.sort_order ASC, s.id ASC, l.sort_order ASC, l.id ASC`,
+      [courseId]
+    );
+    return result.rows as CourseLesson[];
+  }
+
+  /**
+   * Get a lesson by ID, scoped to its course
+   */
+  static async getLessonById(courseId: number, id: number): Promise<CourseLesson | null> {
+    const result = await query('SELECT * FROM course_lessons_cw WHERE id = $1 AND course_id = $2', [
+      id,
+      courseId,
+    ]);
+    return result.rows.length > 0 ? (result.rows[0] as CourseLesson) : null;
+  }
+
+  /**
+   * Create a lesson in a section; appended after the last lesson unless sort_order is given
+   */
+  static async createLesson(
+    courseId: number,
+    sectionId: number,
+    data: CreateLessonRequest
+  ): Promise<CourseLesson> {
+    const result = await query(
+      `INSERT INTO course_lessons_cw (
+        course_id, section_id, title, lesson_type, summary, content, video_url,
+        duration_seconds, attachment_url, is_preview, is_published, drip_offset_days, sort_order
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, COALESCE($13, (
+        SELECT COALESCE(MAX(sort_order) + 1, 0) FROM course_lessons_cw WHERE section_id = $2
+      )))
+      RETURNING *`,
+      [
+        courseId,
+        sectionId,
+        data.title,
+        data.lesson_type,
+        data.summary || null,
+        data.content || null,
+        data.video_url || null,
+        data.duration_seconds ?? null,
+        data.attachment_url || null,
+        data.is_preview ?? false,
+        data.is_published ?? true,
+        data.drip_offset_days ?? 0,
+        data.sort_order ?? null,
+      ]
+    );
+    return result.rows[0] as CourseLesson;
+  }
+
+  /**
+   * Update lesson
+   */
+  static async updateLesson(
+    courseId: number,
+    id: number,
+    data: UpdateLessonRequest
+  ): Promise<CourseLesson | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getLessonById(courseId, id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, courseId);
+
+    const result = await query(
+      `UPDATE course_lessons_cw
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND course_id = $${paramIndex + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseLesson) : null;
+  }
+
+  /**
+   * Delete lesson
+   */
+  static async deleteLesson(courseId: number, id: number): Promise<boolean> {
+    const result = await query('DELETE FROM course_lessons_cw WHERE id = $1 AND course_id = $2', [
+      id,
+      courseId,
+    ]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Reorder lessons of a course, optionally moving them between sections.
+   * Returns false without changing anything when a lesson or target section is not part of the course.
+   */
+  static async reorderLessons(courseId: number, lessonOrders: LessonOrder[]): Promise<boolean> {
+    const ids = lessonOrders.map((item) => item.id);
+    const owned = await query(
+      'SELECT COUNT(*) as count FROM course_lessons_cw WHERE id = ANY($1) AND course_id = $2',
+      [ids, courseId]
+    );
+    if (parseInt(owned.rows[0].count) !== new Set(ids).size) {
+      return false;
+    }
+
+    const sectionIds = [
+      ...new Set(
+        lessonOrders.filter((item) => item.section_id !== undefined).map((item) => item.section_id)
+      ),
+    ];
+    if (sectionIds.length > 0) {
+      const ownedSections = await query(
+        'SELECT COUNT(*) as count FROM course_sections_cw WHERE id = ANY($1) AND course_id = $2',
+        [sectionIds, courseId]
+      );
+      if (parseInt(ownedSections.rows[0].count) !== sectionIds.length) {
+        return false;
+      }
+    }
+
+    await withTransaction(async (client) => {
+      for (const item of lessonOrders) {
+        await client.query(
+          `UPDATE course_lessons_cw
+           SET sort_order = $1, section_id = COALESCE($2, section_id), updated_at = NOW()
+           WHERE id = $3`,
+          [item.sort_order, item.section_id ?? null, item.id]
+        );
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Get the full curriculum tree of a course
+   */
+  static async getCurriculum(courseId: number): Promise<Curriculum> {
+    const sections = await this.getSectionsByCourse(courseId);
+    const lessons = await this.getLessonsByCourse(courseId);
+
+    const tree = sections.map((section) => ({
+      ...section,
+      lessons: lessons.filter((lesson) => Number(lesson.section_id) === Number(section.id)),
+    }));
+
+    return {
+      course_id: courseId,
+      sections: tree,
+      total_lessons: lessons.length,
+      total_duration_seconds: lessons.reduce(
+        (sum, lesson) => sum + (lesson.duration_seconds || 0),
+        0
+      ),
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import {
+  EmailLogEntry,
+  EmailOptions,
+  EmailStatus,
+  OutboundEmail,
+  OutboundEmailSummary,
+} from '../types/email';
+
+const SUMMARY_COLUMNS = `id, to_address, subject, status, attempts, max_attempts, next_attempt_at, locked_at,
+  last_error, message_id, sent_at, created_at, updated_at, jsonb_array_length(attachments) AS attachment_count`;
+
+export class EmailOutboxRepository {
+  /**
+   * Queue an email for delivery; pass `client` to queue inside a caller's transaction
+   */
+  static async enqueue(
+    options: EmailOptions,
+    maxAttempts: number,
+    client?: PoolClient
+  ): Promise<OutboundEmail> {
+    const attachments = (options.attachments || []).map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content.toString('base64'),
+      contentType: attachment.contentType,
+    }));
+
+    const sql = `INSERT INTO email_outbox_cw (to_address, subject, html, text, attachments, max_attempts)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`;
+    const params = [
+      options.to,
+      options.subject,
+      options.html,
+      options.text || null,
+      JSON.stringify(attachments),
+      maxAttempts,
+    ];
+    const result = client ? await client.query(sql, params) : await query(sql, params);
+    return result.rows[0] as OutboundEmail;
+  }
+
+  /**
+   * Claim due messages for delivery. Rows are locked with SKIP LOCKED so several workers
+   * never pick the same message; SENDING rows older than the stale timeout are reclaimed.
+   */
+  static async claimDue(limit: number, staleLockMinutes: number): Promise<OutboundEmail[]> {
+    return withTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `UPDATE email_outbox_cw SET status = 'SENDING', locked_at = NOW(), updated_at = NOW()
+         WHERE id IN (
+           SELECT id FROM email_outbox_cw
+           WHERE (status = 'PENDING' AND next_attempt_at <= NOW())
+              OR (status = 'SENDING' AND locked_at < NOW() - $2 * INTERVAL '1 minute')
+           ORDER BY next_attempt_at ASC
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING *`,
+        [limit, staleLockMinutes]
+      );
+      return result.rows as OutboundEmail[];
+    });
+  }
+
+  /**
+   * Record a successful delivery
+   */
+  static async markSent(id: number, messageId: string | null): Promise<void> {
+    await withTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `UPDATE email_outbox_cw
+         SET status = 'SENT', attempts = attempts + 1, message_id = $2, last_error = NULL,
+             locked_at = NULL, sent_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING attempts`,
+        [id, messageId]
+      );
+
+      await client.query(
+        `INSERT INTO email_log_cw (email_id, attempt, status, message_id)
+         VALUES ($1, $2, 'SENT', $3)`,
+        [id, result.rows[0].attempts, messageId]
+      );
+    });
+  }
+
+  /**
+   * Record a failed attempt; schedules a retry at `retryAt` or moves the message to DEAD when null
+   */
+  static async markFailed(id: number, error: string, retryAt: Date | null): Promise<EmailStatus> {
+    return withTransaction(async (client: PoolClient) => {
+      const status: EmailStatus = retryAt ? 'PENDING' : 'DEAD';
+      const result = await client.query(
+        `UPDATE email_outbox_cw
+         SET status = $2, attempts = attempts + 1, last_error = $3, locked_at = NULL,
+             next_attempt_at = COALESCE($4, next_attempt_at), updated_at = NOW()
+         WHERE id = $1
+         RETURNING attempts`,
+        [id, status, error, retryAt]
+      );
+
+      await client.query(
+        `INSERT INTO email_log_cw (email_id, attempt, status, error)
+         VALUES ($1, $2, 'FAILED', $3)`,
+        [id, result.rows[0].attempts, error]
+      );
+
+      return status;
+    });
+  }
+
+  /**
+   * Put a dead message back in the queue with a fresh set of attempts
+   */
+  static async requeue(id: number): Promise<OutboundEmail | null> {
+    const result = await query(
+      `UPDATE email_outbox_cw
+       SET status = 'PENDING', attempts = 0, next_attempt_at = NOW(), locked_at = NULL, updated_at = NOW()
+       WHERE id = $1 AND status = 'DEAD'
+       RETURNING *`,
+      [id]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as OutboundEmail) : null;
+  }
+
+  /**
+   * Get queued and delivered emails with pagination (bodies omitted)
+   */
+  static async getEmails(
+    limit: number = 10,
+    offset: number = 0,
+    filters: { status?: EmailStatus; to?: string } = {}
+  ): Promise<{ emails: OutboundEmailSummary[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+
+    if (filters.to) {
+      conditions.push(`LOWER(to_address) = LOWER($${paramIndex++})`);
+      values.push(filters.to);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query(
+      `SELECT COUNT(*) as count FROM email_outbox_cw ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT ${SUMMARY_COLUMNS} FROM email_outbox_cw ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...values, limit, offset]
+    );
+
+    return { emails: result.rows as OutboundEmailSummary[], total };
+  }
+
+  /**
+   * Get an email by ID
+   */
+  static async getEmailById(id: number): Promise<OutboundEmail | null> {
+    const result = await query('SELECT * FROM email_outbox_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as OutboundEmail) : null;
+  }
+
+  /**
+   * Get the delivery attempts of an email, oldest first
+   */
+  static async getLog(emailId: number): Promise<EmailLogEntry[]> {
+    const result = await query(
+      `SELECT * FROM email_log_cw
+       WHERE email_id = $1
+       ORDER BY attempt ASC, id ASC`,
+      [emailId]
+    );
+    return result.rows as EmailLogEntry[];
+  }
+}
@@ -0,0 +1,166 @@
+import { query } from '../config/database';
+import {
+  EmailTemplate,
+  EmailTemplateKind,
+  CreateEmailTemplateRequest,
+  UpdateEmailTemplateRequest,
+} from '../types/emailTemplate';
+
+export class EmailTemplateRepository {
+  /**
+   * Create a template, layout or partial
+   */
+  static async createTemplate(
+    data: CreateEmailTemplateRequest,
+    userId: number
+  ): Promise<EmailTemplate> {
+    const result = await query(
+      `INSERT INTO email_templates_cw
+        (name, kind, description, subject, html_body, text_body, layout_name, sample_data, is_active, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10)
+       RETURNING *`,
+      [
+        data.name,
+        data.kind || 'TEMPLATE',
+        data.description || null,
+        data.subject || null,
+        data.html_body,
+        data.text_body || null,
+        data.layout_name || null,
+        JSON.stringify(data.sample_data || {}),
+        data.is_active ?? true,
+        userId,
+      ]
+    );
+    return result.rows[0] as EmailTemplate;
+  }
+
+  /**
+   * Get all templates, optionally of one kind
+   */
+  static async getAllTemplates(kind?: EmailTemplateKind): Promise<EmailTemplate[]> {
+    const result = await query(
+      `SELECT * FROM email_templates_cw
+       WHERE ($1::VARCHAR IS NULL OR kind = $1)
+       ORDER BY kind, name`,
+      [kind || null]
+    );
+    return result.rows as EmailTemplate[];
+  }
+
+  /**
+   * Get template by ID
+   */
+  static async getTemplateById(id: number): Promise<EmailTemplate | null> {
+    const result = await query('SELECT * FROM email_templates_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as EmailTemplate) : null;
+  }
+
+  /**
+   * Get an active template of the given kind by name
+   */
+  static async getActiveTemplateByName(
+    name: string,
+    kind: EmailTemplateKind
+  ): Promise<EmailTemplate | null> {
+    const result = await query(
+      'SELECT * FROM email_templates_cw WHERE name = $1 AND kind = $2 AND is_active = TRUE',
+      [name, kind]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as EmailTemplate) : null;
+  }
+
+  /**
+   * Check whether a name is taken (names are unique across all kinds)
+   */
+  static async nameExists(name: string): Promise<boolean> {
+    const result = await query('SELECT 1 FROM email_templates_cw WHERE name = $1', [name]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Active partials as a name -> HTML map
+   */
+  static async getPartials(): Promise<Record<string, string>> {
+    const result = await query(
+      `SELECT name, html_body FROM email_templates_cw
+       WHERE kind = 'PARTIAL' AND is_active = TRUE`
+    );
+
+    const partials: Record<string, string> = {};
+    for (const row of result.rows) {
+      partials[row.name] = row.html_body;
+    }
+    return partials;
+  }
+
+  /**
+   * Count templates that depend on a layout or partial
+   */
+  static async countReferences(template: EmailTemplate): Promise<number> {
+    if (template.kind === 'LAYOUT') {
+      const result = await query(
+        'SELECT COUNT(*) as count FROM email_templates_cw WHERE layout_name = $1',
+        [template.name]
+      );
+      return parseInt(result.rows[0].count);
+    }
+
+    if (template.kind === 'PARTIAL') {
+      // Names are limited to [a-z0-9_], so they are safe inside the pattern
+      const pattern = `\\{\\{>\\s*${template.name}\\s*\\}\\}`;
+      const result = await query(
+        `SELECT COUNT(*) as count FROM email_templates_cw
+         WHERE id <> $1 AND (html_body ~ $2 OR COALESCE(text_body, '') ~ $2)`,
+        [template.id, pattern]
+      );
+      return parseInt(result.rows[0].count);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Update template
+   */
+  static async updateTemplate(
+    id: number,
+    data: UpdateEmailTemplateRequest,
+    userId: number
+  ): Promise<EmailTemplate | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex}`);
+        values.push(key === 'sample_data' ? JSON.stringify(value) : value);
+        paramIndex++;
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getTemplateById(id);
+    }
+
+    updates.push(`updated_by = $${paramIndex++}`);
+    values.push(userId);
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const result = await query(
+      `UPDATE email_templates_cw SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as EmailTemplate) : null;
+  }
+
+  /**
+   * Delete template
+   */
+  static async deleteTemplate(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM email_templates_cw WHERE id = $1', [id]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+}
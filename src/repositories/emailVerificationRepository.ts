@@ -0,0 +1,56 @@
+import { query } from '../config/database';
+import { EmailVerificationToken } from '../types/auth';
+
+export class EmailVerificationRepository {
+  /**
+   * Issue a verification token, invalidating any earlier unused tokens of the user
+   */
+  static async createToken(data: {
+    user_id: number;
+    token_hash: string;
+    email: string;
+    expires_at: Date;
+  }): Promise<EmailVerificationToken> {
+    const { user_id, token_hash, email, expires_at } = data;
+
+    await query(
+      `UPDATE email_verification_tokens_cw SET used_at = NOW()
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [user_id]
+    );
+
+    const result = await query(
+      `INSERT INTO email_verification_tokens_cw (user_id, token_hash, email, expires_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [user_id, token_hash, email, expires_at]
+    );
+
+    return result.rows[0] as EmailVerificationToken;
+  }
+
+  /**
+   * Count tokens issued for a user within the last hour
+   */
+  static async countRecentForUser(userId: number): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM email_verification_tokens_cw
+       WHERE user_id = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Atomically mark a valid token as used; null when unknown, expired or already used
+   */
+  static async consumeToken(tokenHash: string): Promise<EmailVerificationToken | null> {
+    const result = await query(
+      `UPDATE email_verification_tokens_cw SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as EmailVerificationToken) : null;
+  }
+}
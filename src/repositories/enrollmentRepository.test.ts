@@ -0,0 +1,212 @@
+import { withTransaction } from '../config/database';
+import { EnrollmentRepository } from './enrollmentRepository';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+
+// Transaction client whose queries answer with the scripted results, in order
+const client = { query: jest.fn() };
+
+const script = (...results: Array<Record<string, unknown>[]>) => {
+  for (const rows of results) {
+    client.query.mockResolvedValueOnce({ rows, rowCount: rows.length });
+  }
+};
+
+const executed = (): string[] => client.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' '));
+
+beforeEach(() => {
+  client.query.mockReset();
+  jest
+    .mocked(withTransaction)
+    .mockImplementation((fn) => fn(client as unknown as Parameters<typeof fn>[0]));
+});
+
+describe('EnrollmentRepository.enroll', () => {
+  const batch = (overrides: Record<string, unknown> = {}) => ({
+    id: 4,
+    status: 'ACTIVE',
+    max_students: 2,
+    enrolled_students: 1,
+    ...overrides,
+  });
+
+  it('takes a free seat and counts it against the batch', async () => {
+    script([batch()], [], [{ id: 10, status: 'ENROLLED' }], []);
+
+    const result = await EnrollmentRepository.enroll(4, 7);
+
+    expect(result).toEqual({ outcome: 'ENROLLED', enrollment: { id: 10, status: 'ENROLLED' } });
+    expect(executed()[0]).toContain('FOR UPDATE');
+    expect(executed()[3]).toContain('enrolled_students = enrolled_students + 1');
+  });
+
+  it('puts the student on the waitlist when the batch is full, without taking a seat', async () => {
+    const waitlisted = { id: 11, batch_id: 4, status: 'WAITLISTED', waitlisted_at: new Date() };
+    script([batch({ enrolled_students: 2 })], [], [waitlisted], [{ count: '3' }]);
+
+    const result = await EnrollmentRepository.enroll(4, 7);
+
+    expect(result).toEqual({ outcome: 'WAITLISTED', enrollment: waitlisted, position: 3 });
+    expect(executed().some((sql) => sql.includes('UPDATE batches_cw'))).toBe(false);
+  });
+
+  it('never fills a batch without a seat limit', async () => {
+    script([batch({ max_students: null, enrolled_students: 500 })], [], [{ id: 12 }], []);
+
+    expect((await EnrollmentRepository.enroll(4, 7)).outcome).toBe('ENROLLED');
+  });
+
+  it('refuses closed batches', async () => {
+    script([batch({ status: 'COMPLETED' })]);
+    expect((await EnrollmentRepository.enroll(4, 7)).outcome).toBe('BATCH_CLOSED');
+
+    script([batch({ status: 'INACTIVE' })]);
+    expect((await EnrollmentRepository.enroll(4, 7)).outcome).toBe('BATCH_CLOSED');
+  });
+
+  it('reports a missing batch', async () => {
+    script([]);
+
+    expect(await EnrollmentRepository.enroll(4, 7)).toEqual({ outcome: 'BATCH_NOT_FOUND' });
+  });
+
+  it('does not enroll a student twice', async () => {
+    const current = { id: 10, status: 'ENROLLED' };
+    script([batch()], [current]);
+
+    expect(await EnrollmentRepository.enroll(4, 7)).toEqual({
+      outcome: 'ALREADY_ENROLLED',
+      enrollment: current,
+    });
+    expect(client.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the queue position of a student already waiting', async () => {
+    const current = { id: 11, batch_id: 4, status: 'WAITLISTED', waitlisted_at: new Date() };
+    script([batch({ enrolled_students: 2 })], [current], [{ count: '2' }]);
+
+    expect(await EnrollmentRepository.enroll(4, 7)).toEqual({
+      outcome: 'ALREADY_WAITLISTED',
+      enrollment: current,
+      position: 2,
+    });
+  });
+});
+
+describe('EnrollmentRepository.withdraw', () => {
+  const promoted = { id: 20, user_id: 9, status: 'ENROLLED', email: 'next@example.com' };
+
+  it('frees the seat and hands it to the oldest waitlisted student', async () => {
+    script(
+      [{ id: 4, status: 'ACTIVE' }],
+      [{ id: 10, status: 'ENROLLED' }],
+      [{ id: 10, status: 'WITHDRAWN' }],
+      [],
+      [{ max_students: 2, enrolled_students: 1 }],
+      [promoted],
+      []
+    );
+
+    const result = await EnrollmentRepository.withdraw(4, 7);
+
+    expect(result).toEqual({
+      outcome: 'WITHDRAWN',
+      enrollment: { id: 10, status: 'WITHDRAWN' },
+      promoted: [promoted],
+    });
+    const sql = executed();
+    expect(sql[3]).toContain('GREATEST(enrolled_students - 1, 0)');
+    expect(sql[5]).toContain('ORDER BY waitlisted_at ASC, id ASC');
+    expect(client.query.mock.calls[5][1]).toEqual([4, 1]);
+    expect(sql[6]).toContain('enrolled_students = enrolled_students + $1');
+    expect(client.query.mock.calls[6][1]).toEqual([1, 4]);
+  });
+
+  it('promotes everyone waiting when the batch has no seat limit', async () => {
+    script(
+      [{ id: 4, status: 'ACTIVE' }],
+      [{ id: 10, status: 'ENROLLED' }],
+      [{ id: 10, status: 'WITHDRAWN' }],
+      [],
+      [{ max_students: null, enrolled_students: 30 }],
+      [promoted, { ...promoted, id: 21 }],
+      []
+    );
+
+    const result = await EnrollmentRepository.withdraw(4, 7);
+
+    expect(result.promoted).toHaveLength(2);
+    expect(client.query.mock.calls[5][1]).toEqual([4, null]);
+    expect(client.query.mock.calls[6][1]).toEqual([2, 4]);
+  });
+
+  it('promotes nobody while the batch is still over capacity', async () => {
+    script(
+      [{ id: 4, status: 'ACTIVE' }],
+      [{ id: 10, status: 'ENROLLED' }],
+      [{ id: 10, status: 'WITHDRAWN' }],
+      [],
+      [{ max_students: 2, enrolled_students: 2 }]
+    );
+
+    expect((await EnrollmentRepository.withdraw(4, 7)).promoted).toEqual([]);
+    expect(client.query).toHaveBeenCalledTimes(5);
+  });
+
+  it('frees no seat when a waitlisted student leaves the queue', async () => {
+    script(
+      [{ id: 4, status: 'ACTIVE' }],
+      [{ id: 11, status: 'WAITLISTED' }],
+      [{ id: 11, status: 'WITHDRAWN' }]
+    );
+
+    expect((await EnrollmentRepository.withdraw(4, 7)).promoted).toEqual([]);
+    expect(executed().some((sql) => sql.includes('UPDATE batches_cw'))).toBe(false);
+  });
+
+  it('keeps the waitlist of an inactive batch until it reopens', async () => {
+    script(
+      [{ id: 4, status: 'INACTIVE' }],
+      [{ id: 10, status: 'ENROLLED' }],
+      [{ id: 10, status: 'WITHDRAWN' }],
+      []
+    );
+
+    expect((await EnrollmentRepository.withdraw(4, 7)).promoted).toEqual([]);
+    expect(client.query).toHaveBeenCalledTimes(4);
+  });
+
+  it('refuses to change a completed batch', async () => {
+    script([{ id: 4, status: 'COMPLETED' }]);
+
+    expect(await EnrollmentRepository.withdraw(4, 7)).toEqual({ outcome: 'BATCH_CLOSED' });
+  });
+
+  it('reports a student who is neither enrolled nor waiting', async () => {
+    script([{ id: 4, status: 'ACTIVE' }], []);
+
+    expect(await EnrollmentRepository.withdraw(4, 7)).toEqual({ outcome: 'NOT_ENROLLED' });
+  });
+});
+
+describe('EnrollmentRepository.fillFromWaitlist', () => {
+  it('fills seats freed by a capacity increase', async () => {
+    const promoted = { id: 20, user_id: 9, status: 'ENROLLED' };
+    script(
+      [{ id: 4, status: 'ACTIVE' }],
+      [{ max_students: 5, enrolled_students: 3 }],
+      [promoted],
+      []
+    );
+
+    expect(await EnrollmentRepository.fillFromWaitlist(4)).toEqual([promoted]);
+    expect(client.query.mock.calls[2][1]).toEqual([4, 2]);
+  });
+
+  it('leaves the waitlist of a closed batch alone', async () => {
+    script([{ id: 4, status: 'COMPLETED' }]);
+
+    expect(await EnrollmentRepository.fillFromWaitlist(4)).toEqual([]);
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
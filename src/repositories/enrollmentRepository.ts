@@ -0,0 +1,377 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import {
+  Enrollment,
+  EnrolledStudent,
+  CourseEnrollment,
+  UserEnrollment,
+  EnrollmentStatus,
+  PromotedEnrollment,
+  WaitlistPosition,
+  EnrollResult,
+  WithdrawResult,
+} from '../types/enrollment';
+
+export class EnrollmentRepository {
+  /**
+   * 1-based position of a waitlisted enrollment within its batch's queue
+   */
+  private static async getPosition(client: PoolClient, enrollment: Enrollment): Promise<number> {
+    const result = await client.query(
+      `SELECT COUNT(*) as count FROM batch_enrollments_cw
+       WHERE batch_id = $1 AND status = 'WAITLISTED'
+       AND (waitlisted_at, id) <= ($2, $3)`,
+      [enrollment.batch_id, enrollment.waitlisted_at, enrollment.id]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Move waitlisted students into free seats, oldest first.
+   * Must run inside a transaction that holds the batch row lock.
+   */
+  private static async promoteWaitlisted(
+    client: PoolClient,
+    batchId: number
+  ): Promise<PromotedEnrollment[]> {
+    const batchResult = await client.query(
+      'SELECT max_students, enrolled_students FROM batches_cw WHERE id = $1',
+      [batchId]
+    );
+    const { max_students, enrolled_students } = batchResult.rows[0];
+
+    // NULL max_students means unlimited seats (LIMIT NULL promotes everyone)
+    const freeSeats = max_students === null ? null : max_students - enrolled_students;
+    if (freeSeats !== null && freeSeats <= 0) {
+      return [];
+    }
+
+    const promotedResult = await client.query(
+      `UPDATE batch_enrollments_cw e
+       SET status = 'ENROLLED', enrolled_at = NOW(), updated_at = NOW()
+       FROM users_cw u
+       WHERE u.id = e.user_id AND e.id IN (
+         SELECT id FROM batch_enrollments_cw
+         WHERE batch_id = $1 AND status = 'WAITLISTED'
+         ORDER BY waitlisted_at ASC, id ASC
+         LIMIT $2
+       )
+       RETURNING e.*, u.first_name, u.last_name, u.email`,
+      [batchId, freeSeats]
+    );
+
+    if (promotedResult.rows.length > 0) {
+      await client.query(
+        'UPDATE batches_cw SET enrolled_students = enrolled_students + $1, updated_at = NOW() WHERE id = $2',
+        [promotedResult.rows.length, batchId]
+      );
+    }
+
+    return promotedResult.rows as PromotedEnrollment[];
+  }
+
+  /**
+   * Fill free seats of a batch from its waitlist (e.g. after max_students was raised)
+   */
+  static async fillFromWaitlist(batchId: number): Promise<PromotedEnrollment[]> {
+    return withTransaction(async (client) => {
+      const batchResult = await client.query(
+        'SELECT id, status FROM batches_cw WHERE id = $1 FOR UPDATE',
+        [batchId]
+      );
+
+      if (batchResult.rows.length === 0) {
+        return [];
+      }
+
+      const status = batchResult.rows[0].status;
+      if (status === 'COMPLETED' || status === 'INACTIVE') {
+        return [];
+      }
+
+      return this.promoteWaitlisted(client, batchId);
+    });
+  }
+
+  /**
+   * Enroll a user into a batch.
+   * The batch row is locked for the whole transaction so concurrent requests cannot
+   * oversell seats or double-enroll the same student.
+   */
+  static async enroll(batchId: number, userId: number): Promise<EnrollResult> {
+    return withTransaction(async (client) => {
+      const batchResult = await client.query(
+        'SELECT id, status, max_students, enrolled_students FROM batches_cw WHERE id = $1 FOR UPDATE',
+        [batchId]
+      );
+
+      if (batchResult.rows.length === 0) {
+        return { outcome: 'BATCH_NOT_FOUND' };
+      }
+
+      const batch = batchResult.rows[0];
+      if (batch.status === 'COMPLETED' || batch.status === 'INACTIVE') {
+        return { outcome: 'BATCH_CLOSED' };
+      }
+
+      const existing = await client.query(
+        `SELECT * FROM batch_enrollments_cw
+         WHERE batch_id = $1 AND user_id = $2 AND status IN ('ENROLLED', 'WAITLISTED')`,
+        [batchId, userId]
+      );
+
+      if (existing.rows.length > 0) {
+        const current = existing.rows[0] as Enrollment;
+        if (current.status === 'ENROLLED') {
+          return { outcome: 'ALREADY_ENROLLED', enrollment: current };
+        }
+        return {
+          outcome: 'ALREADY_WAITLISTED',
+          enrollment: current,
+          position: await this.getPosition(client, current),
+        };
+      }
+
+      // NULL max_students means unlimited seats; a full batch puts the student in line
+      if (batch.max_students !== null && batch.enrolled_students >= batch.max_students) {
+        const waitlistResult = await client.query(
+          `INSERT INTO batch_enrollments_cw (batch_id, user_id, status, waitlisted_at)
+           VALUES ($1, $2, 'WAITLISTED', NOW())
+           ON CONFLICT (batch_id, user_id) DO UPDATE
+           SET status = 'WAITLISTED', waitlisted_at = NOW(), withdrawn_at = NULL, updated_at = NOW()
+           RETURNING *`,
+          [batchId, userId]
+        );
+        const waitlisted = waitlistResult.rows[0] as Enrollment;
+
+        return {
+          outcome: 'WAITLISTED',
+          enrollment: waitlisted,
+          position: await this.getPosition(client, waitlisted),
+        };
+      }
+
+      const enrollmentResult = await client.query(
+        `INSERT INTO batch_enrollments_cw (batch_id, user_id, status, enrolled_at)
+         VALUES ($1, $2, 'ENROLLED', NOW())
+         ON CONFLICT (batch_id, user_id) DO UPDATE
+         SET status = 'ENROLLED', enrolled_at = NOW(), withdrawn_at = NULL, updated_at = NOW()
+         RETURNING *`,
+        [batchId, userId]
+      );
+
+      await client.query(
+        'UPDATE batches_cw SET enrolled_students = enrolled_students + 1, updated_at = NOW() WHERE id = $1',
+        [batchId]
+      );
+
+      return { outcome: 'ENROLLED', enrollment: enrollmentResult.rows[0] as Enrollment };
+    });
+  }
+
+  /**
+   * Withdraw a user from a batch (or its waitlist); a freed seat goes to the next waitlisted student
+   */
+  static async withdraw(batchId: number, userId: number): Promise<WithdrawResult> {
+    return withTransaction(async (client) => {
+      const batchResult = await client.query(
+        'SELECT id, status FROM batches_cw WHERE id = $1 FOR UPDATE',
+        [batchId]
+      );
+
+      if (batchResult.rows.length === 0) {
+        return { outcome: 'BATCH_NOT_FOUND' };
+      }
+
+      if (batchResult.rows[0].status === 'COMPLETED') {
+        return { outcome: 'BATCH_CLOSED' };
+      }
+
+      const existing = await client.query(
+        `SELECT id, status FROM batch_enrollments_cw
+         WHERE batch_id = $1 AND user_id = $2 AND status IN ('ENROLLED', 'WAITLISTED')
+         FOR UPDATE`,
+        [batchId, userId]
+      );
+
+      if (existing.rows.length === 0) {
+        return { outcome: 'NOT_ENROLLED' };
+      }
+
+      const enrollmentResult = await client.query(
+        `UPDATE batch_enrollments_cw
+         SET status = 'WITHDRAWN', withdrawn_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [existing.rows[0].id]
+      );
+      const enrollment = enrollmentResult.rows[0] as Enrollment;
+
+      // Leaving the waitlist does not free a seat
+      if (existing.rows[0].status === 'WAITLISTED') {
+        return { outcome: 'WITHDRAWN', enrollment, promoted: [] };
+      }
+
+      await client.query(
+        `UPDATE batches_cw SET enrolled_students = GREATEST(enrolled_students - 1, 0), updated_at = NOW()
+         WHERE id = $1`,
+        [batchId]
+      );
+
+      // A closed batch keeps its waitlist; the freed seat is filled if the batch reopens
+      const status = batchResult.rows[0].status;
+      if (status === 'COMPLETED' || status === 'INACTIVE') {
+        return { outcome: 'WITHDRAWN', enrollment, promoted: [] };
+      }
+
+      const promoted = await this.promoteWaitlisted(client, batchId);
+
+      return { outcome: 'WITHDRAWN', enrollment, promoted };
+    });
+  }
+
+  /**
+   * Get an enrollment by ID
+   */
+  static async getEnrollmentById(id: number): Promise<Enrollment | null> {
+    const result = await query('SELECT * FROM batch_enrollments_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as Enrollment) : null;
+  }
+
+  /**
+   * Get a user's active enrollment in a batch
+   */
+  static async getActiveEnrollment(batchId: number, userId: number): Promise<Enrollment | null> {
+    const result = await query(
+      `SELECT * FROM batch_enrollments_cw
+       WHERE batch_id = $1 AND user_id = $2 AND status = 'ENROLLED'`,
+      [batchId, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Enrollment) : null;
+  }
+
+  /**
+   * Get a user's earliest active enrollment across the batches of a course
+   */
+  static async getCourseEnrollment(courseId: number, userId: number): Promise<CourseEnrollment | null> {
+    const result = await query(
+      `SELECT e.*, b.start_date
+       FROM batch_enrollments_cw e
+       JOIN batches_cw b ON b.id = e.batch_id
+       WHERE b.course_id = $1 AND e.user_id = $2 AND e.status = 'ENROLLED'
+       ORDER BY e.enrolled_at ASC
+       LIMIT 1`,
+      [courseId, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseEnrollment) : null;
+  }
+
+  /**
+   * Get a user's waitlist position in a batch
+   */
+  static async getWaitlistPosition(batchId: number, userId: number): Promise<WaitlistPosition | null> {
+    const result = await query(
+      `SELECT e.status,
+              CASE WHEN e.status = 'WAITLISTED' THEN (
+                SELECT COUNT(*) FROM batch_enrollments_cw w
+                WHERE w.batch_id = e.batch_id AND w.status = 'WAITLISTED'
+                AND (w.waitlisted_at, w.id) <= (e.waitlisted_at, e.id)
+              ) END AS position,
+              (SELECT COUNT(*) FROM batch_enrollments_cw w
+               WHERE w.batch_id = e.batch_id AND w.status = 'WAITLISTED') AS waitlist_size
+       FROM batch_enrollments_cw e
+       WHERE e.batch_id = $1 AND e.user_id = $2`,
+      [batchId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      status: row.status,
+      position: row.position === null ? null : parseInt(row.position),
+      waitlist_size: parseInt(row.waitlist_size),
+    };
+  }
+
+  /**
+   * Get the waitlist of a batch in promotion order
+   */
+  static async getWaitlist(batchId: number): Promise<EnrolledStudent[]> {
+    const result = await query(
+      `SELECT e.*, u.first_name, u.last_name, u.email, u.profile_image_url
+       FROM batch_enrollments_cw e
+       JOIN users_cw u ON u.id = e.user_id
+       WHERE e.batch_id = $1 AND e.status = 'WAITLISTED'
+       ORDER BY e.waitlisted_at ASC, e.id ASC`,
+      [batchId]
+    );
+    return result.rows as EnrolledStudent[];
+  }
+
+  /**
+   * Get students enrolled in a batch
+   */
+  static async getBatchStudents(
+    batchId: number,
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<{ students: EnrolledStudent[]; total: number }> {
+    const countResult = await query(
+      `SELECT COUNT(*) as count FROM batch_enrollments_cw
+       WHERE batch_id = $1 AND status = 'ENROLLED'`,
+      [batchId]
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT e.*, u.first_name, u.last_name, u.email, u.profile_image_url
+       FROM batch_enrollments_cw e
+       JOIN users_cw u ON u.id = e.user_id
+       WHERE e.batch_id = $1 AND e.status = 'ENROLLED'
+       ORDER BY e.enrolled_at ASC
+       LIMIT $2 OFFSET $3`,
+      [batchId, limit, offset]
+    );
+
+    return { students: result.rows as EnrolledStudent[], total };
+  }
+
+  /**
+   * Get IDs of every student currently enrolled in a batch
+   */
+  static async getEnrolledUserIds(batchId: number): Promise<number[]> {
+    const result = await query(
+      `SELECT user_id FROM batch_enrollments_cw
+       WHERE batch_id = $1 AND status = 'ENROLLED'`,
+      [batchId]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+
+  /**
+   * Get a user's enrollments with batch details
+   */
+  static async getUserEnrollments(userId: number, status?: EnrollmentStatus): Promise<UserEnrollment[]> {
+    const params: any[] = [userId];
+    let statusClause = '';
+    if (status) {
+      statusClause = 'AND e.status = $2';
+      params.push(status);
+    }
+
+    const result = await query(
+      `SELECT e.*, b.course_id, b.program_name, b.program_type, b.start_date, b.end_date,
+              b.status AS batch_status
+       FROM batch_enrollments_cw e
+       JOIN batches_cw b ON b.id = e.batch_id
+       WHERE e.user_id = $1 ${statusClause}
+       ORDER BY b.start_date DESC`,
+      params
+    );
+
+    return result.rows as UserEnrollment[];
+  }
+}
@@ -90,7 +90,7 @@ export class GalleryRepository {
     offset: number = 0
   ): Promise<{ images: Gallery[]; total: number }> {
     const countResult = await query(
-      `SELECT COUNT(*) FROM gallery_cw WHERE context ILIKE $1 AND is_active = true`,
+      'SELECT COUNT(*) FROM gallery_cw WHERE context ILIKE $1 AND is_active = true',
       [`%${context}%`]
     );
     const total = parseInt(countResult.rows[0].count, 10);
@@ -113,7 +113,7 @@ export class GalleryRepository {
    * Get a single gallery image by ID
    */
   static async getGalleryImageById(id: number): Promise<Gallery | null> {
-    const result = await query(`SELECT * FROM gallery_cw WHERE id = $1`, [id]);
+    const result = await query('SELECT * FROM gallery_cw WHERE id = $1', [id]);
     return (result.rows[0] as Gallery) || null;
   }
 
@@ -157,7 +157,7 @@ export class GalleryRepository {
       return this.getGalleryImageById(id);
     }
 
-    fields.push(`updated_at = NOW()`);
+    fields.push('updated_at = NOW()');
 
     const result = await query(
       `UPDATE gallery_cw SET ${fields.join(', ')} WHERE id = $1 RETURNING *`,
@@ -171,7 +171,7 @@ export class GalleryRepository {
    * Delete a gallery image
    */
   static async deleteGalleryImage(id: number): Promise<boolean> {
-    const result = await query(`DELETE FROM gallery_cw WHERE id = $1`, [id]);
+    const result = await query('DELETE FROM gallery_cw WHERE id = $1', [id]);
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
@@ -179,7 +179,7 @@ export class GalleryRepository {
    * Get image by public ID
    */
   static async getGalleryImageByPublicId(publicId: string): Promise<Gallery | null> {
-    const result = await query(`SELECT * FROM gallery_cw WHERE public_id = $1`, [publicId]);
+    const result = await query('SELECT * FROM gallery_cw WHERE public_id = $1', [publicId]);
     return (result.rows[0] as Gallery) || null;
   }
 
@@ -189,7 +189,7 @@ export class GalleryRepository {
   static async reorderGalleryImages(imageOrders: Array<{ id: number; sort_order: number }>): Promise<boolean> {
     try {
       for (const item of imageOrders) {
-        await query(`UPDATE gallery_cw SET sort_order = $1, updated_at = NOW() WHERE id = $2`, [
+        await query('UPDATE gallery_cw SET sort_order = $1, updated_at = NOW() WHERE id = $2', [
           item.sort_order,
           item.id,
         ]);
@@ -205,7 +205,7 @@ export class GalleryRepository {
    * Get all unique contexts
    */
   static async getAllContexts(): Promise<string[]> {
-    const result = await query(`SELECT DISTINCT context FROM gallery_cw WHERE context IS NOT NULL ORDER BY context ASC`);
+    const result = await query('SELECT DISTINCT context FROM gallery_cw WHERE context IS NOT NULL ORDER BY context ASC');
     return result.rows.map((row) => row.context);
   }
 }
@@ -0,0 +1,191 @@
+import { query, withTransaction } from '../config/database';
+import { invoiceConfig } from '../config/invoices';
+import {
+  Invoice,
+  InvoiceDraft,
+  InvoiceFilters,
+  InvoiceItem,
+  InvoiceStatus,
+  InvoiceTotals,
+  InvoiceWithItems,
+} from '../types/invoice';
+
+export class InvoiceRepository {
+  /**
+   * Create an invoice with its line items under the next invoice number of the year
+   */
+  static async createInvoice(
+    draft: InvoiceDraft,
+    totals: InvoiceTotals
+  ): Promise<InvoiceWithItems> {
+    return withTransaction(async (client) => {
+      // The counter row stays locked until commit, so numbers are sequential and gapless
+      const year = new Date().getFullYear();
+      const counterResult = await client.query(
+        `INSERT INTO invoice_counters_cw (year, last_number) VALUES ($1, 1)
+         ON CONFLICT (year) DO UPDATE SET last_number = invoice_counters_cw.last_number + 1
+         RETURNING last_number`,
+        [year]
+      );
+      const sequence = String(counterResult.rows[0].last_number).padStart(5, '0');
+      const invoiceNumber = `${invoiceConfig.prefix}-${year}-${sequence}`;
+
+      const invoiceResult = await client.query(
+        `INSERT INTO invoices_cw (
+          invoice_number, user_id, order_id, quote_id,
+          bill_to_name, bill_to_email, bill_to_company, bill_to_address,
+          currency, subtotal, tax_total, total, status, notes, due_at, paid_at, created_by
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+          CASE WHEN $13 = 'PAID' THEN NOW() ELSE NULL END, $16
+        )
+        RETURNING *`,
+        [
+          invoiceNumber,
+          draft.user_id,
+          draft.order_id,
+          draft.quote_id,
+          draft.bill_to_name,
+          draft.bill_to_email,
+          draft.bill_to_company,
+          draft.bill_to_address,
+          draft.currency,
+          totals.subtotal,
+          totals.tax_total,
+          totals.total,
+          draft.status,
+          draft.notes,
+          draft.due_at,
+          draft.created_by,
+        ]
+      );
+      const invoice = invoiceResult.rows[0] as Invoice;
+
+      const items: InvoiceItem[] = [];
+      for (const [index, item] of totals.items.entries()) {
+        const itemResult = await client.query(
+          `INSERT INTO invoice_items_cw (
+            invoice_id, description, quantity, unit_price, tax_rate, line_subtotal, tax_amount, sort_order
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          RETURNING *`,
+          [
+            invoice.id,
+            item.description,
+            item.quantity,
+            item.unit_price,
+            item.tax_rate,
+            item.line_subtotal,
+            item.tax_amount,
+            index,
+          ]
+        );
+        items.push(itemResult.rows[0] as InvoiceItem);
+      }
+
+      return { ...invoice, items };
+    });
+  }
+
+  /**
+   * Get invoice by ID with its line items
+   */
+  static async getInvoiceById(id: number): Promise<InvoiceWithItems | null> {
+    const result = await query('SELECT * FROM invoices_cw WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const itemsResult = await query(
+      'SELECT * FROM invoice_items_cw WHERE invoice_id = $1 ORDER BY sort_order ASC',
+      [id]
+    );
+
+    return { ...(result.rows[0] as Invoice), items: itemsResult.rows as InvoiceItem[] };
+  }
+
+  /**
+   * Get the invoice issued for an order
+   */
+  static async getInvoiceByOrderId(orderId: number): Promise<Invoice | null> {
+    const result = await query('SELECT * FROM invoices_cw WHERE order_id = $1', [orderId]);
+    return result.rows.length > 0 ? (result.rows[0] as Invoice) : null;
+  }
+
+  /**
+   * Get invoices of a user, newest first
+   */
+  static async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    const result = await query(
+      'SELECT * FROM invoices_cw WHERE user_id = $1 ORDER BY issued_at DESC',
+      [userId]
+    );
+    return result.rows as Invoice[];
+  }
+
+  /**
+   * Get all invoices with pagination
+   */
+  static async getAllInvoices(
+    limit: number = 10,
+    offset: number = 0,
+    filters: InvoiceFilters = {}
+  ): Promise<{ invoices: Invoice[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+
+    if (filters.user_id) {
+      conditions.push(`user_id = $${paramIndex++}`);
+      values.push(filters.user_id);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query(
+      `SELECT COUNT(*) as count FROM invoices_cw ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT * FROM invoices_cw ${whereClause}
+       ORDER BY issued_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...values, limit, offset]
+    );
+
+    return { invoices: result.rows as Invoice[], total };
+  }
+
+  /**
+   * Mark an invoice paid or void. Void invoices are final; paid invoices may only be voided.
+   */
+  static async updateStatus(id: number, status: InvoiceStatus): Promise<Invoice | null> {
+    const allowedFrom = status === 'PAID' ? ['ISSUED'] : ['ISSUED', 'PAID'];
+    const result = await query(
+      `UPDATE invoices_cw
+       SET status = $1,
+           paid_at = CASE WHEN $1 = 'PAID' THEN NOW() ELSE paid_at END,
+           voided_at = CASE WHEN $1 = 'VOID' THEN NOW() ELSE voided_at END,
+           updated_at = NOW()
+       WHERE id = $2 AND status = ANY($3)
+       RETURNING *`,
+      [status, id, allowedFrom]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Invoice) : null;
+  }
+
+  /**
+   * Record that the invoice was emailed
+   */
+  static async markEmailed(id: number): Promise<void> {
+    await query('UPDATE invoices_cw SET emailed_at = NOW(), updated_at = NOW() WHERE id = $1', [
+      id,
+    ]);
+  }
+}
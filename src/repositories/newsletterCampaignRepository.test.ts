@@ -0,0 +1,103 @@
+import { withTransaction } from '../config/database';
+import { CampaignRecipient } from '../types/newsletter';
+import { EmailOutboxRepository } from './emailOutboxRepository';
+import { NewsletterCampaignRepository } from './newsletterCampaignRepository';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('./emailOutboxRepository', () => ({
+  EmailOutboxRepository: { enqueue: jest.fn() },
+}));
+
+// Transaction client whose queries answer with the scripted results, in order
+const client = { query: jest.fn() };
+
+const script = (...results: object[][]) => {
+  for (const rows of results) {
+    client.query.mockResolvedValueOnce({ rows, rowCount: rows.length });
+  }
+};
+
+const executed = (): string[] => client.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' '));
+
+const recipient = (id: number): CampaignRecipient =>
+  ({
+    id,
+    campaign_id: 3,
+    email: `reader${id}@example.com`,
+    status: 'PENDING',
+  }) as CampaignRecipient;
+
+const buildEmail = (r: CampaignRecipient) => ({ to: r.email, subject: 'News', html: '<p>Hi</p>' });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  client.query.mockReset();
+  jest
+    .mocked(withTransaction)
+    .mockImplementation((fn) => fn(client as unknown as Parameters<typeof fn>[0]));
+  jest.mocked(EmailOutboxRepository.enqueue).mockResolvedValue({ id: 900 } as never);
+});
+
+describe('NewsletterCampaignRepository.queueRecipientBatch', () => {
+  it('queues at most one batch of pending recipients, skipping rows another worker holds', async () => {
+    script([recipient(1), recipient(2)], [], [], [{ '?column?': 1 }]);
+
+    const result = await NewsletterCampaignRepository.queueRecipientBatch(3, 2, buildEmail, 5);
+
+    expect(result).toEqual({ queued: 2, completed: false });
+    expect(executed()[0]).toContain('FOR UPDATE SKIP LOCKED');
+    expect(client.query.mock.calls[0][1]).toEqual([3, 2]);
+    expect(EmailOutboxRepository.enqueue).toHaveBeenCalledTimes(2);
+    // Enqueued inside the batch transaction, so a rollback never leaves half-queued recipients
+    expect(jest.mocked(EmailOutboxRepository.enqueue).mock.calls[0][2]).toBe(client);
+    expect(executed().some((sql) => sql.includes("status = 'SENT'"))).toBe(false);
+  });
+
+  it('marks each recipient queued with its outbox email', async () => {
+    script([recipient(1)], [], []);
+
+    await NewsletterCampaignRepository.queueRecipientBatch(3, 50, buildEmail, 5);
+
+    expect(executed()[1]).toContain("SET status = 'QUEUED'");
+    expect(client.query.mock.calls[1][1]).toEqual([1, 900]);
+  });
+
+  it('marks the campaign sent once no recipient is pending', async () => {
+    script([recipient(1)], [], [], []);
+
+    const result = await NewsletterCampaignRepository.queueRecipientBatch(3, 50, buildEmail, 5);
+
+    expect(result).toEqual({ queued: 1, completed: true });
+    expect(executed()[3]).toContain("SET status = 'SENT'");
+    expect(executed()[3]).toContain("status = 'SENDING'");
+  });
+
+  it('fails a recipient whose email cannot be built and carries on', async () => {
+    script([recipient(1), recipient(2)], [], [], []);
+    const failFirst = (r: CampaignRecipient) => {
+      if (r.id === 1) throw new Error('bad address');
+      return buildEmail(r);
+    };
+
+    const result = await NewsletterCampaignRepository.queueRecipientBatch(3, 50, failFirst, 5);
+
+    expect(result.queued).toBe(1);
+    expect(executed()[1]).toContain("SET status = 'FAILED'");
+    expect(client.query.mock.calls[1][1]).toEqual([1, 'bad address']);
+    expect(EmailOutboxRepository.enqueue).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('NewsletterCampaignRepository.startDueCampaigns', () => {
+  it('snapshots confirmed subscribers as recipients and starts sending', async () => {
+    const started = { id: 3, status: 'SENDING', recipient_count: 2 };
+    client.query
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [], rowCount: 2 })
+      .mockResolvedValueOnce({ rows: [started] });
+
+    expect(await NewsletterCampaignRepository.startDueCampaigns()).toEqual([started]);
+    expect(executed()[1]).toContain("WHERE status = 'CONFIRMED'");
+    expect(client.query.mock.calls[2][1]).toEqual([3, 2]);
+  });
+});
@@ -0,0 +1,305 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import { EmailOutboxRepository } from './emailOutboxRepository';
+import { EmailOptions } from '../types/email';
+import {
+  CampaignRecipient,
+  CampaignRecipientStatus,
+  CampaignRecipientWithDelivery,
+  CampaignStats,
+  CampaignStatus,
+  CreateCampaignRequest,
+  NewsletterCampaign,
+  UpdateCampaignRequest,
+} from '../types/newsletter';
+
+export class NewsletterCampaignRepository {
+  /**
+   * Create a draft campaign
+   */
+  static async createCampaign(
+    data: CreateCampaignRequest,
+    userId: number
+  ): Promise<NewsletterCampaign> {
+    const result = await query(
+      `INSERT INTO newsletter_campaigns_cw (subject, html_body, text_body, layout_name, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $5)
+       RETURNING *`,
+      [data.subject, data.html_body, data.text_body || null, data.layout_name || null, userId]
+    );
+    return result.rows[0] as NewsletterCampaign;
+  }
+
+  /**
+   * Get campaigns, newest first
+   */
+  static async getCampaigns(
+    limit: number = 10,
+    offset: number = 0,
+    status?: CampaignStatus
+  ): Promise<{ data: NewsletterCampaign[]; total: number }> {
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM newsletter_campaigns_cw
+       WHERE ($1::VARCHAR IS NULL OR status = $1)`,
+      [status || null]
+    );
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    const result = await query(
+      `SELECT * FROM newsletter_campaigns_cw
+       WHERE ($1::VARCHAR IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [status || null, limit, offset]
+    );
+
+    return { data: result.rows as NewsletterCampaign[], total };
+  }
+
+  /**
+   * Get campaign by ID
+   */
+  static async getCampaignById(id: number): Promise<NewsletterCampaign | null> {
+    const result = await query('SELECT * FROM newsletter_campaigns_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as NewsletterCampaign) : null;
+  }
+
+  /**
+   * Update a draft campaign; null when the campaign is not a draft (anymore)
+   */
+  static async updateCampaign(
+    id: number,
+    data: UpdateCampaignRequest,
+    userId: number
+  ): Promise<NewsletterCampaign | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex}`);
+        values.push(value);
+        paramIndex++;
+      }
+    });
+
+    updates.push(`updated_by = $${paramIndex++}`);
+    values.push(userId);
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const result = await query(
+      `UPDATE newsletter_campaigns_cw SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND status = 'DRAFT'
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as NewsletterCampaign) : null;
+  }
+
+  /**
+   * Delete a draft campaign
+   */
+  static async deleteCampaign(id: number): Promise<boolean> {
+    const result = await query(
+      `DELETE FROM newsletter_campaigns_cw
+       WHERE id = $1 AND status = 'DRAFT'`,
+      [id]
+    );
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Schedule a draft campaign (a time in the past or now sends on the next worker run)
+   */
+  static async scheduleCampaign(
+    id: number,
+    scheduledAt: Date,
+    userId: number
+  ): Promise<NewsletterCampaign | null> {
+    const result = await query(
+      `UPDATE newsletter_campaigns_cw
+       SET status = 'SCHEDULED', scheduled_at = $2, updated_by = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'DRAFT'
+       RETURNING *`,
+      [id, scheduledAt, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as NewsletterCampaign) : null;
+  }
+
+  /**
+   * Move a scheduled campaign back to draft before sending starts
+   */
+  static async unscheduleCampaign(id: number, userId: number): Promise<NewsletterCampaign | null> {
+    const result = await query(
+      `UPDATE newsletter_campaigns_cw
+       SET status = 'DRAFT', scheduled_at = NULL, updated_by = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'SCHEDULED'
+       RETURNING *`,
+      [id, userId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as NewsletterCampaign) : null;
+  }
+
+  /**
+   * Start every scheduled campaign that is due: snapshot the confirmed subscribers as
+   * recipients and move the campaign to SENDING
+   */
+  static async startDueCampaigns(): Promise<NewsletterCampaign[]> {
+    return withTransaction(async (client: PoolClient) => {
+      const due = await client.query(
+        `SELECT id FROM newsletter_campaigns_cw
+         WHERE status = 'SCHEDULED' AND scheduled_at <= NOW()
+         FOR UPDATE SKIP LOCKED`
+      );
+
+      const started: NewsletterCampaign[] = [];
+      for (const { id } of due.rows) {
+        const recipients = await client.query(
+          `INSERT INTO newsletter_campaign_recipients_cw (campaign_id, subscriber_id, email)
+           SELECT $1, id, LOWER(email) FROM newsletter_subscribers
+           WHERE status = 'CONFIRMED'
+           ON CONFLICT (campaign_id, email) DO NOTHING`,
+          [id]
+        );
+
+        const result = await client.query(
+          `UPDATE newsletter_campaigns_cw
+           SET status = 'SENDING', started_at = NOW(), recipient_count = $2, updated_at = NOW()
+           WHERE id = $1
+           RETURNING *`,
+          [id, recipients.rowCount ?? 0]
+        );
+        started.push(result.rows[0] as NewsletterCampaign);
+      }
+
+      return started;
+    });
+  }
+
+  /**
+   * Get campaigns that are currently being sent
+   */
+  static async getSendingCampaigns(): Promise<NewsletterCampaign[]> {
+    const result = await query(
+      `SELECT * FROM newsletter_campaigns_cw
+       WHERE status = 'SENDING'
+       ORDER BY started_at ASC`
+    );
+    return result.rows as NewsletterCampaign[];
+  }
+
+  /**
+   * Hand the next batch of pending recipients to the email outbox in one transaction, so a
+   * recipient is never queued twice. Marks the campaign SENT once no recipient is pending.
+   */
+  static async queueRecipientBatch(
+    campaignId: number,
+    limit: number,
+    buildEmail: (recipient: CampaignRecipient) => EmailOptions,
+    maxAttempts: number
+  ): Promise<{ queued: number; completed: boolean }> {
+    return withTransaction(async (client: PoolClient) => {
+      const pending = await client.query(
+        `SELECT * FROM newsletter_campaign_recipients_cw
+         WHERE campaign_id = $1 AND status = 'PENDING'
+         ORDER BY id
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED`,
+        [campaignId, limit]
+      );
+
+      let queued = 0;
+      for (const recipient of pending.rows as CampaignRecipient[]) {
+        let options: EmailOptions;
+        try {
+          options = buildEmail(recipient);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          await client.query(
+            `UPDATE newsletter_campaign_recipients_cw SET status = 'FAILED', error = $2
+             WHERE id = $1`,
+            [recipient.id, errorMessage]
+          );
+          continue;
+        }
+
+        const email = await EmailOutboxRepository.enqueue(options, maxAttempts, client);
+        await client.query(
+          `UPDATE newsletter_campaign_recipients_cw
+           SET status = 'QUEUED', email_id = $2, queued_at = NOW()
+           WHERE id = $1`,
+          [recipient.id, email.id]
+        );
+        queued++;
+      }
+
+      const remaining = await client.query(
+        `SELECT 1 FROM newsletter_campaign_recipients_cw
+         WHERE campaign_id = $1 AND status = 'PENDING'
+         LIMIT 1`,
+        [campaignId]
+      );
+      const completed = remaining.rows.length === 0;
+
+      if (completed) {
+        await client.query(
+          `UPDATE newsletter_campaigns_cw SET status = 'SENT', sent_at = NOW(), updated_at = NOW()
+           WHERE id = $1 AND status = 'SENDING'`,
+          [campaignId]
+        );
+      }
+
+      return { queued, completed };
+    });
+  }
+
+  /**
+   * Get a campaign's recipients with the delivery status of their email
+   */
+  static async getRecipients(
+    campaignId: number,
+    limit: number = 50,
+    offset: number = 0,
+    status?: CampaignRecipientStatus
+  ): Promise<{ data: CampaignRecipientWithDelivery[]; total: number }> {
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM newsletter_campaign_recipients_cw
+       WHERE campaign_id = $1 AND ($2::VARCHAR IS NULL OR status = $2)`,
+      [campaignId, status || null]
+    );
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    const result = await query(
+      `SELECT r.*, o.status AS delivery_status, o.sent_at AS delivered_at, o.last_error AS delivery_error
+       FROM newsletter_campaign_recipients_cw r
+       LEFT JOIN email_outbox_cw o ON o.id = r.email_id
+       WHERE r.campaign_id = $1 AND ($2::VARCHAR IS NULL OR r.status = $2)
+       ORDER BY r.id
+       LIMIT $3 OFFSET $4`,
+      [campaignId, status || null, limit, offset]
+    );
+
+    return { data: result.rows as CampaignRecipientWithDelivery[], total };
+  }
+
+  /**
+   * Count a campaign's recipients by delivery state
+   */
+  static async getStats(campaignId: number): Promise<CampaignStats> {
+    const result = await query(
+      `SELECT
+         COUNT(*)::int AS total,
+         COUNT(*) FILTER (WHERE r.status = 'PENDING')::int AS pending,
+         COUNT(*) FILTER (WHERE o.status IN ('PENDING', 'SENDING'))::int AS queued,
+         COUNT(*) FILTER (WHERE o.status = 'SENT')::int AS sent,
+         COUNT(*) FILTER (WHERE r.status = 'FAILED' OR o.status = 'DEAD')::int AS failed
+       FROM newsletter_campaign_recipients_cw r
+       LEFT JOIN email_outbox_cw o ON o.id = r.email_id
+       WHERE r.campaign_id = $1`,
+      [campaignId]
+    );
+    return result.rows[0] as CampaignStats;
+  }
+}
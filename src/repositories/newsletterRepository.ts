@@ -1,18 +1,24 @@
 import { query } from '../config/database';
-import { NewsletterSubscriber, SubscribeRequest } from '../types/newsletter';
+import { NewsletterSubscriber, SubscribeRequest, SubscriberStatus } from '../types/newsletter';
+
+const SUBSCRIBER_COLUMNS = 'id, email, status, confirmed_at, confirmation_sent_at, created_at';
 
 export class NewsletterRepository {
   /**
-   * Subscribe email to newsletter
+   * Subscribe email to newsletter as PENDING. Signing up again while pending restarts the
+   * confirmation window; a confirmed subscriber is returned unchanged.
    */
   static async subscribe(data: SubscribeRequest): Promise<NewsletterSubscriber> {
     const { email } = data;
 
     const result = await query(
-      `INSERT INTO newsletter_subscribers (email, created_at)
-       VALUES ($1, CURRENT_TIMESTAMP)
-       ON CONFLICT (email) DO UPDATE SET created_at = CURRENT_TIMESTAMP
-       RETURNING id, email, created_at`,
+      `INSERT INTO newsletter_subscribers (email, status, created_at)
+       VALUES ($1, 'PENDING', CURRENT_TIMESTAMP)
+       ON CONFLICT (email) DO UPDATE SET created_at = CASE
+         WHEN newsletter_subscribers.status = 'PENDING' THEN CURRENT_TIMESTAMP
+         ELSE newsletter_subscribers.created_at
+       END
+       RETURNING ${SUBSCRIBER_COLUMNS}`,
       [email]
     );
 
@@ -20,21 +26,66 @@ export class NewsletterRepository {
   }
 
   /**
-   * Get all newsletter subscribers
+   * Record that a confirmation email went out
+   */
+  static async markConfirmationSent(id: number): Promise<void> {
+    await query(
+      'UPDATE newsletter_subscribers SET confirmation_sent_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  }
+
+  /**
+   * Confirm a pending subscription; the token only counts for the address it was sent to.
+   * Confirming twice is harmless. Returns null when the subscriber no longer exists.
+   */
+  static async confirm(id: number, email: string): Promise<NewsletterSubscriber | null> {
+    const result = await query(
+      `UPDATE newsletter_subscribers
+       SET status = 'CONFIRMED', confirmed_at = COALESCE(confirmed_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND email = $2
+       RETURNING ${SUBSCRIBER_COLUMNS}`,
+      [id, email]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete pending subscriptions that were not confirmed in time
+   */
+  static async deleteExpiredPending(ttlHours: number): Promise<number> {
+    const result = await query(
+      `DELETE FROM newsletter_subscribers
+       WHERE status = 'PENDING' AND created_at < NOW() - $1 * INTERVAL '1 hour'`,
+      [ttlHours]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Get all newsletter subscribers, optionally by confirmation status
    */
   static async getAllSubscribers(
     limit: number = 10,
-    offset: number = 0
+    offset: number = 0,
+    status?: SubscriberStatus
   ): Promise<{ data: NewsletterSubscriber[]; total: number }> {
-    const countResult = await query('SELECT COUNT(*) as total FROM newsletter_subscribers');
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM newsletter_subscribers
+       WHERE ($1::VARCHAR IS NULL OR status = $1)`,
+      [status || null]
+    );
     const total = parseInt(countResult.rows[0].total, 10);
 
     const result = await query(
-      `SELECT id, email, created_at
+      `SELECT ${SUBSCRIBER_COLUMNS}
        FROM newsletter_subscribers
+       WHERE ($1::VARCHAR IS NULL OR status = $1)
        ORDER BY created_at DESC
-       LIMIT $1 OFFSET $2`,
-      [limit, offset]
+       LIMIT $2 OFFSET $3`,
+      [status || null, limit, offset]
     );
 
     return {
@@ -43,24 +94,12 @@ export class NewsletterRepository {
     };
   }
 
-  /**
-   * Check if email is already subscribed
-   */
-  static async isSubscribed(email: string): Promise<boolean> {
-    const result = await query(
-      `SELECT id FROM newsletter_subscribers WHERE email = $1`,
-      [email]
-    );
-
-    return result.rows.length > 0;
-  }
-
   /**
    * Get subscriber by email
    */
   static async getByEmail(email: string): Promise<NewsletterSubscriber | null> {
     const result = await query(
-      `SELECT id, email, created_at FROM newsletter_subscribers WHERE email = $1`,
+      `SELECT ${SUBSCRIBER_COLUMNS} FROM newsletter_subscribers WHERE email = $1`,
       [email]
     );
 
@@ -72,7 +111,7 @@ export class NewsletterRepository {
    */
   static async unsubscribe(email: string): Promise<boolean> {
     const result = await query(
-      `DELETE FROM newsletter_subscribers WHERE email = $1`,
+      'DELETE FROM newsletter_subscribers WHERE email = $1',
       [email]
     );
 
@@ -84,7 +123,7 @@ export class NewsletterRepository {
    */
   static async deleteById(id: number): Promise<boolean> {
     const result = await query(
-      `DELETE FROM newsletter_subscribers WHERE id = $1`,
+      'DELETE FROM newsletter_subscribers WHERE id = $1',
       [id]
     );
 
@@ -92,10 +131,14 @@ export class NewsletterRepository {
   }
 
   /**
-   * Get subscriber count
+   * Get subscriber count, optionally by confirmation status
    */
-  static async getTotal(): Promise<number> {
-    const result = await query('SELECT COUNT(*) as total FROM newsletter_subscribers');
+  static async getTotal(status?: SubscriberStatus): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as total FROM newsletter_subscribers
+       WHERE ($1::VARCHAR IS NULL OR status = $1)`,
+      [status || null]
+    );
     return parseInt(result.rows[0].total, 10);
   }
 }
@@ -0,0 +1,265 @@
+import { withTransaction } from '../config/database';
+import { Coupon } from '../types/coupon';
+import { CreateOrderData, Order, PaymentEvent } from '../types/order';
+import { CouponRepository } from './couponRepository';
+import { OrderRepository } from './orderRepository';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn(),
+  withTransaction: jest.fn(),
+  isUniqueViolation: jest.fn(),
+}));
+jest.mock('./couponRepository', () => ({
+  CouponRepository: {
+    lockCoupon: jest.fn(),
+    recordRedemption: jest.fn(),
+    getScopes: jest.fn(),
+    getUsage: jest.fn(),
+  },
+}));
+
+// Transaction client whose queries answer with the scripted results, in order
+const client = { query: jest.fn() };
+
+const script = (...results: object[][]) => {
+  for (const rows of results) {
+    client.query.mockResolvedValueOnce({ rows, rowCount: rows.length });
+  }
+};
+
+const order = (overrides: Partial<Order> = {}): Order =>
+  ({
+    id: 31,
+    user_id: 7,
+    batch_id: 4,
+    amount: '199.00',
+    discount_amount: '0.00',
+    currency: 'INR',
+    status: 'PENDING',
+    coupon_id: null,
+    ...overrides,
+  }) as Order;
+
+const event = (overrides: Partial<PaymentEvent> = {}): PaymentEvent => ({
+  id: 'evt_1',
+  type: 'payment.succeeded',
+  provider_reference: 'ref_1',
+  amount: 19900,
+  currency: 'INR',
+  payload: {},
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  client.query.mockReset();
+  jest
+    .mocked(withTransaction)
+    .mockImplementation((fn) => fn(client as unknown as Parameters<typeof fn>[0]));
+});
+
+describe('OrderRepository.applyPaymentEvent', () => {
+  it('marks a pending order paid and records the event against it', async () => {
+    const paid = order({ status: 'PAID' });
+    script([{ id: 100 }], [order()], [], [paid]);
+
+    const result = await OrderRepository.applyPaymentEvent('fake', event());
+
+    expect(result).toEqual({ outcome: 'TRANSITIONED', order: paid, previous_status: 'PENDING' });
+    expect(client.query.mock.calls[0][1]).toEqual(['fake', 'evt_1', 'payment.succeeded', '{}']);
+    expect(client.query.mock.calls[2][1]).toEqual([31, 100]);
+    expect(client.query.mock.calls[3][1][0]).toBe('PAID');
+  });
+
+  it('acknowledges a redelivered event without touching the order', async () => {
+    script([]);
+
+    expect(await OrderRepository.applyPaymentEvent('fake', event())).toEqual({
+      outcome: 'DUPLICATE',
+    });
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an event for an unknown checkout', async () => {
+    script([{ id: 100 }], []);
+
+    expect(await OrderRepository.applyPaymentEvent('fake', event())).toEqual({
+      outcome: 'ORDER_NOT_FOUND',
+    });
+  });
+
+  it('ignores a payment for a different amount or currency', async () => {
+    script([{ id: 100 }], [order()], []);
+    expect((await OrderRepository.applyPaymentEvent('fake', event({ amount: 100 }))).outcome).toBe(
+      'IGNORED'
+    );
+
+    script([{ id: 101 }], [order()], []);
+    expect(
+      (await OrderRepository.applyPaymentEvent('fake', event({ id: 'evt_2', currency: 'USD' })))
+        .outcome
+    ).toBe('IGNORED');
+    expect(client.query).toHaveBeenCalledTimes(6);
+  });
+
+  it('ignores a late failure for an order that is already paid', async () => {
+    script([{ id: 100 }], [order({ status: 'PAID' })], []);
+
+    const result = await OrderRepository.applyPaymentEvent(
+      'fake',
+      event({ type: 'payment.failed', failure_reason: 'card declined' })
+    );
+
+    expect(result.outcome).toBe('IGNORED');
+    expect(client.query).toHaveBeenCalledTimes(3);
+  });
+
+  it('pays a cancelled checkout the customer completed anyway', async () => {
+    const paid = order({ status: 'PAID' });
+    script([{ id: 100 }], [order({ status: 'CANCELLED' })], [], [paid]);
+
+    const result = await OrderRepository.applyPaymentEvent('fake', event());
+
+    expect(result).toEqual({ outcome: 'TRANSITIONED', order: paid, previous_status: 'CANCELLED' });
+    expect(CouponRepository.recordRedemption).not.toHaveBeenCalled();
+  });
+
+  it('redeems the coupon of a revived checkout again', async () => {
+    const cancelled = order({ status: 'CANCELLED', coupon_id: 5, discount_amount: '20.00' });
+    script([{ id: 100 }], [cancelled], [], [{ ...cancelled, status: 'PAID' }], []);
+    jest.mocked(CouponRepository.lockCoupon).mockResolvedValue({ id: 5 } as never);
+
+    await OrderRepository.applyPaymentEvent('fake', event());
+
+    expect(CouponRepository.recordRedemption).toHaveBeenCalledWith(client, 5, 7, 31, 20);
+  });
+
+  it('does not redeem a coupon twice for a revived checkout', async () => {
+    const cancelled = order({ status: 'CANCELLED', coupon_id: 5 });
+    script([{ id: 100 }], [cancelled], [], [{ ...cancelled, status: 'PAID' }], [{ '?column?': 1 }]);
+
+    await OrderRepository.applyPaymentEvent('fake', event());
+
+    expect(CouponRepository.recordRedemption).not.toHaveBeenCalled();
+  });
+});
+
+describe('OrderRepository.updateStatus', () => {
+  it('cancels a pending order', async () => {
+    const cancelled = order({ status: 'CANCELLED' });
+    script([order()], [cancelled]);
+
+    expect(await OrderRepository.updateStatus(31, 'CANCELLED')).toEqual({
+      outcome: 'TRANSITIONED',
+      order: cancelled,
+      previous_status: 'PENDING',
+    });
+    expect(client.query.mock.calls[1][0]).toContain('cancelled_at = NOW()');
+  });
+
+  it('refuses to cancel a paid order', async () => {
+    const paid = order({ status: 'PAID' });
+    script([paid]);
+
+    expect(await OrderRepository.updateStatus(31, 'CANCELLED')).toEqual({
+      outcome: 'INVALID_TRANSITION',
+      order: paid,
+    });
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not let internal callers revive a cancelled order', async () => {
+    script([order({ status: 'CANCELLED' })]);
+
+    expect((await OrderRepository.updateStatus(31, 'PAID')).outcome).toBe('INVALID_TRANSITION');
+  });
+});
+
+describe('OrderRepository.createOrder with a coupon', () => {
+  const data: CreateOrderData = {
+    user_id: 7,
+    item_type: 'BATCH',
+    item_id: 4,
+    batch_id: 4,
+    description: 'Red Team Bootcamp',
+    amount: 200,
+    currency: 'INR',
+    provider: 'fake',
+  };
+
+  const coupon = (overrides: Partial<Coupon> = {}): Coupon =>
+    ({
+      id: 5,
+      code: 'SPRING20',
+      discount_type: 'PERCENT',
+      discount_value: '20.00',
+      starts_at: null,
+      expires_at: null,
+      max_redemptions: null,
+      max_redemptions_per_user: null,
+      times_redeemed: 0,
+      is_active: true,
+      ...overrides,
+    }) as Coupon;
+
+  beforeEach(() => {
+    jest.mocked(CouponRepository.getScopes).mockResolvedValue([]);
+    jest.mocked(CouponRepository.getUsage).mockResolvedValue({ total: 0, by_user: 0 });
+  });
+
+  it('charges the discounted amount and records the redemption in the same transaction', async () => {
+    const created = order({ id: 40, coupon_id: 5 });
+    jest.mocked(CouponRepository.lockCoupon).mockResolvedValue(coupon());
+    script([created]);
+
+    const result = await OrderRepository.createOrder(data, { coupon_id: 5, course_id: 3 });
+
+    expect(result).toEqual({ outcome: 'CREATED', order: created });
+    // subtotal, discount, amount, currency, provider, coupon id, coupon code
+    expect(client.query.mock.calls[0][1].slice(5)).toEqual([
+      200,
+      40,
+      160,
+      'INR',
+      'fake',
+      5,
+      'SPRING20',
+    ]);
+    expect(CouponRepository.recordRedemption).toHaveBeenCalledWith(client, 5, 7, 40, 40);
+  });
+
+  it('needs no provider when the coupon covers the whole price', async () => {
+    jest
+      .mocked(CouponRepository.lockCoupon)
+      .mockResolvedValue(coupon({ discount_value: '100.00' }));
+    script([order({ id: 41, amount: '0.00' })]);
+
+    await OrderRepository.createOrder(data, { coupon_id: 5, course_id: 3 });
+
+    const params = client.query.mock.calls[0][1];
+    expect(params[7]).toBe(0);
+    expect(params[9]).toBe('free');
+  });
+
+  it('rejects a coupon that has run out without creating an order', async () => {
+    jest
+      .mocked(CouponRepository.lockCoupon)
+      .mockResolvedValue(coupon({ max_redemptions: 10, times_redeemed: 10 }));
+    jest.mocked(CouponRepository.getUsage).mockResolvedValue({ total: 10, by_user: 0 });
+
+    const result = await OrderRepository.createOrder(data, { coupon_id: 5, course_id: 3 });
+
+    expect(result.outcome).toBe('COUPON_REJECTED');
+    expect(client.query).not.toHaveBeenCalled();
+    expect(CouponRepository.recordRedemption).not.toHaveBeenCalled();
+  });
+
+  it('rejects a coupon deleted since it was looked up', async () => {
+    jest.mocked(CouponRepository.lockCoupon).mockResolvedValue(null);
+
+    expect(await OrderRepository.createOrder(data, { coupon_id: 5, course_id: 3 })).toEqual({
+      outcome: 'COUPON_REJECTED',
+      error: 'Coupon not found',
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { PoolClient } from 'pg';
+import { isUniqueViolation, query, withTransaction } from '../config/database';
+import { CouponRepository } from './couponRepository';
+import { checkCoupon } from '../utils/couponRules';
+import { canTransitionOrder } from '../utils/orderTransitions';
+import {
+  CreateOrderData,
+  CreateOrderResult,
+  Order,
+  OrderCoupon,
+  OrderFilters,
+  OrderStatus,
+  PaymentEvent,
+  PaymentEventResult,
+  TransitionResult,
+} from '../types/order';
+
+// Timestamp column stamped when an order enters a status
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, string>> = {
+  PAID: 'paid_at',
+  CANCELLED: 'cancelled_at',
+  REFUNDED: 'refunded_at',
+};
+
+// Order status a provider event moves the order to
+const EVENT_STATUSES: Record<PaymentEvent['type'], OrderStatus> = {
+  'payment.succeeded': 'PAID',
+  'payment.failed': 'FAILED',
+  'payment.refunded': 'REFUNDED',
+};
+
+export class OrderRepository {
+  /**
+   * Move a locked order to a new status when the transition is allowed
+   */
+  private static async transition(
+    client: PoolClient,
+    order: Order,
+    status: OrderStatus,
+    failureReason?: string,
+    fromProviderEvent: boolean = false
+  ): Promise<Order | null> {
+    if (!canTransitionOrder(order.status, status, fromProviderEvent)) {
+      return null;
+    }
+
+    const timestampColumn = STATUS_TIMESTAMPS[status];
+    const result = await client.query(
+      `UPDATE orders_cw
+       SET status = $1, failure_reason = $2, updated_at = NOW()
+       ${timestampColumn ? `, ${timestampColumn} = NOW()` : ''}
+       WHERE id = $3
+       RETURNING *`,
+      [status, status === 'FAILED' ? failureReason || null : null, order.id]
+    );
+    return result.rows[0] as Order;
+  }
+
+  /**
+   * Create a pending order, redeeming a coupon when one is given.
+   * The coupon row is locked while its limits are checked and the redemption is recorded, so
+   * concurrent checkouts cannot push it past max_redemptions. When the user already has an open
+   * checkout for the batch, that order is returned as EXISTING.
+   */
+  static async createOrder(
+    data: CreateOrderData,
+    coupon?: OrderCoupon
+  ): Promise<CreateOrderResult> {
+    try {
+      return await withTransaction(async (client) => {
+        const subtotal = data.amount;
+        let discount = 0;
+        let couponCode: string | null = null;
+
+        if (coupon) {
+          const locked = await CouponRepository.lockCoupon(client, coupon.coupon_id);
+          if (!locked) {
+            return { outcome: 'COUPON_REJECTED', error: 'Coupon not found' };
+          }
+
+          const check = checkCoupon(
+            locked,
+            await CouponRepository.getScopes(locked.id, client),
+            { course_id: coupon.course_id, batch_id: data.batch_id, amount: subtotal },
+            await CouponRepository.getUsage(locked.id, data.user_id, client)
+          );
+          if (!check.valid) {
+            return { outcome: 'COUPON_REJECTED', error: check.error };
+          }
+
+          discount = check.quote!.discount;
+          couponCode = locked.code;
+        }
+
+        const amount = Math.round((subtotal - discount) * 100) / 100;
+        const result = await client.query(
+          `INSERT INTO orders_cw (
+            user_id, item_type, item_id, batch_id, description, subtotal, discount_amount, amount,
+            currency, provider, coupon_id, coupon_code
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          RETURNING *`,
+          [
+            data.user_id,
+            data.item_type,
+            data.item_id,
+            data.batch_id,
+            data.description,
+            subtotal,
+            discount,
+            amount,
+            data.currency,
+            // Nothing to charge: no provider is involved
+            amount > 0 ? data.provider : 'free',
+            coupon ? coupon.coupon_id : null,
+            couponCode,
+          ]
+        );
+        const order = result.rows[0] as Order;
+
+        if (coupon) {
+          await CouponRepository.recordRedemption(
+            client,
+            coupon.coupon_id,
+            data.user_id,
+            order.id,
+            discount
+          );
+        }
+
+        return { outcome: 'CREATED', order };
+      });
+    } catch (error: unknown) {
+      // A concurrent checkout won the one-pending-order-per-batch index
+      if (isUniqueViolation(error)) {
+        const order = await this.getPendingOrder(data.user_id, data.batch_id);
+        if (order) {
+          return { outcome: 'EXISTING', order };
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's open checkout for a batch
+   */
+  static async getPendingOrder(userId: number, batchId: number): Promise<Order | null> {
+    const result = await query(
+      `SELECT * FROM orders_cw
+       WHERE user_id = $1 AND batch_id = $2 AND status = 'PENDING'`,
+      [userId, batchId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Order) : null;
+  }
+
+  /**
+   * Attach the provider's checkout session to an order
+   */
+  static async setCheckoutSession(
+    id: number,
+    providerReference: string,
+    checkoutUrl: string
+  ): Promise<Order | null> {
+    const result = await query(
+      `UPDATE orders_cw
+       SET provider_reference = $1, checkout_url = $2, updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [providerReference, checkoutUrl, id]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Order) : null;
+  }
+
+  /**
+   * Get order by ID
+   */
+  static async getOrderById(id: number): Promise<Order | null> {
+    const result = await query('SELECT * FROM orders_cw WHERE id = $1', [id]);
+    return result.rows.length > 0 ? (result.rows[0] as Order) : null;
+  }
+
+  /**
+   * Get order by provider checkout reference
+   */
+  static async getOrderByReference(provider: string, reference: string): Promise<Order | null> {
+    const result = await query(
+      'SELECT * FROM orders_cw WHERE provider = $1 AND provider_reference = $2',
+      [provider, reference]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Order) : null;
+  }
+
+  /**
+   * Get orders of a user, newest first
+   */
+  static async getOrdersByUser(userId: number): Promise<Order[]> {
+    const result = await query(
+      'SELECT * FROM orders_cw WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows as Order[];
+  }
+
+  /**
+   * Get all orders with pagination
+   */
+  static async getAllOrders(
+    limit: number = 10,
+    offset: number = 0,
+    filters: OrderFilters = {}
+  ): Promise<{ orders: Order[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+
+    if (filters.user_id) {
+      conditions.push(`user_id = $${paramIndex++}`);
+      values.push(filters.user_id);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query(
+      `SELECT COUNT(*) as count FROM orders_cw ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT * FROM orders_cw ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...values, limit, offset]
+    );
+
+    return { orders: result.rows as Order[], total };
+  }
+
+  /**
+   * Change an order's status from the API side (cancellation, free orders)
+   */
+  static async updateStatus(id: number, status: OrderStatus): Promise<TransitionResult> {
+    return withTransaction(async (client) => {
+      const orderResult = await client.query('SELECT * FROM orders_cw WHERE id = $1 FOR UPDATE', [
+        id,
+      ]);
+      if (orderResult.rows.length === 0) {
+        return { outcome: 'ORDER_NOT_FOUND' };
+      }
+
+      const current = orderResult.rows[0] as Order;
+      const order = await this.transition(client, current, status);
+      if (!order) {
+        return { outcome: 'INVALID_TRANSITION', order: current };
+      }
+
+      return { outcome: 'TRANSITIONED', order, previous_status: current.status };
+    });
+  }
+
+  /**
+   * Apply a verified provider event exactly once.
+   * The event is stored in the same transaction as the status change, so a redelivered
+   * webhook is a DUPLICATE and an out-of-order one (e.g. failed after paid) is IGNORED.
+   */
+  static async applyPaymentEvent(
+    provider: string,
+    event: PaymentEvent
+  ): Promise<PaymentEventResult> {
+    return withTransaction(async (client) => {
+      const eventResult = await client.query(
+        `INSERT INTO payment_events_cw (provider, event_id, event_type, payload)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (provider, event_id) DO NOTHING
+         RETURNING id`,
+        [provider, event.id, event.type, JSON.stringify(event.payload)]
+      );
+      if (eventResult.rows.length === 0) {
+        return { outcome: 'DUPLICATE' };
+      }
+
+      const orderResult = await client.query(
+        'SELECT * FROM orders_cw WHERE provider = $1 AND provider_reference = $2 FOR UPDATE',
+        [provider, event.provider_reference]
+      );
+      if (orderResult.rows.length === 0) {
+        return { outcome: 'ORDER_NOT_FOUND' };
+      }
+
+      const current = orderResult.rows[0] as Order;
+      await client.query('UPDATE payment_events_cw SET order_id = $1 WHERE id = $2', [
+        current.id,
+        eventResult.rows[0].id,
+      ]);
+
+      const status = EVENT_STATUSES[event.type];
+      if (!status) {
+        return { outcome: 'IGNORED', order: current };
+      }
+
+      // Never mark an order paid for a different sum than it was created for
+      const expectedAmount = Math.round(parseFloat(current.amount) * 100);
+      if (
+        status === 'PAID' &&
+        (event.amount !== expectedAmount || event.currency !== current.currency)
+      ) {
+        return { outcome: 'IGNORED', order: current };
+      }
+
+      const order = await this.transition(client, current, status, event.failure_reason, true);
+      if (!order) {
+        return { outcome: 'IGNORED', order: current };
+      }
+
+      // A cancelled checkout paid anyway keeps its discount, so it counts against the coupon again
+      if (current.status === 'CANCELLED' && current.coupon_id) {
+        const redeemed = await client.query(
+          'SELECT 1 FROM coupon_redemptions_cw WHERE order_id = $1',
+          [current.id]
+        );
+        if (
+          redeemed.rows.length === 0 &&
+          (await CouponRepository.lockCoupon(client, current.coupon_id))
+        ) {
+          await CouponRepository.recordRedemption(
+            client,
+            current.coupon_id,
+            current.user_id,
+            current.id,
+            parseFloat(current.discount_amount)
+          );
+        }
+      }
+
+      return { outcome: 'TRANSITIONED', order, previous_status: current.status };
+    });
+  }
+
+  /**
+   * Record that the buyer has been enrolled for a paid order
+   */
+  static async markFulfilled(id: number): Promise<void> {
+    await query(
+      'UPDATE orders_cw SET fulfilled_at = NOW(), updated_at = NOW() WHERE id = $1 AND fulfilled_at IS NULL',
+      [id]
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { query } from '../config/database';
+import { PasswordResetToken } from '../types/auth';
+
+export class PasswordResetRepository {
+  /**
+   * Issue a reset token, invalidating any earlier unused tokens of the user
+   */
+  static async createToken(data: {
+    user_id: number;
+    token_hash: string;
+    expires_at: Date;
+    requested_ip?: string;
+  }): Promise<PasswordResetToken> {
+    const { user_id, token_hash, expires_at, requested_ip } = data;
+
+    await query(
+      `UPDATE password_reset_tokens_cw SET used_at = NOW()
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [user_id]
+    );
+
+    const result = await query(
+      `INSERT INTO password_reset_tokens_cw (user_id, token_hash, expires_at, requested_ip)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [user_id, token_hash, expires_at, requested_ip || null]
+    );
+
+    return result.rows[0] as PasswordResetToken;
+  }
+
+  /**
+   * Count tokens requested for a user within the last hour
+   */
+  static async countRecentForUser(userId: number): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM password_reset_tokens_cw
+       WHERE user_id = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Get an unused, unexpired token by hash
+   */
+  static async getActiveToken(tokenHash: string): Promise<PasswordResetToken | null> {
+    const result = await query(
+      `SELECT * FROM password_reset_tokens_cw
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()`,
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as PasswordResetToken) : null;
+  }
+
+  /**
+   * Atomically mark a valid token as used; null when unknown, expired or already used
+   */
+  static async consumeToken(tokenHash: string): Promise<PasswordResetToken | null> {
+    const result = await query(
+      `UPDATE password_reset_tokens_cw SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as PasswordResetToken) : null;
+  }
+}
@@ -0,0 +1,104 @@
+import { query } from '../config/database';
+import { LessonProgress, CourseCompletion, RecordProgressRequest } from '../types/progress';
+
+export class ProgressRepository {
+  /**
+   * Record progress on a lesson. A completed lesson stays completed; the video position is
+   * only overwritten when a new one is sent.
+   */
+  static async recordProgress(
+    userId: number,
+    courseId: number,
+    lessonId: number,
+    data: RecordProgressRequest
+  ): Promise<LessonProgress> {
+    const completed = data.completed === true;
+
+    const result = await query(
+      `INSERT INTO lesson_progress_cw (user_id, course_id, lesson_id, status, last_position_seconds, completed_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5, 0), CASE WHEN $6 THEN NOW() END)
+       ON CONFLICT (user_id, lesson_id) DO UPDATE
+       SET status = CASE WHEN lesson_progress_cw.status = 'COMPLETED' OR $6 THEN 'COMPLETED' ELSE 'STARTED' END,
+           last_position_seconds = COALESCE($5, lesson_progress_cw.last_position_seconds),
+           completed_at = COALESCE(lesson_progress_cw.completed_at, CASE WHEN $6 THEN NOW() END),
+           updated_at = NOW()
+       RETURNING *`,
+      [
+        userId,
+        courseId,
+        lessonId,
+        completed ? 'COMPLETED' : 'STARTED',
+        data.position_seconds ?? null,
+        completed,
+      ]
+    );
+
+    return result.rows[0] as LessonProgress;
+  }
+
+  /**
+   * Get a student's progress rows for a course, most recently touched first
+   */
+  static async getCourseProgress(userId: number, courseId: number): Promise<LessonProgress[]> {
+    const result = await query(
+      `SELECT p.* FROM lesson_progress_cw p
+       JOIN course_lessons_cw l ON l.id = p.lesson_id
+       WHERE p.user_id = $1 AND p.course_id = $2 AND l.is_published = true
+       ORDER BY p.updated_at DESC`,
+      [userId, courseId]
+    );
+    return result.rows as LessonProgress[];
+  }
+
+  /**
+   * Count published lessons of a course and how many of them the student completed
+   */
+  static async countCompletion(
+    userId: number,
+    courseId: number
+  ): Promise<{ total: number; completed: number }> {
+    const result = await query(
+      `SELECT COUNT(*) as total,
+              COUNT(p.id) FILTER (WHERE p.status = 'COMPLETED') as completed
+       FROM course_lessons_cw l
+       LEFT JOIN lesson_progress_cw p ON p.lesson_id = l.id AND p.user_id = $1
+       WHERE l.course_id = $2 AND l.is_published = true`,
+      [userId, courseId]
+    );
+    return {
+      total: parseInt(result.rows[0].total),
+      completed: parseInt(result.rows[0].completed),
+    };
+  }
+
+  /**
+   * Record that a student completed a course; returns null when it was already recorded
+   */
+  static async markCourseCompleted(
+    userId: number,
+    courseId: number
+  ): Promise<CourseCompletion | null> {
+    const result = await query(
+      `INSERT INTO course_completions_cw (user_id, course_id)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id, course_id) DO NOTHING
+       RETURNING *`,
+      [userId, courseId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseCompletion) : null;
+  }
+
+  /**
+   * Get a student's completion record for a course
+   */
+  static async getCourseCompletion(
+    userId: number,
+    courseId: number
+  ): Promise<CourseCompletion | null> {
+    const result = await query(
+      'SELECT * FROM course_completions_cw WHERE user_id = $1 AND course_id = $2',
+      [userId, courseId]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as CourseCompletion) : null;
+  }
+}
@@ -0,0 +1,262 @@
+import { query, withTransaction } from '../config/database';
+import {
+  Quiz,
+  QuizQuestion,
+  QuizAttempt,
+  CreateQuizRequest,
+  UpdateQuizRequest,
+  CreateQuestionRequest,
+  UpdateQuestionRequest,
+  GradedAttempt,
+  SubmitAttemptResult,
+} from '../types/quiz';
+
+// JSONB columns are sent as JSON text
+const JSON_COLUMNS = ['options', 'correct_answers'];
+
+export class QuizRepository {
+  /**
+   * Create the quiz of a QUIZ lesson
+   */
+  static async createQuiz(
+    courseId: number,
+    lessonId: number,
+    data: CreateQuizRequest
+  ): Promise<Quiz> {
+    const result = await query(
+      `INSERT INTO quizzes_cw (course_id, lesson_id, title, description, pass_percentage, max_attempts)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        courseId,
+        lessonId,
+        data.title,
+        data.description || null,
+        data.pass_percentage ?? 70,
+        data.max_attempts ?? null,
+      ]
+    );
+    return result.rows[0] as Quiz;
+  }
+
+  /**
+   * Get a quiz by ID, scoped to its course
+   */
+  static async getQuizById(courseId: number, id: number): Promise<Quiz | null> {
+    const result = await query('SELECT * FROM quizzes_cw WHERE id = $1 AND course_id = $2', [
+      id,
+      courseId,
+    ]);
+    return result.rows.length > 0 ? (result.rows[0] as Quiz) : null;
+  }
+
+  /**
+   * Get the quiz attached to a lesson
+   */
+  static async getQuizByLesson(lessonId: number): Promise<Quiz | null> {
+    const result = await query('SELECT * FROM quizzes_cw WHERE lesson_id = $1', [lessonId]);
+    return result.rows.length > 0 ? (result.rows[0] as Quiz) : null;
+  }
+
+  /**
+   * Update quiz settings
+   */
+  static async updateQuiz(
+    courseId: number,
+    id: number,
+    data: UpdateQuizRequest
+  ): Promise<Quiz | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getQuizById(courseId, id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, courseId);
+
+    const result = await query(
+      `UPDATE quizzes_cw
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND course_id = $${paramIndex + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as Quiz) : null;
+  }
+
+  /**
+   * Delete quiz together with its questions and attempts
+   */
+  static async deleteQuiz(courseId: number, id: number): Promise<boolean> {
+    const result = await query('DELETE FROM quizzes_cw WHERE id = $1 AND course_id = $2', [
+      id,
+      courseId,
+    ]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Get the questions of a quiz in display order
+   */
+  static async getQuestions(quizId: number): Promise<QuizQuestion[]> {
+    const result = await query(
+      'SELECT * FROM quiz_questions_cw WHERE quiz_id = $1 ORDER BY sort_order ASC, id ASC',
+      [quizId]
+    );
+    return result.rows as QuizQuestion[];
+  }
+
+  /**
+   * Get a question by ID, scoped to its quiz
+   */
+  static async getQuestionById(quizId: number, id: number): Promise<QuizQuestion | null> {
+    const result = await query('SELECT * FROM quiz_questions_cw WHERE id = $1 AND quiz_id = $2', [
+      id,
+      quizId,
+    ]);
+    return result.rows.length > 0 ? (result.rows[0] as QuizQuestion) : null;
+  }
+
+  /**
+   * Add a question; appended after the last question unless sort_order is given
+   */
+  static async createQuestion(quizId: number, data: CreateQuestionRequest): Promise<QuizQuestion> {
+    const result = await query(
+      `INSERT INTO quiz_questions_cw (
+        quiz_id, question_type, prompt, options, correct_answers, explanation, points, sort_order
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, (
+        SELECT COALESCE(MAX(sort_order) + 1, 0) FROM quiz_questions_cw WHERE quiz_id = $1
+      )))
+      RETURNING *`,
+      [
+        quizId,
+        data.question_type,
+        data.prompt,
+        data.options ? JSON.stringify(data.options) : null,
+        JSON.stringify(data.correct_answers),
+        data.explanation || null,
+        data.points ?? 1,
+        data.sort_order ?? null,
+      ]
+    );
+    return result.rows[0] as QuizQuestion;
+  }
+
+  /**
+   * Update question
+   */
+  static async updateQuestion(
+    quizId: number,
+    id: number,
+    data: UpdateQuestionRequest
+  ): Promise<QuizQuestion | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updates.push(`${key} = $${paramIndex++}`);
+        values.push(JSON_COLUMNS.includes(key) && value !== null ? JSON.stringify(value) : value);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.getQuestionById(quizId, id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id, quizId);
+
+    const result = await query(
+      `UPDATE quiz_questions_cw
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND quiz_id = $${paramIndex + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows.length > 0 ? (result.rows[0] as QuizQuestion) : null;
+  }
+
+  /**
+   * Delete question
+   */
+  static async deleteQuestion(quizId: number, id: number): Promise<boolean> {
+    const result = await query('DELETE FROM quiz_questions_cw WHERE id = $1 AND quiz_id = $2', [
+      id,
+      quizId,
+    ]);
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Store a graded attempt.
+   * The quiz row is locked so concurrent submissions cannot exceed max_attempts.
+   */
+  static async submitAttempt(
+    quizId: number,
+    userId: number,
+    graded: GradedAttempt
+  ): Promise<SubmitAttemptResult> {
+    return withTransaction(async (client) => {
+      const quizResult = await client.query(
+        'SELECT max_attempts FROM quizzes_cw WHERE id = $1 FOR UPDATE',
+        [quizId]
+      );
+      const maxAttempts: number | null = quizResult.rows[0].max_attempts;
+
+      const countResult = await client.query(
+        'SELECT COUNT(*) as count FROM quiz_attempts_cw WHERE quiz_id = $1 AND user_id = $2',
+        [quizId, userId]
+      );
+      const previousAttempts = parseInt(countResult.rows[0].count);
+
+      if (maxAttempts !== null && previousAttempts >= maxAttempts) {
+        return { outcome: 'ATTEMPT_LIMIT_REACHED' };
+      }
+
+      const attemptResult = await client.query(
+        `INSERT INTO quiz_attempts_cw (
+          quiz_id, user_id, attempt_number, answers, results, score, max_score, percentage, passed
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          quizId,
+          userId,
+          previousAttempts + 1,
+          JSON.stringify(graded.answers),
+          JSON.stringify(graded.results),
+          graded.score,
+          graded.max_score,
+          graded.percentage,
+          graded.passed,
+        ]
+      );
+
+      return { outcome: 'SUBMITTED', attempt: attemptResult.rows[0] as QuizAttempt };
+    });
+  }
+
+  /**
+   * Get a student's attempts at a quiz, latest first
+   */
+  static async getAttempts(quizId: number, userId: number): Promise<QuizAttempt[]> {
+    const result = await query(
+      `SELECT * FROM quiz_attempts_cw
+       WHERE quiz_id = $1 AND user_id = $2
+       ORDER BY attempt_number DESC`,
+      [quizId, userId]
+    );
+    return result.rows as QuizAttempt[];
+  }
+}
@@ -1,36 +1,139 @@
-import { query } from '../config/database';
-import { Quote, CreateQuoteRequest, QuoteResponse } from '../types/quote';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/database';
+import {
+  Quote,
+  CreateQuoteRequest,
+  QuoteResponse,
+  QuoteActivity,
+  QuoteActivityType,
+  QuoteActivityWithActor,
+  QuoteConversion,
+  QuoteFilters,
+  QuoteStatus,
+  QuoteStatusResult,
+  QUOTE_TRANSITIONS,
+} from '../types/quote';
 
 export class QuoteRepository {
+  /**
+   * Append an entry to a quote's activity log
+   */
+  private static async logActivity(
+    client: PoolClient,
+    quoteId: number,
+    actorId: number | null,
+    type: QuoteActivityType,
+    details: { note?: string | null; from_value?: string | null; to_value?: string | null } = {}
+  ): Promise<QuoteActivity> {
+    const result = await client.query(
+      `INSERT INTO quote_activities_cw (quote_id, actor_id, type, note, from_value, to_value)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        quoteId,
+        actorId,
+        type,
+        details.note || null,
+        details.from_value ?? null,
+        details.to_value ?? null,
+      ]
+    );
+    return result.rows[0] as QuoteActivity;
+  }
+
   /**
    * Create a new quote request
    */
-  static async createQuote(data: CreateQuoteRequest): Promise<QuoteResponse> {
-    const { name, email, phone, message } = data;
+  static async createQuote(data: CreateQuoteRequest, ipAddress?: string): Promise<QuoteResponse> {
+    const { name, email, phone, subject, message } = data;
 
     const result = await query(
-      `INSERT INTO get_quotes (name, email, phone, message, created_at)
-       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
-       RETURNING id, name, email, phone, message, created_at`,
-      [name, email, phone, message || null]
+      `INSERT INTO get_quotes (name, email, phone, subject, message, ip_address, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)
+       RETURNING id, name, email, phone, subject, message, status, created_at`,
+      [name, email, phone, subject || null, message || null, ipAddress || null]
     );
 
     return result.rows[0] as QuoteResponse;
   }
 
   /**
-   * Get all quotes
+   * Count quotes submitted for an email address in the last 24 hours
    */
-  static async getAllQuotes(limit: number = 10, offset: number = 0): Promise<{ data: Quote[]; total: number }> {
-    const countResult = await query('SELECT COUNT(*) as total FROM get_quotes');
-    const total = parseInt(countResult.rows[0].total, 10);
+  static async countRecentByEmail(email: string): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as count FROM get_quotes
+       WHERE LOWER(email) = LOWER($1) AND created_at > NOW() - INTERVAL '24 hours'`,
+      [email]
+    );
+    return parseInt(result.rows[0].count);
+  }
 
+  /**
+   * Find an identical submission (same email, subject and message) made within the window
+   */
+  static async findRecentDuplicate(
+    data: CreateQuoteRequest,
+    windowMinutes: number
+  ): Promise<QuoteResponse | null> {
     const result = await query(
-      `SELECT id, name, email, phone, message, created_at
+      `SELECT id, name, email, phone, subject, message, status, created_at
        FROM get_quotes
+       WHERE LOWER(email) = LOWER($1)
+         AND COALESCE(subject, '') = $2
+         AND COALESCE(message, '') = $3
+         AND created_at > NOW() - $4 * INTERVAL '1 minute'
        ORDER BY created_at DESC
-       LIMIT $1 OFFSET $2`,
-      [limit, offset]
+       LIMIT 1`,
+      [data.email, data.subject || '', data.message || '', windowMinutes]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as QuoteResponse) : null;
+  }
+
+  /**
+   * Get all quotes, optionally filtered by status, assignee and creation date
+   */
+  static async getAllQuotes(
+    limit: number = 10,
+    offset: number = 0,
+    filters: QuoteFilters = {}
+  ): Promise<{ data: Quote[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+
+    if (filters.assigned_to === null) {
+      conditions.push('assigned_to IS NULL');
+    } else if (filters.assigned_to !== undefined) {
+      conditions.push(`assigned_to = $${paramIndex++}`);
+      values.push(filters.assigned_to);
+    }
+
+    if (filters.created_from) {
+      conditions.push(`created_at >= $${paramIndex++}`);
+      values.push(filters.created_from);
+    }
+
+    if (filters.created_to) {
+      conditions.push(`created_at <= $${paramIndex++}`);
+      values.push(filters.created_to);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM get_quotes ${whereClause}`, values);
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    const result = await query(
+      `SELECT * FROM get_quotes ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...values, limit, offset]
     );
 
     return {
@@ -43,11 +146,7 @@ export class QuoteRepository {
    * Get quote by ID
    */
   static async getQuoteById(id: number): Promise<Quote | null> {
-    const result = await query(
-      `SELECT id, name, email, phone, message, created_at
-       FROM get_quotes WHERE id = $1`,
-      [id]
-    );
+    const result = await query('SELECT * FROM get_quotes WHERE id = $1', [id]);
 
     return result.rows[0] || null;
   }
@@ -57,8 +156,7 @@ export class QuoteRepository {
    */
   static async getQuotesByEmail(email: string): Promise<Quote[]> {
     const result = await query(
-      `SELECT id, name, email, phone, message, created_at
-       FROM get_quotes WHERE LOWER(email) = LOWER($1)
+      `SELECT * FROM get_quotes WHERE LOWER(email) = LOWER($1)
        ORDER BY created_at DESC`,
       [email]
     );
@@ -66,6 +164,116 @@ export class QuoteRepository {
     return result.rows as Quote[];
   }
 
+  /**
+   * Move a quote to a new status and record the change. Converting a quote may link the
+   * user and/or enrollment it turned into.
+   */
+  static async updateStatus(
+    id: number,
+    status: QuoteStatus,
+    actorId: number,
+    options: { note?: string; conversion?: QuoteConversion } = {}
+  ): Promise<QuoteStatusResult> {
+    return withTransaction(async (client: PoolClient) => {
+      const existing = await client.query('SELECT * FROM get_quotes WHERE id = $1 FOR UPDATE', [id]);
+      if (existing.rows.length === 0) {
+        return { outcome: 'NOT_FOUND' };
+      }
+
+      const quote = existing.rows[0] as Quote;
+      if (!QUOTE_TRANSITIONS[quote.status].includes(status)) {
+        return { outcome: 'INVALID_TRANSITION', quote };
+      }
+
+      const conversion = status === 'CONVERTED' ? options.conversion : undefined;
+      const result = await client.query(
+        `UPDATE get_quotes
+         SET status = $1,
+             converted_user_id = COALESCE($2, converted_user_id),
+             converted_enrollment_id = COALESCE($3, converted_enrollment_id),
+             converted_at = CASE WHEN $1 = 'CONVERTED' THEN CURRENT_TIMESTAMP ELSE converted_at END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4
+         RETURNING *`,
+        [status, conversion?.user_id ?? null, conversion?.enrollment_id ?? null, id]
+      );
+
+      await this.logActivity(client, id, actorId, 'STATUS_CHANGE', {
+        note: options.note,
+        from_value: quote.status,
+        to_value: status,
+      });
+
+      if (conversion && (conversion.user_id || conversion.enrollment_id)) {
+        const links = [
+          conversion.user_id ? `user #${conversion.user_id}` : null,
+          conversion.enrollment_id ? `enrollment #${conversion.enrollment_id}` : null,
+        ].filter(Boolean);
+        await this.logActivity(client, id, actorId, 'CONVERSION', {
+          note: `Converted to ${links.join(' and ')}`,
+        });
+      }
+
+      return { outcome: 'UPDATED', quote: result.rows[0] as Quote };
+    });
+  }
+
+  /**
+   * Assign a quote to an admin, or unassign it with null
+   */
+  static async assignQuote(id: number, assigneeId: number | null, actorId: number): Promise<Quote | null> {
+    return withTransaction(async (client: PoolClient) => {
+      const existing = await client.query('SELECT assigned_to FROM get_quotes WHERE id = $1 FOR UPDATE', [
+        id,
+      ]);
+      if (existing.rows.length === 0) {
+        return null;
+      }
+
+      const previous = existing.rows[0].assigned_to as number | null;
+      const result = await client.query(
+        `UPDATE get_quotes SET assigned_to = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [assigneeId, id]
+      );
+
+      if (Number(previous) !== Number(assigneeId)) {
+        await this.logActivity(client, id, actorId, 'ASSIGNMENT', {
+          from_value: previous !== null ? String(previous) : null,
+          to_value: assigneeId !== null ? String(assigneeId) : null,
+        });
+      }
+
+      return result.rows[0] as Quote;
+    });
+  }
+
+  /**
+   * Add an internal note to a quote
+   */
+  static async addNote(id: number, actorId: number, note: string): Promise<QuoteActivity> {
+    return withTransaction(async (client: PoolClient) => {
+      await client.query('UPDATE get_quotes SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+      return this.logActivity(client, id, actorId, 'NOTE', { note });
+    });
+  }
+
+  /**
+   * Get a quote's notes and change history, oldest first
+   */
+  static async getActivity(id: number): Promise<QuoteActivityWithActor[]> {
+    const result = await query(
+      `SELECT a.*, u.first_name AS actor_first_name, u.last_name AS actor_last_name
+       FROM quote_activities_cw a
+       LEFT JOIN users_cw u ON u.id = a.actor_id
+       WHERE a.quote_id = $1
+       ORDER BY a.created_at ASC, a.id ASC`,
+      [id]
+    );
+    return result.rows as QuoteActivityWithActor[];
+  }
+
   /**
    * Delete quote
    */
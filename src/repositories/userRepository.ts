@@ -1,13 +1,44 @@
 import { query } from '../config/database';
 import { User, CreateUserRequest, UpdateUserRequest } from '../types/user';
-import crypto from 'crypto';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/passwordHasher';
 
 export class UserRepository {
   /**
-   * Hash password using SHA256
+   * Check a plain-text password against a user's stored hash.
+   * Legacy or outdated hashes are upgraded to the current scrypt parameters on success.
    */
-  private static hashPassword(password: string): string {
-    return crypto.createHash('sha256').update(password).digest('hex');
+  static async verifyPassword(user: User, password: string): Promise<boolean> {
+    const valid = await verifyPassword(password, user.password_hash);
+
+    if (valid && needsRehash(user.password_hash)) {
+      await this.updatePasswordHash(user.id, await hashPassword(password));
+    }
+
+    return valid;
+  }
+
+  /**
+   * Replace a user's password hash
+   */
+  static async updatePasswordHash(id: number, passwordHash: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE users_cw SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [passwordHash, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark a user's email as verified, provided it still matches the verified address
+   */
+  static async markEmailVerified(id: number, email: string): Promise<User | null> {
+    const result = await query(
+      `UPDATE users_cw SET email_verified_at = NOW(), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND LOWER(email) = LOWER($2)
+       RETURNING *`,
+      [id, email]
+    );
+    return result.rows.length > 0 ? (result.rows[0] as User) : null;
   }
 
   /**
@@ -29,7 +60,7 @@ export class UserRepository {
       is_instructor = false,
     } = data;
 
-    const password_hash = this.hashPassword(password);
+    const password_hash = await hashPassword(password);
 
     const result = await query(
       `INSERT INTO users_cw (first_name, last_name, email, phone, password_hash, title, address, biography, linkedin_url, github_url, role, is_instructor, status, profile_image_url)
@@ -0,0 +1,629 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { BatchRepository } from '../repositories/batchRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { AssignmentRepository } from '../repositories/assignmentRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { uploadImageToCloudinary, deleteImageFromCloudinary } from '../utils/imageUpload';
+import { resolveBatchAccess } from '../utils/batchAccess';
+import { AuthenticatedRequest } from '../types/auth';
+import { UpdateAssignmentRequest } from '../types/assignment';
+
+// Extend Express Request to include file property from multer
+interface MulterRequest extends AuthenticatedRequest {
+  file?: any;
+}
+
+const router = Router();
+
+// Configure multer for submission uploads (memory storage)
+const storage = multer.memoryStorage();
+const upload = multer({
+  storage,
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (_req: Request, file: any, cb: any) => {
+    const allowedMimes = [
+      'application/pdf',
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain',
+      'image/jpeg',
+      'image/png',
+    ];
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only PDF, ZIP, DOCX, TXT, JPEG and PNG are allowed.'));
+    }
+  },
+});
+
+/**
+ * Validate assignment fields from a create/update body
+ */
+const validateAssignmentInput = (
+  body: Record<string, any>
+): { data: UpdateAssignmentRequest; error?: string } => {
+  const data: UpdateAssignmentRequest = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { data, error: 'title cannot be empty' };
+    }
+    data.title = body.title.trim();
+  }
+
+  if (body.description !== undefined) {
+    data.description = body.description;
+  }
+
+  if (body.due_at !== undefined) {
+    if (body.due_at !== null && isNaN(new Date(body.due_at).getTime())) {
+      return { data, error: 'due_at must be a valid date or null for no deadline' };
+    }
+    data.due_at = body.due_at;
+  }
+
+  if (body.max_points !== undefined) {
+    if (!Number.isInteger(body.max_points) || body.max_points < 1) {
+      return { data, error: 'max_points must be a positive integer' };
+    }
+    data.max_points = body.max_points;
+  }
+
+  if (body.allow_late_submissions !== undefined) {
+    if (typeof body.allow_late_submissions !== 'boolean') {
+      return { data, error: 'allow_late_submissions must be a boolean' };
+    }
+    data.allow_late_submissions = body.allow_late_submissions;
+  }
+
+  return { data };
+};
+
+/**
+ * POST /api/batches/:id/assignments
+ * Create an assignment for a batch
+ */
+router.post(
+  '/:id/assignments',
+  authenticate,
+  authorize(policies.batches.manageAssignments),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+
+    if (isNaN(batchId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(batchId);
+
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    const { data, error } = validateAssignmentInput(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+    if (!data.title) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: title',
+      });
+      return;
+    }
+
+    const assignment = await AssignmentRepository.createAssignment(batchId, req.user!.id, {
+      ...data,
+      title: data.title,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: assignment,
+      message: 'Assignment created successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/assignments
+ * List a batch's assignments (batch staff and enrolled students)
+ * Students also receive their own submission for each assignment
+ */
+router.get(
+  '/:id/assignments',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+
+    if (isNaN(batchId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(batchId);
+
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    const assignments = await AssignmentRepository.getAssignmentsByBatch(batchId);
+    const { isStaff, enrollment } = await resolveBatchAccess(req.user!, batch);
+
+    if (isStaff) {
+      res.json({
+        success: true,
+        data: assignments,
+      });
+      return;
+    }
+
+    if (!enrollment) {
+      res.status(403).json({
+        success: false,
+        error: 'You are not enrolled in this batch',
+      });
+      return;
+    }
+
+    const data = await Promise.all(
+      assignments.map(async (assignment) => ({
+        ...assignment,
+        submission: await AssignmentRepository.getSubmission(assignment.id, req.user!.id),
+      }))
+    );
+
+    res.json({
+      success: true,
+      data,
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/assignments/:assignmentId
+ * Get a single assignment (batch staff and enrolled students)
+ */
+router.get(
+  '/:id/assignments/:assignmentId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+
+    if (isNaN(batchId) || isNaN(assignmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or assignment ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(batchId);
+    const assignment = batch
+      ? await AssignmentRepository.getAssignmentById(batchId, assignmentId)
+      : null;
+
+    if (!batch || !assignment) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    const { isStaff, enrollment } = await resolveBatchAccess(req.user!, batch);
+    if (!isStaff && !enrollment) {
+      res.status(403).json({
+        success: false,
+        error: 'You are not enrolled in this batch',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: assignment,
+    });
+  })
+);
+
+/**
+ * PATCH /api/batches/:id/assignments/:assignmentId
+ * Update an assignment
+ */
+router.patch(
+  '/:id/assignments/:assignmentId',
+  authenticate,
+  authorize(policies.batches.manageAssignments),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+
+    if (isNaN(batchId) || isNaN(assignmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or assignment ID',
+      });
+      return;
+    }
+
+    const { data, error } = validateAssignmentInput(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const assignment = await AssignmentRepository.updateAssignment(batchId, assignmentId, data);
+
+    if (!assignment) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: assignment,
+      message: 'Assignment updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/batches/:id/assignments/:assignmentId
+ * Delete an assignment together with its submissions and their uploaded files
+ */
+router.delete(
+  '/:id/assignments/:assignmentId',
+  authenticate,
+  authorize(policies.batches.manageAssignments),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+
+    if (isNaN(batchId) || isNaN(assignmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or assignment ID',
+      });
+      return;
+    }
+
+    const fileIds = await AssignmentRepository.getSubmissionFileIds(assignmentId);
+    const deleted = await AssignmentRepository.deleteAssignment(batchId, assignmentId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    await Promise.all(fileIds.map((publicId) => deleteImageFromCloudinary(publicId)));
+
+    res.json({
+      success: true,
+      message: 'Assignment deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/batches/:id/assignments/:assignmentId/submissions
+ * Submit (or resubmit until graded) an assignment as an enrolled student
+ * Accepts JSON or multipart/form-data with a `text_response` and/or a `file`
+ */
+router.post(
+  '/:id/assignments/:assignmentId/submissions',
+  authenticate,
+  upload.single('file'),
+  asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+    const userId = req.user!.id;
+
+    if (isNaN(batchId) || isNaN(assignmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or assignment ID',
+      });
+      return;
+    }
+
+    const assignment = await AssignmentRepository.getAssignmentById(batchId, assignmentId);
+    if (!assignment) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    const enrollment = await EnrollmentRepository.getActiveEnrollment(batchId, userId);
+    if (!enrollment) {
+      res.status(403).json({
+        success: false,
+        error: 'You are not enrolled in this batch',
+      });
+      return;
+    }
+
+    const textResponse =
+      typeof req.body?.text_response === 'string' && req.body.text_response.trim()
+        ? req.body.text_response.trim()
+        : null;
+
+    if (!textResponse && !req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'A submission needs a text_response, a file, or both',
+      });
+      return;
+    }
+
+    const isLate = assignment.due_at !== null && new Date() > new Date(assignment.due_at);
+    if (isLate && !assignment.allow_late_submissions) {
+      res.status(409).json({
+        success: false,
+        error: 'The due date has passed and late submissions are not accepted',
+      });
+      return;
+    }
+
+    const previous = await AssignmentRepository.getSubmission(assignmentId, userId);
+    if (previous && previous.status === 'GRADED') {
+      res.status(409).json({
+        success: false,
+        error: 'This submission has already been graded',
+      });
+      return;
+    }
+
+    let stored: Awaited<ReturnType<typeof uploadImageToCloudinary>> | null = null;
+    if (req.file) {
+      // Convert buffer to base64 data URI for Cloudinary
+      const b64 = Buffer.from(req.file.buffer).toString('base64');
+      const dataURI = `data:${req.file.mimetype};base64,${b64}`;
+
+      stored = await uploadImageToCloudinary(dataURI, 'assignments/submissions');
+      if (!stored.success) {
+        res.status(500).json({
+          success: false,
+          error: stored.error || 'Failed to upload submission file',
+        });
+        return;
+      }
+    }
+
+    let submission;
+    try {
+      submission = await AssignmentRepository.submit(assignmentId, userId, {
+        text_response: textResponse,
+        file_url: stored ? stored.url! : null,
+        file_public_id: stored ? stored.publicId! : null,
+        file_name: req.file ? req.file.originalname : null,
+        is_late: isLate,
+      });
+    } catch (error) {
+      if (stored) {
+        await deleteImageFromCloudinary(stored.publicId!);
+      }
+      throw error;
+    }
+
+    // Graded between the check above and the write
+    if (!submission) {
+      if (stored) {
+        await deleteImageFromCloudinary(stored.publicId!);
+      }
+      res.status(409).json({
+        success: false,
+        error: 'This submission has already been graded',
+      });
+      return;
+    }
+
+    // The replaced file is no longer referenced
+    if (previous && previous.file_public_id) {
+      await deleteImageFromCloudinary(previous.file_public_id);
+    }
+
+    res.status(previous ? 200 : 201).json({
+      success: true,
+      data: submission,
+      message: isLate ? 'Assignment submitted late' : 'Assignment submitted successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/assignments/:assignmentId/submissions
+ * List submissions: batch staff see every student's, students only their own
+ */
+router.get(
+  '/:id/assignments/:assignmentId/submissions',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+
+    if (isNaN(batchId) || isNaN(assignmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or assignment ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(batchId);
+    const assignment = batch
+      ? await AssignmentRepository.getAssignmentById(batchId, assignmentId)
+      : null;
+
+    if (!batch || !assignment) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    const { isStaff } = await resolveBatchAccess(req.user!, batch);
+    if (isStaff) {
+      const submissions = await AssignmentRepository.getSubmissions(assignmentId);
+      res.json({
+        success: true,
+        data: submissions,
+      });
+      return;
+    }
+
+    const submission = await AssignmentRepository.getSubmission(assignmentId, req.user!.id);
+    res.json({
+      success: true,
+      data: submission ? [submission] : [],
+    });
+  })
+);
+
+/**
+ * PATCH /api/batches/:id/assignments/:assignmentId/submissions/:submissionId/grade
+ * Grade a submission with points and optional feedback (regrading is allowed)
+ */
+router.patch(
+  '/:id/assignments/:assignmentId/submissions/:submissionId/grade',
+  authenticate,
+  authorize(policies.batches.manageAssignments),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+    const assignmentId = parseInt(req.params.assignmentId as string);
+    const submissionId = parseInt(req.params.submissionId as string);
+    const { points, feedback } = req.body || {};
+
+    if (isNaN(batchId) || isNaN(assignmentId) || isNaN(submissionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch, assignment or submission ID',
+      });
+      return;
+    }
+
+    const assignment = await AssignmentRepository.getAssignmentById(batchId, assignmentId);
+    if (!assignment) {
+      res.status(404).json({
+        success: false,
+        error: 'Assignment not found',
+      });
+      return;
+    }
+
+    if (!Number.isInteger(points) || points < 0 || points > assignment.max_points) {
+      res.status(400).json({
+        success: false,
+        error: `points must be an integer between 0 and ${assignment.max_points}`,
+      });
+      return;
+    }
+
+    if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'feedback must be a string',
+      });
+      return;
+    }
+
+    const submission = await AssignmentRepository.gradeSubmission(
+      assignmentId,
+      submissionId,
+      req.user!.id,
+      { points, feedback }
+    );
+
+    if (!submission) {
+      res.status(404).json({
+        success: false,
+        error: 'Submission not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: submission,
+      message: 'Submission graded successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/gradebook
+ * Points of every enrolled student on every assignment of the batch
+ */
+router.get(
+  '/:id/gradebook',
+  authenticate,
+  authorize(policies.batches.manageAssignments),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const batchId = parseInt(req.params.id as string);
+
+    if (isNaN(batchId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(batchId);
+
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    const gradebook = await AssignmentRepository.getGradebook(batchId);
+
+    res.json({
+      success: true,
+      data: gradebook,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,546 @@
+import { Router, Request, Response } from 'express';
+import { UserRepository } from '../repositories/userRepository';
+import { AuthSessionRepository } from '../repositories/authSessionRepository';
+import { PasswordResetRepository } from '../repositories/passwordResetRepository';
+import { EmailVerificationRepository } from '../repositories/emailVerificationRepository';
+import {
+  signAccessToken,
+  generateOpaqueToken,
+  hashToken,
+  refreshTokenExpiry,
+} from '../utils/tokenService';
+import { toPublicUser } from '../utils/publicUser';
+import { validatePassword } from '../utils/passwordPolicy';
+import { hashPassword } from '../utils/passwordHasher';
+import { sendPasswordResetEmail } from '../utils/emailService';
+import { sendEmailVerification } from '../utils/emailVerification';
+import { authenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authConfig } from '../config/auth';
+import {
+  AuthenticatedRequest,
+  AuthResponse,
+  LoginRequest,
+  RefreshRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  ResendVerificationRequest,
+} from '../types/auth';
+
+const router = Router();
+
+// Shared by the emailed-token endpoints (password reset, email verification)
+const emailTokenLimiter = rateLimit({ windowMs: 15 * 60 * 1000, max: 10 });
+
+// Login attempts are limited per client IP and per target account to slow password guessing
+const loginIpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  key: (req) => `login-ip:${req.ip}`,
+  message: 'Too many login attempts, please try again later',
+});
+
+const loginEmailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  key: (req) =>
+    typeof req.body?.email === 'string'
+      ? `login-email:${req.body.email.trim().toLowerCase()}`
+      : null,
+  message: 'Too many login attempts, please try again later',
+});
+
+/**
+ * POST /api/auth/login
+ * Verify credentials and issue an access/refresh token pair
+ * Body: { email, password }
+ */
+router.post(
+  '/login',
+  loginIpLimiter,
+  loginEmailLimiter,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email, password } = req.body as LoginRequest;
+
+    if (!email || !password) {
+      res.status(400).json({
+        success: false,
+        error: 'Email and password are required',
+      });
+      return;
+    }
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Email and password must be strings',
+      });
+      return;
+    }
+
+    const user = await UserRepository.getUserByEmail(email);
+
+    if (!user || !(await UserRepository.verifyPassword(user, password))) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid email or password',
+      });
+      return;
+    }
+
+    if (user.status !== 'ACTIVE') {
+      res.status(403).json({
+        success: false,
+        error: 'Account is inactive',
+      });
+      return;
+    }
+
+    if (authConfig.requireVerifiedEmailForLogin && !user.email_verified_at) {
+      res.status(403).json({
+        success: false,
+        error: 'Email address not verified',
+      });
+      return;
+    }
+
+    const refreshToken = generateOpaqueToken();
+    const session = await AuthSessionRepository.createSession({
+      user_id: user.id,
+      refresh_token_hash: hashToken(refreshToken),
+      expires_at: refreshTokenExpiry(),
+      user_agent: req.get('user-agent'),
+      ip_address: req.ip,
+    });
+
+    const response: AuthResponse = {
+      success: true,
+      data: {
+        access_token: signAccessToken(user, session.id),
+        refresh_token: refreshToken,
+        token_type: 'Bearer',
+        expires_in: authConfig.accessTokenTtlSeconds,
+        user: toPublicUser(user),
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new token pair (the old refresh token is rotated out)
+ * Body: { refresh_token }
+ */
+router.post(
+  '/refresh',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { refresh_token } = req.body as RefreshRequest;
+
+    if (!refresh_token) {
+      res.status(400).json({
+        success: false,
+        error: 'refresh_token is required',
+      });
+      return;
+    }
+
+    if (typeof refresh_token !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'refresh_token must be a string',
+      });
+      return;
+    }
+
+    const currentHash = hashToken(refresh_token);
+    const session = await AuthSessionRepository.getActiveSessionByTokenHash(currentHash);
+
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+      });
+      return;
+    }
+
+    const user = await UserRepository.getUserById(session.user_id);
+
+    if (!user || user.status !== 'ACTIVE') {
+      await AuthSessionRepository.revokeSession(session.id);
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+      });
+      return;
+    }
+
+    const newRefreshToken = generateOpaqueToken();
+    const rotated = await AuthSessionRepository.rotateRefreshToken(
+      session.id,
+      currentHash,
+      hashToken(newRefreshToken),
+      refreshTokenExpiry()
+    );
+
+    // Another request rotated this token first
+    if (!rotated) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+      });
+      return;
+    }
+
+    const response: AuthResponse = {
+      success: true,
+      data: {
+        access_token: signAccessToken(user, rotated.id),
+        refresh_token: newRefreshToken,
+        token_type: 'Bearer',
+        expires_in: authConfig.accessTokenTtlSeconds,
+        user: toPublicUser(user),
+      },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * POST /api/auth/logout
+ * Revoke the session behind the current access token
+ */
+router.post(
+  '/logout',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await AuthSessionRepository.revokeSession(req.sessionId!);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/logout-all
+ * Revoke every session of the current user
+ */
+router.post(
+  '/logout-all',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const revoked = await AuthSessionRepository.revokeAllForUser(req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'All sessions revoked',
+      revoked,
+    });
+  })
+);
+
+/**
+ * GET /api/auth/me
+ * Get the authenticated user
+ */
+router.get(
+  '/me',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: req.user,
+    });
+  })
+);
+
+/**
+ * GET /api/auth/sessions
+ * List active sessions of the current user
+ */
+router.get(
+  '/sessions',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const sessions = await AuthSessionRepository.getActiveSessionsByUser(req.user!.id);
+
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session.id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        current: Number(session.id) === req.sessionId,
+      })),
+    });
+  })
+);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one of the current user's sessions
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid session ID',
+      });
+      return;
+    }
+
+    const revoked = await AuthSessionRepository.revokeSession(id, req.user!.id);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a one-time password reset link
+ * Body: { email }
+ */
+router.post(
+  '/forgot-password',
+  emailTokenLimiter,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.body as ForgotPasswordRequest;
+
+    if (!email) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is required',
+      });
+      return;
+    }
+
+    if (typeof email !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Email must be a string',
+      });
+      return;
+    }
+
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    const genericResponse = {
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+    };
+
+    const user = await UserRepository.getUserByEmail(email);
+
+    if (!user || user.status !== 'ACTIVE') {
+      res.json(genericResponse);
+      return;
+    }
+
+    const recentRequests = await PasswordResetRepository.countRecentForUser(user.id);
+    if (recentRequests >= authConfig.passwordResetMaxPerHour) {
+      res.json(genericResponse);
+      return;
+    }
+
+    const token = generateOpaqueToken(32);
+    await PasswordResetRepository.createToken({
+      user_id: user.id,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + authConfig.passwordResetTtlMinutes * 60 * 1000),
+      requested_ip: req.ip,
+    });
+
+    const resetUrl = `${process.env.CLIENT_URL || 'http://localhost:3000'}/reset-password?token=${encodeURIComponent(token)}`;
+    await sendPasswordResetEmail(user.first_name, user.email, resetUrl, authConfig.passwordResetTtlMinutes);
+
+    res.json(genericResponse);
+  })
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a reset token; all existing sessions are revoked
+ * Body: { token, password }
+ */
+router.post(
+  '/reset-password',
+  emailTokenLimiter,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { token, password } = req.body as ResetPasswordRequest;
+
+    if (!token || !password) {
+      res.status(400).json({
+        success: false,
+        error: 'Token and password are required',
+      });
+      return;
+    }
+
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Token and password must be strings',
+      });
+      return;
+    }
+
+    const tokenHash = hashToken(token);
+    const resetToken = await PasswordResetRepository.getActiveToken(tokenHash);
+    const user = resetToken ? await UserRepository.getUserById(resetToken.user_id) : null;
+
+    if (!user || user.status !== 'ACTIVE') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token',
+      });
+      return;
+    }
+
+    const passwordErrors = validatePassword(password, [user.email, user.first_name, user.last_name]);
+    if (passwordErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Password does not meet requirements: ${passwordErrors.join('; ')}`,
+      });
+      return;
+    }
+
+    // Consuming is atomic, so a token racing through two requests is only honoured once
+    const consumed = await PasswordResetRepository.consumeToken(tokenHash);
+    if (!consumed) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token',
+      });
+      return;
+    }
+
+    await UserRepository.updatePasswordHash(user.id, await hashPassword(password));
+    await AuthSessionRepository.revokeAllForUser(user.id);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/auth/verify-email
+ * Confirm an email address with the emailed token
+ * Query params: token
+ */
+router.get(
+  '/verify-email',
+  emailTokenLimiter,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const token = req.query.token;
+
+    // Repeated query params arrive as arrays
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Token is required',
+      });
+      return;
+    }
+
+    const verification = await EmailVerificationRepository.consumeToken(hashToken(token));
+
+    // The token only counts for the address it was sent to
+    const user = verification
+      ? await UserRepository.markEmailVerified(verification.user_id, verification.email)
+      : null;
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: { email: user.email, email_verified_at: user.email_verified_at },
+    });
+  })
+);
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification email
+ * Body: { email }
+ */
+router.post(
+  '/resend-verification',
+  emailTokenLimiter,
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.body as ResendVerificationRequest;
+
+    if (!email) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is required',
+      });
+      return;
+    }
+
+    if (typeof email !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Email must be a string',
+      });
+      return;
+    }
+
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    const genericResponse = {
+      success: true,
+      message: 'If an unverified account exists for this email, a verification link has been sent',
+    };
+
+    const user = await UserRepository.getUserByEmail(email);
+
+    if (!user || user.status !== 'ACTIVE' || user.email_verified_at) {
+      res.json(genericResponse);
+      return;
+    }
+
+    const recentRequests = await EmailVerificationRepository.countRecentForUser(user.id);
+    if (recentRequests >= authConfig.emailVerificationMaxPerHour) {
+      res.json(genericResponse);
+      return;
+    }
+
+    await sendEmailVerification(user);
+
+    res.json(genericResponse);
+  })
+);
+
+export default router;
@@ -1,7 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { BatchRepository } from '../repositories/batchRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { UserRepository } from '../repositories/userRepository';
 import { CreateBatchRequest, UpdateBatchRequest } from '../types/batch';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize, pickEditableFields } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { authConfig } from '../config/auth';
+import { AuthenticatedRequest } from '../types/auth';
+import { EnrollRequest } from '../types/enrollment';
+import { notifyPromoted } from '../utils/enrollmentNotifications';
+import { issueBatchCertificates } from '../utils/certificateService';
+import { getSeatPrice } from '../utils/pricing';
 
 const router = Router();
 
@@ -11,6 +23,8 @@ const router = Router();
  */
 router.post(
   '/',
+  authenticate,
+  authorize(policies.batches.create),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const {
       course_id,
@@ -275,6 +289,8 @@ router.get(
  */
 router.post(
   '/:id',
+  authenticate,
+  authorize(policies.batches.update),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -305,7 +321,7 @@ router.post(
       return;
     }
 
-    const updateData: UpdateBatchRequest = req.body;
+    const updateData = pickEditableFields<UpdateBatchRequest>(req, policies.batches.update);
     const updatedBatch = await BatchRepository.updateBatch(id, updateData);
 
     if (!updatedBatch) {
@@ -316,6 +332,19 @@ router.post(
       return;
     }
 
+    // Raising capacity or reopening the batch may free seats for waitlisted students
+    if (updateData.max_students !== undefined || updateData.status !== undefined) {
+      const promoted = await EnrollmentRepository.fillFromWaitlist(id);
+      await notifyPromoted(id, promoted);
+    }
+
+    // Completing a batch certifies its students; rendering runs in the background
+    if (updateData.status === 'COMPLETED' && batch.status !== 'COMPLETED') {
+      issueBatchCertificates(id).catch((error) =>
+        console.error(`Failed to issue certificates for batch ${id}:`, error)
+      );
+    }
+
     res.json({
       success: true,
       data: updatedBatch,
@@ -329,6 +358,8 @@ router.post(
  */
 router.delete(
   '/:id',
+  authenticate,
+  authorize(policies.batches.delete),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -367,4 +398,299 @@ router.delete(
   })
 );
 
+/**
+ * POST /api/batches/:id/enroll
+ * Enroll into a batch (seat capacity is enforced atomically); joins the waitlist when the batch is full
+ * Body: { user_id? } - admins may enroll another user
+ */
+router.post(
+  '/:id/enroll',
+  authenticate,
+  authorize(policies.batches.enroll),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { user_id } = req.body as EnrollRequest;
+    const userId = user_id !== undefined ? parseInt(String(user_id)) : req.user!.id;
+
+    if (isNaN(id) || isNaN(userId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or user ID',
+      });
+      return;
+    }
+
+    const user = await UserRepository.getUserById(userId);
+
+    if (!user || user.status !== 'ACTIVE') {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+
+    if (authConfig.requireVerifiedEmailForEnrollment && !user.email_verified_at) {
+      res.status(403).json({
+        success: false,
+        error: 'Email address must be verified before enrolling',
+      });
+      return;
+    }
+
+    // Paid seats are sold through POST /api/orders/checkout; admins may still enroll directly
+    if (req.user!.role !== 'ADMIN') {
+      const batch = await BatchRepository.getBatchById(id);
+      const course = batch ? await CourseRepository.getCourseById(batch.course_id) : null;
+      if (batch && getSeatPrice(batch, course) > 0) {
+        res.status(402).json({
+          success: false,
+          error: 'This batch requires payment; use POST /api/orders/checkout to enroll',
+        });
+        return;
+      }
+    }
+
+    const { outcome, enrollment, position } = await EnrollmentRepository.enroll(id, userId);
+
+    if (outcome === 'BATCH_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    if (outcome === 'BATCH_CLOSED') {
+      res.status(409).json({
+        success: false,
+        error: 'Batch is not open for enrollment',
+      });
+      return;
+    }
+
+    if (outcome === 'ALREADY_WAITLISTED') {
+      res.status(409).json({
+        success: false,
+        error: 'Already on the waitlist for this batch',
+        data: { ...enrollment, position },
+      });
+      return;
+    }
+
+    if (outcome === 'WAITLISTED') {
+      res.status(202).json({
+        success: true,
+        message: `Batch is full, added to the waitlist at position ${position}`,
+        data: { ...enrollment, position },
+      });
+      return;
+    }
+
+    if (outcome === 'ALREADY_ENROLLED') {
+      res.status(409).json({
+        success: false,
+        error: 'Already enrolled in this batch',
+        data: enrollment,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Enrolled successfully',
+      data: enrollment,
+    });
+  })
+);
+
+/**
+ * DELETE /api/batches/:id/enroll
+ * Withdraw from a batch (or its waitlist); a freed seat goes to the next waitlisted student
+ * Body: { user_id? } - admins may withdraw another user
+ */
+router.delete(
+  '/:id/enroll',
+  authenticate,
+  authorize(policies.batches.enroll),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { user_id } = (req.body || {}) as EnrollRequest;
+    const userId = user_id !== undefined ? parseInt(String(user_id)) : req.user!.id;
+
+    if (isNaN(id) || isNaN(userId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or user ID',
+      });
+      return;
+    }
+
+    const { outcome, enrollment, promoted } = await EnrollmentRepository.withdraw(id, userId);
+
+    if (outcome === 'BATCH_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    if (outcome === 'BATCH_CLOSED') {
+      res.status(409).json({
+        success: false,
+        error: 'Cannot withdraw from a completed batch',
+      });
+      return;
+    }
+
+    if (outcome === 'NOT_ENROLLED') {
+      res.status(404).json({
+        success: false,
+        error: 'Not enrolled in this batch',
+      });
+      return;
+    }
+
+    await notifyPromoted(id, promoted || []);
+
+    res.json({
+      success: true,
+      message: 'Withdrawn successfully',
+      data: enrollment,
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/waitlist
+ * Get the waitlist of a batch in promotion order
+ */
+router.get(
+  '/:id/waitlist',
+  authenticate,
+  authorize(policies.batches.viewStudents),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(id);
+
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    const waitlist = await EnrollmentRepository.getWaitlist(id);
+
+    res.json({
+      success: true,
+      data: waitlist.map((student, index) => ({ ...student, position: index + 1 })),
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/waitlist/position
+ * Get a student's waitlist position in a batch
+ * Query params: user_id? - admins may look up another user
+ */
+router.get(
+  '/:id/waitlist/position',
+  authenticate,
+  authorize(policies.batches.enroll),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const userId =
+      req.query.user_id !== undefined ? parseInt(req.query.user_id as string) : req.user!.id;
+
+    if (isNaN(id) || isNaN(userId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch or user ID',
+      });
+      return;
+    }
+
+    const position = await EnrollmentRepository.getWaitlistPosition(id, userId);
+
+    if (!position) {
+      res.status(404).json({
+        success: false,
+        error: 'Not enrolled or waitlisted in this batch',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: position,
+    });
+  })
+);
+
+/**
+ * GET /api/batches/:id/students
+ * Get students enrolled in a batch
+ * Query params: page (default: 1), limit (default: 10)
+ */
+router.get(
+  '/:id/students',
+  authenticate,
+  authorize(policies.batches.viewStudents),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid batch ID',
+      });
+      return;
+    }
+
+    const batch = await BatchRepository.getBatchById(id);
+
+    if (!batch) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+      return;
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+
+    const { students, total } = await EnrollmentRepository.getBatchStudents(id, limit, offset);
+    const pages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: students,
+      seats: {
+        max_students: batch.max_students,
+        enrolled_students: batch.enrolled_students,
+      },
+      pagination: {
+        total,
+        page,
+        limit,
+        pages,
+      },
+    });
+  })
+);
+
 export default router;
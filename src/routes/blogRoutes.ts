@@ -4,6 +4,9 @@ import { BlogRepository } from '../repositories/blogRepository';
 import { uploadImageToCloudinary, deleteImageFromCloudinary, extractPublicIdFromUrl } from '../utils/imageUpload';
 import { CreateBlogRequest, UpdateBlogRequest } from '../types/blog';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize, pickEditableFields } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
 import { generateUniqueSlug } from '../utils/slugGenerator';
 
 // Extend Express Request to include file property from multer
@@ -34,6 +37,8 @@ const upload = multer({
  */
 router.post(
   '/upload-thumbnail',
+  authenticate,
+  authorize(policies.blogs.uploadImage),
   upload.single('thumbnail'),
   asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -65,6 +70,8 @@ router.post(
  */
 router.post(
   '/upload-banner',
+  authenticate,
+  authorize(policies.blogs.uploadImage),
   upload.single('banner'),
   asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -96,6 +103,8 @@ router.post(
  */
 router.post(
   '/',
+  authenticate,
+  authorize(policies.blogs.create),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const {
       title,
@@ -436,6 +445,8 @@ router.get(
  */
 router.put(
   '/:id',
+  authenticate,
+  authorize(policies.blogs.update),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -494,7 +505,7 @@ router.put(
       return;
     }
 
-    const updateData: UpdateBlogRequest = req.body;
+    const updateData = pickEditableFields<UpdateBlogRequest>(req, policies.blogs.update);
     const updatedBlog = await BlogRepository.updateBlog(id, updateData);
 
     if (!updatedBlog) {
@@ -518,6 +529,8 @@ router.put(
  */
 router.delete(
   '/:id',
+  authenticate,
+  authorize(policies.blogs.delete),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
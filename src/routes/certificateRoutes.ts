@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { CertificateRepository } from '../repositories/certificateRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { renderCertificatePdf, getCertificateVerifyUrl } from '../utils/certificatePdf';
+import { CertificateVerification } from '../types/certificate';
+
+const router = Router();
+
+/**
+ * GET /api/certificates/verify/:code
+ * Public check that a certificate ID is authentic
+ */
+router.get(
+  '/verify/:code',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const code = (req.params.code as string).trim().toUpperCase();
+    const certificate = await CertificateRepository.getCertificateByCode(code);
+
+    if (!certificate) {
+      res.status(404).json({
+        success: false,
+        error: 'Certificate not found',
+        data: { valid: false },
+      });
+      return;
+    }
+
+    const verification: CertificateVerification = {
+      valid: true,
+      verification_code: certificate.verification_code,
+      student_name: certificate.student_name,
+      course_title: certificate.course_title,
+      program_name: certificate.program_name,
+      completed_at: certificate.completed_at,
+      issued_at: certificate.issued_at,
+    };
+
+    res.json({
+      success: true,
+      data: verification,
+    });
+  })
+);
+
+/**
+ * GET /api/certificates/:id
+ * Get a certificate
+ * Query params: format=pdf to download the certificate as a PDF
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.certificates.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid certificate ID',
+      });
+      return;
+    }
+
+    const certificate = await CertificateRepository.getCertificateById(id);
+
+    if (!certificate) {
+      res.status(404).json({
+        success: false,
+        error: 'Certificate not found',
+      });
+      return;
+    }
+
+    if (req.query.format === 'pdf') {
+      // Rendered from the stored record, so downloads work even if the Cloudinary copy is missing
+      const pdf = await renderCertificatePdf(certificate);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="certificate-${certificate.verification_code}.pdf"`
+      );
+      res.send(pdf);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...certificate,
+        verify_url: getCertificateVerifyUrl(certificate.verification_code),
+      },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,562 @@
+import { Router, Response } from 'express';
+import { BatchRepository } from '../repositories/batchRepository';
+import { ChallengeRepository } from '../repositories/challengeRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize, pickEditableFields } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { rateLimit } from '../middleware/rateLimit';
+import { resolveBatchAccess } from '../utils/batchAccess';
+import { hashFlag, verifyFlag } from '../utils/challengeFlags';
+import { AuthenticatedRequest, PublicUser } from '../types/auth';
+import {
+  Challenge,
+  ChallengeFields,
+  ChallengeDifficulty,
+  CHALLENGE_DIFFICULTIES,
+  HintInput,
+  PublicChallenge,
+} from '../types/challenge';
+
+const router = Router();
+
+// Slows down flag brute-forcing; keyed per user so shared IPs (labs, classrooms) are not penalised
+const flagSubmitLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  key: (req) => `challenge-submit:${(req as AuthenticatedRequest).user?.id}`,
+  message: 'Too many flag submissions, please wait a minute before trying again',
+});
+
+interface ChallengeAccess {
+  // Admins, the challenge author and the batch's instructor see drafts and every hint
+  isStaff: boolean;
+  canPlay: boolean;
+}
+
+/**
+ * Work out what a user may do with a challenge
+ */
+const resolveChallengeAccess = async (
+  user: PublicUser,
+  challenge: Challenge
+): Promise<ChallengeAccess> => {
+  let isStaff =
+    user.role === 'ADMIN' ||
+    (user.role === 'INSTRUCTOR' && Number(challenge.created_by) === user.id);
+  let isMember = challenge.batch_id === null;
+
+  if (challenge.batch_id !== null) {
+    const batch = await BatchRepository.getBatchById(challenge.batch_id);
+    if (batch) {
+      const access = await resolveBatchAccess(user, batch);
+      isStaff = isStaff || access.isStaff;
+      isMember = access.enrollment !== null;
+    }
+  }
+
+  return { isStaff, canPlay: isStaff || (challenge.is_published && isMember) };
+};
+
+/**
+ * Strip the flag hash from a challenge row before it leaves the API
+ */
+const toPublicChallenge = (challenge: Challenge): PublicChallenge => {
+  const publicChallenge: Partial<Challenge> = { ...challenge };
+  delete publicChallenge.flag_hash;
+  return publicChallenge as PublicChallenge;
+};
+
+/**
+ * Validate challenge fields from a create/update body
+ */
+const validateChallengeInput = (
+  body: Record<string, any>
+): { fields: ChallengeFields; hints?: HintInput[]; error?: string } => {
+  const fields: ChallengeFields = {};
+
+  for (const key of ['title', 'category'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'string' || !body[key].trim()) {
+        return { fields, error: `${key} cannot be empty` };
+      }
+      fields[key] = body[key].trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    fields.description = body.description;
+  }
+
+  if (body.batch_id !== undefined) {
+    if (body.batch_id !== null && !Number.isInteger(body.batch_id)) {
+      return { fields, error: 'batch_id must be a batch ID or null for a global challenge' };
+    }
+    fields.batch_id = body.batch_id;
+  }
+
+  if (body.difficulty !== undefined) {
+    if (!CHALLENGE_DIFFICULTIES.includes(body.difficulty)) {
+      return {
+        fields,
+        error: `difficulty must be one of: ${CHALLENGE_DIFFICULTIES.join(', ')}`,
+      };
+    }
+    fields.difficulty = body.difficulty as ChallengeDifficulty;
+  }
+
+  if (body.points !== undefined) {
+    if (!Number.isInteger(body.points) || body.points < 1) {
+      return { fields, error: 'points must be a positive integer' };
+    }
+    fields.points = body.points;
+  }
+
+  if (body.flag !== undefined) {
+    if (typeof body.flag !== 'string' || !body.flag.trim()) {
+      return { fields, error: 'flag cannot be empty' };
+    }
+    fields.flag_hash = hashFlag(body.flag);
+  }
+
+  if (body.is_published !== undefined) {
+    if (typeof body.is_published !== 'boolean') {
+      return { fields, error: 'is_published must be a boolean' };
+    }
+    fields.is_published = body.is_published;
+  }
+
+  if (body.hints === undefined) {
+    return { fields };
+  }
+
+  if (!Array.isArray(body.hints)) {
+    return { fields, error: 'hints must be an array' };
+  }
+
+  const hints: HintInput[] = [];
+  for (const hint of body.hints) {
+    if (!hint || typeof hint.content !== 'string' || !hint.content.trim()) {
+      return { fields, error: 'Every hint needs content' };
+    }
+    if (hint.cost !== undefined && (!Number.isInteger(hint.cost) || hint.cost < 0)) {
+      return { fields, error: 'Hint cost must be a non-negative integer' };
+    }
+    hints.push({ content: hint.content.trim(), cost: hint.cost ?? 0 });
+  }
+
+  return { fields, hints };
+};
+
+/**
+ * GET /api/challenges
+ * List challenges with solve counts
+ * Query: batch_id (omit for global challenges), category, difficulty
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const user = req.user!;
+    let batchId: number | null = null;
+    let isStaff = user.role === 'ADMIN';
+
+    if (req.query.batch_id !== undefined) {
+      batchId = parseInt(req.query.batch_id as string);
+      const batch = isNaN(batchId) ? null : await BatchRepository.getBatchById(batchId);
+
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: 'Batch not found',
+        });
+        return;
+      }
+
+      const access = await resolveBatchAccess(user, batch);
+      if (!access.isStaff && !access.enrollment) {
+        res.status(403).json({
+          success: false,
+          error: 'You are not enrolled in this batch',
+        });
+        return;
+      }
+      isStaff = access.isStaff;
+    }
+
+    const difficulty = req.query.difficulty as ChallengeDifficulty | undefined;
+    if (difficulty && !CHALLENGE_DIFFICULTIES.includes(difficulty)) {
+      res.status(400).json({
+        success: false,
+        error: `difficulty must be one of: ${CHALLENGE_DIFFICULTIES.join(', ')}`,
+      });
+      return;
+    }
+
+    const challenges = await ChallengeRepository.getChallenges(
+      {
+        batch_id: batchId,
+        category: req.query.category as string | undefined,
+        difficulty,
+        include_unpublished: isStaff,
+      },
+      user.id
+    );
+
+    res.json({
+      success: true,
+      data: challenges,
+    });
+  })
+);
+
+/**
+ * GET /api/challenges/scoreboard
+ * Players ranked by points; pass batch_id for a batch scoreboard, omit it for the global one
+ */
+router.get(
+  '/scoreboard',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    let batchId: number | null = null;
+
+    if (req.query.batch_id !== undefined) {
+      batchId = parseInt(req.query.batch_id as string);
+      const batch = isNaN(batchId) ? null : await BatchRepository.getBatchById(batchId);
+
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: 'Batch not found',
+        });
+        return;
+      }
+
+      const access = await resolveBatchAccess(req.user!, batch);
+      if (!access.isStaff && !access.enrollment) {
+        res.status(403).json({
+          success: false,
+          error: 'You are not enrolled in this batch',
+        });
+        return;
+      }
+    }
+
+    const scoreboard = await ChallengeRepository.getScoreboard(batchId, limit);
+
+    res.json({
+      success: true,
+      data: scoreboard,
+    });
+  })
+);
+
+/**
+ * GET /api/challenges/:id
+ * Get a challenge with its hints (locked hints hide their content from players)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid challenge ID',
+      });
+      return;
+    }
+
+    const challenge = await ChallengeRepository.getChallengeById(id);
+
+    if (!challenge) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    const access = await resolveChallengeAccess(req.user!, challenge);
+    if (!access.canPlay) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    const summary = await ChallengeRepository.getChallengeSummary(id, req.user!.id);
+    const hints = access.isStaff
+      ? await ChallengeRepository.getHints(id)
+      : await ChallengeRepository.getPlayerHints(id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { ...summary, hints },
+    });
+  })
+);
+
+/**
+ * POST /api/challenges
+ * Create a challenge; instructors may only create challenges for their own batches
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(policies.challenges.create),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { fields, hints, error } = validateChallengeInput(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const missing = (['title', 'category', 'difficulty', 'points', 'flag_hash'] as const).filter(
+      (key) => fields[key] === undefined
+    );
+    if (missing.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${missing.map((key) => (key === 'flag_hash' ? 'flag' : key)).join(', ')}`,
+      });
+      return;
+    }
+
+    if (fields.batch_id) {
+      const batch = await BatchRepository.getBatchById(fields.batch_id);
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: 'Batch not found',
+        });
+        return;
+      }
+    }
+
+    const challenge = await ChallengeRepository.createChallenge(req.user!.id, fields, hints);
+    res.status(201).json({
+      success: true,
+      data: toPublicChallenge(challenge),
+      message: 'Challenge created successfully',
+    });
+  })
+);
+
+/**
+ * PATCH /api/challenges/:id
+ * Update a challenge; a new `flag` is re-hashed and `hints` replaces every hint
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorize(policies.challenges.update),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid challenge ID',
+      });
+      return;
+    }
+
+    const { fields, hints, error } = validateChallengeInput(
+      pickEditableFields<Record<string, unknown>>(req, policies.challenges.update)
+    );
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    if (fields.batch_id) {
+      const batch = await BatchRepository.getBatchById(fields.batch_id);
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: 'Batch not found',
+        });
+        return;
+      }
+    }
+
+    const challenge = await ChallengeRepository.updateChallenge(id, fields, hints);
+
+    if (!challenge) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: toPublicChallenge(challenge),
+      message: 'Challenge updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/challenges/:id
+ * Delete a challenge together with its hints and solves
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(policies.challenges.delete),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid challenge ID',
+      });
+      return;
+    }
+
+    const deleted = await ChallengeRepository.deleteChallenge(id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Challenge deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/challenges/:id/hints/:hintId/unlock
+ * Reveal a hint; its cost is deducted from the points awarded for a later solve
+ */
+router.post(
+  '/:id/hints/:hintId/unlock',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const hintId = parseInt(req.params.hintId as string);
+
+    if (isNaN(id) || isNaN(hintId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid challenge or hint ID',
+      });
+      return;
+    }
+
+    const challenge = await ChallengeRepository.getChallengeById(id);
+
+    if (!challenge || !(await resolveChallengeAccess(req.user!, challenge)).canPlay) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    const hint = await ChallengeRepository.unlockHint(id, hintId, req.user!.id);
+
+    if (!hint) {
+      res.status(404).json({
+        success: false,
+        error: 'Hint not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: hint,
+      message: hint.cost > 0 ? `Hint unlocked for ${hint.cost} points` : 'Hint unlocked',
+    });
+  })
+);
+
+/**
+ * POST /api/challenges/:id/submit
+ * Submit a flag for a challenge
+ */
+router.post(
+  '/:id/submit',
+  authenticate,
+  flagSubmitLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { flag } = req.body || {};
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid challenge ID',
+      });
+      return;
+    }
+
+    if (typeof flag !== 'string' || !flag.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: flag',
+      });
+      return;
+    }
+
+    const challenge = await ChallengeRepository.getChallengeById(id);
+
+    if (!challenge || !(await resolveChallengeAccess(req.user!, challenge)).canPlay) {
+      res.status(404).json({
+        success: false,
+        error: 'Challenge not found',
+      });
+      return;
+    }
+
+    const isCorrect = verifyFlag(flag, challenge.flag_hash);
+    const result = await ChallengeRepository.submitFlag(challenge, req.user!.id, isCorrect, req.ip);
+
+    if (result.outcome === 'ALREADY_SOLVED') {
+      res.status(409).json({
+        success: false,
+        error: 'You have already solved this challenge',
+        data: result.solve,
+      });
+      return;
+    }
+
+    if (result.outcome === 'INCORRECT') {
+      res.json({
+        success: true,
+        data: { correct: false },
+        message: 'Incorrect flag',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { correct: true, solve: result.solve },
+      message: `Correct flag! ${result.solve!.points_awarded} points awarded`,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,447 @@
+import { Router, Response } from 'express';
+import { CouponRepository } from '../repositories/couponRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { resolveCheckoutItem } from '../utils/checkout';
+import { checkCoupon, normalizeCouponCode } from '../utils/couponRules';
+import { AuthenticatedRequest } from '../types/auth';
+import { ORDER_ITEM_TYPES } from '../types/order';
+import {
+  Coupon,
+  CouponScope,
+  DISCOUNT_TYPES,
+  UpdateCouponRequest,
+  ValidateCouponRequest,
+} from '../types/coupon';
+
+const router = Router();
+
+/**
+ * Validate coupon fields from a create/update body; `existing` supplies the current values on update
+ */
+const validateCouponInput = (
+  body: Record<string, any>,
+  existing?: Coupon
+): { data: UpdateCouponRequest; error?: string } => {
+  const data: UpdateCouponRequest = {};
+
+  if (body.code !== undefined) {
+    if (typeof body.code !== 'string' || !/^[A-Za-z0-9_-]{3,50}$/.test(body.code.trim())) {
+      return { data, error: 'code must be 3-50 letters, digits, dashes or underscores' };
+    }
+    data.code = normalizeCouponCode(body.code);
+  }
+
+  if (body.description !== undefined) {
+    data.description = body.description;
+  }
+
+  if (body.discount_type !== undefined) {
+    if (!DISCOUNT_TYPES.includes(body.discount_type)) {
+      return { data, error: `discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}` };
+    }
+    data.discount_type = body.discount_type;
+  }
+
+  if (body.discount_value !== undefined) {
+    const value = Number(body.discount_value);
+    if (isNaN(value) || value <= 0) {
+      return { data, error: 'discount_value must be a positive number' };
+    }
+    data.discount_value = value;
+  }
+
+  const discountType = data.discount_type || existing?.discount_type;
+  const discountValue =
+    data.discount_value ?? (existing ? parseFloat(existing.discount_value) : undefined);
+  if (discountType === 'PERCENT' && discountValue !== undefined && discountValue > 100) {
+    return { data, error: 'A percentage discount cannot exceed 100' };
+  }
+
+  for (const key of ['starts_at', 'expires_at'] as const) {
+    if (body[key] !== undefined) {
+      if (body[key] !== null && isNaN(new Date(body[key]).getTime())) {
+        return { data, error: `${key} must be a valid date or null` };
+      }
+      data[key] = body[key];
+    }
+  }
+
+  const startsAt = data.starts_at !== undefined ? data.starts_at : existing?.starts_at;
+  const expiresAt = data.expires_at !== undefined ? data.expires_at : existing?.expires_at;
+  if (startsAt && expiresAt && new Date(expiresAt) <= new Date(startsAt)) {
+    return { data, error: 'expires_at must be after starts_at' };
+  }
+
+  for (const key of ['max_redemptions', 'max_redemptions_per_user'] as const) {
+    if (body[key] !== undefined) {
+      if (body[key] !== null && (!Number.isInteger(body[key]) || body[key] < 1)) {
+        return { data, error: `${key} must be a positive integer or null for unlimited` };
+      }
+      data[key] = body[key];
+    }
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      return { data, error: 'is_active must be a boolean' };
+    }
+    data.is_active = body.is_active;
+  }
+
+  if (body.scopes !== undefined) {
+    if (!Array.isArray(body.scopes)) {
+      return { data, error: 'scopes must be an array' };
+    }
+
+    const scopes: CouponScope[] = [];
+    for (const scope of body.scopes) {
+      if (
+        !scope ||
+        !ORDER_ITEM_TYPES.includes(scope.item_type) ||
+        !Number.isInteger(scope.item_id)
+      ) {
+        return {
+          data,
+          error: `Every scope needs an item_type (${ORDER_ITEM_TYPES.join(' or ')}) and a numeric item_id`,
+        };
+      }
+      scopes.push({ item_type: scope.item_type, item_id: scope.item_id });
+    }
+    data.scopes = scopes;
+  }
+
+  return { data };
+};
+
+/**
+ * POST /api/coupons/validate
+ * Preview a coupon against a purchase without redeeming it
+ * Body: { code, item_type, item_id, batch_id? }
+ */
+router.post(
+  '/validate',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const body = (req.body || {}) as ValidateCouponRequest;
+
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: code',
+      });
+      return;
+    }
+
+    if (!ORDER_ITEM_TYPES.includes(body.item_type) || !Number.isInteger(body.item_id)) {
+      res.status(400).json({
+        success: false,
+        error: `item_type (${ORDER_ITEM_TYPES.join(' or ')}) and a numeric item_id are required`,
+      });
+      return;
+    }
+
+    const coupon = await CouponRepository.getCouponByCode(normalizeCouponCode(body.code));
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    const { item, status, error } = await resolveCheckoutItem(body);
+    if (!item) {
+      res.status(status!).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const check = checkCoupon(
+      coupon,
+      coupon.scopes,
+      { course_id: item.course_id, batch_id: item.batch.id, amount: item.amount },
+      await CouponRepository.getUsage(coupon.id, req.user!.id)
+    );
+
+    if (!check.valid) {
+      res.status(422).json({
+        success: false,
+        error: check.error,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: check.quote,
+    });
+  })
+);
+
+/**
+ * GET /api/coupons
+ * Get all coupons with pagination
+ * Query: page, limit, is_active
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+    const isActive = req.query.is_active !== undefined ? req.query.is_active === 'true' : undefined;
+
+    const { coupons, total } = await CouponRepository.getAllCoupons(limit, offset, isActive);
+    const pages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: coupons,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/coupons
+ * Create a coupon
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { data, error } = validateCouponInput(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const missing = (['code', 'discount_type', 'discount_value'] as const).filter(
+      (key) => data[key] === undefined
+    );
+    if (missing.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Missing required fields: ${missing.join(', ')}`,
+      });
+      return;
+    }
+
+    if (await CouponRepository.getCouponByCode(data.code!)) {
+      res.status(409).json({
+        success: false,
+        error: 'A coupon with this code already exists',
+      });
+      return;
+    }
+
+    const coupon = await CouponRepository.createCoupon(req.user!.id, {
+      ...data,
+      code: data.code!,
+      discount_type: data.discount_type!,
+      discount_value: data.discount_value!,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon created successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/coupons/:id
+ * Get coupon by ID
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid coupon ID',
+      });
+      return;
+    }
+
+    const coupon = await CouponRepository.getCouponById(id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: coupon,
+    });
+  })
+);
+
+/**
+ * PATCH /api/coupons/:id
+ * Update a coupon; `scopes` replaces every scope
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid coupon ID',
+      });
+      return;
+    }
+
+    const existing = await CouponRepository.getCouponById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    const { data, error } = validateCouponInput(req.body || {}, existing);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    if (data.code && data.code !== existing.code) {
+      if (await CouponRepository.getCouponByCode(data.code)) {
+        res.status(409).json({
+          success: false,
+          error: 'A coupon with this code already exists',
+        });
+        return;
+      }
+    }
+
+    const coupon = await CouponRepository.updateCoupon(id, data);
+
+    res.json({
+      success: true,
+      data: coupon,
+      message: 'Coupon updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/coupons/:id
+ * Delete a coupon that was never redeemed; redeemed coupons should be deactivated instead
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid coupon ID',
+      });
+      return;
+    }
+
+    const coupon = await CouponRepository.getCouponById(id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    if (coupon.times_redeemed > 0) {
+      res.status(409).json({
+        success: false,
+        error: 'This coupon has been redeemed; set is_active to false instead of deleting it',
+      });
+      return;
+    }
+
+    await CouponRepository.deleteCoupon(id);
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/coupons/:id/redemptions
+ * List who redeemed a coupon and the state of their orders
+ */
+router.get(
+  '/:id/redemptions',
+  authenticate,
+  authorize(policies.coupons.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid coupon ID',
+      });
+      return;
+    }
+
+    const coupon = await CouponRepository.getCouponById(id);
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found',
+      });
+      return;
+    }
+
+    const redemptions = await CouponRepository.getRedemptions(id);
+
+    res.json({
+      success: true,
+      data: redemptions,
+    });
+  })
+);
+
+export default router;
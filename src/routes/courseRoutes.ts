@@ -1,9 +1,263 @@
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
 import { CourseRepository } from '../repositories/courseRepository';
-import { CourseResponse } from '../types/course';
+import { CourseResponse, CreateCourseRequest } from '../types/course';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize, pickEditableFields } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { uploadImageToCloudinary, deleteImageFromCloudinary, extractPublicIdFromUrl } from '../utils/imageUpload';
+import { validateCourseInput } from '../utils/courseValidation';
+
+// Extend Express Request to include file property from multer
+interface MulterRequest extends Request {
+  file?: any;
+}
 
 const router = Router();
 
+// Configure multer for thumbnail uploads (memory storage)
+const storage = multer.memoryStorage();
+const upload = multer({
+  storage,
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (_req: Request, file: any, cb: any) => {
+    const allowedMimes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed.'));
+    }
+  },
+});
+
+/**
+ * Upload the optional multipart `thumbnail` file to Cloudinary
+ */
+const uploadThumbnail = async (req: MulterRequest) => {
+  if (!req.file) {
+    return null;
+  }
+
+  // Convert buffer to base64 data URI for Cloudinary
+  const b64 = Buffer.from(req.file.buffer).toString('base64');
+  const dataURI = `data:${req.file.mimetype};base64,${b64}`;
+
+  return uploadImageToCloudinary(dataURI, 'courses/thumbnails');
+};
+
+/**
+ * Remove a Cloudinary-hosted thumbnail; legacy local paths are left alone
+ */
+const deleteThumbnail = async (url: string | null): Promise<void> => {
+  if (!url) {
+    return;
+  }
+  const publicId = extractPublicIdFromUrl(url);
+  if (publicId) {
+    await deleteImageFromCloudinary(publicId);
+  }
+};
+
+/**
+ * POST /api/courses
+ * Create a new course
+ * Accepts JSON or multipart/form-data with an optional `thumbnail` image file
+ */
+router.post(
+  '/',
+  authenticate,
+  // Parse multipart bodies before the policy so protected/owner fields are visible to it
+  upload.single('thumbnail'),
+  authorize(policies.courses.create),
+  asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
+    const { data, errors } = validateCourseInput(
+      pickEditableFields<Record<string, unknown>>(req, policies.courses.create)
+    );
+
+    if (!data.title) {
+      errors.unshift('Missing required field: title');
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: errors.join('; '),
+      });
+      return;
+    }
+
+    const uploadResult = await uploadThumbnail(req);
+
+    if (uploadResult && !uploadResult.success) {
+      res.status(500).json(uploadResult);
+      return;
+    }
+
+    if (uploadResult) {
+      data.thumbnail = uploadResult.url!;
+    }
+
+    try {
+      const course = await CourseRepository.createCourse(data as CreateCourseRequest);
+
+      res.status(201).json({
+        success: true,
+        data: course,
+      });
+    } catch (error) {
+      if (uploadResult?.publicId) {
+        await deleteImageFromCloudinary(uploadResult.publicId);
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * PATCH /api/courses/:id
+ * Update course fields
+ * Accepts JSON or multipart/form-data with an optional `thumbnail` image file
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  upload.single('thumbnail'),
+  authorize(policies.courses.update),
+  asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+
+    if (!course) {
+      res.status(404).json({
+        success: false,
+        error: 'Course not found',
+      });
+      return;
+    }
+
+    const { data, errors } = validateCourseInput(
+      pickEditableFields<Record<string, unknown>>(req, policies.courses.update),
+      course
+    );
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: errors.join('; '),
+      });
+      return;
+    }
+
+    const uploadResult = await uploadThumbnail(req);
+
+    if (uploadResult && !uploadResult.success) {
+      res.status(500).json(uploadResult);
+      return;
+    }
+
+    if (uploadResult) {
+      data.thumbnail = uploadResult.url!;
+    }
+
+    let updatedCourse;
+    try {
+      updatedCourse = await CourseRepository.updateCourse(id, data);
+    } catch (error) {
+      if (uploadResult?.publicId) {
+        await deleteImageFromCloudinary(uploadResult.publicId);
+      }
+      throw error;
+    }
+
+    if (!updatedCourse) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update course',
+      });
+      return;
+    }
+
+    // The previous image is only removed once the new one is stored
+    if (data.thumbnail !== undefined && course.thumbnail && course.thumbnail !== data.thumbnail) {
+      await deleteThumbnail(course.thumbnail);
+    }
+
+    res.json({
+      success: true,
+      data: updatedCourse,
+    });
+  })
+);
+
+/**
+ * DELETE /api/courses/:id
+ * Delete course together with its batches
+ * Query params: force=true to delete even when students are enrolled
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(policies.courses.delete),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+
+    if (!course) {
+      res.status(404).json({
+        success: false,
+        error: 'Course not found',
+      });
+      return;
+    }
+
+    const activeEnrollments = await CourseRepository.countActiveEnrollments(id);
+
+    if (activeEnrollments > 0 && req.query.force !== 'true') {
+      res.status(409).json({
+        success: false,
+        error: `Course has ${activeEnrollments} enrolled or waitlisted students. Pass force=true to delete anyway`,
+      });
+      return;
+    }
+
+    const deleted = await CourseRepository.deleteCourse(id);
+
+    if (!deleted) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete course',
+      });
+      return;
+    }
+
+    await deleteThumbnail(course.thumbnail);
+
+    res.json({
+      success: true,
+      message: 'Course deleted successfully',
+    });
+  })
+);
+
 /**
  * GET /api/courses - Get all courses with pagination
  * Query params: page (default: 1), limit (default: 10), category_id, status, level
@@ -0,0 +1,758 @@
+import { Router, Request, Response } from 'express';
+import { CourseRepository } from '../repositories/courseRepository';
+import { CurriculumRepository } from '../repositories/curriculumRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { resolveCourseAccess, CourseAccess } from '../utils/courseAccess';
+import { getDripAnchorDate, getLessonAvailability } from '../utils/dripSchedule';
+import { checkCourseCompletion } from '../utils/courseCompletion';
+import { ProgressRepository } from '../repositories/progressRepository';
+import { QuizRepository } from '../repositories/quizRepository';
+import { RecordProgressRequest } from '../types/progress';
+import { Course } from '../types/course';
+import { AuthenticatedRequest } from '../types/auth';
+import {
+  CourseLesson,
+  CurriculumLesson,
+  CreateLessonRequest,
+  UpdateLessonRequest,
+  LESSON_TYPES,
+  LessonType,
+} from '../types/curriculum';
+
+const router = Router();
+
+// Fields hidden while a lesson is locked for the caller
+const LESSON_CONTENT_FIELDS = ['content', 'video_url', 'attachment_url'] as const;
+
+/**
+ * Attach the caller's lock state to a lesson and hide the content of locked lessons
+ */
+const withAvailability = (
+  course: Course,
+  lesson: CourseLesson,
+  access: CourseAccess
+): CurriculumLesson => {
+  const availability = getLessonAvailability(course, lesson, access);
+  const result: CurriculumLesson = { ...lesson, ...availability };
+  if (availability.is_locked) {
+    for (const field of LESSON_CONTENT_FIELDS) {
+      result[field] = null;
+    }
+  }
+  return result;
+};
+
+/**
+ * Validate a lesson create/update body; `existing` is the current lesson on update
+ */
+const validateLesson = (
+  body: Record<string, any>,
+  existing?: CourseLesson
+): { data: UpdateLessonRequest; error?: string } => {
+  const data: UpdateLessonRequest = {};
+
+  for (const field of ['title', 'summary', 'content', 'video_url', 'attachment_url'] as const) {
+    if (body[field] === undefined) continue;
+    // null clears an optional field
+    if (body[field] === null) {
+      if (field === 'title') {
+        return { data, error: 'title cannot be empty' };
+      }
+      data[field] = null;
+      continue;
+    }
+    if (typeof body[field] !== 'string') {
+      return { data, error: `${field} must be a string` };
+    }
+    data[field] = body[field].trim();
+  }
+
+  if (data.title !== undefined && data.title.length === 0) {
+    return { data, error: 'title cannot be empty' };
+  }
+
+  if (body.lesson_type !== undefined) {
+    if (!LESSON_TYPES.includes(body.lesson_type)) {
+      return { data, error: `Invalid lesson_type. Must be one of: ${LESSON_TYPES.join(', ')}` };
+    }
+    data.lesson_type = body.lesson_type as LessonType;
+  }
+
+  // Clearing the duration makes it unknown; clearing the drip offset releases the lesson on the anchor date
+  if (body.duration_seconds === null) {
+    data.duration_seconds = null;
+  }
+  if (body.drip_offset_days === null) {
+    data.drip_offset_days = 0;
+  }
+
+  for (const field of ['duration_seconds', 'drip_offset_days', 'sort_order'] as const) {
+    if (body[field] === undefined || (body[field] === null && field !== 'sort_order')) continue;
+    if (!Number.isInteger(body[field]) || body[field] < 0) {
+      return { data, error: `${field} must be a non-negative integer` };
+    }
+    data[field] = body[field];
+  }
+
+  for (const field of ['is_preview', 'is_published'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') {
+      return { data, error: `${field} must be a boolean` };
+    }
+    data[field] = body[field];
+  }
+
+  // Each lesson type needs its own payload
+  const merged = { ...existing, ...data };
+  if (merged.lesson_type === 'VIDEO' && !merged.video_url) {
+    return { data, error: 'video_url is required for VIDEO lessons' };
+  }
+  if (merged.lesson_type === 'ARTICLE' && !merged.content) {
+    return { data, error: 'content is required for ARTICLE lessons' };
+  }
+  if (merged.lesson_type === 'ATTACHMENT' && !merged.attachment_url) {
+    return { data, error: 'attachment_url is required for ATTACHMENT lessons' };
+  }
+
+  return { data };
+};
+
+/**
+ * Validate a reorder payload: a non-empty array of { id, sort_order } items
+ */
+const isValidOrderList = (orders: unknown): orders is Array<{ id: number; sort_order: number }> =>
+  Array.isArray(orders) &&
+  orders.length > 0 &&
+  orders.every((item) => item && Number.isInteger(item.id) && Number.isInteger(item.sort_order));
+
+/**
+ * GET /api/courses/:id/curriculum
+ * Get the course curriculum as a section/lesson tree with the caller's lock state per lesson.
+ * Locked lessons (not enrolled, or not yet released by drip content) have their content removed.
+ */
+router.get(
+  '/:id/curriculum',
+  optionalAuthenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+
+    if (!course) {
+      res.status(404).json({
+        success: false,
+        error: 'Course not found',
+      });
+      return;
+    }
+
+    const access = await resolveCourseAccess(req.user, course);
+    const curriculum = await CurriculumRepository.getCurriculum(id);
+
+    const sections = curriculum.sections.map((section) => ({
+      ...section,
+      lessons: section.lessons
+        .filter((lesson) => access.isStaff || lesson.is_published)
+        .map((lesson) => withAvailability(course, lesson, access)),
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        ...curriculum,
+        sections,
+        total_lessons: sections.reduce((sum, section) => sum + section.lessons.length, 0),
+        drip_content: {
+          enabled: Boolean(course.enable_drip_content),
+          anchor: course.drip_anchor,
+          // Start of the caller's schedule, null when not enrolled
+          anchor_date: course.enable_drip_content ? getDripAnchorDate(course, access) : null,
+        },
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/courses/:id/lessons/:lessonId
+ * Get a single lesson; content is removed while the lesson is locked for the caller
+ */
+router.get(
+  '/:id/lessons/:lessonId',
+  optionalAuthenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const lessonId = parseInt(req.params.lessonId as string);
+
+    if (isNaN(id) || isNaN(lessonId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or lesson ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+    const lesson = course ? await CurriculumRepository.getLessonById(id, lessonId) : null;
+
+    if (!course || !lesson) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    const access = await resolveCourseAccess(req.user, course);
+
+    if (!lesson.is_published && !access.isStaff) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: withAvailability(course, lesson, access),
+    });
+  })
+);
+
+/**
+ * PUT /api/courses/:id/lessons/:lessonId/progress
+ * Record the caller's progress on a lesson
+ * Body: { position_seconds?, completed? }
+ */
+router.put(
+  '/:id/lessons/:lessonId/progress',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const lessonId = parseInt(req.params.lessonId as string);
+    const { position_seconds, completed } = (req.body || {}) as RecordProgressRequest;
+
+    if (isNaN(id) || isNaN(lessonId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or lesson ID',
+      });
+      return;
+    }
+
+    if (
+      position_seconds !== undefined &&
+      (!Number.isInteger(position_seconds) || position_seconds < 0)
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'position_seconds must be a non-negative integer',
+      });
+      return;
+    }
+
+    if (completed !== undefined && typeof completed !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'completed must be a boolean',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+    const lesson = course ? await CurriculumRepository.getLessonById(id, lessonId) : null;
+
+    if (!course || !lesson || !lesson.is_published) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    const access = await resolveCourseAccess(req.user, course);
+
+    // Progress is only tracked for enrolled students
+    if (!access.enrollment) {
+      res.status(403).json({
+        success: false,
+        error: 'You must be enrolled in this course to track progress',
+      });
+      return;
+    }
+
+    const { is_locked, unlock_at } = getLessonAvailability(course, lesson, access);
+
+    if (is_locked) {
+      res.status(403).json({
+        success: false,
+        error: 'Lesson is locked',
+        data: { unlock_at },
+      });
+      return;
+    }
+
+    // Quiz lessons are completed by passing their quiz
+    if (
+      completed &&
+      lesson.lesson_type === 'QUIZ' &&
+      (await QuizRepository.getQuizByLesson(lessonId))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'Quiz lessons are completed by passing the quiz',
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const progress = await ProgressRepository.recordProgress(userId, id, lessonId, {
+      position_seconds,
+      completed,
+    });
+    const courseCompletion = completed ? await checkCourseCompletion(userId, id) : null;
+
+    res.json({
+      success: true,
+      data: {
+        ...progress,
+        course_completed: courseCompletion !== null,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/sections
+ * Create a curriculum section
+ */
+router.post(
+  '/:id/sections',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { title, description, sort_order } = req.body;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: title',
+      });
+      return;
+    }
+
+    if (sort_order !== undefined && !Number.isInteger(sort_order)) {
+      res.status(400).json({
+        success: false,
+        error: 'sort_order must be an integer',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+
+    if (!course) {
+      res.status(404).json({
+        success: false,
+        error: 'Course not found',
+      });
+      return;
+    }
+
+    const section = await CurriculumRepository.createSection(id, {
+      title: title.trim(),
+      description,
+      sort_order,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: section,
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/sections/reorder
+ * Reorder the sections of a course
+ * Body: { sectionOrders: [{ id, sort_order }] }
+ */
+router.post(
+  '/:id/sections/reorder',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { sectionOrders } = req.body;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    if (!isValidOrderList(sectionOrders)) {
+      res.status(400).json({
+        success: false,
+        error: 'sectionOrders array of { id, sort_order } is required',
+      });
+      return;
+    }
+
+    const reordered = await CurriculumRepository.reorderSections(id, sectionOrders);
+
+    if (!reordered) {
+      res.status(400).json({
+        success: false,
+        error: 'sectionOrders contains sections that do not belong to this course',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Sections reordered successfully',
+    });
+  })
+);
+
+/**
+ * PATCH /api/courses/:id/sections/:sectionId
+ * Update a curriculum section
+ */
+router.patch(
+  '/:id/sections/:sectionId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const sectionId = parseInt(req.params.sectionId as string);
+    const { title, description, sort_order } = req.body;
+
+    if (isNaN(id) || isNaN(sectionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or section ID',
+      });
+      return;
+    }
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      res.status(400).json({
+        success: false,
+        error: 'title cannot be empty',
+      });
+      return;
+    }
+
+    if (sort_order !== undefined && !Number.isInteger(sort_order)) {
+      res.status(400).json({
+        success: false,
+        error: 'sort_order must be an integer',
+      });
+      return;
+    }
+
+    const section = await CurriculumRepository.updateSection(id, sectionId, {
+      title: title?.trim(),
+      description,
+      sort_order,
+    });
+
+    if (!section) {
+      res.status(404).json({
+        success: false,
+        error: 'Section not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: section,
+    });
+  })
+);
+
+/**
+ * DELETE /api/courses/:id/sections/:sectionId
+ * Delete a curriculum section and its lessons
+ */
+router.delete(
+  '/:id/sections/:sectionId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const sectionId = parseInt(req.params.sectionId as string);
+
+    if (isNaN(id) || isNaN(sectionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or section ID',
+      });
+      return;
+    }
+
+    const deleted = await CurriculumRepository.deleteSection(id, sectionId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Section not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Section deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/sections/:sectionId/lessons
+ * Create a lesson in a section
+ */
+router.post(
+  '/:id/sections/:sectionId/lessons',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const sectionId = parseInt(req.params.sectionId as string);
+
+    if (isNaN(id) || isNaN(sectionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or section ID',
+      });
+      return;
+    }
+
+    if (!req.body.title || !req.body.lesson_type) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required fields: title, lesson_type',
+      });
+      return;
+    }
+
+    const { data, error } = validateLesson(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const section = await CurriculumRepository.getSectionById(id, sectionId);
+
+    if (!section) {
+      res.status(404).json({
+        success: false,
+        error: 'Section not found',
+      });
+      return;
+    }
+
+    const lesson = await CurriculumRepository.createLesson(
+      id,
+      sectionId,
+      data as CreateLessonRequest
+    );
+
+    res.status(201).json({
+      success: true,
+      data: lesson,
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/lessons/reorder
+ * Reorder lessons, optionally moving them to another section of the course
+ * Body: { lessonOrders: [{ id, sort_order, section_id? }] }
+ */
+router.post(
+  '/:id/lessons/reorder',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { lessonOrders } = req.body;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course ID',
+      });
+      return;
+    }
+
+    if (
+      !isValidOrderList(lessonOrders) ||
+      !lessonOrders.every(
+        (item: any) => item.section_id === undefined || Number.isInteger(item.section_id)
+      )
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'lessonOrders array of { id, sort_order, section_id? } is required',
+      });
+      return;
+    }
+
+    const reordered = await CurriculumRepository.reorderLessons(id, lessonOrders);
+
+    if (!reordered) {
+      res.status(400).json({
+        success: false,
+        error: 'lessonOrders contains lessons or sections that do not belong to this course',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Lessons reordered successfully',
+    });
+  })
+);
+
+/**
+ * PATCH /api/courses/:id/lessons/:lessonId
+ * Update a lesson; section_id moves it to another section of the same course
+ */
+router.patch(
+  '/:id/lessons/:lessonId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const lessonId = parseInt(req.params.lessonId as string);
+
+    if (isNaN(id) || isNaN(lessonId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or lesson ID',
+      });
+      return;
+    }
+
+    const lesson = await CurriculumRepository.getLessonById(id, lessonId);
+
+    if (!lesson) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    const { data, error } = validateLesson(req.body, lesson);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    if (req.body.section_id !== undefined) {
+      const section = Number.isInteger(req.body.section_id)
+        ? await CurriculumRepository.getSectionById(id, req.body.section_id)
+        : null;
+
+      if (!section) {
+        res.status(400).json({
+          success: false,
+          error: 'section_id must be a section of this course',
+        });
+        return;
+      }
+      data.section_id = section.id;
+    }
+
+    const updatedLesson = await CurriculumRepository.updateLesson(id, lessonId, data);
+
+    if (!updatedLesson) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update lesson',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: updatedLesson,
+    });
+  })
+);
+
+/**
+ * DELETE /api/courses/:id/lessons/:lessonId
+ * Delete a lesson
+ */
+router.delete(
+  '/:id/lessons/:lessonId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const lessonId = parseInt(req.params.lessonId as string);
+
+    if (isNaN(id) || isNaN(lessonId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or lesson ID',
+      });
+      return;
+    }
+
+    const deleted = await CurriculumRepository.deleteLesson(id, lessonId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Lesson deleted successfully',
+    });
+  })
+);
+
+export default router;
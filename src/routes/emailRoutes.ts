@@ -0,0 +1,149 @@
+import { Router, Response } from 'express';
+import { EmailOutboxRepository } from '../repositories/emailOutboxRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { processEmailQueue } from '../utils/emailQueue';
+import { AuthenticatedRequest } from '../types/auth';
+import { EmailStatus, EMAIL_STATUSES } from '../types/email';
+
+const router = Router();
+
+/**
+ * GET /api/emails
+ * List outgoing emails with their delivery status (admin)
+ * Query params: page, limit, status, to
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.emails.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+    const status = req.query.status as EmailStatus | undefined;
+
+    if (status && !EMAIL_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${EMAIL_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const { emails, total } = await EmailOutboxRepository.getEmails(limit, offset, {
+      status,
+      to: req.query.to as string | undefined,
+    });
+    const pages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: emails,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/emails/:id
+ * Get an email with its delivery log (admin)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.emails.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email ID',
+      });
+      return;
+    }
+
+    const email = await EmailOutboxRepository.getEmailById(id);
+
+    if (!email) {
+      res.status(404).json({
+        success: false,
+        error: 'Email not found',
+      });
+      return;
+    }
+
+    const log = await EmailOutboxRepository.getLog(id);
+
+    res.json({
+      success: true,
+      data: {
+        ...email,
+        // Attachment contents can be large; list names only
+        attachments: email.attachments.map(({ filename, contentType }) => ({
+          filename,
+          contentType,
+        })),
+        log,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/emails/:id/resend
+ * Queue a failed (dead) email for delivery again (admin)
+ */
+router.post(
+  '/:id/resend',
+  authenticate,
+  authorize(policies.emails.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email ID',
+      });
+      return;
+    }
+
+    const existing = await EmailOutboxRepository.getEmailById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Email not found',
+      });
+      return;
+    }
+
+    const email = await EmailOutboxRepository.requeue(id);
+    if (!email) {
+      res.status(409).json({
+        success: false,
+        error: `Only failed emails can be resent; this email is ${existing.status}`,
+      });
+      return;
+    }
+
+    processEmailQueue();
+
+    res.json({
+      success: true,
+      data: { id: email.id, status: email.status },
+      message: 'Email queued for delivery',
+    });
+  })
+);
+
+export default router;
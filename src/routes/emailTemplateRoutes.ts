@@ -0,0 +1,265 @@
+import { Router, Response } from 'express';
+import { EmailTemplateRepository } from '../repositories/emailTemplateRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { previewTemplate, validateEmailTemplate } from '../utils/emailTemplates';
+import { AuthenticatedRequest } from '../types/auth';
+import { EmailTemplateKind, EMAIL_TEMPLATE_KINDS } from '../types/emailTemplate';
+
+const router = Router();
+
+/**
+ * GET /api/email-templates
+ * List templates, layouts and partials
+ * Query params: kind
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const kind = req.query.kind as EmailTemplateKind | undefined;
+
+    if (kind && !EMAIL_TEMPLATE_KINDS.includes(kind)) {
+      res.status(400).json({
+        success: false,
+        error: `kind must be one of: ${EMAIL_TEMPLATE_KINDS.join(', ')}`,
+      });
+      return;
+    }
+
+    const templates = await EmailTemplateRepository.getAllTemplates(kind);
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  })
+);
+
+/**
+ * POST /api/email-templates
+ * Create a template, layout or partial
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { data, error } = await validateEmailTemplate(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    if (await EmailTemplateRepository.nameExists(data.name!)) {
+      res.status(409).json({
+        success: false,
+        error: 'A template with this name already exists',
+      });
+      return;
+    }
+
+    const template = await EmailTemplateRepository.createTemplate(
+      { ...data, name: data.name!, html_body: data.html_body! },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Email template created successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/email-templates/:id
+ * Get template by ID
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email template ID',
+      });
+      return;
+    }
+
+    const template = await EmailTemplateRepository.getTemplateById(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  })
+);
+
+/**
+ * PATCH /api/email-templates/:id
+ * Update a template; name and kind are fixed
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email template ID',
+      });
+      return;
+    }
+
+    const existing = await EmailTemplateRepository.getTemplateById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const { data, error } = await validateEmailTemplate(req.body || {}, existing);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    delete data.name;
+    delete data.kind;
+    const template = await EmailTemplateRepository.updateTemplate(id, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: template,
+      message: 'Email template updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/email-templates/:id
+ * Delete a template; layouts and partials still in use cannot be deleted
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email template ID',
+      });
+      return;
+    }
+
+    const template = await EmailTemplateRepository.getTemplateById(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const references = await EmailTemplateRepository.countReferences(template);
+    if (references > 0) {
+      res.status(409).json({
+        success: false,
+        error: `This ${template.kind.toLowerCase()} is used by ${references} other template(s)`,
+      });
+      return;
+    }
+
+    await EmailTemplateRepository.deleteTemplate(id);
+
+    res.json({
+      success: true,
+      message: 'Email template deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/email-templates/:id/preview
+ * Render a template with its sample data
+ * Body: { variables? } — overrides individual sample values
+ */
+router.post(
+  '/:id/preview',
+  authenticate,
+  authorize(policies.emailTemplates.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid email template ID',
+      });
+      return;
+    }
+
+    const template = await EmailTemplateRepository.getTemplateById(id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Email template not found',
+      });
+      return;
+    }
+
+    const variables = req.body?.variables;
+    if (
+      variables !== undefined &&
+      (!variables || typeof variables !== 'object' || Array.isArray(variables))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'variables must be an object',
+      });
+      return;
+    }
+
+    const rendered = await previewTemplate(template, variables);
+
+    res.json({
+      success: true,
+      data: rendered,
+    });
+  })
+);
+
+export default router;
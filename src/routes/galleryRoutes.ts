@@ -4,6 +4,9 @@ import { GalleryRepository } from '../repositories/galleryRepository';
 import { uploadImageToCloudinary, deleteImageFromCloudinary } from '../utils/imageUpload';
 import { CreateGalleryRequest, UpdateGalleryRequest } from '../types/gallery';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
 
 interface MulterRequest extends Request {
   file?: any;
@@ -28,6 +31,8 @@ const upload = multer({
 // POST /api/gallery/upload
 router.post(
   '/upload',
+  authenticate,
+  authorize(policies.gallery.manage),
   upload.single('image'),
   asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -156,6 +161,8 @@ router.get(
 // POST /api/gallery/:id
 router.post(
   '/:id',
+  authenticate,
+  authorize(policies.gallery.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     const updateData: UpdateGalleryRequest = req.body;
@@ -191,6 +198,8 @@ router.post(
 // POST /api/gallery/:id/image
 router.post(
   '/:id/image',
+  authenticate,
+  authorize(policies.gallery.manage),
   upload.single('image'),
   asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -218,7 +227,7 @@ router.post(
 
     const { query } = await import('../config/database');
     const updateResult = await query(
-      `UPDATE gallery_cw SET image_url = $1, public_id = $2, updated_at = NOW() WHERE id = $3 RETURNING *`,
+      'UPDATE gallery_cw SET image_url = $1, public_id = $2, updated_at = NOW() WHERE id = $3 RETURNING *',
       [uploadResult.url, uploadResult.publicId, parseInt(id)]
     );
 
@@ -239,6 +248,8 @@ router.post(
 // DELETE /api/gallery/:id/remove
 router.delete(
   '/:id/remove',
+  authenticate,
+  authorize(policies.gallery.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     const deleteFromCloudinary = req.query.deleteFromCloudinary !== 'false';
@@ -268,6 +279,8 @@ router.delete(
 // POST /api/gallery/reorder
 router.post(
   '/reorder',
+  authenticate,
+  authorize(policies.gallery.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { imageOrders } = req.body;
 
@@ -0,0 +1,360 @@
+import { Router, Response } from 'express';
+import { InvoiceRepository } from '../repositories/invoiceRepository';
+import { QuoteRepository } from '../repositories/quoteRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { invoiceConfig } from '../config/invoices';
+import { paymentConfig } from '../config/payments';
+import { createInvoice, emailInvoice } from '../utils/invoiceService';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import { AuthenticatedRequest } from '../types/auth';
+import {
+  CreateInvoiceRequest,
+  InvoiceItemInput,
+  InvoiceStatus,
+  INVOICE_STATUSES,
+} from '../types/invoice';
+
+const router = Router();
+
+/**
+ * Validate the line items of a new invoice
+ */
+const validateInvoiceItems = (items: any): { items: InvoiceItemInput[]; error?: string } => {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { items: [], error: 'items must be a non-empty array' };
+  }
+
+  const validated: InvoiceItemInput[] = [];
+  for (const item of items) {
+    if (!item || typeof item.description !== 'string' || !item.description.trim()) {
+      return { items: [], error: 'Every item needs a description' };
+    }
+
+    const quantity = Number(item.quantity ?? 1);
+    const unitPrice = Number(item.unit_price);
+    if (isNaN(quantity) || quantity <= 0) {
+      return { items: [], error: 'Item quantity must be a positive number' };
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      return { items: [], error: 'Item unit_price must be a non-negative number' };
+    }
+
+    let taxRate: number | undefined;
+    if (item.tax_rate !== undefined && item.tax_rate !== null) {
+      taxRate = Number(item.tax_rate);
+      if (isNaN(taxRate) || taxRate < 0 || taxRate > 100) {
+        return { items: [], error: 'Item tax_rate must be a percentage between 0 and 100' };
+      }
+    }
+
+    validated.push({
+      description: item.description.trim(),
+      quantity,
+      unit_price: unitPrice,
+      tax_rate: taxRate,
+    });
+  }
+
+  return { items: validated };
+};
+
+/**
+ * GET /api/invoices
+ * Get all invoices with pagination (admin)
+ * Query: page, limit, status, user_id
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.invoices.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+    const status = req.query.status as InvoiceStatus | undefined;
+
+    if (status && !INVOICE_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${INVOICE_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const { invoices, total } = await InvoiceRepository.getAllInvoices(limit, offset, {
+      status,
+      user_id: req.query.user_id ? parseInt(req.query.user_id as string) : undefined,
+    });
+    const pages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: invoices,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/invoices
+ * Issue an invoice (admin). Bill-to details default from user_id or quote_id when omitted.
+ * Body: { user_id?, quote_id?, bill_to_name?, bill_to_email?, bill_to_company?, bill_to_address?,
+ *         currency?, due_at?, notes?, items: [{ description, quantity, unit_price, tax_rate? }], send_email? }
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(policies.invoices.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const body = (req.body || {}) as CreateInvoiceRequest;
+
+    const { items, error } = validateInvoiceItems(body.items);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const currency = (body.currency || paymentConfig.currency).toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      res.status(400).json({
+        success: false,
+        error: 'currency must be a 3-letter ISO code',
+      });
+      return;
+    }
+
+    if (body.due_at && isNaN(new Date(body.due_at).getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'due_at must be a valid date',
+      });
+      return;
+    }
+
+    let billToName = body.bill_to_name;
+    let billToEmail = body.bill_to_email;
+    let billToAddress = body.bill_to_address;
+
+    if (body.user_id) {
+      const user = await UserRepository.getUserById(body.user_id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+      billToName = billToName || `${user.first_name} ${user.last_name}`;
+      billToEmail = billToEmail || user.email;
+      billToAddress = billToAddress || user.address || undefined;
+    }
+
+    if (body.quote_id) {
+      const quote = await QuoteRepository.getQuoteById(body.quote_id);
+      if (!quote) {
+        res.status(404).json({
+          success: false,
+          error: 'Quote not found',
+        });
+        return;
+      }
+      billToName = billToName || quote.name;
+      billToEmail = billToEmail || quote.email;
+    }
+
+    if (!billToName || !billToEmail) {
+      res.status(400).json({
+        success: false,
+        error: 'bill_to_name and bill_to_email are required unless user_id or quote_id is given',
+      });
+      return;
+    }
+
+    const dueAt =
+      body.due_at ||
+      new Date(Date.now() + invoiceConfig.paymentTermsDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const invoice = await createInvoice({
+      user_id: body.user_id || null,
+      order_id: null,
+      quote_id: body.quote_id || null,
+      bill_to_name: billToName,
+      bill_to_email: billToEmail,
+      bill_to_company: body.bill_to_company || null,
+      bill_to_address: billToAddress || null,
+      currency,
+      status: 'ISSUED',
+      notes: body.notes || null,
+      due_at: dueAt,
+      created_by: req.user!.id,
+      items,
+    });
+
+    const emailed = body.send_email ? await emailInvoice(invoice) : false;
+
+    res.status(201).json({
+      success: true,
+      data: invoice,
+      message: emailed ? 'Invoice created and emailed' : 'Invoice created successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/invoices/:id
+ * Get an invoice with its line items
+ * Query params: format=pdf to download the invoice as a PDF
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.invoices.view),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID',
+      });
+      return;
+    }
+
+    const invoice = await InvoiceRepository.getInvoiceById(id);
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    if (req.query.format === 'pdf') {
+      const pdf = await renderInvoicePdf(invoice);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+      res.send(pdf);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+/**
+ * POST /api/invoices/:id/send
+ * Email an invoice (again) with the PDF attached
+ */
+router.post(
+  '/:id/send',
+  authenticate,
+  authorize(policies.invoices.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID',
+      });
+      return;
+    }
+
+    const invoice = await InvoiceRepository.getInvoiceById(id);
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    const sent = await emailInvoice(invoice);
+    if (!sent) {
+      res.status(502).json({
+        success: false,
+        error: 'Failed to send invoice email',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Invoice emailed to ${invoice.bill_to_email}`,
+    });
+  })
+);
+
+/**
+ * PATCH /api/invoices/:id/status
+ * Mark an invoice paid or void
+ * Body: { status: 'PAID' | 'VOID' }
+ */
+router.patch(
+  '/:id/status',
+  authenticate,
+  authorize(policies.invoices.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { status } = req.body || {};
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid invoice ID',
+      });
+      return;
+    }
+
+    if (status !== 'PAID' && status !== 'VOID') {
+      res.status(400).json({
+        success: false,
+        error: 'status must be PAID or VOID',
+      });
+      return;
+    }
+
+    const existing = await InvoiceRepository.getInvoiceById(id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+      return;
+    }
+
+    const invoice = await InvoiceRepository.updateStatus(id, status);
+    if (!invoice) {
+      res.status(409).json({
+        success: false,
+        error: `A ${existing.status.toLowerCase()} invoice cannot be marked ${status.toLowerCase()}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: invoice,
+      message: 'Invoice status updated',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,514 @@
+import { Router, Response } from 'express';
+import { NewsletterCampaignRepository } from '../repositories/newsletterCampaignRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { newsletterConfig } from '../config/newsletter';
+import { processCampaigns, sendCampaignTest, validateCampaign } from '../utils/newsletterCampaigns';
+import { AuthenticatedRequest } from '../types/auth';
+import {
+  CampaignRecipientStatus,
+  CampaignStatus,
+  CAMPAIGN_RECIPIENT_STATUSES,
+  CAMPAIGN_STATUSES,
+} from '../types/newsletter';
+
+const router = Router();
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * GET /api/newsletter/campaigns
+ * List campaigns (paginated)
+ * Query params: page, limit, status
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const offset = (page - 1) * limit;
+    const status = req.query.status as CampaignStatus | undefined;
+
+    if (status && !CAMPAIGN_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${CAMPAIGN_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const { data, total } = await NewsletterCampaignRepository.getCampaigns(limit, offset, status);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/newsletter/campaigns
+ * Create a draft campaign
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { data, error } = await validateCampaign(req.body || {});
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.createCampaign(
+      { ...data, subject: data.subject!, html_body: data.html_body! },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: campaign,
+      message: 'Campaign created successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/newsletter/campaigns/:id
+ * Get a campaign with its delivery stats
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.getCampaignById(id);
+
+    if (!campaign) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const stats = await NewsletterCampaignRepository.getStats(id);
+
+    res.json({
+      success: true,
+      data: { ...campaign, stats },
+    });
+  })
+);
+
+/**
+ * PATCH /api/newsletter/campaigns/:id
+ * Update a draft campaign
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    const existing = await NewsletterCampaignRepository.getCampaignById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const { data, error } = await validateCampaign(req.body || {}, existing);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.updateCampaign(id, data, req.user!.id);
+    if (!campaign) {
+      res.status(409).json({
+        success: false,
+        error: 'Only draft campaigns can be edited',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/newsletter/campaigns/:id
+ * Delete a draft campaign
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.getCampaignById(id);
+
+    if (!campaign) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const deleted = await NewsletterCampaignRepository.deleteCampaign(id);
+    if (!deleted) {
+      res.status(409).json({
+        success: false,
+        error: 'Only draft campaigns can be deleted',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Campaign deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/newsletter/campaigns/:id/test
+ * Send the campaign to a few addresses with a [TEST] subject
+ * Body: { emails: string[] }
+ */
+router.post(
+  '/:id/test',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { emails } = req.body || {};
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    if (
+      !Array.isArray(emails) ||
+      emails.length === 0 ||
+      emails.length > newsletterConfig.testMaxRecipients ||
+      !emails.every((email) => typeof email === 'string' && emailRegex.test(email))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `emails must be a list of 1 to ${newsletterConfig.testMaxRecipients} valid addresses`,
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.getCampaignById(id);
+    if (!campaign) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const failed = await sendCampaignTest(campaign, emails);
+    if (failed.length > 0) {
+      res.status(502).json({
+        success: false,
+        error: `Test email could not be sent to: ${failed.join(', ')}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Test email sent',
+    });
+  })
+);
+
+/**
+ * POST /api/newsletter/campaigns/:id/schedule
+ * Schedule a draft campaign
+ * Body: { scheduled_at: ISO date in the future }
+ */
+router.post(
+  '/:id/schedule',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const scheduledAt = new Date(req.body?.scheduled_at);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    if (!req.body?.scheduled_at || isNaN(scheduledAt.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'scheduled_at must be a valid date',
+      });
+      return;
+    }
+
+    if (scheduledAt.getTime() <= Date.now()) {
+      res.status(400).json({
+        success: false,
+        error: 'scheduled_at must be in the future',
+      });
+      return;
+    }
+
+    const existing = await NewsletterCampaignRepository.getCampaignById(id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.scheduleCampaign(
+      id,
+      scheduledAt,
+      req.user!.id
+    );
+    if (!campaign) {
+      res.status(409).json({
+        success: false,
+        error: 'Only draft campaigns can be scheduled',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign scheduled successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/newsletter/campaigns/:id/unschedule
+ * Move a scheduled campaign back to draft
+ */
+router.post(
+  '/:id/unschedule',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    const existing = await NewsletterCampaignRepository.getCampaignById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.unscheduleCampaign(id, req.user!.id);
+    if (!campaign) {
+      res.status(409).json({
+        success: false,
+        error: 'Only scheduled campaigns that have not started can be unscheduled',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: campaign,
+      message: 'Campaign moved back to draft',
+    });
+  })
+);
+
+/**
+ * POST /api/newsletter/campaigns/:id/send
+ * Start sending a draft campaign now
+ */
+router.post(
+  '/:id/send',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    const existing = await NewsletterCampaignRepository.getCampaignById(id);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.scheduleCampaign(
+      id,
+      new Date(),
+      req.user!.id
+    );
+    if (!campaign) {
+      res.status(409).json({
+        success: false,
+        error: 'Only draft campaigns can be sent',
+      });
+      return;
+    }
+
+    // Start right away instead of waiting for the next worker tick
+    processCampaigns();
+
+    res.status(202).json({
+      success: true,
+      data: campaign,
+      message: 'Campaign sending started',
+    });
+  })
+);
+
+/**
+ * GET /api/newsletter/campaigns/:id/recipients
+ * List a campaign's recipients with their delivery status (paginated)
+ * Query params: page, limit, status
+ */
+router.get(
+  '/:id/recipients',
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const offset = (page - 1) * limit;
+    const status = req.query.status as CampaignRecipientStatus | undefined;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid campaign ID',
+      });
+      return;
+    }
+
+    if (status && !CAMPAIGN_RECIPIENT_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${CAMPAIGN_RECIPIENT_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const campaign = await NewsletterCampaignRepository.getCampaignById(id);
+    if (!campaign) {
+      res.status(404).json({
+        success: false,
+        error: 'Campaign not found',
+      });
+      return;
+    }
+
+    const { data, total } = await NewsletterCampaignRepository.getRecipients(
+      id,
+      limit,
+      offset,
+      status
+    );
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  })
+);
+
+export default router;
@@ -1,7 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { NewsletterRepository } from '../repositories/newsletterRepository';
 import { asyncHandler } from '../middleware/errorHandler';
-import { SubscribeRequest, ListSubscribersResponse, NewsletterResponse } from '../types/newsletter';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { canResendConfirmation, sendSubscriptionConfirmation } from '../utils/newsletterSubscriptions';
+import { verifyNewsletterConfirmToken } from '../utils/tokenService';
+import {
+  SubscribeRequest,
+  ListSubscribersResponse,
+  NewsletterResponse,
+  SubscriberStatus,
+  SUBSCRIBER_STATUSES,
+} from '../types/newsletter';
 
 const router = Router();
 
@@ -34,20 +45,42 @@ router.post(
     }
 
     try {
-      // Check if already subscribed
-      const isAlreadySubscribed = await NewsletterRepository.isSubscribed(email);
+      const normalizedEmail = email.toLowerCase();
+      const existing = await NewsletterRepository.getByEmail(normalizedEmail);
 
-      const subscriber = await NewsletterRepository.subscribe({
-        email: email.toLowerCase(),
-      });
+      if (existing && existing.status === 'CONFIRMED') {
+        res.status(200).json({
+          success: true,
+          message: 'Email already subscribed to newsletter',
+          data: existing,
+        } as NewsletterResponse);
+        return;
+      }
+
+      // Don't let repeated sign-ups flood someone's inbox with confirmation emails
+      if (existing && !canResendConfirmation(existing)) {
+        res.status(200).json({
+          success: true,
+          message: 'Confirmation email already sent, please check your inbox',
+          data: existing,
+        } as NewsletterResponse);
+        return;
+      }
 
-      const message = isAlreadySubscribed
-        ? 'Email already subscribed to newsletter'
-        : 'Successfully subscribed to newsletter';
+      const subscriber = await NewsletterRepository.subscribe({ email: normalizedEmail });
 
-      res.status(isAlreadySubscribed ? 200 : 201).json({
+      const sent = await sendSubscriptionConfirmation(subscriber);
+      if (!sent) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to send confirmation email',
+        });
+        return;
+      }
+
+      res.status(existing ? 200 : 201).json({
         success: true,
-        message,
+        message: 'Please check your inbox to confirm your subscription',
         data: subscriber,
       } as NewsletterResponse);
     } catch (error) {
@@ -60,16 +93,61 @@ router.post(
   })
 );
 
+/**
+ * GET /api/newsletter/confirm
+ * Confirm a pending subscription with the emailed token
+ * Query params: token
+ */
+router.get(
+  '/confirm',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const token = req.query.token as string;
+
+    if (!token) {
+      res.status(400).json({
+        success: false,
+        error: 'Token is required',
+      });
+      return;
+    }
+
+    const payload = verifyNewsletterConfirmToken(token);
+
+    // Expired sign-ups are removed, so their links stop working too
+    const subscriber = payload
+      ? await NewsletterRepository.confirm(payload.sub, payload.email)
+      : null;
+
+    if (!subscriber) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired confirmation link',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Newsletter subscription confirmed',
+      data: subscriber,
+    } as NewsletterResponse);
+  })
+);
+
 /**
  * GET /api/newsletter/subscribers
  * Get all newsletter subscribers (paginated)
+ * Query params: limit, offset, status (PENDING | CONFIRMED)
  */
 router.get(
   '/subscribers',
+  authenticate,
+  authorize(policies.newsletter.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const offset = parseInt(req.query.offset as string) || 0;
+      const status = req.query.status as SubscriberStatus | undefined;
 
       // Validate pagination parameters
       if (limit < 1 || limit > 100) {
@@ -88,7 +166,15 @@ router.get(
         return;
       }
 
-      const { data, total } = await NewsletterRepository.getAllSubscribers(limit, offset);
+      if (status && !SUBSCRIBER_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${SUBSCRIBER_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const { data, total } = await NewsletterRepository.getAllSubscribers(limit, offset, status);
 
       res.status(200).json({
         success: true,
@@ -117,14 +203,15 @@ router.get(
     const { email } = req.params;
 
     try {
-      const subscriber = await NewsletterRepository.getByEmail(email);
+      const subscriber = await NewsletterRepository.getByEmail(email.toLowerCase());
 
       res.status(200).json({
         success: true,
         data: {
           email,
-          isSubscribed: subscriber !== null,
-          subscribedAt: subscriber?.created_at || null,
+          isSubscribed: subscriber?.status === 'CONFIRMED',
+          status: subscriber?.status || null,
+          subscribedAt: subscriber?.confirmed_at || null,
         },
       });
     } catch (error) {
@@ -184,6 +271,8 @@ router.delete(
  */
 router.delete(
   '/subscribers/:id',
+  authenticate,
+  authorize(policies.newsletter.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
@@ -224,12 +313,25 @@ router.delete(
 /**
  * GET /api/newsletter/count
  * Get total count of newsletter subscribers
+ * Query params: status (PENDING | CONFIRMED)
  */
 router.get(
   '/count',
-  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  authenticate,
+  authorize(policies.newsletter.manage),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
-      const total = await NewsletterRepository.getTotal();
+      const status = req.query.status as SubscriberStatus | undefined;
+
+      if (status && !SUBSCRIBER_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${SUBSCRIBER_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const total = await NewsletterRepository.getTotal(status);
 
       res.status(200).json({
         success: true,
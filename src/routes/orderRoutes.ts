@@ -0,0 +1,331 @@
+import { Router, Response } from 'express';
+import { CouponRepository } from '../repositories/couponRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { authConfig } from '../config/auth';
+import { paymentConfig } from '../config/payments';
+import { getDefaultPaymentGateway } from '../utils/paymentGateway';
+import { handleOrderTransition } from '../utils/orderFulfilment';
+import { resolveCheckoutItem } from '../utils/checkout';
+import { normalizeCouponCode } from '../utils/couponRules';
+import { AuthenticatedRequest } from '../types/auth';
+import { CheckoutRequest, ORDER_ITEM_TYPES, ORDER_STATUSES, OrderStatus } from '../types/order';
+
+const router = Router();
+
+/**
+ * GET /api/orders
+ * Get all orders with pagination (admin)
+ * Query: page, limit, status, user_id
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(policies.orders.list),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+    const status = req.query.status as OrderStatus | undefined;
+
+    if (status && !ORDER_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${ORDER_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const { orders, total } = await OrderRepository.getAllOrders(limit, offset, {
+      status,
+      user_id: req.query.user_id ? parseInt(req.query.user_id as string) : undefined,
+    });
+    const pages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: orders,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/orders/checkout
+ * Start paying for a batch seat or a course
+ * Body: { item_type: 'BATCH' | 'COURSE', item_id, batch_id?, coupon_code?, join_waitlist? }
+ * Returns the order and the provider's checkout_url; free items are enrolled straight away.
+ * Paying for a full batch is refused unless join_waitlist is true, as it only buys a waitlist spot
+ */
+router.post(
+  '/checkout',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const body = (req.body || {}) as CheckoutRequest;
+    const userId = req.user!.id;
+
+    if (!ORDER_ITEM_TYPES.includes(body.item_type) || !Number.isInteger(body.item_id)) {
+      res.status(400).json({
+        success: false,
+        error: `item_type (${ORDER_ITEM_TYPES.join(' or ')}) and a numeric item_id are required`,
+      });
+      return;
+    }
+
+    if (body.batch_id !== undefined && !Number.isInteger(body.batch_id)) {
+      res.status(400).json({
+        success: false,
+        error: 'batch_id must be a numeric batch ID',
+      });
+      return;
+    }
+
+    const { item, status, error } = await resolveCheckoutItem(body);
+    if (!item) {
+      res.status(status!).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const { batch, course_id, amount, description } = item;
+
+    if (batch.status === 'COMPLETED' || batch.status === 'INACTIVE') {
+      res.status(409).json({
+        success: false,
+        error: 'Batch is not open for enrollment',
+      });
+      return;
+    }
+
+    // Warn before taking payment: a paid order for a full batch is fulfilled as a waitlist spot
+    const batchFull = batch.max_students !== null && batch.enrolled_students >= batch.max_students;
+    if (batchFull && amount > 0 && body.join_waitlist !== true) {
+      res.status(409).json({
+        success: false,
+        error:
+          'Batch is full; paying now only secures a place on the waitlist. Send join_waitlist: true to continue',
+      });
+      return;
+    }
+
+    const user = await UserRepository.getUserById(userId);
+    if (authConfig.requireVerifiedEmailForEnrollment && !user?.email_verified_at) {
+      res.status(403).json({
+        success: false,
+        error: 'Email address must be verified before enrolling',
+      });
+      return;
+    }
+
+    const enrollment = await EnrollmentRepository.getActiveEnrollment(batch.id, userId);
+    if (enrollment) {
+      res.status(409).json({
+        success: false,
+        error: 'Already enrolled in this batch',
+      });
+      return;
+    }
+
+    let coupon = null;
+    if (body.coupon_code !== undefined && body.coupon_code !== null && body.coupon_code !== '') {
+      coupon = await CouponRepository.getCouponByCode(
+        normalizeCouponCode(String(body.coupon_code))
+      );
+      if (!coupon) {
+        res.status(404).json({
+          success: false,
+          error: 'Coupon not found',
+        });
+        return;
+      }
+    }
+
+    // Resume the open checkout instead of starting a second one, unless the coupon changed
+    const pending = await OrderRepository.getPendingOrder(userId, batch.id);
+    if (pending) {
+      if ((pending.coupon_code || null) === (coupon ? coupon.code : null) && pending.checkout_url) {
+        res.json({
+          success: true,
+          data: pending,
+          message: 'Checkout already in progress',
+        });
+        return;
+      }
+
+      const cancelled = await OrderRepository.updateStatus(pending.id, 'CANCELLED');
+      if (cancelled.outcome === 'TRANSITIONED') {
+        await handleOrderTransition(cancelled.order!);
+      }
+    }
+
+    const {
+      outcome,
+      order,
+      error: couponError,
+    } = await OrderRepository.createOrder(
+      {
+        user_id: userId,
+        item_type: body.item_type,
+        item_id: body.item_id,
+        batch_id: batch.id,
+        description,
+        amount,
+        currency: paymentConfig.currency,
+        provider: paymentConfig.provider,
+      },
+      coupon ? { coupon_id: coupon.id, course_id } : undefined
+    );
+
+    if (outcome === 'COUPON_REJECTED') {
+      res.status(422).json({
+        success: false,
+        error: couponError,
+      });
+      return;
+    }
+
+    if (outcome === 'EXISTING') {
+      res.json({
+        success: true,
+        data: order,
+        message: 'Checkout already in progress',
+      });
+      return;
+    }
+
+    if (parseFloat(order!.amount) === 0) {
+      const paid = await OrderRepository.updateStatus(order!.id, 'PAID');
+      if (paid.outcome === 'TRANSITIONED') {
+        await handleOrderTransition(paid.order!);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: await OrderRepository.getOrderById(order!.id),
+        message: 'Free enrollment completed',
+      });
+      return;
+    }
+
+    let session;
+    try {
+      session = await getDefaultPaymentGateway().createCheckout(order!);
+    } catch (checkoutError) {
+      // Free the one-open-checkout slot (and any coupon) so the student can try again
+      const cancelled = await OrderRepository.updateStatus(order!.id, 'CANCELLED');
+      if (cancelled.outcome === 'TRANSITIONED') {
+        await handleOrderTransition(cancelled.order!);
+      }
+      throw checkoutError;
+    }
+
+    const started = await OrderRepository.setCheckoutSession(
+      order!.id,
+      session.provider_reference,
+      session.checkout_url
+    );
+
+    res.status(201).json({
+      success: true,
+      data: started,
+      message: 'Checkout created',
+    });
+  })
+);
+
+/**
+ * GET /api/orders/:id
+ * Get order by ID
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize(policies.orders.view),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid order ID',
+      });
+      return;
+    }
+
+    const order = await OrderRepository.getOrderById(id);
+
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: order,
+    });
+  })
+);
+
+/**
+ * POST /api/orders/:id/cancel
+ * Abandon an unpaid checkout
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize(policies.orders.cancel),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid order ID',
+      });
+      return;
+    }
+
+    const { outcome, order } = await OrderRepository.updateStatus(id, 'CANCELLED');
+
+    if (outcome === 'ORDER_NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found',
+      });
+      return;
+    }
+
+    if (outcome === 'INVALID_TRANSITION') {
+      res.status(409).json({
+        success: false,
+        error: `A ${order!.status.toLowerCase()} order cannot be cancelled`,
+      });
+      return;
+    }
+
+    await handleOrderTransition(order!);
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Order cancelled',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { OrderRepository } from '../repositories/orderRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { paymentConfig } from '../config/payments';
+import { getPaymentGateway, toMinorUnits } from '../utils/paymentGateway';
+import {
+  fakePaymentGateway,
+  signFakeWebhook,
+  FAKE_SIGNATURE_HEADER,
+} from '../utils/fakePaymentGateway';
+import { handleOrderTransition } from '../utils/orderFulfilment';
+import { AuthenticatedRequest } from '../types/auth';
+import { PaymentEvent, PaymentEventResult } from '../types/order';
+
+const router = Router();
+
+/**
+ * Apply a verified event and run the side effects of the resulting status change
+ */
+const processPaymentEvent = async (
+  provider: string,
+  event: PaymentEvent
+): Promise<PaymentEventResult> => {
+  const result = await OrderRepository.applyPaymentEvent(provider, event);
+
+  if (result.outcome === 'TRANSITIONED' && result.previous_status === 'CANCELLED') {
+    // The customer paid a checkout that was cancelled meanwhile; flag it in case they paid twice
+    console.warn(
+      `Order ${result.order!.id} was paid after being cancelled; check user ${result.order!.user_id} for a duplicate payment`
+    );
+  }
+
+  if (result.outcome === 'TRANSITIONED') {
+    // The provider must still get its 2xx: an unfulfilled paid order is left for an admin
+    await handleOrderTransition(result.order!).catch((error) =>
+      console.error(`Failed to process order ${result.order!.id} after payment event:`, error)
+    );
+  }
+
+  return result;
+};
+
+/**
+ * POST /api/payments/webhook/:provider
+ * Receive a signed payment event from a provider
+ * Redelivered events are acknowledged without being applied twice
+ */
+router.post(
+  '/webhook/:provider',
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const provider = req.params.provider as string;
+    const gateway = getPaymentGateway(provider);
+
+    if (!gateway) {
+      res.status(404).json({
+        success: false,
+        error: 'Unknown payment provider',
+      });
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+    const event = gateway.verifyWebhook(rawBody, req.headers);
+
+    if (!event) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid webhook signature',
+      });
+      return;
+    }
+
+    const { outcome, order } = await processPaymentEvent(gateway.name, event);
+
+    res.json({
+      success: true,
+      data: { outcome, order_id: order ? order.id : null, status: order ? order.status : null },
+    });
+  })
+);
+
+/**
+ * POST /api/payments/fake/checkout/:reference
+ * Hosted "payment page" of the fake provider: completes a checkout by sending itself a signed
+ * webhook, exactly as a real provider would. Only available when FAKE_PAYMENTS_ENABLED is set
+ * in development or test, and only to the student who started the checkout.
+ * Body: { outcome?: 'succeeded' | 'failed' }
+ */
+router.post(
+  '/fake/checkout/:reference',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!paymentConfig.fakeEnabled || paymentConfig.provider !== 'fake') {
+      res.status(404).json({
+        success: false,
+        error: 'Not found',
+      });
+      return;
+    }
+
+    const reference = req.params.reference as string;
+    const order = await OrderRepository.getOrderByReference('fake', reference);
+
+    // Someone else's checkout is reported as missing rather than confirmed to exist
+    if (!order || order.user_id !== req.user!.id) {
+      res.status(404).json({
+        success: false,
+        error: 'Checkout not found',
+      });
+      return;
+    }
+
+    const succeeded = req.body?.outcome !== 'failed';
+    const body = JSON.stringify({
+      id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+      type: succeeded ? 'payment.succeeded' : 'payment.failed',
+      data: {
+        reference,
+        amount: toMinorUnits(order.amount),
+        currency: order.currency,
+        failure_reason: succeeded ? undefined : 'Card declined (simulated)',
+      },
+    });
+
+    const event = fakePaymentGateway.verifyWebhook(Buffer.from(body), {
+      [FAKE_SIGNATURE_HEADER]: signFakeWebhook(body),
+    });
+    const { outcome, order: updated } = await processPaymentEvent(fakePaymentGateway.name, event!);
+
+    res.json({
+      success: true,
+      data: { outcome, order: updated },
+    });
+  })
+);
+
+export default router;
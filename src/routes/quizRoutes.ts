@@ -0,0 +1,633 @@
+import { Router, Request, Response } from 'express';
+import { CourseRepository } from '../repositories/courseRepository';
+import { CurriculumRepository } from '../repositories/curriculumRepository';
+import { QuizRepository } from '../repositories/quizRepository';
+import { ProgressRepository } from '../repositories/progressRepository';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { resolveCourseAccess, CourseAccess } from '../utils/courseAccess';
+import { getLessonAvailability } from '../utils/dripSchedule';
+import { checkCourseCompletion } from '../utils/courseCompletion';
+import { validateQuestion, gradeAttempt, toPublicQuestion } from '../utils/quizGrading';
+import { AuthenticatedRequest } from '../types/auth';
+import { Course } from '../types/course';
+import {
+  Quiz,
+  CreateQuizRequest,
+  UpdateQuizRequest,
+  CreateQuestionRequest,
+  SubmitAttemptRequest,
+} from '../types/quiz';
+
+const router = Router();
+
+/**
+ * Validate quiz settings from a create/update body
+ */
+const validateQuizSettings = (
+  body: Record<string, any>
+): { data: UpdateQuizRequest; error?: string } => {
+  const data: UpdateQuizRequest = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { data, error: 'title cannot be empty' };
+    }
+    data.title = body.title.trim();
+  }
+
+  if (body.description !== undefined) {
+    data.description = body.description;
+  }
+
+  if (body.pass_percentage !== undefined) {
+    if (
+      !Number.isInteger(body.pass_percentage) ||
+      body.pass_percentage < 0 ||
+      body.pass_percentage > 100
+    ) {
+      return { data, error: 'pass_percentage must be an integer between 0 and 100' };
+    }
+    data.pass_percentage = body.pass_percentage;
+  }
+
+  if (body.max_attempts !== undefined) {
+    if (
+      body.max_attempts !== null &&
+      (!Number.isInteger(body.max_attempts) || body.max_attempts < 1)
+    ) {
+      return { data, error: 'max_attempts must be a positive integer or null for unlimited' };
+    }
+    data.max_attempts = body.max_attempts;
+  }
+
+  return { data };
+};
+
+/**
+ * Reason a student may not take a quiz right now, or null when they may
+ */
+const getQuizAccessError = async (
+  course: Course,
+  quiz: Quiz,
+  access: CourseAccess
+): Promise<{ status: number; error: string } | null> => {
+  if (access.isStaff) {
+    return null;
+  }
+
+  const lesson = await CurriculumRepository.getLessonById(course.id, quiz.lesson_id);
+  if (!lesson || !lesson.is_published) {
+    return { status: 404, error: 'Quiz not found' };
+  }
+
+  if (!access.enrollment) {
+    return { status: 403, error: 'You must be enrolled in this course to take this quiz' };
+  }
+
+  if (getLessonAvailability(course, lesson, access).is_locked) {
+    return { status: 403, error: 'Quiz is locked' };
+  }
+
+  return null;
+};
+
+/**
+ * POST /api/courses/:id/lessons/:lessonId/quiz
+ * Create the quiz of a QUIZ lesson
+ * Body: { title, description?, pass_percentage? (default: 70), max_attempts? (default: unlimited) }
+ */
+router.post(
+  '/:id/lessons/:lessonId/quiz',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const lessonId = parseInt(req.params.lessonId as string);
+
+    if (isNaN(id) || isNaN(lessonId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or lesson ID',
+      });
+      return;
+    }
+
+    if (!req.body.title) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required field: title',
+      });
+      return;
+    }
+
+    const { data, error } = validateQuizSettings(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const lesson = await CurriculumRepository.getLessonById(id, lessonId);
+
+    if (!lesson) {
+      res.status(404).json({
+        success: false,
+        error: 'Lesson not found',
+      });
+      return;
+    }
+
+    if (lesson.lesson_type !== 'QUIZ') {
+      res.status(400).json({
+        success: false,
+        error: 'Quizzes can only be attached to QUIZ lessons',
+      });
+      return;
+    }
+
+    const existing = await QuizRepository.getQuizByLesson(lessonId);
+
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'Lesson already has a quiz',
+        data: existing,
+      });
+      return;
+    }
+
+    const quiz = await QuizRepository.createQuiz(id, lessonId, data as CreateQuizRequest);
+
+    res.status(201).json({
+      success: true,
+      data: quiz,
+    });
+  })
+);
+
+/**
+ * GET /api/courses/:id/quizzes/:quizId
+ * Get a quiz with its questions. Students get the questions without the answer key,
+ * plus how many attempts they have left.
+ */
+router.get(
+  '/:id/quizzes/:quizId',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+
+    if (isNaN(id) || isNaN(quizId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or quiz ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+    const quiz = course ? await QuizRepository.getQuizById(id, quizId) : null;
+
+    if (!course || !quiz) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    const access = await resolveCourseAccess(req.user, course);
+    const accessError = await getQuizAccessError(course, quiz, access);
+
+    if (accessError) {
+      res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+      return;
+    }
+
+    const questions = await QuizRepository.getQuestions(quizId);
+
+    if (access.isStaff) {
+      res.json({
+        success: true,
+        data: { ...quiz, questions },
+      });
+      return;
+    }
+
+    const attempts = await QuizRepository.getAttempts(quizId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        ...quiz,
+        questions: questions.map(toPublicQuestion),
+        attempts_used: attempts.length,
+        attempts_remaining:
+          quiz.max_attempts === null ? null : Math.max(quiz.max_attempts - attempts.length, 0),
+        passed: attempts.some((attempt) => attempt.passed),
+      },
+    });
+  })
+);
+
+/**
+ * PATCH /api/courses/:id/quizzes/:quizId
+ * Update quiz settings
+ */
+router.patch(
+  '/:id/quizzes/:quizId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+
+    if (isNaN(id) || isNaN(quizId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or quiz ID',
+      });
+      return;
+    }
+
+    const { data, error } = validateQuizSettings(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const quiz = await QuizRepository.updateQuiz(id, quizId, data);
+
+    if (!quiz) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: quiz,
+    });
+  })
+);
+
+/**
+ * DELETE /api/courses/:id/quizzes/:quizId
+ * Delete a quiz with its questions and attempt history
+ */
+router.delete(
+  '/:id/quizzes/:quizId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+
+    if (isNaN(id) || isNaN(quizId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or quiz ID',
+      });
+      return;
+    }
+
+    const deleted = await QuizRepository.deleteQuiz(id, quizId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Quiz deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/quizzes/:quizId/questions
+ * Add a question to a quiz
+ * Body: { question_type, prompt, options?, correct_answers, explanation?, points?, sort_order? }
+ */
+router.post(
+  '/:id/quizzes/:quizId/questions',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+
+    if (isNaN(id) || isNaN(quizId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or quiz ID',
+      });
+      return;
+    }
+
+    if (!req.body.question_type || !req.body.prompt || req.body.correct_answers === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required fields: question_type, prompt, correct_answers',
+      });
+      return;
+    }
+
+    const { data, error } = validateQuestion(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const quiz = await QuizRepository.getQuizById(id, quizId);
+
+    if (!quiz) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    const question = await QuizRepository.createQuestion(quizId, data as CreateQuestionRequest);
+
+    res.status(201).json({
+      success: true,
+      data: question,
+    });
+  })
+);
+
+/**
+ * PATCH /api/courses/:id/quizzes/:quizId/questions/:questionId
+ * Update a quiz question
+ */
+router.patch(
+  '/:id/quizzes/:quizId/questions/:questionId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+    const questionId = parseInt(req.params.questionId as string);
+
+    if (isNaN(id) || isNaN(quizId) || isNaN(questionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course, quiz or question ID',
+      });
+      return;
+    }
+
+    const quiz = await QuizRepository.getQuizById(id, quizId);
+    const question = quiz ? await QuizRepository.getQuestionById(quizId, questionId) : null;
+
+    if (!question) {
+      res.status(404).json({
+        success: false,
+        error: 'Question not found',
+      });
+      return;
+    }
+
+    const { data, error } = validateQuestion(req.body, question);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error,
+      });
+      return;
+    }
+
+    const updatedQuestion = await QuizRepository.updateQuestion(quizId, questionId, data);
+
+    res.json({
+      success: true,
+      data: updatedQuestion,
+    });
+  })
+);
+
+/**
+ * DELETE /api/courses/:id/quizzes/:quizId/questions/:questionId
+ * Delete a quiz question
+ */
+router.delete(
+  '/:id/quizzes/:quizId/questions/:questionId',
+  authenticate,
+  authorize(policies.courses.manageCurriculum),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+    const questionId = parseInt(req.params.questionId as string);
+
+    if (isNaN(id) || isNaN(quizId) || isNaN(questionId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course, quiz or question ID',
+      });
+      return;
+    }
+
+    const quiz = await QuizRepository.getQuizById(id, quizId);
+    const deleted = quiz ? await QuizRepository.deleteQuestion(quizId, questionId) : false;
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Question not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Question deleted successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/courses/:id/quizzes/:quizId/attempts
+ * Submit a quiz attempt for automatic grading. Passing completes the quiz lesson.
+ * Body: { answers: { [questionId]: optionIndex | optionIndex[] | boolean | string } }
+ */
+router.post(
+  '/:id/quizzes/:quizId/attempts',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+    const { answers } = (req.body || {}) as SubmitAttemptRequest;
+
+    if (isNaN(id) || isNaN(quizId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course or quiz ID',
+      });
+      return;
+    }
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      res.status(400).json({
+        success: false,
+        error: 'answers object keyed by question ID is required',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+    const quiz = course ? await QuizRepository.getQuizById(id, quizId) : null;
+
+    if (!course || !quiz) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    const access = await resolveCourseAccess(req.user, course);
+
+    // Staff preview quizzes through GET; attempts are recorded for enrolled students only
+    if (!access.enrollment) {
+      res.status(403).json({
+        success: false,
+        error: 'You must be enrolled in this course to take this quiz',
+      });
+      return;
+    }
+
+    const accessError = await getQuizAccessError(course, quiz, { ...access, isStaff: false });
+
+    if (accessError) {
+      res.status(accessError.status).json({
+        success: false,
+        error: accessError.error,
+      });
+      return;
+    }
+
+    const questions = await QuizRepository.getQuestions(quizId);
+
+    if (questions.length === 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Quiz has no questions yet',
+      });
+      return;
+    }
+
+    const userId = req.user!.id;
+    const graded = gradeAttempt(questions, answers, quiz.pass_percentage);
+    const { outcome, attempt } = await QuizRepository.submitAttempt(quizId, userId, graded);
+
+    if (outcome === 'ATTEMPT_LIMIT_REACHED') {
+      res.status(409).json({
+        success: false,
+        error: `Attempt limit of ${quiz.max_attempts} reached`,
+      });
+      return;
+    }
+
+    let courseCompleted = false;
+    if (graded.passed) {
+      await ProgressRepository.recordProgress(userId, id, quiz.lesson_id, { completed: true });
+      courseCompleted = (await checkCourseCompletion(userId, id)) !== null;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: graded.passed ? 'Quiz passed' : 'Quiz not passed',
+      data: {
+        ...attempt,
+        pass_percentage: quiz.pass_percentage,
+        attempts_remaining:
+          quiz.max_attempts === null
+            ? null
+            : Math.max(quiz.max_attempts - attempt!.attempt_number, 0),
+        course_completed: courseCompleted,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/courses/:id/quizzes/:quizId/attempts
+ * Get the caller's attempt history for a quiz
+ * Query params: user_id? - course staff may look up a student
+ */
+router.get(
+  '/:id/quizzes/:quizId/attempts',
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quizId = parseInt(req.params.quizId as string);
+    const userId =
+      req.query.user_id !== undefined ? parseInt(req.query.user_id as string) : req.user!.id;
+
+    if (isNaN(id) || isNaN(quizId) || isNaN(userId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid course, quiz or user ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(id);
+    const quiz = course ? await QuizRepository.getQuizById(id, quizId) : null;
+
+    if (!course || !quiz) {
+      res.status(404).json({
+        success: false,
+        error: 'Quiz not found',
+      });
+      return;
+    }
+
+    if (userId !== req.user!.id) {
+      const { isStaff } = await resolveCourseAccess(req.user, course);
+
+      if (!isStaff) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+        return;
+      }
+    }
+
+    const attempts = await QuizRepository.getAttempts(quizId, userId);
+
+    res.json({
+      success: true,
+      data: attempts,
+    });
+  })
+);
+
+export default router;
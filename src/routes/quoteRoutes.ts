@@ -1,19 +1,55 @@
 import { Router, Request, Response } from 'express';
 import { QuoteRepository } from '../repositories/quoteRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
 import { sendQuotationEmail, sendAdminNotification } from '../utils/emailService';
 import { asyncHandler } from '../middleware/errorHandler';
-import { CreateQuoteRequest } from '../types/quote';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { rateLimit } from '../middleware/rateLimit';
+import { quoteConfig } from '../config/quotes';
+import { verifyCaptcha } from '../utils/captcha';
+import { AuthenticatedRequest } from '../types/auth';
+import {
+  CreateQuoteRequest,
+  QuoteConversion,
+  QuoteFilters,
+  QuoteStatus,
+  QUOTE_STATUSES,
+  UpdateQuoteStatusRequest,
+} from '../types/quote';
 
 const router = Router();
 
+// Every public submission sends two emails, so cap how fast one client can trigger them
+const quoteIpLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: quoteConfig.ipMaxPerHour,
+  key: (req) => `quote-ip:${req.ip}`,
+  message: 'Too many quotation requests, please try again later',
+});
+
 /**
  * POST /api/quotes
  * Create a new quotation request
+ * Body: { name, email, phone, subject?, message?, captcha_token? } plus an empty honeypot field
  */
 router.post(
   '/',
+  quoteIpLimiter,
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { name, email, phone, message } = req.body as CreateQuoteRequest;
+    const { name, email, phone, subject, message } = req.body as CreateQuoteRequest;
+
+    // Bots filling the hidden honeypot field get a normal-looking response but nothing is stored or sent
+    if (req.body?.[quoteConfig.honeypotField]) {
+      console.warn(`Quote honeypot triggered from ${req.ip}`);
+      res.status(201).json({
+        success: true,
+        message: 'Quotation request received successfully',
+      });
+      return;
+    }
 
     // Validation
     if (!name || !email || !phone) {
@@ -34,20 +70,58 @@ router.post(
       return;
     }
 
+    const captcha = await verifyCaptcha(req.body?.captcha_token, req.ip);
+    if (!captcha.success) {
+      res.status(400).json({
+        success: false,
+        error: captcha.error || 'Captcha verification failed',
+      });
+      return;
+    }
+
+    // Limits per recipient address, so one address cannot be flooded from many IPs
+    const recentForEmail = await QuoteRepository.countRecentByEmail(email);
+    if (recentForEmail >= quoteConfig.emailMaxPerDay) {
+      res.status(429).json({
+        success: false,
+        error: 'Too many quotation requests for this email address, please try again later',
+      });
+      return;
+    }
+
+    // A repeated identical submission (e.g. a double-clicked submit) is acknowledged without new emails
+    const duplicate = await QuoteRepository.findRecentDuplicate(
+      { name, email, phone, subject, message },
+      quoteConfig.duplicateWindowMinutes
+    );
+    if (duplicate) {
+      res.json({
+        success: true,
+        message: 'Quotation request already received',
+        data: duplicate,
+        emailSent: false,
+      });
+      return;
+    }
+
     try {
       // Create quote in database
-      const quote = await QuoteRepository.createQuote({
-        name,
-        email,
-        phone,
-        message,
-      });
+      const quote = await QuoteRepository.createQuote(
+        {
+          name,
+          email,
+          phone,
+          subject,
+          message,
+        },
+        req.ip
+      );
 
       // Send email to user
-      const emailSent = await sendQuotationEmail(name, email, phone, message);
+      const emailSent = await sendQuotationEmail(name, email, phone, message, subject);
 
       // Send notification to admin
-      await sendAdminNotification(name, email, phone, message);
+      await sendAdminNotification(name, email, phone, message, subject);
 
       res.status(201).json({
         success: true,
@@ -68,16 +142,65 @@ router.post(
 /**
  * GET /api/quotes
  * Get all quotes (paginated)
+ * Query params: status, assigned_to (user ID or "none"), from, to (creation date range)
  */
 router.get(
   '/',
+  authenticate,
+  authorize(policies.quotes.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
+    const filters: QuoteFilters = {};
+
+    if (req.query.status) {
+      const status = req.query.status as QuoteStatus;
+      if (!QUOTE_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${QUOTE_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+      filters.status = status;
+    }
+
+    if (req.query.assigned_to) {
+      if (req.query.assigned_to === 'none') {
+        filters.assigned_to = null;
+      } else {
+        const assignedTo = parseInt(req.query.assigned_to as string);
+        if (isNaN(assignedTo)) {
+          res.status(400).json({
+            success: false,
+            error: 'assigned_to must be a user ID or "none"',
+          });
+          return;
+        }
+        filters.assigned_to = assignedTo;
+      }
+    }
+
+    for (const [param, key] of [
+      ['from', 'created_from'],
+      ['to', 'created_to'],
+    ] as const) {
+      if (req.query[param]) {
+        const date = new Date(req.query[param] as string);
+        if (isNaN(date.getTime())) {
+          res.status(400).json({
+            success: false,
+            error: `${param} must be a valid date`,
+          });
+          return;
+        }
+        filters[key] = date;
+      }
+    }
 
     try {
-      const { data, total } = await QuoteRepository.getAllQuotes(limit, offset);
+      const { data, total } = await QuoteRepository.getAllQuotes(limit, offset, filters);
 
       res.json({
         success: true,
@@ -105,6 +228,8 @@ router.get(
  */
 router.get(
   '/:id',
+  authenticate,
+  authorize(policies.quotes.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
@@ -147,6 +272,8 @@ router.get(
  */
 router.get(
   '/email/:email',
+  authenticate,
+  authorize(policies.quotes.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { email } = req.params;
 
@@ -176,12 +303,247 @@ router.get(
   })
 );
 
+/**
+ * PATCH /api/quotes/:id/status
+ * Move a quote through its lifecycle (PENDING -> CONTACTED -> CONVERTED / REJECTED)
+ * Body: { status, note?, converted_user_id?, converted_enrollment_id? }
+ */
+router.patch(
+  '/:id/status',
+  authenticate,
+  authorize(policies.quotes.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { status, note, converted_user_id, converted_enrollment_id } = (req.body ||
+      {}) as UpdateQuoteStatusRequest;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid quote ID',
+      });
+      return;
+    }
+
+    if (!QUOTE_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${QUOTE_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const hasConversionLinks = converted_user_id !== undefined || converted_enrollment_id !== undefined;
+    if (hasConversionLinks && status !== 'CONVERTED') {
+      res.status(400).json({
+        success: false,
+        error: 'Conversion links can only be set when converting a quote',
+      });
+      return;
+    }
+
+    const conversion: QuoteConversion = { user_id: null, enrollment_id: null };
+
+    if (converted_enrollment_id !== undefined) {
+      const enrollment = await EnrollmentRepository.getEnrollmentById(Number(converted_enrollment_id));
+      if (!enrollment) {
+        res.status(404).json({
+          success: false,
+          error: 'Enrollment not found',
+        });
+        return;
+      }
+      conversion.enrollment_id = enrollment.id;
+      conversion.user_id = enrollment.user_id;
+    }
+
+    if (converted_user_id !== undefined) {
+      const user = await UserRepository.getUserById(Number(converted_user_id));
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+      if (conversion.user_id !== null && Number(conversion.user_id) !== Number(user.id)) {
+        res.status(400).json({
+          success: false,
+          error: 'The enrollment does not belong to the given user',
+        });
+        return;
+      }
+      conversion.user_id = user.id;
+    }
+
+    const result = await QuoteRepository.updateStatus(id, status, req.user!.id, {
+      note: typeof note === 'string' ? note.trim() : undefined,
+      conversion,
+    });
+
+    if (result.outcome === 'NOT_FOUND') {
+      res.status(404).json({
+        success: false,
+        error: 'Quote not found',
+      });
+      return;
+    }
+
+    if (result.outcome === 'INVALID_TRANSITION') {
+      res.status(409).json({
+        success: false,
+        error: `Cannot change a ${result.quote!.status} quote to ${status}`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.quote,
+      message: 'Quote status updated',
+    });
+  })
+);
+
+/**
+ * PATCH /api/quotes/:id/assignee
+ * Assign a quote to an admin
+ * Body: { assigned_to: number | null }
+ */
+router.patch(
+  '/:id/assignee',
+  authenticate,
+  authorize(policies.quotes.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { assigned_to } = req.body || {};
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid quote ID',
+      });
+      return;
+    }
+
+    if (assigned_to === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'assigned_to is required (use null to unassign)',
+      });
+      return;
+    }
+
+    if (assigned_to !== null) {
+      const assignee = await UserRepository.getUserById(Number(assigned_to));
+      if (!assignee || assignee.role !== 'ADMIN') {
+        res.status(400).json({
+          success: false,
+          error: 'Quotes can only be assigned to admin users',
+        });
+        return;
+      }
+    }
+
+    const quote = await QuoteRepository.assignQuote(
+      id,
+      assigned_to === null ? null : Number(assigned_to),
+      req.user!.id
+    );
+
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        error: 'Quote not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: quote,
+      message: assigned_to === null ? 'Quote unassigned' : 'Quote assigned',
+    });
+  })
+);
+
+/**
+ * GET /api/quotes/:id/activity
+ * Get a quote's internal notes and change history
+ */
+router.get(
+  '/:id/activity',
+  authenticate,
+  authorize(policies.quotes.manage),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const quote = isNaN(id) ? null : await QuoteRepository.getQuoteById(id);
+
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        error: 'Quote not found',
+      });
+      return;
+    }
+
+    const activity = await QuoteRepository.getActivity(id);
+
+    res.json({
+      success: true,
+      data: activity,
+    });
+  })
+);
+
+/**
+ * POST /api/quotes/:id/notes
+ * Add an internal note to a quote
+ * Body: { note: string }
+ */
+router.post(
+  '/:id/notes',
+  authenticate,
+  authorize(policies.quotes.manage),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+
+    if (!note) {
+      res.status(400).json({
+        success: false,
+        error: 'note is required',
+      });
+      return;
+    }
+
+    const quote = isNaN(id) ? null : await QuoteRepository.getQuoteById(id);
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        error: 'Quote not found',
+      });
+      return;
+    }
+
+    const activity = await QuoteRepository.addNote(id, req.user!.id, note);
+
+    res.status(201).json({
+      success: true,
+      data: activity,
+      message: 'Note added',
+    });
+  })
+);
+
 /**
  * DELETE /api/quotes/:id
  * Delete quote
  */
 router.delete(
   '/:id',
+  authenticate,
+  authorize(policies.quotes.manage),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
 
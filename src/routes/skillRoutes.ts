@@ -3,6 +3,9 @@ import { SkillRepository } from '../repositories/skillRepository';
 import { UserRepository } from '../repositories/userRepository';
 import { SkillResponse, CreateSkillRequest } from '../types/user';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
 
 const router = Router();
 
@@ -13,6 +16,8 @@ const router = Router();
  */
 router.post(
   '/',
+  authenticate,
+  authorize(policies.skills.create),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { user_id, skill } = req.body;
 
@@ -142,6 +147,8 @@ router.get(
  */
 router.post(
   '/:id/update',
+  authenticate,
+  authorize(policies.skills.update),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
     const { skill } = req.body;
@@ -197,6 +204,8 @@ router.post(
  */
 router.delete(
   '/:id',
+  authenticate,
+  authorize(policies.skills.delete),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -2,9 +2,26 @@ import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { UserRepository } from '../repositories/userRepository';
 import { SkillRepository } from '../repositories/skillRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { ProgressRepository } from '../repositories/progressRepository';
+import { CertificateRepository } from '../repositories/certificateRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import { InvoiceRepository } from '../repositories/invoiceRepository';
 import { uploadImageToCloudinary, deleteImageFromCloudinary, extractPublicIdFromUrl } from '../utils/imageUpload';
+import { validatePassword } from '../utils/passwordPolicy';
 import { UserResponse, CreateUserRequest, UpdateUserRequest } from '../types/user';
+import { EnrollmentStatus } from '../types/enrollment';
+import { CourseProgressSummary } from '../types/progress';
 import { asyncHandler } from '../middleware/errorHandler';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { authorize, pickEditableFields } from '../middleware/authorize';
+import { policies } from '../middleware/policies';
+import { rateLimit } from '../middleware/rateLimit';
+import { AuthenticatedRequest, ChangePasswordRequest } from '../types/auth';
+import { AuthSessionRepository } from '../repositories/authSessionRepository';
+import { hashPassword } from '../utils/passwordHasher';
+import { sendEmailVerification } from '../utils/emailVerification';
 
 interface MulterRequest extends Request {
   file?: any;
@@ -12,6 +29,21 @@ interface MulterRequest extends Request {
 
 const router = Router();
 
+// Slows down guessing of the current password with a stolen access token
+const changePasswordLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  key: (req) => `change-password:${req.params.id}`,
+});
+
+// Anonymous profile uploads are capped per client IP so the image host cannot be flooded
+const profileUploadLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 20,
+  key: (req) => `profile-upload:${req.ip}`,
+  message: 'Too many uploads, please try again later',
+});
+
 // Configure multer for profile image uploads (memory storage)
 const storage = multer.memoryStorage();
 const upload = multer({
@@ -29,10 +61,11 @@ const upload = multer({
 
 /**
  * POST /api/users/upload-profile
- * Upload a profile image
+ * Upload a profile image (public, so sign-up can attach an avatar before the account exists)
  */
 router.post(
   '/upload-profile',
+  profileUploadLimiter,
   upload.single('profile'),
   asyncHandler(async (req: MulterRequest, res: Response): Promise<void> => {
     if (!req.file) {
@@ -64,8 +97,14 @@ router.post(
  */
 router.post(
   '/',
+  optionalAuthenticate,
+  authorize(policies.users.create),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { first_name, last_name, email, phone, password, title, address, biography, linkedin_url, github_url, role, is_instructor, profile_image_url, skills } = req.body;
+    const body = pickEditableFields<CreateUserRequest & { profile_image_url?: string }>(
+      req,
+      policies.users.create
+    );
+    const { first_name, last_name, email, phone, password, title, address, biography, linkedin_url, github_url, role, is_instructor, profile_image_url, skills } = body;
 
     // Validate required fields
     if (!first_name || !last_name || !email || !phone || !password) {
@@ -76,6 +115,16 @@ router.post(
       return;
     }
 
+    // Enforce password policy
+    const passwordErrors = validatePassword(password, [email, first_name, last_name]);
+    if (passwordErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Password does not meet requirements: ${passwordErrors.join('; ')}`,
+      });
+      return;
+    }
+
     // Check if email already exists
     const existingEmail = await UserRepository.getUserByEmail(email);
     if (existingEmail) {
@@ -114,6 +163,9 @@ router.post(
 
     const user = await UserRepository.createUser(userData);
 
+    // Accounts start unverified; a failed send can be retried via /api/auth/resend-verification
+    const verificationSent = await sendEmailVerification(user);
+
     // Add skills if provided
     if (skills && Array.isArray(skills) && skills.length > 0) {
       for (const skill of skills) {
@@ -129,9 +181,10 @@ router.post(
     // Remove password hash from response
     const { password_hash, ...userWithoutPassword } = user;
 
-    const response: UserResponse = {
+    const response: UserResponse & { verificationSent: boolean } = {
       success: true,
       data: userWithoutPassword as any,
+      verificationSent,
     };
 
     res.status(201).json(response);
@@ -145,6 +198,8 @@ router.post(
  */
 router.get(
   '/',
+  authenticate,
+  authorize(policies.users.list),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -211,6 +266,8 @@ router.get(
  */
 router.get(
   '/search',
+  authenticate,
+  authorize(policies.users.list),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const searchTerm = req.query.q as string;
 
@@ -250,6 +307,8 @@ router.get(
  */
 router.get(
   '/:id',
+  authenticate,
+  authorize(policies.users.view),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -282,6 +341,181 @@ router.get(
   })
 );
 
+/**
+ * GET /api/users/:id/enrollments
+ * Get a user's batch enrollments
+ * Query params: status? (ENROLLED | WAITLISTED | WITHDRAWN)
+ */
+router.get(
+  '/:id/enrollments',
+  authenticate,
+  authorize(policies.users.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const status = req.query.status as EnrollmentStatus | undefined;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+      return;
+    }
+
+    if (status && !['ENROLLED', 'WAITLISTED', 'WITHDRAWN'].includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid status. Must be one of: ENROLLED, WAITLISTED, WITHDRAWN',
+      });
+      return;
+    }
+
+    const enrollments = await EnrollmentRepository.getUserEnrollments(id, status);
+
+    res.json({
+      success: true,
+      data: enrollments,
+    });
+  })
+);
+
+/**
+ * GET /api/users/:id/courses/:courseId/progress
+ * Get a user's lesson progress and completion percentage for a course
+ */
+router.get(
+  '/:id/courses/:courseId/progress',
+  authenticate,
+  authorize(policies.users.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const courseId = parseInt(req.params.courseId as string);
+
+    if (isNaN(id) || isNaN(courseId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user or course ID',
+      });
+      return;
+    }
+
+    const course = await CourseRepository.getCourseById(courseId);
+
+    if (!course) {
+      res.status(404).json({
+        success: false,
+        error: 'Course not found',
+      });
+      return;
+    }
+
+    const lessons = await ProgressRepository.getCourseProgress(id, courseId);
+    const { total, completed } = await ProgressRepository.countCompletion(id, courseId);
+    const completion = await ProgressRepository.getCourseCompletion(id, courseId);
+
+    const summary: CourseProgressSummary = {
+      user_id: id,
+      course_id: courseId,
+      total_lessons: total,
+      started_lessons: lessons.length,
+      completed_lessons: completed,
+      percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+      completed_at: completion ? completion.completed_at : null,
+      last_lesson_id: lessons.length > 0 ? lessons[0].lesson_id : null,
+      lessons,
+    };
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  })
+);
+
+/**
+ * GET /api/users/:id/certificates
+ * Get a user's certificates
+ */
+router.get(
+  '/:id/certificates',
+  authenticate,
+  authorize(policies.users.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+      return;
+    }
+
+    const certificates = await CertificateRepository.getCertificatesByUser(id);
+
+    res.json({
+      success: true,
+      data: certificates,
+    });
+  })
+);
+
+/**
+ * GET /api/users/:id/orders
+ * Get a user's orders
+ */
+router.get(
+  '/:id/orders',
+  authenticate,
+  authorize(policies.users.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+      return;
+    }
+
+    const orders = await OrderRepository.getOrdersByUser(id);
+
+    res.json({
+      success: true,
+      data: orders,
+    });
+  })
+);
+
+/**
+ * GET /api/users/:id/invoices
+ * Get a user's invoices and receipts
+ */
+router.get(
+  '/:id/invoices',
+  authenticate,
+  authorize(policies.users.view),
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+      return;
+    }
+
+    const invoices = await InvoiceRepository.getInvoicesByUser(id);
+
+    res.json({
+      success: true,
+      data: invoices,
+    });
+  })
+);
+
 /**
  * POST /api/users/:id/update
  * Update user
@@ -289,6 +523,8 @@ router.get(
  */
 router.post(
   '/:id/update',
+  authenticate,
+  authorize(policies.users.update),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -310,9 +546,11 @@ router.post(
       return;
     }
 
+    const updateData = pickEditableFields<UpdateUserRequest>(req, policies.users.update);
+
     // Check if new email is unique (if being updated)
-    if (req.body.email && req.body.email !== user.email) {
-      const existingEmail = await UserRepository.getUserByEmail(req.body.email);
+    if (updateData.email && updateData.email !== user.email) {
+      const existingEmail = await UserRepository.getUserByEmail(updateData.email);
       if (existingEmail) {
         res.status(400).json({
           success: false,
@@ -323,8 +561,8 @@ router.post(
     }
 
     // Check if new phone is unique (if being updated)
-    if (req.body.phone && req.body.phone !== user.phone) {
-      const existingPhone = await UserRepository.getUserByPhone(req.body.phone);
+    if (updateData.phone && updateData.phone !== user.phone) {
+      const existingPhone = await UserRepository.getUserByPhone(updateData.phone);
       if (existingPhone) {
         res.status(400).json({
           success: false,
@@ -335,14 +573,19 @@ router.post(
     }
 
     // If updating profile image, delete old one from Cloudinary
-    if (req.body.profile_image_url && user.profile_image_url) {
+    if (updateData.profile_image_url && user.profile_image_url) {
       const oldPublicId = extractPublicIdFromUrl(user.profile_image_url);
       if (oldPublicId) {
         await deleteImageFromCloudinary(oldPublicId);
       }
     }
 
-    const updateData: UpdateUserRequest = req.body;
+    // A changed email address has to be verified again
+    const emailChanged = !!updateData.email && updateData.email !== user.email;
+    if (emailChanged && updateData.email_verified_at === undefined) {
+      updateData.email_verified_at = null;
+    }
+
     const updatedUser = await UserRepository.updateUser(id, updateData);
 
     if (!updatedUser) {
@@ -353,6 +596,10 @@ router.post(
       return;
     }
 
+    if (emailChanged && !updatedUser.email_verified_at) {
+      await sendEmailVerification(updatedUser);
+    }
+
     const { password_hash, ...userWithoutPassword } = updatedUser;
 
     const response: UserResponse = {
@@ -364,12 +611,81 @@ router.post(
   })
 );
 
+/**
+ * POST /api/users/:id/password
+ * Change own password (requires the current password); other sessions are revoked
+ * Body: { current_password, new_password }
+ */
+router.post(
+  '/:id/password',
+  authenticate,
+  authorize(policies.users.changePassword),
+  changePasswordLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const id = parseInt(req.params.id as string);
+    const { current_password, new_password } = req.body as ChangePasswordRequest;
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user ID',
+      });
+      return;
+    }
+
+    if (!current_password || !new_password) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required fields: current_password, new_password',
+      });
+      return;
+    }
+
+    const user = await UserRepository.getUserById(id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+
+    if (!(await UserRepository.verifyPassword(user, current_password))) {
+      res.status(400).json({
+        success: false,
+        error: 'Current password is incorrect',
+      });
+      return;
+    }
+
+    const passwordErrors = validatePassword(new_password, [user.email, user.first_name, user.last_name]);
+    if (passwordErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Password does not meet requirements: ${passwordErrors.join('; ')}`,
+      });
+      return;
+    }
+
+    await UserRepository.updatePasswordHash(id, await hashPassword(new_password));
+    await AuthSessionRepository.revokeAllForUser(id, req.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  })
+);
+
 /**
  * DELETE /api/users/:id
  * Delete user and all associated skills
  */
 router.delete(
   '/:id',
+  authenticate,
+  authorize(policies.users.delete),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const id = parseInt(req.params.id);
 
@@ -0,0 +1,86 @@
+export type SubmissionStatus = 'SUBMITTED' | 'GRADED';
+
+export interface Assignment {
+  id: number;
+  batch_id: number;
+  title: string;
+  description: string | null;
+  due_at: Date | null;
+  max_points: number;
+  allow_late_submissions: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AssignmentSubmission {
+  id: number;
+  assignment_id: number;
+  user_id: number;
+  text_response: string | null;
+  file_url: string | null;
+  file_public_id: string | null;
+  file_name: string | null;
+  status: SubmissionStatus;
+  is_late: boolean;
+  submitted_at: Date;
+  points: number | null;
+  feedback: string | null;
+  graded_by: number | null;
+  graded_at: Date | null;
+  updated_at: Date;
+}
+
+export interface SubmissionWithStudent extends AssignmentSubmission {
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface CreateAssignmentRequest {
+  title: string;
+  description?: string;
+  due_at?: string | null;
+  max_points?: number;
+  allow_late_submissions?: boolean;
+}
+
+export type UpdateAssignmentRequest = Partial<CreateAssignmentRequest>;
+
+export interface SubmitAssignmentData {
+  text_response: string | null;
+  file_url: string | null;
+  file_public_id: string | null;
+  file_name: string | null;
+  is_late: boolean;
+}
+
+export interface GradeSubmissionRequest {
+  points: number;
+  feedback?: string;
+}
+
+export interface GradebookEntry {
+  assignment_id: number;
+  status: SubmissionStatus | 'MISSING';
+  points: number | null;
+  is_late: boolean;
+  submitted_at: Date | null;
+}
+
+export interface GradebookRow {
+  user_id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  grades: GradebookEntry[];
+  // Sum over graded submissions only
+  total_points: number;
+}
+
+export interface Gradebook {
+  batch_id: number;
+  assignments: Pick<Assignment, 'id' | 'title' | 'due_at' | 'max_points'>[];
+  max_total_points: number;
+  students: GradebookRow[];
+}
@@ -0,0 +1,88 @@
+import { Request } from 'express';
+import { User } from './user';
+
+export type PublicUser = Omit<User, 'password_hash'>;
+
+export interface AuthSession {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+  revoked_at: Date | null;
+  last_used_at: Date;
+  created_at: Date;
+}
+
+export interface AccessTokenPayload {
+  sub: number;
+  sid: number;
+  role: User['role'];
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RefreshRequest {
+  refresh_token: string;
+}
+
+export interface PasswordResetToken {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  requested_ip: string | null;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface EmailVerificationToken {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  email: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  current_password: string;
+  new_password: string;
+}
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+}
+
+export interface AuthResponse {
+  success: boolean;
+  data?: AuthTokens & { user: PublicUser };
+  error?: string;
+}
+
+// Populated by the authenticate middleware
+export interface AuthenticatedRequest extends Request {
+  user?: PublicUser;
+  sessionId?: number;
+}
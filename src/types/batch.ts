@@ -9,6 +9,7 @@ export interface Batch {
   end_time: string; // HH:mm:ss format
   schedule_type: string;
   max_students: number;
+  enrolled_students: number;
   duration_weeks: number;
   instructor_id: number;
   price: number;
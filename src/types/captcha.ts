@@ -0,0 +1,13 @@
+export interface CaptchaVerificationResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * A captcha provider. Implementations check the token a client obtained from the
+ * provider's widget, usually by calling the provider's verification API.
+ */
+export interface CaptchaVerifier {
+  name: string;
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerificationResult>;
+}
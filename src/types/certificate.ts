@@ -0,0 +1,46 @@
+export interface Certificate {
+  id: number;
+  user_id: number;
+  course_id: number;
+  batch_id: number | null;
+  verification_code: string;
+  student_name: string;
+  course_title: string;
+  program_name: string | null;
+  instructor_name: string | null;
+  completed_at: Date;
+  issued_at: Date;
+  pdf_url: string | null;
+  pdf_public_id: string | null;
+}
+
+export interface CreateCertificateRequest {
+  user_id: number;
+  course_id: number;
+  batch_id?: number;
+  verification_code: string;
+  student_name: string;
+  course_title: string;
+  program_name?: string;
+  instructor_name?: string;
+  completed_at: Date;
+}
+
+export interface IssueCertificateOptions {
+  userId: number;
+  courseId: number;
+  // Set when the certificate is issued because a batch was completed
+  batchId?: number;
+  completedAt?: Date;
+}
+
+// Public view returned by the verification endpoint
+export interface CertificateVerification {
+  valid: true;
+  verification_code: string;
+  student_name: string;
+  course_title: string;
+  program_name: string | null;
+  completed_at: Date;
+  issued_at: Date;
+}
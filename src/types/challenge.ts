@@ -0,0 +1,104 @@
+export type ChallengeDifficulty = 'EASY' | 'MEDIUM' | 'HARD' | 'INSANE';
+
+export const CHALLENGE_DIFFICULTIES: ChallengeDifficulty[] = ['EASY', 'MEDIUM', 'HARD', 'INSANE'];
+
+export interface Challenge {
+  id: number;
+  batch_id: number | null;
+  title: string;
+  description: string | null;
+  category: string;
+  difficulty: ChallengeDifficulty;
+  points: number;
+  flag_hash: string;
+  is_published: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Challenge as returned by the API, without the flag hash
+export type PublicChallenge = Omit<Challenge, 'flag_hash'>;
+
+export interface ChallengeHint {
+  id: number;
+  challenge_id: number;
+  content: string;
+  cost: number;
+  sort_order: number;
+  created_at: Date;
+}
+
+// Hint as shown to a player: content only once unlocked
+export interface PlayerHint {
+  id: number;
+  cost: number;
+  sort_order: number;
+  unlocked: boolean;
+  content: string | null;
+}
+
+export interface ChallengeSolve {
+  id: number;
+  challenge_id: number;
+  user_id: number;
+  points_awarded: number;
+  solved_at: Date;
+}
+
+export interface ChallengeSummary extends PublicChallenge {
+  solve_count: number;
+  solved: boolean;
+}
+
+export interface ChallengeDetail extends ChallengeSummary {
+  hints: PlayerHint[];
+}
+
+export interface HintInput {
+  content: string;
+  cost?: number;
+}
+
+export interface CreateChallengeRequest {
+  batch_id?: number | null;
+  title: string;
+  description?: string;
+  category: string;
+  difficulty: ChallengeDifficulty;
+  points: number;
+  flag: string;
+  is_published?: boolean;
+  hints?: HintInput[];
+}
+
+export type UpdateChallengeRequest = Partial<CreateChallengeRequest>;
+
+// Column values written by create/update once the flag has been hashed
+export type ChallengeFields = Partial<
+  Omit<Challenge, 'id' | 'created_by' | 'created_at' | 'updated_at'>
+>;
+
+export interface ChallengeFilters {
+  batch_id?: number | null;
+  category?: string;
+  difficulty?: ChallengeDifficulty;
+  include_unpublished?: boolean;
+}
+
+export type SubmitFlagOutcome = 'SOLVED' | 'INCORRECT' | 'ALREADY_SOLVED';
+
+export interface SubmitFlagResult {
+  outcome: SubmitFlagOutcome;
+  solve?: ChallengeSolve;
+}
+
+export interface ScoreboardEntry {
+  rank: number;
+  user_id: number;
+  first_name: string;
+  last_name: string;
+  score: number;
+  solves: number;
+  last_solved_at: Date;
+}
@@ -0,0 +1,98 @@
+import { OrderItemType } from './order';
+
+export type DiscountType = 'PERCENT' | 'FIXED';
+
+export const DISCOUNT_TYPES: DiscountType[] = ['PERCENT', 'FIXED'];
+
+export interface Coupon {
+  id: number;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: string; // DECIMAL(10, 2), returned by pg as a string
+  starts_at: Date | null;
+  expires_at: Date | null;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number | null;
+  times_redeemed: number;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CouponScope {
+  item_type: OrderItemType;
+  item_id: number;
+}
+
+export interface CouponWithScopes extends Coupon {
+  scopes: CouponScope[];
+}
+
+export interface CouponRedemption {
+  id: number;
+  coupon_id: number;
+  user_id: number;
+  order_id: number;
+  discount_amount: string;
+  redeemed_at: Date;
+}
+
+export interface CouponRedemptionWithUser extends CouponRedemption {
+  first_name: string;
+  last_name: string;
+  email: string;
+  order_status: string;
+}
+
+export interface CreateCouponRequest {
+  code: string;
+  description?: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  max_redemptions?: number | null;
+  max_redemptions_per_user?: number | null;
+  is_active?: boolean;
+  // Empty or omitted: the coupon applies to every course and batch
+  scopes?: CouponScope[];
+}
+
+export type UpdateCouponRequest = Partial<CreateCouponRequest>;
+
+export interface ValidateCouponRequest {
+  code: string;
+  item_type: OrderItemType;
+  item_id: number;
+  batch_id?: number;
+}
+
+// What a coupon is being applied to
+export interface CouponTarget {
+  course_id: number;
+  batch_id: number;
+  amount: number;
+}
+
+export interface CouponUsage {
+  total: number;
+  by_user: number;
+}
+
+export interface CouponQuote {
+  code: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+export interface CouponCheck {
+  valid: boolean;
+  quote?: CouponQuote;
+  // Why the coupon cannot be used, when not valid
+  error?: string;
+}
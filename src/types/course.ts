@@ -1,3 +1,5 @@
+export type DripAnchor = 'ENROLLMENT' | 'BATCH_START';
+
 export interface Course {
   id: number;
   title: string | null;
@@ -29,12 +31,30 @@ export interface Course {
   is_free_course: number | null;
   multi_instructor: number;
   enable_drip_content: number;
+  // Date drip offsets count from when enable_drip_content is set
+  drip_anchor: DripAnchor;
   creator: number | null;
   expiry_period: number | null;
   upcoming_image_thumbnail: string | null;
   publish_date: string | null;
 }
 
+export const COURSE_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export const COURSE_STATUSES = ['draft', 'pending', 'published', 'private', 'upcoming'] as const;
+export const DRIP_ANCHORS: DripAnchor[] = ['ENROLLMENT', 'BATCH_START'];
+
+export interface CourseFaq {
+  title: string;
+  description: string;
+}
+
+// Server-managed columns (id and epoch timestamps) are never accepted from clients
+export type CreateCourseRequest = Partial<Omit<Course, 'id' | 'date_added' | 'last_modified'>> & {
+  title: string;
+};
+
+export type UpdateCourseRequest = Partial<Omit<Course, 'id' | 'date_added' | 'last_modified'>>;
+
 export interface CourseResponse {
   success: boolean;
   data?: Course | Course[];
@@ -0,0 +1,94 @@
+export type LessonType = 'VIDEO' | 'ARTICLE' | 'QUIZ' | 'ATTACHMENT';
+
+export const LESSON_TYPES: LessonType[] = ['VIDEO', 'ARTICLE', 'QUIZ', 'ATTACHMENT'];
+
+export interface CourseSection {
+  id: number;
+  course_id: number;
+  title: string;
+  description: string | null;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CourseLesson {
+  id: number;
+  course_id: number;
+  section_id: number;
+  title: string;
+  lesson_type: LessonType;
+  summary: string | null;
+  content: string | null;
+  video_url: string | null;
+  duration_seconds: number | null;
+  attachment_url: string | null;
+  is_preview: boolean;
+  is_published: boolean;
+  // Days after the drip anchor date before the lesson unlocks
+  drip_offset_days: number;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LessonAvailability {
+  is_locked: boolean;
+  // null when the lesson is not drip-scheduled for the caller
+  unlock_at: Date | null;
+}
+
+export type CurriculumLesson = CourseLesson & LessonAvailability;
+
+export interface CurriculumSection extends CourseSection {
+  lessons: CourseLesson[];
+}
+
+export interface Curriculum {
+  course_id: number;
+  sections: CurriculumSection[];
+  total_lessons: number;
+  total_duration_seconds: number;
+}
+
+export interface CreateSectionRequest {
+  title: string;
+  description?: string;
+  sort_order?: number;
+}
+
+export interface UpdateSectionRequest {
+  title?: string;
+  description?: string;
+  sort_order?: number;
+}
+
+export interface CreateLessonRequest {
+  title: string;
+  lesson_type: LessonType;
+  summary?: string | null;
+  content?: string | null;
+  video_url?: string | null;
+  duration_seconds?: number | null;
+  attachment_url?: string | null;
+  is_preview?: boolean;
+  is_published?: boolean;
+  drip_offset_days?: number;
+  sort_order?: number;
+}
+
+export interface UpdateLessonRequest extends Partial<CreateLessonRequest> {
+  // Moves the lesson to another section of the same course
+  section_id?: number;
+}
+
+export interface SectionOrder {
+  id: number;
+  sort_order: number;
+}
+
+export interface LessonOrder {
+  id: number;
+  sort_order: number;
+  section_id?: number;
+}
@@ -0,0 +1,75 @@
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface EmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface OutgoingMessage extends EmailOptions {
+  from: string;
+}
+
+/**
+ * A delivery driver. `send` resolves with the message ID assigned by the server (or the
+ * driver) and throws when the message was not accepted.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: OutgoingMessage): Promise<string | null>;
+  // Optional connectivity check, run once at startup
+  verify?(): Promise<void>;
+}
+
+// PENDING: waiting for (another) attempt, SENDING: claimed by a worker,
+// SENT: accepted by the mail server, DEAD: gave up after the last retry
+export type EmailStatus = 'PENDING' | 'SENDING' | 'SENT' | 'DEAD';
+
+export const EMAIL_STATUSES: EmailStatus[] = ['PENDING', 'SENDING', 'SENT', 'DEAD'];
+
+// Attachments are stored base64-encoded in the outbox
+export interface StoredEmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+export interface OutboundEmail {
+  id: number;
+  to_address: string;
+  subject: string;
+  html: string;
+  text: string | null;
+  attachments: StoredEmailAttachment[];
+  status: EmailStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  locked_at: Date | null;
+  last_error: string | null;
+  message_id: string | null;
+  sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Listing shape without bodies and attachment contents
+export type OutboundEmailSummary = Omit<OutboundEmail, 'html' | 'text' | 'attachments'> & {
+  attachment_count: number;
+};
+
+export interface EmailLogEntry {
+  id: number;
+  email_id: number;
+  attempt: number;
+  status: 'SENT' | 'FAILED';
+  message_id: string | null;
+  error: string | null;
+  created_at: Date;
+}
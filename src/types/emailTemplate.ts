@@ -0,0 +1,51 @@
+export type EmailTemplateKind = 'TEMPLATE' | 'LAYOUT' | 'PARTIAL';
+
+export const EMAIL_TEMPLATE_KINDS: EmailTemplateKind[] = ['TEMPLATE', 'LAYOUT', 'PARTIAL'];
+
+export interface EmailTemplate {
+  id: number;
+  // Stable key code refers to, e.g. "quote_confirmation"
+  name: string;
+  kind: EmailTemplateKind;
+  description: string | null;
+  // Only used by TEMPLATE kind
+  subject: string | null;
+  html_body: string;
+  // Plain-text alternative; derived from the HTML when empty
+  text_body: string | null;
+  // LAYOUT wrapping a TEMPLATE
+  layout_name: string | null;
+  // Example variables used for previews
+  sample_data: Record<string, unknown>;
+  is_active: boolean;
+  created_by: number | null;
+  updated_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateEmailTemplateRequest {
+  name: string;
+  kind?: EmailTemplateKind;
+  description?: string | null;
+  subject?: string | null;
+  html_body: string;
+  text_body?: string | null;
+  layout_name?: string | null;
+  sample_data?: Record<string, unknown>;
+  is_active?: boolean;
+}
+
+export type UpdateEmailTemplateRequest = Partial<Omit<CreateEmailTemplateRequest, 'name' | 'kind'>>;
+
+// The parts of a template the renderer needs; campaigns render ad-hoc content through the same path
+export type RenderableTemplate = Pick<
+  EmailTemplate,
+  'kind' | 'subject' | 'html_body' | 'text_body' | 'layout_name'
+>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
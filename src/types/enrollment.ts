@@ -0,0 +1,77 @@
+export type EnrollmentStatus = 'ENROLLED' | 'WAITLISTED' | 'WITHDRAWN';
+
+export interface Enrollment {
+  id: number;
+  batch_id: number;
+  user_id: number;
+  status: EnrollmentStatus;
+  enrolled_at: Date;
+  waitlisted_at: Date | null;
+  withdrawn_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EnrolledStudent extends Enrollment {
+  first_name: string;
+  last_name: string;
+  email: string;
+  profile_image_url: string | null;
+}
+
+// Waitlisted student moved into a freed seat
+export interface PromotedEnrollment extends Enrollment {
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface WaitlistPosition {
+  status: EnrollmentStatus;
+  // 1-based place in line, null when not waitlisted
+  position: number | null;
+  waitlist_size: number;
+}
+
+export interface UserEnrollment extends Enrollment {
+  course_id: number;
+  program_name: string;
+  program_type: string;
+  start_date: string;
+  end_date: string;
+  batch_status: 'ACTIVE' | 'INACTIVE' | 'COMPLETED' | 'UPCOMING';
+}
+
+// Student's active enrollment in any batch of a course
+export interface CourseEnrollment extends Enrollment {
+  start_date: string;
+}
+
+export interface EnrollRequest {
+  // Admins may enroll another user; defaults to the caller
+  user_id?: number;
+}
+
+export type EnrollOutcome =
+  | 'ENROLLED'
+  | 'WAITLISTED'
+  | 'ALREADY_ENROLLED'
+  | 'ALREADY_WAITLISTED'
+  | 'BATCH_NOT_FOUND'
+  | 'BATCH_CLOSED';
+
+export type WithdrawOutcome = 'WITHDRAWN' | 'NOT_ENROLLED' | 'BATCH_NOT_FOUND' | 'BATCH_CLOSED';
+
+export interface EnrollResult {
+  outcome: EnrollOutcome;
+  enrollment?: Enrollment;
+  // Set for WAITLISTED / ALREADY_WAITLISTED
+  position?: number;
+}
+
+export interface WithdrawResult {
+  outcome: WithdrawOutcome;
+  enrollment?: Enrollment;
+  // Waitlisted students who took the freed seat
+  promoted?: PromotedEnrollment[];
+}
@@ -0,0 +1,98 @@
+export type InvoiceStatus = 'ISSUED' | 'PAID' | 'VOID';
+
+export const INVOICE_STATUSES: InvoiceStatus[] = ['ISSUED', 'PAID', 'VOID'];
+
+// DECIMAL columns are returned by pg as strings
+export interface InvoiceItem {
+  id: number;
+  invoice_id: number;
+  description: string;
+  quantity: string;
+  unit_price: string;
+  tax_rate: string;
+  line_subtotal: string;
+  tax_amount: string;
+  sort_order: number;
+}
+
+export interface Invoice {
+  id: number;
+  invoice_number: string;
+  user_id: number | null;
+  order_id: number | null;
+  quote_id: number | null;
+  bill_to_name: string;
+  bill_to_email: string;
+  bill_to_company: string | null;
+  bill_to_address: string | null;
+  currency: string;
+  subtotal: string;
+  tax_total: string;
+  total: string;
+  status: InvoiceStatus;
+  notes: string | null;
+  issued_at: Date;
+  due_at: Date | null;
+  paid_at: Date | null;
+  voided_at: Date | null;
+  emailed_at: Date | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InvoiceWithItems extends Invoice {
+  items: InvoiceItem[];
+}
+
+export interface InvoiceItemInput {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  // Percent; defaults to the configured invoice tax rate
+  tax_rate?: number;
+}
+
+export interface CreateInvoiceRequest {
+  user_id?: number | null;
+  quote_id?: number | null;
+  bill_to_name?: string;
+  bill_to_email?: string;
+  bill_to_company?: string;
+  bill_to_address?: string;
+  currency?: string;
+  due_at?: string | null;
+  notes?: string;
+  items: InvoiceItemInput[];
+  // Email the PDF to bill_to_email right away
+  send_email?: boolean;
+}
+
+// Everything needed to write an invoice, once bill-to details are resolved and totals computed
+export interface InvoiceDraft {
+  user_id: number | null;
+  order_id: number | null;
+  quote_id: number | null;
+  bill_to_name: string;
+  bill_to_email: string;
+  bill_to_company: string | null;
+  bill_to_address: string | null;
+  currency: string;
+  status: InvoiceStatus;
+  notes: string | null;
+  due_at: string | null;
+  created_by: number | null;
+  items: InvoiceItemInput[];
+}
+
+export interface InvoiceTotals {
+  items: (InvoiceItemInput & { tax_rate: number; line_subtotal: number; tax_amount: number })[];
+  subtotal: number;
+  tax_total: number;
+  total: number;
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus;
+  user_id?: number;
+}
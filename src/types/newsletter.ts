@@ -1,9 +1,24 @@
+import { EmailStatus } from './email';
+
+// PENDING until the emailed confirmation link is used; only CONFIRMED subscribers receive campaigns
+export type SubscriberStatus = 'PENDING' | 'CONFIRMED';
+
+export const SUBSCRIBER_STATUSES: SubscriberStatus[] = ['PENDING', 'CONFIRMED'];
+
 export interface NewsletterSubscriber {
   id: number;
   email: string;
+  status: SubscriberStatus;
+  confirmed_at: Date | null;
+  confirmation_sent_at: Date | null;
   created_at: Date;
 }
 
+export interface NewsletterConfirmTokenPayload {
+  sub: number;
+  email: string;
+}
+
 export interface SubscribeRequest {
   email: string;
 }
@@ -22,3 +37,65 @@ export interface ListSubscribersResponse {
   limit: number;
   offset: number;
 }
+
+export type CampaignStatus = 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT';
+
+export const CAMPAIGN_STATUSES: CampaignStatus[] = ['DRAFT', 'SCHEDULED', 'SENDING', 'SENT'];
+
+export interface NewsletterCampaign {
+  id: number;
+  subject: string;
+  html_body: string;
+  text_body: string | null;
+  layout_name: string | null;
+  status: CampaignStatus;
+  scheduled_at: Date | null;
+  started_at: Date | null;
+  sent_at: Date | null;
+  recipient_count: number;
+  created_by: number | null;
+  updated_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateCampaignRequest {
+  subject: string;
+  html_body: string;
+  text_body?: string | null;
+  layout_name?: string | null;
+}
+
+export type UpdateCampaignRequest = Partial<CreateCampaignRequest>;
+
+// PENDING: not yet handed to the email queue, QUEUED: in the outbox, FAILED: could not be queued
+export type CampaignRecipientStatus = 'PENDING' | 'QUEUED' | 'FAILED';
+
+export const CAMPAIGN_RECIPIENT_STATUSES: CampaignRecipientStatus[] = ['PENDING', 'QUEUED', 'FAILED'];
+
+export interface CampaignRecipient {
+  id: number;
+  campaign_id: number;
+  subscriber_id: number | null;
+  email: string;
+  status: CampaignRecipientStatus;
+  email_id: number | null;
+  error: string | null;
+  queued_at: Date | null;
+  created_at: Date;
+}
+
+export interface CampaignRecipientWithDelivery extends CampaignRecipient {
+  // Status of the outbox email once queued
+  delivery_status: EmailStatus | null;
+  delivered_at: Date | null;
+  delivery_error: string | null;
+}
+
+export interface CampaignStats {
+  total: number;
+  pending: number;
+  queued: number;
+  sent: number;
+  failed: number;
+}
@@ -0,0 +1,142 @@
+export type OrderItemType = 'COURSE' | 'BATCH';
+
+export const ORDER_ITEM_TYPES: OrderItemType[] = ['COURSE', 'BATCH'];
+
+export type OrderStatus = 'PENDING' | 'PAID' | 'FAILED' | 'CANCELLED' | 'REFUNDED';
+
+export const ORDER_STATUSES: OrderStatus[] = ['PENDING', 'PAID', 'FAILED', 'CANCELLED', 'REFUNDED'];
+
+// Allowed status changes; anything else (e.g. a late "failed" event for a paid order) is ignored
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PAID', 'FAILED', 'CANCELLED'],
+  // A declined payment ends the checkout; the student retries with a new one
+  FAILED: [],
+  PAID: ['REFUNDED'],
+  CANCELLED: [],
+  REFUNDED: [],
+};
+
+// Further changes only a verified provider event may make. A payment completed on the provider's
+// page while the checkout was being cancelled (coupon change, /cancel) still stands: the customer
+// was charged, so the order is paid rather than the event ignored.
+export const PROVIDER_EVENT_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  CANCELLED: ['PAID'],
+};
+
+export interface Order {
+  id: number;
+  user_id: number;
+  item_type: OrderItemType;
+  item_id: number;
+  batch_id: number;
+  description: string;
+  // DECIMAL(10, 2) columns are returned by pg as strings
+  subtotal: string;
+  discount_amount: string;
+  // Charged amount: subtotal minus discount
+  amount: string;
+  currency: string;
+  coupon_id: number | null;
+  coupon_code: string | null;
+  status: OrderStatus;
+  provider: string;
+  provider_reference: string | null;
+  checkout_url: string | null;
+  failure_reason: string | null;
+  paid_at: Date | null;
+  cancelled_at: Date | null;
+  refunded_at: Date | null;
+  fulfilled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CheckoutRequest {
+  item_type: OrderItemType;
+  item_id: number;
+  // Course purchases only: the batch to join (defaults to the course's next open batch)
+  batch_id?: number;
+  coupon_code?: string;
+  // Acknowledges that paying for a full batch only secures a waitlist position
+  join_waitlist?: boolean;
+}
+
+export interface CreateOrderData {
+  user_id: number;
+  item_type: OrderItemType;
+  item_id: number;
+  batch_id: number;
+  description: string;
+  // Price before any coupon
+  amount: number;
+  currency: string;
+  provider: string;
+}
+
+// Coupon to redeem with a new order, and the course it is bought under (for scope checks)
+export interface OrderCoupon {
+  coupon_id: number;
+  course_id: number;
+}
+
+export type CreateOrderOutcome = 'CREATED' | 'EXISTING' | 'COUPON_REJECTED';
+
+export interface CreateOrderResult {
+  outcome: CreateOrderOutcome;
+  order?: Order;
+  // Set for COUPON_REJECTED
+  error?: string;
+}
+
+export interface OrderFilters {
+  status?: OrderStatus;
+  user_id?: number;
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'payment.refunded';
+
+// Provider webhook normalized by its gateway
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  provider_reference: string;
+  // Minor units (cents), as reported by the provider
+  amount: number;
+  currency: string;
+  failure_reason?: string;
+  payload: Record<string, any>;
+}
+
+export interface CheckoutSession {
+  provider_reference: string;
+  checkout_url: string;
+}
+
+/**
+ * A payment provider. Implementations only talk to the provider; order state lives in the database.
+ */
+export interface PaymentGateway {
+  name: string;
+  createCheckout(order: Order): Promise<CheckoutSession>;
+  // Returns null when the signature (or timestamp) does not check out
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentEvent | null;
+}
+
+export type PaymentEventOutcome = 'TRANSITIONED' | 'DUPLICATE' | 'IGNORED' | 'ORDER_NOT_FOUND';
+
+export interface PaymentEventResult {
+  outcome: PaymentEventOutcome;
+  order?: Order;
+  previous_status?: OrderStatus;
+}
+
+export type TransitionOutcome = 'TRANSITIONED' | 'INVALID_TRANSITION' | 'ORDER_NOT_FOUND';
+
+export interface TransitionResult {
+  outcome: TransitionOutcome;
+  order?: Order;
+  previous_status?: OrderStatus;
+}
@@ -0,0 +1,38 @@
+export type LessonProgressStatus = 'STARTED' | 'COMPLETED';
+
+export interface LessonProgress {
+  id: number;
+  user_id: number;
+  course_id: number;
+  lesson_id: number;
+  status: LessonProgressStatus;
+  last_position_seconds: number;
+  started_at: Date;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+export interface CourseCompletion {
+  id: number;
+  user_id: number;
+  course_id: number;
+  completed_at: Date;
+}
+
+export interface RecordProgressRequest {
+  position_seconds?: number;
+  completed?: boolean;
+}
+
+export interface CourseProgressSummary {
+  user_id: number;
+  course_id: number;
+  total_lessons: number;
+  started_lessons: number;
+  completed_lessons: number;
+  // 0-100, based on published lessons only
+  percentage: number;
+  completed_at: Date | null;
+  last_lesson_id: number | null;
+  lessons: LessonProgress[];
+}
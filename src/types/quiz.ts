@@ -0,0 +1,110 @@
+export type QuestionType = 'MULTIPLE_CHOICE' | 'MULTI_SELECT' | 'TRUE_FALSE' | 'SHORT_ANSWER';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'MULTIPLE_CHOICE',
+  'MULTI_SELECT',
+  'TRUE_FALSE',
+  'SHORT_ANSWER',
+];
+
+// Option indexes (choice questions), a boolean (true/false) or accepted texts (short answer)
+export type CorrectAnswers = number[] | [boolean] | string[];
+
+// What a student submits for one question
+export type QuestionAnswer = number | number[] | boolean | string;
+
+export interface Quiz {
+  id: number;
+  course_id: number;
+  lesson_id: number;
+  title: string;
+  description: string | null;
+  pass_percentage: number;
+  max_attempts: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface QuizQuestion {
+  id: number;
+  quiz_id: number;
+  question_type: QuestionType;
+  prompt: string;
+  options: string[] | null;
+  correct_answers: CorrectAnswers;
+  explanation: string | null;
+  points: number;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Question as shown to students, without the answer key
+export type PublicQuizQuestion = Omit<QuizQuestion, 'correct_answers' | 'explanation'>;
+
+export interface QuizWithQuestions<Q = QuizQuestion> extends Quiz {
+  questions: Q[];
+}
+
+export interface QuestionResult {
+  question_id: number;
+  correct: boolean;
+  points_awarded: number;
+  points: number;
+}
+
+export interface QuizAttempt {
+  id: number;
+  quiz_id: number;
+  user_id: number;
+  attempt_number: number;
+  answers: Record<string, QuestionAnswer>;
+  results: QuestionResult[];
+  score: number;
+  max_score: number;
+  percentage: string;
+  passed: boolean;
+  submitted_at: Date;
+}
+
+export interface CreateQuizRequest {
+  title: string;
+  description?: string;
+  pass_percentage?: number;
+  max_attempts?: number | null;
+}
+
+export type UpdateQuizRequest = Partial<CreateQuizRequest>;
+
+export interface CreateQuestionRequest {
+  question_type: QuestionType;
+  prompt: string;
+  options?: string[] | null;
+  correct_answers: CorrectAnswers;
+  explanation?: string;
+  points?: number;
+  sort_order?: number;
+}
+
+export type UpdateQuestionRequest = Partial<CreateQuestionRequest>;
+
+export interface SubmitAttemptRequest {
+  // Keyed by question ID
+  answers: Record<string, QuestionAnswer>;
+}
+
+export interface GradedAttempt {
+  answers: Record<string, QuestionAnswer>;
+  results: QuestionResult[];
+  score: number;
+  max_score: number;
+  percentage: number;
+  passed: boolean;
+}
+
+export type SubmitAttemptOutcome = 'SUBMITTED' | 'ATTEMPT_LIMIT_REACHED';
+
+export interface SubmitAttemptResult {
+  outcome: SubmitAttemptOutcome;
+  attempt?: QuizAttempt;
+}
@@ -1,16 +1,55 @@
+export type QuoteStatus = 'PENDING' | 'CONTACTED' | 'CONVERTED' | 'REJECTED';
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['PENDING', 'CONTACTED', 'CONVERTED', 'REJECTED'];
+
+// Allowed status changes; a converted lead is final, a rejected one may be reopened
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  PENDING: ['CONTACTED', 'CONVERTED', 'REJECTED'],
+  CONTACTED: ['CONVERTED', 'REJECTED'],
+  CONVERTED: [],
+  REJECTED: ['PENDING'],
+};
+
+export type QuoteActivityType = 'NOTE' | 'STATUS_CHANGE' | 'ASSIGNMENT' | 'CONVERSION';
+
 export interface Quote {
   id: number;
   name: string;
   email: string;
   phone: string;
+  subject?: string;
   message?: string;
+  status: QuoteStatus;
+  assigned_to: number | null;
+  converted_user_id: number | null;
+  converted_enrollment_id: number | null;
+  converted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface QuoteActivity {
+  id: number;
+  quote_id: number;
+  actor_id: number | null;
+  type: QuoteActivityType;
+  note: string | null;
+  // Previous / new status or assignee id, depending on type
+  from_value: string | null;
+  to_value: string | null;
   created_at: Date;
 }
 
+export interface QuoteActivityWithActor extends QuoteActivity {
+  actor_first_name: string | null;
+  actor_last_name: string | null;
+}
+
 export interface CreateQuoteRequest {
   name: string;
   email: string;
   phone: string;
+  subject?: string;
   message?: string;
 }
 
@@ -19,6 +58,36 @@ export interface QuoteResponse {
   name: string;
   email: string;
   phone: string;
+  subject?: string;
   message?: string;
+  status: QuoteStatus;
   created_at: Date;
 }
+
+export interface UpdateQuoteStatusRequest {
+  status: QuoteStatus;
+  note?: string;
+  // Conversion links, only accepted with status CONVERTED
+  converted_user_id?: number;
+  converted_enrollment_id?: number;
+}
+
+export interface QuoteConversion {
+  user_id: number | null;
+  enrollment_id: number | null;
+}
+
+export interface QuoteFilters {
+  status?: QuoteStatus;
+  // A user id, or null for unassigned quotes
+  assigned_to?: number | null;
+  created_from?: Date;
+  created_to?: Date;
+}
+
+export type QuoteStatusOutcome = 'UPDATED' | 'NOT_FOUND' | 'INVALID_TRANSITION';
+
+export interface QuoteStatusResult {
+  outcome: QuoteStatusOutcome;
+  quote?: Quote;
+}
@@ -1,3 +1,5 @@
+export type UserRole = 'STUDENT' | 'INSTRUCTOR' | 'ADMIN';
+
 export interface User {
   id: number;
   first_name: string;
@@ -11,9 +13,10 @@ export interface User {
   biography: string | null;
   linkedin_url: string | null;
   github_url: string | null;
-  role: 'STUDENT' | 'INSTRUCTOR' | 'ADMIN';
+  role: UserRole;
   is_instructor: boolean;
   status: 'ACTIVE' | 'INACTIVE';
+  email_verified_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -36,7 +39,7 @@ export interface CreateUserRequest {
   biography?: string;
   linkedin_url?: string;
   github_url?: string;
-  role?: 'STUDENT' | 'INSTRUCTOR' | 'ADMIN';
+  role?: UserRole;
   is_instructor?: boolean;
   skills?: string[];
 }
@@ -52,9 +55,10 @@ export interface UpdateUserRequest {
   biography?: string;
   linkedin_url?: string;
   github_url?: string;
-  role?: 'STUDENT' | 'INSTRUCTOR' | 'ADMIN';
+  role?: UserRole;
   is_instructor?: boolean;
   status?: 'ACTIVE' | 'INACTIVE';
+  email_verified_at?: Date | null;
 }
 
 export interface CreateSkillRequest {
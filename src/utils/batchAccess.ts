@@ -0,0 +1,24 @@
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { Batch } from '../types/batch';
+import { PublicUser } from '../types/auth';
+import { Enrollment } from '../types/enrollment';
+
+export interface BatchAccess {
+  // Admins and the batch's instructor see everything
+  isStaff: boolean;
+  enrollment: Enrollment | null;
+}
+
+/**
+ * Work out what a caller may see of a batch's course work
+ */
+export const resolveBatchAccess = async (user: PublicUser, batch: Batch): Promise<BatchAccess> => {
+  const isStaff =
+    user.role === 'ADMIN' ||
+    (user.role === 'INSTRUCTOR' && Number(batch.instructor_id) === user.id);
+  const enrollment = isStaff
+    ? null
+    : await EnrollmentRepository.getActiveEnrollment(batch.id, user.id);
+
+  return { isStaff, enrollment };
+};
@@ -0,0 +1,45 @@
+import { captchaConfig } from '../config/captcha';
+import { CaptchaVerifier, CaptchaVerificationResult } from '../types/captcha';
+import { stubCaptchaVerifier } from './stubCaptchaVerifier';
+
+/**
+ * Installed captcha verifiers by name. A real provider (reCAPTCHA, hCaptcha, Turnstile)
+ * implements CaptchaVerifier and is added here; CAPTCHA_PROVIDER picks the active one.
+ */
+const verifiers: Record<string, CaptchaVerifier> = {
+  [stubCaptchaVerifier.name]: stubCaptchaVerifier,
+};
+
+/**
+ * Active verifier, or null when captcha checks are disabled
+ */
+export const getCaptchaVerifier = (): CaptchaVerifier | null => {
+  if (captchaConfig.provider === 'none') {
+    return null;
+  }
+
+  const verifier = verifiers[captchaConfig.provider];
+  if (!verifier) {
+    throw new Error(`Unknown captcha provider: ${captchaConfig.provider}`);
+  }
+  return verifier;
+};
+
+/**
+ * Check a captcha token with the active verifier; always passes when captcha is disabled
+ */
+export const verifyCaptcha = async (
+  token: unknown,
+  remoteIp?: string
+): Promise<CaptchaVerificationResult> => {
+  const verifier = getCaptchaVerifier();
+  if (!verifier) {
+    return { success: true };
+  }
+
+  if (typeof token !== 'string' || !token) {
+    return { success: false, error: 'Captcha token is required' };
+  }
+
+  return verifier.verify(token, remoteIp);
+};
@@ -0,0 +1,126 @@
+import PDFDocument from 'pdfkit';
+import { Certificate } from '../types/certificate';
+
+// Layout and wording of the certificate; text placeholders are filled from the certificate record
+const CERTIFICATE_TEMPLATE = {
+  size: 'A4',
+  layout: 'landscape' as const,
+  accentColor: '#667eea',
+  textColor: '#333333',
+  mutedColor: '#666666',
+  heading: 'Certificate of Completion',
+  intro: 'This is to certify that',
+  body: 'has successfully completed',
+  issuer: 'CyberWhisper',
+};
+
+const formatDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Public URL that confirms a certificate's authenticity
+ */
+export const getCertificateVerifyUrl = (code: string): string => {
+  const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return `${apiUrl}/api/certificates/verify/${encodeURIComponent(code)}`;
+};
+
+/**
+ * Render a certificate to a PDF buffer
+ */
+export const renderCertificatePdf = (certificate: Certificate): Promise<Buffer> => {
+  const template = CERTIFICATE_TEMPLATE;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: template.size, layout: template.layout, margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { width, height } = doc.page;
+    const contentWidth = width - 100;
+
+    // Double border
+    doc
+      .lineWidth(4)
+      .strokeColor(template.accentColor)
+      .rect(20, 20, width - 40, height - 40)
+      .stroke();
+    doc
+      .lineWidth(1)
+      .rect(30, 30, width - 60, height - 60)
+      .stroke();
+
+    doc
+      .fillColor(template.accentColor)
+      .font('Helvetica-Bold')
+      .fontSize(36)
+      .text(template.heading, 50, 90, { width: contentWidth, align: 'center' });
+
+    doc
+      .moveDown(1.2)
+      .fillColor(template.mutedColor)
+      .font('Helvetica')
+      .fontSize(16)
+      .text(template.intro, { width: contentWidth, align: 'center' });
+
+    doc
+      .moveDown(0.6)
+      .fillColor(template.textColor)
+      .font('Helvetica-Bold')
+      .fontSize(30)
+      .text(certificate.student_name, { width: contentWidth, align: 'center' });
+
+    doc
+      .moveDown(0.6)
+      .fillColor(template.mutedColor)
+      .font('Helvetica')
+      .fontSize(16)
+      .text(template.body, { width: contentWidth, align: 'center' });
+
+    doc
+      .moveDown(0.6)
+      .fillColor(template.textColor)
+      .font('Helvetica-Bold')
+      .fontSize(22)
+      .text(certificate.course_title, { width: contentWidth, align: 'center' });
+
+    if (certificate.program_name) {
+      doc
+        .moveDown(0.3)
+        .font('Helvetica')
+        .fontSize(14)
+        .text(certificate.program_name, { width: contentWidth, align: 'center' });
+    }
+
+    // Footer: instructor on the left, dates on the right
+    const footerY = height - 150;
+    doc.fillColor(template.textColor).font('Helvetica').fontSize(12);
+    if (certificate.instructor_name) {
+      doc.text(`Instructor: ${certificate.instructor_name}`, 70, footerY, { width: 300 });
+    }
+    doc.text(`Completed on: ${formatDate(certificate.completed_at)}`, width - 370, footerY, {
+      width: 300,
+      align: 'right',
+    });
+    doc.text(`Issued on: ${formatDate(certificate.issued_at)}`, width - 370, footerY + 18, {
+      width: 300,
+      align: 'right',
+    });
+
+    doc
+      .fillColor(template.mutedColor)
+      .fontSize(10)
+      .text(
+        `Certificate ID: ${certificate.verification_code} · Verify at ${getCertificateVerifyUrl(certificate.verification_code)}`,
+        50,
+        height - 80,
+        { width: contentWidth, align: 'center' }
+      )
+      .text(`Issued by ${template.issuer}`, { width: contentWidth, align: 'center' });
+
+    doc.end();
+  });
+};
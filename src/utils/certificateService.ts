@@ -0,0 +1,141 @@
+import { randomInt } from 'crypto';
+import { CertificateRepository } from '../repositories/certificateRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { BatchRepository } from '../repositories/batchRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { Certificate, IssueCertificateOptions } from '../types/certificate';
+import { uploadImageToCloudinary } from './imageUpload';
+import { renderCertificatePdf } from './certificatePdf';
+import { onCourseCompleted } from './courseCompletion';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes can be typed from a printout
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a verification code like CW-7K3M-Q9TZ-X2PA
+ */
+const generateVerificationCode = (): string => {
+  const groups: string[] = [];
+  for (let group = 0; group < 3; group++) {
+    let chars = '';
+    for (let i = 0; i < 4; i++) {
+      chars += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    groups.push(chars);
+  }
+  return `CW-${groups.join('-')}`;
+};
+
+const getUserName = async (userId: number | null): Promise<string | undefined> => {
+  if (!userId) {
+    return undefined;
+  }
+  const user = await UserRepository.getUserById(userId);
+  return user ? `${user.first_name} ${user.last_name}` : undefined;
+};
+
+/**
+ * Render the certificate PDF and store it in Cloudinary.
+ * Failures are logged only: the PDF can always be re-rendered from the certificate record.
+ */
+const storeCertificatePdf = async (certificate: Certificate): Promise<Certificate> => {
+  try {
+    const pdf = await renderCertificatePdf(certificate);
+    const dataURI = `data:application/pdf;base64,${pdf.toString('base64')}`;
+    const upload = await uploadImageToCloudinary(dataURI, 'certificates');
+
+    if (!upload.success) {
+      return certificate;
+    }
+    return (
+      (await CertificateRepository.setPdf(certificate.id, upload.url!, upload.publicId!)) ||
+      certificate
+    );
+  } catch (error) {
+    console.error('Failed to store certificate PDF:', error);
+    return certificate;
+  }
+};
+
+/**
+ * Issue a course certificate to a student. Idempotent: returns the existing certificate
+ * when one was already issued for the course.
+ */
+export const issueCertificate = async (
+  options: IssueCertificateOptions
+): Promise<Certificate | null> => {
+  const { userId, courseId, batchId } = options;
+
+  const existing = await CertificateRepository.getCertificateForCourse(userId, courseId);
+  if (existing) {
+    return existing;
+  }
+
+  const user = await UserRepository.getUserById(userId);
+  const course = await CourseRepository.getCourseById(courseId);
+  if (!user || !course) {
+    return null;
+  }
+
+  const batch = batchId ? await BatchRepository.getBatchById(batchId) : null;
+  const instructorName = await getUserName(batch ? batch.instructor_id : course.creator);
+
+  const certificate = await CertificateRepository.createCertificate({
+    user_id: userId,
+    course_id: courseId,
+    batch_id: batch ? batch.id : undefined,
+    verification_code: generateVerificationCode(),
+    student_name: `${user.first_name} ${user.last_name}`,
+    course_title: course.title || `Course #${course.id}`,
+    program_name: batch ? batch.program_name : undefined,
+    instructor_name: instructorName,
+    completed_at: options.completedAt || new Date(),
+  });
+
+  // Lost a race with a concurrent issue for the same course
+  if (!certificate) {
+    return CertificateRepository.getCertificateForCourse(userId, courseId);
+  }
+
+  return storeCertificatePdf(certificate);
+};
+
+/**
+ * Issue certificates to every student enrolled in a completed batch
+ */
+export const issueBatchCertificates = async (batchId: number): Promise<Certificate[]> => {
+  const batch = await BatchRepository.getBatchById(batchId);
+  if (!batch) {
+    return [];
+  }
+
+  const userIds = await EnrollmentRepository.getEnrolledUserIds(batchId);
+  const certificates: Certificate[] = [];
+
+  for (const userId of userIds) {
+    try {
+      const certificate = await issueCertificate({ userId, courseId: batch.course_id, batchId });
+      if (certificate) {
+        certificates.push(certificate);
+      }
+    } catch (error) {
+      console.error(`Failed to issue certificate for user ${userId} in batch ${batchId}:`, error);
+    }
+  }
+
+  return certificates;
+};
+
+/**
+ * Issue a certificate whenever a student completes a course
+ */
+export const registerCertificateIssuing = (): void => {
+  onCourseCompleted(async (completion) => {
+    await issueCertificate({
+      userId: completion.user_id,
+      courseId: completion.course_id,
+      completedAt: completion.completed_at,
+    });
+  });
+};
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+/**
+ * CTF flag hashing.
+ * Flags are stored as `<salt>$<hmac>` (hex) with a per-challenge random salt, and
+ * submissions are compared in constant time so response timing leaks nothing about the flag.
+ */
+
+const SALT_LENGTH = 16;
+
+/**
+ * Surrounding whitespace is never part of a flag; everything else is case-sensitive
+ */
+const normalizeFlag = (flag: string): string => flag.trim();
+
+const digest = (flag: string, salt: string): Buffer => {
+  return crypto.createHmac('sha256', salt).update(normalizeFlag(flag)).digest();
+};
+
+/**
+ * Hash a flag for storage
+ */
+export const hashFlag = (flag: string): string => {
+  const salt = crypto.randomBytes(SALT_LENGTH).toString('hex');
+  return `${salt}$${digest(flag, salt).toString('hex')}`;
+};
+
+/**
+ * Check a submitted flag against a stored hash
+ */
+export const verifyFlag = (flag: string, stored: string): boolean => {
+  const [salt, hash] = stored.split('$');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const candidate = digest(flag, salt);
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+};
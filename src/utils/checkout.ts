@@ -0,0 +1,65 @@
+import { BatchRepository } from '../repositories/batchRepository';
+import { CourseRepository } from '../repositories/courseRepository';
+import { Batch } from '../types/batch';
+import { CheckoutRequest } from '../types/order';
+import { getSeatPrice } from './pricing';
+
+export interface CheckoutItem {
+  batch: Batch;
+  course_id: number;
+  amount: number;
+  description: string;
+}
+
+/**
+ * Resolve what is being bought, the batch it seats the buyer in, and its price.
+ * Both item types charge the seat price, so picking a batch through its course never changes it.
+ */
+export const resolveCheckoutItem = async (
+  body: Pick<CheckoutRequest, 'item_type' | 'item_id' | 'batch_id'>
+): Promise<{ item?: CheckoutItem; status?: number; error?: string }> => {
+  if (body.item_type === 'BATCH') {
+    const batch = await BatchRepository.getBatchById(body.item_id);
+    if (!batch) {
+      return { status: 404, error: 'Batch not found' };
+    }
+    const batchCourse = await CourseRepository.getCourseById(batch.course_id);
+    return {
+      item: {
+        batch,
+        course_id: batch.course_id,
+        amount: getSeatPrice(batch, batchCourse),
+        description: batch.program_name,
+      },
+    };
+  }
+
+  const course = await CourseRepository.getCourseById(body.item_id);
+  if (!course) {
+    return { status: 404, error: 'Course not found' };
+  }
+
+  const batch =
+    body.batch_id !== undefined
+      ? await BatchRepository.getBatchById(body.batch_id)
+      : await BatchRepository.getNextOpenBatch(course.id);
+
+  if (!batch || Number(batch.course_id) !== Number(course.id)) {
+    return {
+      status: body.batch_id !== undefined ? 404 : 409,
+      error:
+        body.batch_id !== undefined
+          ? 'Batch not found for this course'
+          : 'This course has no batch open for enrollment',
+    };
+  }
+
+  return {
+    item: {
+      batch,
+      course_id: course.id,
+      amount: getSeatPrice(batch, course),
+      description: course.title || batch.program_name,
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import { Coupon, CouponTarget, CouponUsage } from '../types/coupon';
+import { checkCoupon, computeDiscount, normalizeCouponCode } from './couponRules';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+const coupon = (overrides: Partial<Coupon> = {}): Coupon => ({
+  id: 1,
+  code: 'SPRING20',
+  description: null,
+  discount_type: 'PERCENT',
+  discount_value: '20.00',
+  starts_at: null,
+  expires_at: null,
+  max_redemptions: null,
+  max_redemptions_per_user: null,
+  times_redeemed: 0,
+  is_active: true,
+  created_by: null,
+  created_at: NOW,
+  updated_at: NOW,
+  ...overrides,
+});
+
+const target: CouponTarget = { course_id: 3, batch_id: 7, amount: 199.99 };
+const unused: CouponUsage = { total: 0, by_user: 0 };
+
+describe('normalizeCouponCode', () => {
+  it('trims and upper-cases codes', () => {
+    expect(normalizeCouponCode('  spring20 ')).toBe('SPRING20');
+  });
+});
+
+describe('computeDiscount', () => {
+  it('rounds percentage discounts to cents', () => {
+    expect(computeDiscount(coupon(), 199.99)).toBe(40);
+    expect(computeDiscount(coupon({ discount_value: '33.33' }), 10)).toBe(3.33);
+  });
+
+  it('never discounts more than the amount', () => {
+    const fixed = coupon({ discount_type: 'FIXED', discount_value: '50.00' });
+
+    expect(computeDiscount(fixed, 30)).toBe(30);
+    expect(computeDiscount(coupon({ discount_value: '150.00' }), 30)).toBe(30);
+  });
+});
+
+describe('checkCoupon', () => {
+  it('prices a valid coupon', () => {
+    expect(checkCoupon(coupon(), [], target, unused, NOW)).toEqual({
+      valid: true,
+      quote: {
+        code: 'SPRING20',
+        discount_type: 'PERCENT',
+        discount_value: 20,
+        subtotal: 199.99,
+        discount: 40,
+        total: 159.99,
+      },
+    });
+  });
+
+  it('rejects inactive, not yet started and expired coupons', () => {
+    const inactive = coupon({ is_active: false });
+    const upcoming = coupon({ starts_at: new Date('2026-07-01T00:00:00Z') });
+    const expired = coupon({ expires_at: new Date('2026-05-31T23:59:59Z') });
+
+    expect(checkCoupon(inactive, [], target, unused, NOW).error).toBe(
+      'This coupon is no longer active'
+    );
+    expect(checkCoupon(upcoming, [], target, unused, NOW).error).toBe(
+      'This coupon is not valid yet'
+    );
+    expect(checkCoupon(expired, [], target, unused, NOW).error).toBe('This coupon has expired');
+  });
+
+  it('applies only to the scoped courses and batches', () => {
+    const inScope = [{ item_type: 'BATCH' as const, item_id: 7 }];
+    const outOfScope = [
+      { item_type: 'COURSE' as const, item_id: 4 },
+      { item_type: 'BATCH' as const, item_id: 3 },
+    ];
+
+    expect(checkCoupon(coupon(), inScope, target, unused, NOW).valid).toBe(true);
+    expect(checkCoupon(coupon(), outOfScope, target, unused, NOW)).toEqual({
+      valid: false,
+      error: 'This coupon does not apply to this purchase',
+    });
+  });
+
+  it('enforces the total and per-user redemption limits', () => {
+    const limited = coupon({ max_redemptions: 10, max_redemptions_per_user: 1 });
+
+    expect(checkCoupon(limited, [], target, { total: 9, by_user: 0 }, NOW).valid).toBe(true);
+    expect(checkCoupon(limited, [], target, { total: 10, by_user: 0 }, NOW).error).toBe(
+      'This coupon has reached its usage limit'
+    );
+    expect(checkCoupon(limited, [], target, { total: 1, by_user: 1 }, NOW).error).toBe(
+      'You have already used this coupon'
+    );
+  });
+
+  it('rejects coupons on purchases that are already free', () => {
+    expect(checkCoupon(coupon(), [], { ...target, amount: 0 }, unused, NOW).error).toBe(
+      'This purchase is already free'
+    );
+  });
+});
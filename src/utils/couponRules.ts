@@ -0,0 +1,88 @@
+import { Coupon, CouponCheck, CouponScope, CouponTarget, CouponUsage } from '../types/coupon';
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Discount a coupon gives on an amount; never more than the amount itself
+ */
+export const computeDiscount = (coupon: Coupon, amount: number): number => {
+  const value = parseFloat(coupon.discount_value);
+  const discount = coupon.discount_type === 'PERCENT' ? (amount * value) / 100 : value;
+  return roundMoney(Math.min(discount, amount));
+};
+
+/**
+ * Whether a coupon's scopes cover the target (no scopes means everything is covered)
+ */
+const isInScope = (scopes: CouponScope[], target: CouponTarget): boolean => {
+  if (scopes.length === 0) {
+    return true;
+  }
+
+  return scopes.some(
+    (scope) =>
+      (scope.item_type === 'COURSE' && Number(scope.item_id) === Number(target.course_id)) ||
+      (scope.item_type === 'BATCH' && Number(scope.item_id) === Number(target.batch_id))
+  );
+};
+
+/**
+ * Check every rule of a coupon against a purchase and price it
+ */
+export const checkCoupon = (
+  coupon: Coupon,
+  scopes: CouponScope[],
+  target: CouponTarget,
+  usage: CouponUsage,
+  now: Date = new Date()
+): CouponCheck => {
+  if (!coupon.is_active) {
+    return { valid: false, error: 'This coupon is no longer active' };
+  }
+
+  if (coupon.starts_at && now < new Date(coupon.starts_at)) {
+    return { valid: false, error: 'This coupon is not valid yet' };
+  }
+
+  if (coupon.expires_at && now > new Date(coupon.expires_at)) {
+    return { valid: false, error: 'This coupon has expired' };
+  }
+
+  if (!isInScope(scopes, target)) {
+    return { valid: false, error: 'This coupon does not apply to this purchase' };
+  }
+
+  if (coupon.max_redemptions !== null && usage.total >= coupon.max_redemptions) {
+    return { valid: false, error: 'This coupon has reached its usage limit' };
+  }
+
+  if (
+    coupon.max_redemptions_per_user !== null &&
+    usage.by_user >= coupon.max_redemptions_per_user
+  ) {
+    return { valid: false, error: 'You have already used this coupon' };
+  }
+
+  if (target.amount <= 0) {
+    return { valid: false, error: 'This purchase is already free' };
+  }
+
+  const discount = computeDiscount(coupon, target.amount);
+
+  return {
+    valid: true,
+    quote: {
+      code: coupon.code,
+      discount_type: coupon.discount_type,
+      discount_value: parseFloat(coupon.discount_value),
+      subtotal: target.amount,
+      discount,
+      total: roundMoney(target.amount - discount),
+    },
+  };
+};
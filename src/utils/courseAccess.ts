@@ -0,0 +1,28 @@
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { Course } from '../types/course';
+import { PublicUser } from '../types/auth';
+import { CourseEnrollment } from '../types/enrollment';
+
+export interface CourseAccess {
+  // Admins and the instructor who created the course see everything
+  isStaff: boolean;
+  enrollment: CourseEnrollment | null;
+}
+
+/**
+ * Work out what a (possibly anonymous) caller may see of a course
+ */
+export const resolveCourseAccess = async (
+  user: PublicUser | undefined,
+  course: Course
+): Promise<CourseAccess> => {
+  if (!user) {
+    return { isStaff: false, enrollment: null };
+  }
+
+  const isStaff =
+    user.role === 'ADMIN' || (user.role === 'INSTRUCTOR' && Number(course.creator) === user.id);
+  const enrollment = await EnrollmentRepository.getCourseEnrollment(course.id, user.id);
+
+  return { isStaff, enrollment };
+};
@@ -0,0 +1,44 @@
+import { ProgressRepository } from '../repositories/progressRepository';
+import { CourseCompletion } from '../types/progress';
+
+export type CourseCompletedListener = (completion: CourseCompletion) => Promise<void> | void;
+
+const listeners: CourseCompletedListener[] = [];
+
+/**
+ * Register a callback that runs once whenever a student completes a course
+ */
+export const onCourseCompleted = (listener: CourseCompletedListener): void => {
+  listeners.push(listener);
+};
+
+/**
+ * Record course completion when every published lesson is completed and notify listeners.
+ * Returns the new completion, or null when the course is unfinished or was already completed.
+ */
+export const checkCourseCompletion = async (
+  userId: number,
+  courseId: number
+): Promise<CourseCompletion | null> => {
+  const { total, completed } = await ProgressRepository.countCompletion(userId, courseId);
+
+  if (total === 0 || completed < total) {
+    return null;
+  }
+
+  const completion = await ProgressRepository.markCourseCompleted(userId, courseId);
+  if (!completion) {
+    return null;
+  }
+
+  // A failing listener must not affect the student's progress update or other listeners
+  for (const listener of listeners) {
+    try {
+      await listener(completion);
+    } catch (error) {
+      console.error('Course completion listener failed:', error);
+    }
+  }
+
+  return completion;
+};
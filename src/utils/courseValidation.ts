@@ -0,0 +1,206 @@
+import {
+  Course,
+  CourseFaq,
+  COURSE_LEVELS,
+  COURSE_STATUSES,
+  DRIP_ANCHORS,
+  UpdateCourseRequest,
+} from '../types/course';
+
+const TEXT_FIELDS = [
+  'title',
+  'short_description',
+  'description',
+  'outcomes',
+  'language',
+  'section',
+  'requirements',
+  'level',
+  'user_id',
+  'thumbnail',
+  'video_url',
+  'course_type',
+  'status',
+  'course_overview_provider',
+  'meta_keywords',
+  'meta_description',
+  'upcoming_image_thumbnail',
+  'publish_date',
+  'drip_anchor',
+] as const;
+
+const INTEGER_FIELDS = [
+  'category_id',
+  'sub_category_id',
+  'creator',
+  'expiry_period',
+  'is_admin',
+] as const;
+
+// Stored as 0/1 integers
+const FLAG_FIELDS = [
+  'discount_flag',
+  'is_top_course',
+  'is_free_course',
+  'multi_instructor',
+  'enable_drip_content',
+] as const;
+
+const PRICE_FIELDS = ['price', 'discounted_price'] as const;
+
+// Every field validateCourseInput accepts
+export const COURSE_FIELDS: readonly string[] = [
+  ...TEXT_FIELDS,
+  ...INTEGER_FIELDS,
+  ...FLAG_FIELDS,
+  ...PRICE_FIELDS,
+  'faqs',
+];
+
+export interface CourseValidationResult {
+  data: UpdateCourseRequest;
+  errors: string[];
+}
+
+// Multipart bodies (thumbnail uploads) deliver every field as a string
+const isBlank = (value: unknown): boolean => value === null || value === '';
+
+const parseFlag = (value: unknown): number | null => {
+  if (value === true || value === 1 || value === '1' || value === 'true') return 1;
+  if (value === false || value === 0 || value === '0' || value === 'false') return 0;
+  return null;
+};
+
+const parseFaqs = (value: unknown): CourseFaq[] | null => {
+  let faqs = value;
+  if (typeof value === 'string') {
+    try {
+      faqs = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!Array.isArray(faqs)) {
+    return null;
+  }
+
+  const valid = faqs.every(
+    (faq) =>
+      faq !== null &&
+      typeof faq === 'object' &&
+      typeof faq.title === 'string' &&
+      typeof faq.description === 'string'
+  );
+  return valid ? (faqs as CourseFaq[]) : null;
+};
+
+/**
+ * Validate and normalize a course create/update body.
+ * Unknown fields are dropped; `existing` supplies current values for cross-field checks on update.
+ */
+export const validateCourseInput = (
+  body: Record<string, any>,
+  existing?: Course
+): CourseValidationResult => {
+  const data: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (isBlank(body[field])) {
+      data[field] = null;
+    } else if (typeof body[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    } else {
+      data[field] = body[field].trim();
+    }
+  }
+
+  for (const field of INTEGER_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (isBlank(body[field])) {
+      data[field] = null;
+      continue;
+    }
+    const value = Number(body[field]);
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`${field} must be a non-negative integer`);
+    } else {
+      data[field] = value;
+    }
+  }
+
+  for (const field of FLAG_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = parseFlag(body[field]);
+    if (value === null) {
+      errors.push(`${field} must be 0 or 1`);
+    } else {
+      data[field] = value;
+    }
+  }
+
+  for (const field of PRICE_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (isBlank(body[field])) {
+      data[field] = null;
+      continue;
+    }
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number`);
+    } else {
+      data[field] = value;
+    }
+  }
+
+  if (body.faqs !== undefined) {
+    const faqs = isBlank(body.faqs) ? [] : parseFaqs(body.faqs);
+    if (faqs === null) {
+      errors.push('faqs must be a JSON array of { title, description } objects');
+    } else {
+      data.faqs = JSON.stringify(faqs);
+    }
+  }
+
+  if (data.title === null || (data.title !== undefined && data.title.length === 0)) {
+    errors.push('title cannot be empty');
+  }
+
+  if (data.level && !(COURSE_LEVELS as readonly string[]).includes(data.level)) {
+    errors.push(`Invalid level. Must be one of: ${COURSE_LEVELS.join(', ')}`);
+  }
+
+  if (data.status && !(COURSE_STATUSES as readonly string[]).includes(data.status)) {
+    errors.push(`Invalid status. Must be one of: ${COURSE_STATUSES.join(', ')}`);
+  }
+
+  if (
+    data.drip_anchor !== undefined &&
+    !(DRIP_ANCHORS as readonly string[]).includes(data.drip_anchor)
+  ) {
+    errors.push(`Invalid drip_anchor. Must be one of: ${DRIP_ANCHORS.join(', ')}`);
+  }
+
+  if (data.publish_date && isNaN(Date.parse(data.publish_date))) {
+    errors.push('publish_date must be a valid date');
+  }
+
+  // Price rules are checked against the merged result so partial updates stay consistent
+  const merged = { ...existing, ...data };
+  if (merged.is_free_course === 1 && Number(merged.price) > 0) {
+    errors.push('Free courses cannot have a price');
+  }
+  if (merged.discount_flag === 1) {
+    if (merged.discounted_price === null || merged.discounted_price === undefined) {
+      errors.push('discounted_price is required when discount_flag is set');
+    } else if (merged.price === null || merged.price === undefined) {
+      errors.push('price is required when discount_flag is set');
+    } else if (Number(merged.discounted_price) >= Number(merged.price)) {
+      errors.push('discounted_price must be lower than price');
+    }
+  }
+
+  return { data: data as UpdateCourseRequest, errors };
+};
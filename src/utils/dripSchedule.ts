@@ -0,0 +1,44 @@
+import { Course } from '../types/course';
+import { CourseLesson, LessonAvailability } from '../types/curriculum';
+import { CourseAccess } from './courseAccess';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date a student's drip schedule counts from, null when the caller is not enrolled
+ */
+export const getDripAnchorDate = (course: Course, access: CourseAccess): Date | null => {
+  if (!access.enrollment) {
+    return null;
+  }
+  return course.drip_anchor === 'BATCH_START'
+    ? new Date(access.enrollment.start_date)
+    : new Date(access.enrollment.enrolled_at);
+};
+
+/**
+ * Whether the caller may open a lesson yet and, under drip content, when it unlocks.
+ * Staff and preview lessons are always open; otherwise an enrollment is required.
+ */
+export const getLessonAvailability = (
+  course: Course,
+  lesson: CourseLesson,
+  access: CourseAccess,
+  now: Date = new Date()
+): LessonAvailability => {
+  if (access.isStaff || lesson.is_preview) {
+    return { is_locked: false, unlock_at: null };
+  }
+
+  const anchor = getDripAnchorDate(course, access);
+  if (!anchor) {
+    return { is_locked: true, unlock_at: null };
+  }
+
+  if (!course.enable_drip_content) {
+    return { is_locked: false, unlock_at: null };
+  }
+
+  const unlockAt = new Date(anchor.getTime() + (lesson.drip_offset_days || 0) * DAY_MS);
+  return { is_locked: unlockAt.getTime() > now.getTime(), unlock_at: unlockAt };
+};
@@ -0,0 +1,148 @@
+import { emailConfig } from '../config/email';
+import { EmailOutboxRepository } from '../repositories/emailOutboxRepository';
+import { OutboundEmail } from '../types/email';
+import { processEmailQueue, retryDelaySeconds } from './emailQueue';
+import { deliverEmail } from './emailTransport';
+
+jest.mock('../repositories/emailOutboxRepository', () => ({
+  EmailOutboxRepository: { claimDue: jest.fn(), markSent: jest.fn(), markFailed: jest.fn() },
+}));
+jest.mock('./emailTransport', () => ({ deliverEmail: jest.fn() }));
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+const email = (overrides: Partial<OutboundEmail> = {}): OutboundEmail =>
+  ({
+    id: 1,
+    to_address: 'student@example.com',
+    subject: 'Welcome',
+    html: '<p>Hi</p>',
+    text: null,
+    attachments: [],
+    status: 'SENDING',
+    attempts: 0,
+    max_attempts: 5,
+    ...overrides,
+  }) as OutboundEmail;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.mocked(EmailOutboxRepository.claimDue).mockResolvedValue([]);
+  jest.mocked(EmailOutboxRepository.markFailed).mockResolvedValue('PENDING');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('retryDelaySeconds', () => {
+  it('doubles the delay after every failed attempt', () => {
+    const base = emailConfig.queue.retryBaseDelaySeconds;
+
+    expect(retryDelaySeconds(1)).toBe(base);
+    expect(retryDelaySeconds(2)).toBe(base * 2);
+    expect(retryDelaySeconds(3)).toBe(base * 4);
+  });
+
+  it('never waits longer than the configured maximum', () => {
+    expect(retryDelaySeconds(30)).toBe(emailConfig.queue.retryMaxDelaySeconds);
+  });
+});
+
+describe('processEmailQueue', () => {
+  it('records a delivered message as sent', async () => {
+    jest.mocked(EmailOutboxRepository.claimDue).mockResolvedValueOnce([email()]);
+    jest.mocked(deliverEmail).mockResolvedValue('<msg-1@example.com>');
+
+    expect(await processEmailQueue()).toBe(1);
+    expect(EmailOutboxRepository.markSent).toHaveBeenCalledWith(1, '<msg-1@example.com>');
+    expect(EmailOutboxRepository.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('passes attachments to the transport as buffers', async () => {
+    const content = Buffer.from('%PDF-1.4').toString('base64');
+    jest.mocked(EmailOutboxRepository.claimDue).mockResolvedValueOnce([
+      email({
+        attachments: [{ filename: 'receipt.pdf', content, contentType: 'application/pdf' }],
+      }),
+    ]);
+    jest.mocked(deliverEmail).mockResolvedValue(null);
+
+    await processEmailQueue();
+
+    const [options] = jest.mocked(deliverEmail).mock.calls[0];
+    expect(options.attachments![0].content).toEqual(Buffer.from('%PDF-1.4'));
+  });
+
+  it('schedules a failed message for a retry after the backoff delay', async () => {
+    jest.mocked(EmailOutboxRepository.claimDue).mockResolvedValueOnce([email({ attempts: 2 })]);
+    jest.mocked(deliverEmail).mockRejectedValue(new Error('connection refused'));
+
+    await processEmailQueue();
+
+    expect(EmailOutboxRepository.markFailed).toHaveBeenCalledWith(
+      1,
+      'connection refused',
+      new Date(NOW.getTime() + retryDelaySeconds(3) * 1000)
+    );
+  });
+
+  it('dead-letters a message whose last attempt failed', async () => {
+    jest.mocked(EmailOutboxRepository.claimDue).mockResolvedValueOnce([email({ attempts: 4 })]);
+    jest.mocked(EmailOutboxRepository.markFailed).mockResolvedValue('DEAD');
+    jest.mocked(deliverEmail).mockRejectedValue(new Error('mailbox unavailable'));
+    const logError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await processEmailQueue();
+
+    expect(EmailOutboxRepository.markFailed).toHaveBeenCalledWith(1, 'mailbox unavailable', null);
+    expect(logError).toHaveBeenCalled();
+  });
+
+  it('keeps delivering the rest of a batch after a failure', async () => {
+    jest
+      .mocked(EmailOutboxRepository.claimDue)
+      .mockResolvedValueOnce([email({ id: 1 }), email({ id: 2 })]);
+    jest
+      .mocked(deliverEmail)
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce('<msg-2@example.com>');
+
+    expect(await processEmailQueue()).toBe(2);
+    expect(EmailOutboxRepository.markFailed).toHaveBeenCalledWith(1, 'timeout', expect.any(Date));
+    expect(EmailOutboxRepository.markSent).toHaveBeenCalledWith(2, '<msg-2@example.com>');
+  });
+
+  it('claims batches until one comes back short', async () => {
+    const fullBatch = Array.from({ length: emailConfig.queue.batchSize }, (_, i) =>
+      email({ id: i + 1 })
+    );
+    jest
+      .mocked(EmailOutboxRepository.claimDue)
+      .mockResolvedValueOnce(fullBatch)
+      .mockResolvedValueOnce([email({ id: 100 })]);
+    jest.mocked(deliverEmail).mockResolvedValue(null);
+
+    expect(await processEmailQueue()).toBe(emailConfig.queue.batchSize + 1);
+    expect(EmailOutboxRepository.claimDue).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips a run while another one is still in progress', async () => {
+    let release: (emails: OutboundEmail[]) => void = () => {};
+    jest
+      .mocked(EmailOutboxRepository.claimDue)
+      .mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+    const first = processEmailQueue();
+    expect(await processEmailQueue()).toBe(0);
+
+    release([]);
+    expect(await first).toBe(0);
+    expect(EmailOutboxRepository.claimDue).toHaveBeenCalledTimes(1);
+  });
+});
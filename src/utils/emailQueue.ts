@@ -0,0 +1,125 @@
+import { emailConfig } from '../config/email';
+import { EmailOutboxRepository } from '../repositories/emailOutboxRepository';
+import { EmailOptions, OutboundEmail } from '../types/email';
+import { deliverEmail } from './emailTransport';
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let processing = false;
+
+/**
+ * Delay before retry number `attempt` (1-based): base * 2^(attempt - 1), capped
+ */
+export const retryDelaySeconds = (attempt: number): number => {
+  const { retryBaseDelaySeconds, retryMaxDelaySeconds } = emailConfig.queue;
+  return Math.min(retryBaseDelaySeconds * Math.pow(2, attempt - 1), retryMaxDelaySeconds);
+};
+
+const toEmailOptions = (email: OutboundEmail): EmailOptions => ({
+  to: email.to_address,
+  subject: email.subject,
+  html: email.html,
+  text: email.text || undefined,
+  attachments: email.attachments.map((attachment) => ({
+    filename: attachment.filename,
+    content: Buffer.from(attachment.content, 'base64'),
+    contentType: attachment.contentType,
+  })),
+});
+
+/**
+ * Attempt delivery of one claimed message and record the outcome
+ */
+const deliverQueuedEmail = async (email: OutboundEmail): Promise<void> => {
+  try {
+    const messageId = await deliverEmail(toEmailOptions(email));
+    await EmailOutboxRepository.markSent(email.id, messageId);
+    console.log(`✓ Email ${email.id} sent:`, messageId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempt = email.attempts + 1;
+    const retryAt =
+      attempt < email.max_attempts
+        ? new Date(Date.now() + retryDelaySeconds(attempt) * 1000)
+        : null;
+
+    const status = await EmailOutboxRepository.markFailed(email.id, message, retryAt);
+    if (status === 'DEAD') {
+      console.error(`❌ Email ${email.id} to ${email.to_address} failed permanently:`, message);
+    } else {
+      console.warn(
+        `⚠️ Email ${email.id} attempt ${attempt} failed, retrying at ${retryAt!.toISOString()}:`,
+        message
+      );
+    }
+  }
+};
+
+/**
+ * Deliver every due message, batch by batch. Overlapping runs in one process are skipped;
+ * separate processes are kept apart by row locks.
+ */
+export const processEmailQueue = async (): Promise<number> => {
+  if (processing) {
+    return 0;
+  }
+
+  processing = true;
+  let processed = 0;
+  try {
+    let claimed: number;
+    do {
+      const batch = await EmailOutboxRepository.claimDue(
+        emailConfig.queue.batchSize,
+        emailConfig.queue.staleLockMinutes
+      );
+      for (const email of batch) {
+        await deliverQueuedEmail(email);
+      }
+      claimed = batch.length;
+      processed += claimed;
+    } while (claimed === emailConfig.queue.batchSize);
+  } catch (error) {
+    console.error('❌ Email queue processing failed:', error);
+  } finally {
+    processing = false;
+  }
+  return processed;
+};
+
+/**
+ * Add an email to the outbox and nudge the worker so it goes out without waiting for the next poll
+ */
+export const enqueueEmail = async (options: EmailOptions): Promise<OutboundEmail> => {
+  const email = await EmailOutboxRepository.enqueue(options, emailConfig.queue.maxAttempts);
+  if (workerTimer) {
+    setImmediate(() => {
+      processEmailQueue();
+    });
+  }
+  return email;
+};
+
+/**
+ * Start polling the outbox (no-op when EMAIL_WORKER_ENABLED=false or already started)
+ */
+export const startEmailWorker = (): void => {
+  if (workerTimer || !emailConfig.queue.workerEnabled) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    processEmailQueue();
+  }, emailConfig.queue.pollIntervalMs);
+  workerTimer.unref();
+  processEmailQueue();
+};
+
+/**
+ * Stop polling the outbox
+ */
+export const stopEmailWorker = (): void => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
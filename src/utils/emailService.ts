@@ -1,47 +1,25 @@
-import nodemailer from 'nodemailer';
-
-// Configure the transporter using Brevo SMTP
-const transporter = nodemailer.createTransport({
-  host: 'smtp-relay.brevo.com',
-  port: 587,
-  secure: false, // TLS
-  auth: {
-    user: process.env.BREVO_EMAIL || '',
-    pass: process.env.BREVO_SMTP_KEY || '',
-  },
-});
-
-// Verify connection configuration
-transporter.verify((_error, _success) => {
-  if (_error) {
-    console.error('❌ Email service configuration error:', _error.message);
-  } else {
-    console.log('✓ Email service configured successfully');
-  }
-});
-
-interface EmailOptions {
-  to: string;
-  subject: string;
-  html: string;
-  text?: string;
-}
+import { escapeHtml, TemplateVariables } from './templateEngine';
+import { renderEmailTemplate } from './emailTemplates';
+import { enqueueEmail } from './emailQueue';
+import { deliverEmail } from './emailTransport';
+import { EmailOptions } from '../types/email';
 
 /**
- * Send email
+ * Send email. The message is queued in the outbox and delivered (with retries) by the
+ * email worker; resolves false only when it could neither be queued nor sent directly.
  */
 export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
   try {
-    const mailOptions = {
-      from: process.env.BREVO_FROM_EMAIL || process.env.BREVO_EMAIL || 'noreply@cyberwhisper.com',
-      to: options.to,
-      subject: options.subject,
-      html: options.html,
-      text: options.text,
-    };
-
-    const info = await transporter.sendMail(mailOptions);
-    console.log('✓ Email sent successfully:', info.messageId);
+    const email = await enqueueEmail(options);
+    console.log('✓ Email queued:', email.id);
+    return true;
+  } catch (error) {
+    console.error('❌ Error queueing email, sending directly:', error);
+  }
+
+  try {
+    const messageId = await deliverEmail(options);
+    console.log('✓ Email sent successfully:', messageId);
     return true;
   } catch (error) {
     console.error('❌ Error sending email:', error);
@@ -49,6 +27,30 @@ export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
   }
 };
 
+/**
+ * Send an email from a stored template. Resolves null when the template is missing or
+ * disabled (or cannot be loaded) so callers can fall back to their built-in content.
+ */
+export const sendTemplateEmail = async (
+  templateName: string,
+  to: string,
+  variables: TemplateVariables
+): Promise<boolean | null> => {
+  let rendered;
+  try {
+    rendered = await renderEmailTemplate(templateName, variables);
+  } catch (error) {
+    console.error(`❌ Failed to render email template ${templateName}:`, error);
+    return null;
+  }
+
+  if (!rendered) {
+    return null;
+  }
+
+  return await sendEmail({ to, subject: rendered.subject, html: rendered.html, text: rendered.text });
+};
+
 /**
  * Send quotation email to user
  */
@@ -56,8 +58,26 @@ export const sendQuotationEmail = async (
   name: string,
   email: string,
   phone: string,
-  _message?: string
+  message?: string,
+  subject?: string
 ): Promise<boolean> => {
+  const requestDate = new Date().toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const templated = await sendTemplateEmail('quote_confirmation', email, {
+    name,
+    email,
+    phone,
+    subject,
+    message,
+    request_date: requestDate,
+  });
+  if (templated !== null) {
+    return templated;
+  }
+
   const htmlContent = `
     <!DOCTYPE html>
     <html lang="en">
@@ -168,7 +188,7 @@ export const sendQuotationEmail = async (
         </div>
         
         <div class="content">
-          <div class="greeting">Hello ${name},</div>
+          <div class="greeting">Hello ${escapeHtml(name)},</div>
           
           <div class="body-text">
             Thank you for your interest in <strong>CyberWhisper</strong>! We're excited to help you achieve your goals.
@@ -184,20 +204,16 @@ export const sendQuotationEmail = async (
           
           <div class="details">
             <div class="detail-item">
-              <span class="label">Name:</span> ${name}
+              <span class="label">Name:</span> ${escapeHtml(name)}
             </div>
             <div class="detail-item">
-              <span class="label">Email:</span> ${email}
+              <span class="label">Email:</span> ${escapeHtml(email)}
             </div>
             <div class="detail-item">
-              <span class="label">Phone:</span> ${phone}
+              <span class="label">Phone:</span> ${escapeHtml(phone)}
             </div>
             <div class="detail-item">
-              <span class="label">Request Date:</span> ${new Date().toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-              })}
+              <span class="label">Request Date:</span> ${requestDate}
             </div>
           </div>
           
@@ -240,7 +256,7 @@ export const sendQuotationEmail = async (
 
   return await sendEmail({
     to: email,
-    subject: `Quotation Request Received - CyberWhisper`,
+    subject: 'Quotation Request Received - CyberWhisper',
     html: htmlContent,
   });
 };
@@ -252,7 +268,8 @@ export const sendAdminNotification = async (
   name: string,
   email: string,
   phone: string,
-  message?: string
+  message?: string,
+  subject?: string
 ): Promise<boolean> => {
   const adminEmail = process.env.ADMIN_EMAIL || process.env.BREVO_EMAIL || '';
 
@@ -261,6 +278,18 @@ export const sendAdminNotification = async (
     return false;
   }
 
+  const templated = await sendTemplateEmail('quote_admin_notification', adminEmail, {
+    name,
+    email,
+    phone,
+    subject,
+    message,
+    request_date: new Date().toLocaleString(),
+  });
+  if (templated !== null) {
+    return templated;
+  }
+
   const htmlContent = `
     <!DOCTYPE html>
     <html>
@@ -280,10 +309,10 @@ export const sendAdminNotification = async (
         </div>
         
         <div class="details">
-          <p><span class="label">Name:</span> ${name}</p>
-          <p><span class="label">Email:</span> ${email}</p>
-          <p><span class="label">Phone:</span> ${phone}</p>
-          ${message ? `<p><span class="label">Message:</span></p><p>${message.replace(/\n/g, '<br>')}</p>` : ''}
+          <p><span class="label">Name:</span> ${escapeHtml(name)}</p>
+          <p><span class="label">Email:</span> ${escapeHtml(email)}</p>
+          <p><span class="label">Phone:</span> ${escapeHtml(phone)}</p>
+          ${message ? `<p><span class="label">Message:</span></p><p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>` : ''}
           <p><span class="label">Request Time:</span> ${new Date().toLocaleString()}</p>
         </div>
         
@@ -299,3 +328,247 @@ export const sendAdminNotification = async (
     html: htmlContent,
   });
 };
+
+/**
+ * Send password reset link to user
+ */
+export const sendPasswordResetEmail = async (
+  name: string,
+  email: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<boolean> => {
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #667eea; color: white; padding: 15px; border-radius: 4px; }
+        .cta-button { display: inline-block; background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 4px; margin: 20px 0; font-weight: 600; }
+        .footer { font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>🔐 Reset Your Password</h2>
+        </div>
+
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>We received a request to reset the password of your CyberWhisper account. Click the button below to choose a new password.</p>
+
+        <a href="${resetUrl}" class="cta-button">Reset Password</a>
+
+        <p>This link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+        <p class="footer">If you did not request a password reset, you can safely ignore this email. Your password will not change.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: 'Reset Your Password - CyberWhisper',
+    html: htmlContent,
+    text: `Hello ${name},\n\nReset your CyberWhisper password using this link (valid for ${expiresInMinutes} minutes): ${resetUrl}\n\nIf you did not request this, ignore this email.`,
+  });
+};
+
+/**
+ * Send email address verification link to user
+ */
+export const sendVerificationEmail = async (
+  name: string,
+  email: string,
+  verifyUrl: string,
+  expiresInHours: number
+): Promise<boolean> => {
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #667eea; color: white; padding: 15px; border-radius: 4px; }
+        .cta-button { display: inline-block; background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 4px; margin: 20px 0; font-weight: 600; }
+        .footer { font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>✉️ Verify Your Email</h2>
+        </div>
+
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>Welcome to <strong>CyberWhisper</strong>! Please confirm your email address to finish setting up your account.</p>
+
+        <a href="${verifyUrl}" class="cta-button">Verify Email</a>
+
+        <p>This link expires in ${expiresInHours} hours.</p>
+        <p class="footer">If you did not create a CyberWhisper account, you can safely ignore this email.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: 'Verify Your Email - CyberWhisper',
+    html: htmlContent,
+    text: `Hello ${name},\n\nConfirm your CyberWhisper email address using this link (valid for ${expiresInHours} hours): ${verifyUrl}`,
+  });
+};
+
+/**
+ * Send newsletter subscription confirmation link to subscriber
+ */
+export const sendNewsletterConfirmationEmail = async (
+  email: string,
+  confirmUrl: string,
+  expiresInHours: number
+): Promise<boolean> => {
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #667eea; color: white; padding: 15px; border-radius: 4px; }
+        .cta-button { display: inline-block; background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 4px; margin: 20px 0; font-weight: 600; }
+        .footer { font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>📬 Confirm Your Subscription</h2>
+        </div>
+
+        <p>Hello,</p>
+        <p>Thanks for signing up for the <strong>CyberWhisper</strong> newsletter! Please confirm that you want to receive it.</p>
+
+        <a href="${confirmUrl}" class="cta-button">Confirm Subscription</a>
+
+        <p>This link expires in ${expiresInHours} hours.</p>
+        <p class="footer">If you did not sign up for our newsletter, you can safely ignore this email and you will not be subscribed.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: 'Confirm Your Newsletter Subscription - CyberWhisper',
+    html: htmlContent,
+    text: `Hello,\n\nConfirm your CyberWhisper newsletter subscription using this link (valid for ${expiresInHours} hours): ${confirmUrl}\n\nIf you did not sign up, ignore this email.`,
+  });
+};
+
+/**
+ * Send enrollment notice to a student promoted from the waitlist
+ */
+export const sendWaitlistPromotionEmail = async (
+  name: string,
+  email: string,
+  programName: string,
+  startDate: string
+): Promise<boolean> => {
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #667eea; color: white; padding: 15px; border-radius: 4px; }
+        .details { background-color: #f8f9fa; padding: 15px; border-left: 4px solid #667eea; margin: 20px 0; }
+        .footer { font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>🎉 A Seat Opened Up!</h2>
+        </div>
+
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>Good news! A seat became available and you have been moved from the waitlist into your batch.</p>
+
+        <div class="details">
+          <p><strong>Program:</strong> ${escapeHtml(programName)}</p>
+          <p><strong>Starts:</strong> ${escapeHtml(startDate)}</p>
+        </div>
+
+        <p class="footer">If you no longer wish to attend, please withdraw so the seat can go to the next student.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: `You're Enrolled: ${programName} - CyberWhisper`,
+    html: htmlContent,
+    text: `Hello ${name},\n\nA seat opened up and you have been enrolled in ${programName}, starting ${startDate}.`,
+  });
+};
+
+/**
+ * Send invoice or receipt PDF to customer
+ */
+export const sendInvoiceEmail = async (
+  name: string,
+  email: string,
+  invoiceNumber: string,
+  formattedTotal: string,
+  isReceipt: boolean,
+  pdf: Buffer
+): Promise<boolean> => {
+  const documentName = isReceipt ? 'receipt' : 'invoice';
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #667eea; color: white; padding: 15px; border-radius: 4px; }
+        .details { background-color: #f8f9fa; padding: 15px; border-left: 4px solid #667eea; margin: 20px 0; }
+        .footer { font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h2>${isReceipt ? 'Payment Receipt' : 'New Invoice'}</h2>
+        </div>
+
+        <p>Hello ${escapeHtml(name)},</p>
+        <p>${isReceipt ? 'Thank you for your payment. Your receipt is attached.' : 'Please find your invoice attached.'}</p>
+
+        <div class="details">
+          <p><strong>Number:</strong> ${escapeHtml(invoiceNumber)}</p>
+          <p><strong>${isReceipt ? 'Amount paid' : 'Amount due'}:</strong> ${escapeHtml(formattedTotal)}</p>
+        </div>
+
+        <p class="footer">Questions about this ${documentName}? Simply reply to this email.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return await sendEmail({
+    to: email,
+    subject: `${isReceipt ? 'Receipt' : 'Invoice'} ${invoiceNumber} - CyberWhisper`,
+    html: htmlContent,
+    text: `Hello ${name},\n\nYour ${documentName} ${invoiceNumber} (${formattedTotal}) is attached.`,
+    attachments: [
+      { filename: `${invoiceNumber}.pdf`, content: pdf, contentType: 'application/pdf' },
+    ],
+  });
+};
@@ -0,0 +1,233 @@
+import { EmailTemplateRepository } from '../repositories/emailTemplateRepository';
+import {
+  CreateEmailTemplateRequest,
+  EmailTemplate,
+  EmailTemplateKind,
+  EMAIL_TEMPLATE_KINDS,
+  RenderableTemplate,
+  RenderedEmail,
+} from '../types/emailTemplate';
+import {
+  htmlToText,
+  renderTemplateString,
+  TemplateVariables,
+  validateTemplateSource,
+} from './templateEngine';
+
+const NAME_PATTERN = /^[a-z0-9_]{1,100}$/;
+
+const SAMPLE_LAYOUT_CONTENT = '<p>This is where the email content appears.</p>';
+
+// Available to every template without being passed in
+const globalVariables = (): TemplateVariables => ({
+  site_name: 'CyberWhisper',
+  client_url: process.env.CLIENT_URL || 'http://localhost:3000',
+  support_email: process.env.SUPPORT_EMAIL || 'support@cyberwhisper.com',
+  support_phone: process.env.SUPPORT_PHONE || '+1 (555) 123-4567',
+  year: new Date().getFullYear(),
+});
+
+type LayoutContent = { html: string; text: string };
+
+/**
+ * Load what a template needs (partials, layout) once and return a synchronous renderer,
+ * for sending the same content to many recipients. For a LAYOUT, `content` fills its
+ * {{{ content }}} slot.
+ */
+export const compileTemplate = async (
+  template: RenderableTemplate
+): Promise<(variables: TemplateVariables, content?: LayoutContent) => RenderedEmail> => {
+  const partials = await EmailTemplateRepository.getPartials();
+  const layout =
+    template.kind === 'TEMPLATE' && template.layout_name
+      ? await EmailTemplateRepository.getActiveTemplateByName(template.layout_name, 'LAYOUT')
+      : null;
+
+  const renderOwn = (
+    source: RenderableTemplate,
+    vars: TemplateVariables,
+    content?: LayoutContent
+  ): { html: string; text: string } => {
+    const html = renderTemplateString(source.html_body, vars, {
+      mode: 'html',
+      partials,
+      trusted: content ? { content: content.html } : undefined,
+    });
+
+    let text = htmlToText(html);
+    if (source.text_body) {
+      text = renderTemplateString(source.text_body, vars, {
+        mode: 'text',
+        partials,
+        trusted: content ? { content: content.text } : undefined,
+      });
+    }
+    return { html, text };
+  };
+
+  return (variables: TemplateVariables, content?: LayoutContent): RenderedEmail => {
+    const vars = { ...globalVariables(), ...variables };
+    const body = renderOwn(template, vars, content);
+
+    // Header injection guard: a subject is always a single line
+    const subject = template.subject
+      ? renderTemplateString(template.subject, vars, { mode: 'text' }).replace(/[\r\n]+/g, ' ')
+      : '';
+
+    if (!layout) {
+      return { subject, ...body };
+    }
+    return { subject, ...renderOwn(layout, vars, body) };
+  };
+};
+
+/**
+ * Render a template (and its layout) with the given variables
+ */
+export const renderTemplate = async (
+  template: RenderableTemplate,
+  variables: TemplateVariables,
+  content?: LayoutContent
+): Promise<RenderedEmail> => {
+  const render = await compileTemplate(template);
+  return render(variables, content);
+};
+
+/**
+ * Render an active TEMPLATE by name; null when it does not exist or is disabled
+ */
+export const renderEmailTemplate = async (
+  name: string,
+  variables: TemplateVariables
+): Promise<RenderedEmail | null> => {
+  const template = await EmailTemplateRepository.getActiveTemplateByName(name, 'TEMPLATE');
+  if (!template) {
+    return null;
+  }
+  return renderTemplate(template, variables);
+};
+
+/**
+ * Render a template for the admin preview, using its sample data overlaid with `overrides`
+ */
+export const previewTemplate = async (
+  template: EmailTemplate,
+  overrides: TemplateVariables = {}
+): Promise<RenderedEmail> => {
+  const variables = { ...(template.sample_data || {}), ...overrides };
+  const content =
+    template.kind === 'LAYOUT'
+      ? { html: SAMPLE_LAYOUT_CONTENT, text: htmlToText(SAMPLE_LAYOUT_CONTENT) }
+      : undefined;
+  return renderTemplate(template, variables, content);
+};
+
+/**
+ * Validate a template definition. `existing` supplies current values on update; name and
+ * kind are fixed after creation because code refers to templates by name.
+ */
+export const validateEmailTemplate = async (
+  body: Record<string, any>,
+  existing?: EmailTemplate
+): Promise<{ data: Partial<CreateEmailTemplateRequest>; error?: string }> => {
+  const data: Partial<CreateEmailTemplateRequest> = {};
+
+  if (existing) {
+    if (
+      (body.name !== undefined && body.name !== existing.name) ||
+      (body.kind !== undefined && body.kind !== existing.kind)
+    ) {
+      return { data, error: 'name and kind cannot be changed' };
+    }
+  } else {
+    if (typeof body.name !== 'string' || !NAME_PATTERN.test(body.name)) {
+      return {
+        data,
+        error: 'name is required and may only contain lowercase letters, digits and underscores',
+      };
+    }
+    if (body.kind !== undefined && !EMAIL_TEMPLATE_KINDS.includes(body.kind)) {
+      return { data, error: `Invalid kind. Must be one of: ${EMAIL_TEMPLATE_KINDS.join(', ')}` };
+    }
+    data.name = body.name;
+    data.kind = body.kind || 'TEMPLATE';
+  }
+
+  const kind = (existing?.kind || data.kind) as EmailTemplateKind;
+
+  for (const field of [
+    'description',
+    'subject',
+    'html_body',
+    'text_body',
+    'layout_name',
+  ] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { data, error: `${field} must be a string` };
+    }
+    data[field] = body[field] === null ? null : body[field];
+  }
+
+  if (body.sample_data !== undefined) {
+    if (
+      !body.sample_data ||
+      typeof body.sample_data !== 'object' ||
+      Array.isArray(body.sample_data)
+    ) {
+      return { data, error: 'sample_data must be an object' };
+    }
+    data.sample_data = body.sample_data;
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      return { data, error: 'is_active must be a boolean' };
+    }
+    data.is_active = body.is_active;
+  }
+
+  const htmlBody = data.html_body !== undefined ? data.html_body : existing?.html_body;
+  const subject = data.subject !== undefined ? data.subject : existing?.subject;
+  const layoutName = data.layout_name !== undefined ? data.layout_name : existing?.layout_name;
+
+  if (!htmlBody || !htmlBody.trim()) {
+    return { data, error: 'html_body is required' };
+  }
+  if (kind === 'TEMPLATE' && (!subject || !subject.trim())) {
+    return { data, error: 'subject is required for templates' };
+  }
+  if (kind !== 'TEMPLATE' && (data.subject || data.layout_name)) {
+    return { data, error: 'subject and layout_name only apply to templates' };
+  }
+  if (kind === 'LAYOUT' && !/\{\{\{\s*content\s*\}\}\}/.test(htmlBody)) {
+    return { data, error: 'A layout must contain {{{ content }}}' };
+  }
+
+  if (layoutName) {
+    const layout = await EmailTemplateRepository.getActiveTemplateByName(layoutName, 'LAYOUT');
+    if (!layout) {
+      return { data, error: `Layout not found: ${layoutName}` };
+    }
+  }
+
+  // A partial may not include itself
+  const ownName = existing?.name || data.name;
+  const partialNames = Object.keys(await EmailTemplateRepository.getPartials()).filter(
+    (name) => name !== ownName
+  );
+  const sources: Array<[string, string | null | undefined]> = [
+    ['html_body', data.html_body],
+    ['text_body', data.text_body],
+    ['subject', data.subject],
+  ];
+  for (const [field, source] of sources) {
+    if (!source) continue;
+    const syntaxError = validateTemplateSource(source, partialNames);
+    if (syntaxError) {
+      return { data, error: `${field}: ${syntaxError}` };
+    }
+  }
+
+  return { data };
+};
@@ -0,0 +1,58 @@
+import { emailConfig } from '../config/email';
+import { EmailOptions, EmailTransport } from '../types/email';
+import { brevoEmailTransport, smtpEmailTransport } from './smtpEmailTransport';
+import { fileEmailTransport } from './fileEmailTransport';
+import { memoryEmailTransport } from './memoryEmailTransport';
+
+/**
+ * Installed delivery drivers by name; EMAIL_TRANSPORT picks the one used. A new driver
+ * implements EmailTransport and is added here.
+ */
+const transports: Record<string, () => EmailTransport> = {
+  brevo: brevoEmailTransport,
+  smtp: smtpEmailTransport,
+  file: fileEmailTransport,
+  memory: memoryEmailTransport,
+};
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Configured driver, created on first use
+ */
+export const getEmailTransport = (): EmailTransport => {
+  if (!activeTransport) {
+    const factory = transports[emailConfig.transport];
+    if (!factory) {
+      throw new Error(`Unknown email transport: ${emailConfig.transport}`);
+    }
+    activeTransport = factory();
+  }
+  return activeTransport;
+};
+
+/**
+ * Check the configured driver can deliver (e.g. SMTP login); logs the outcome, never throws
+ */
+export const verifyEmailTransport = async (): Promise<boolean> => {
+  try {
+    const transport = getEmailTransport();
+    if (transport.verify) {
+      await transport.verify();
+    }
+    console.log(`✓ Email service configured successfully (${transport.name})`);
+    return true;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error('❌ Email service configuration error:', errorMessage);
+    return false;
+  }
+};
+
+/**
+ * Hand an email to the configured driver. Resolves with the message ID and throws when
+ * delivery fails; callers normally go through the outbox (sendEmail) instead.
+ */
+export const deliverEmail = async (options: EmailOptions): Promise<string | null> => {
+  return getEmailTransport().send({ ...options, from: emailConfig.from });
+};
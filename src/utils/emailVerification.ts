@@ -0,0 +1,24 @@
+import { authConfig } from '../config/auth';
+import { EmailVerificationRepository } from '../repositories/emailVerificationRepository';
+import { User } from '../types/user';
+import { generateOpaqueToken, hashToken } from './tokenService';
+import { sendVerificationEmail } from './emailService';
+
+/**
+ * Issue a fresh verification token for the user's current email and send the link
+ */
+export const sendEmailVerification = async (user: User): Promise<boolean> => {
+  const token = generateOpaqueToken(32);
+
+  await EmailVerificationRepository.createToken({
+    user_id: user.id,
+    token_hash: hashToken(token),
+    email: user.email,
+    expires_at: new Date(Date.now() + authConfig.emailVerificationTtlHours * 60 * 60 * 1000),
+  });
+
+  const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  const verifyUrl = `${apiUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  return sendVerificationEmail(user.first_name, user.email, verifyUrl, authConfig.emailVerificationTtlHours);
+};
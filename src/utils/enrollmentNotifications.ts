@@ -0,0 +1,31 @@
+import { BatchRepository } from '../repositories/batchRepository';
+import { PromotedEnrollment } from '../types/enrollment';
+import { sendWaitlistPromotionEmail } from './emailService';
+
+/**
+ * Let students who moved off the waitlist know they now hold a seat
+ */
+export const notifyPromoted = async (
+  batchId: number,
+  promoted: PromotedEnrollment[]
+): Promise<void> => {
+  if (promoted.length === 0) {
+    return;
+  }
+
+  const batch = await BatchRepository.getBatchById(batchId);
+  if (!batch) {
+    return;
+  }
+
+  for (const student of promoted) {
+    const name = `${student.first_name} ${student.last_name}`;
+    // Email failures must not undo the (already committed) promotion
+    await sendWaitlistPromotionEmail(
+      name,
+      student.email,
+      batch.program_name,
+      batch.start_date
+    ).catch((error) => console.error('Failed to send waitlist promotion email:', error));
+  }
+};
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { paymentConfig } from '../config/payments';
+import { FAKE_SIGNATURE_HEADER, fakePaymentGateway, signFakeWebhook } from './fakePaymentGateway';
+
+const body = JSON.stringify({
+  id: 'evt_1',
+  type: 'payment.succeeded',
+  data: { reference: 'fake_1_abc', amount: 4999, currency: 'usd' },
+});
+
+const verify = (rawBody: string, signature?: string) =>
+  fakePaymentGateway.verifyWebhook(
+    Buffer.from(rawBody),
+    signature === undefined ? {} : { [FAKE_SIGNATURE_HEADER]: signature }
+  );
+
+describe('fake payment webhooks', () => {
+  it('accepts a signed event and parses it', () => {
+    expect(verify(body, signFakeWebhook(body))).toMatchObject({
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      provider_reference: 'fake_1_abc',
+      amount: 4999,
+      currency: 'USD',
+    });
+  });
+
+  it('rejects a body that does not match the signature', () => {
+    const tampered = body.replace('4999', '1');
+
+    expect(verify(tampered, signFakeWebhook(body))).toBeNull();
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = crypto
+      .createHmac('sha256', 'some-other-secret')
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    expect(verify(body, `t=${timestamp},v1=${signature}`)).toBeNull();
+  });
+
+  it('rejects a replayed event outside the tolerance window', () => {
+    const timestamp = Math.floor(Date.now() / 1000) - paymentConfig.webhookToleranceSeconds - 60;
+
+    expect(verify(body, signFakeWebhook(body, timestamp))).toBeNull();
+  });
+
+  it('rejects a missing or malformed signature header', () => {
+    expect(verify(body)).toBeNull();
+    expect(verify(body, 'garbage')).toBeNull();
+    expect(verify(body, `t=${Math.floor(Date.now() / 1000)},v1=`)).toBeNull();
+  });
+
+  it('rejects a correctly signed body that is not JSON', () => {
+    expect(verify('not json', signFakeWebhook('not json'))).toBeNull();
+  });
+});
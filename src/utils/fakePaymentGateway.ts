@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { paymentConfig } from '../config/payments';
+import { CheckoutSession, Order, PaymentEvent, PaymentGateway } from '../types/order';
+
+/**
+ * Local payment provider for development and tests; no money moves.
+ * Webhooks are signed like most real providers: header
+ * `X-Fake-Signature: t=<unix seconds>,v1=<hex hmac-sha256 of "<t>.<raw body>">`.
+ */
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+const computeSignature = (timestamp: number, rawBody: string): string => {
+  return crypto
+    .createHmac('sha256', paymentConfig.webhookSecret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+};
+
+/**
+ * Build the signature header for a webhook body (used by the fake checkout page and tests)
+ */
+export const signFakeWebhook = (
+  rawBody: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},v1=${computeSignature(timestamp, rawBody)}`;
+};
+
+export const fakePaymentGateway: PaymentGateway = {
+  name: 'fake',
+
+  async createCheckout(order: Order): Promise<CheckoutSession> {
+    const reference = `fake_${order.id}_${crypto.randomBytes(8).toString('hex')}`;
+    return {
+      provider_reference: reference,
+      checkout_url: `${paymentConfig.fakeCheckoutUrl}/${reference}`,
+    };
+  },
+
+  verifyWebhook(rawBody, headers): PaymentEvent | null {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof header !== 'string') {
+      return null;
+    }
+
+    const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)));
+    const timestamp = parseInt(parts.t);
+    if (isNaN(timestamp) || !parts.v1) {
+      return null;
+    }
+
+    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+    if (age > paymentConfig.webhookToleranceSeconds) {
+      return null;
+    }
+
+    const expected = Buffer.from(computeSignature(timestamp, rawBody.toString('utf8')), 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    return {
+      id: String(payload.id),
+      type: payload.type,
+      provider_reference: String(payload.data?.reference),
+      amount: parseInt(payload.data?.amount),
+      currency: String(payload.data?.currency || '').toUpperCase(),
+      failure_reason: payload.data?.failure_reason,
+      payload,
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { emailConfig } from '../config/email';
+import { EmailTransport, OutgoingMessage } from '../types/email';
+
+/**
+ * Development driver: writes each email as a JSON document to EMAIL_FILE_DIR instead of
+ * sending it, so flows can be exercised offline and the output inspected.
+ */
+export const fileEmailTransport = (): EmailTransport => ({
+  name: 'file',
+
+  async send(message: OutgoingMessage): Promise<string | null> {
+    const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const messageId = `<file-${id}@localhost>`;
+
+    await fs.mkdir(emailConfig.fileDir, { recursive: true });
+    await fs.writeFile(
+      path.join(emailConfig.fileDir, `${id}.json`),
+      JSON.stringify(
+        {
+          message_id: messageId,
+          date: new Date().toISOString(),
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text || null,
+          html: message.html,
+          attachments: (message.attachments || []).map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            content: attachment.content.toString('base64'),
+          })),
+        },
+        null,
+        2
+      )
+    );
+
+    return messageId;
+  },
+
+  async verify(): Promise<void> {
+    await fs.mkdir(emailConfig.fileDir, { recursive: true });
+  },
+});
@@ -0,0 +1,164 @@
+import PDFDocument from 'pdfkit';
+import { invoiceConfig } from '../config/invoices';
+import { InvoiceWithItems } from '../types/invoice';
+import { formatMoney } from './invoiceTotals';
+
+// Layout of the invoice page
+const INVOICE_TEMPLATE = {
+  size: 'A4',
+  accentColor: '#667eea',
+  textColor: '#333333',
+  mutedColor: '#666666',
+  ruleColor: '#dddddd',
+};
+
+const formatDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const TITLES: Record<InvoiceWithItems['status'], string> = {
+  ISSUED: 'INVOICE',
+  PAID: 'RECEIPT',
+  VOID: 'INVOICE (VOID)',
+};
+
+/**
+ * Render an invoice to a PDF buffer; paid invoices are titled as receipts
+ */
+export const renderInvoicePdf = (invoice: InvoiceWithItems): Promise<Buffer> => {
+  const template = INVOICE_TEMPLATE;
+  const { issuer } = invoiceConfig;
+  const money = (amount: string | number) => formatMoney(amount, invoice.currency);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: template.size, margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = 50;
+    const right = doc.page.width - 50;
+    const contentWidth = right - left;
+
+    // Header: issuer on the left, document title and number on the right
+    doc.fillColor(template.accentColor).font('Helvetica-Bold').fontSize(20);
+    doc.text(issuer.name, left, 50, { width: contentWidth / 2 });
+    doc.fillColor(template.mutedColor).font('Helvetica').fontSize(10);
+    for (const line of [issuer.address, issuer.email, issuer.taxId && `Tax ID: ${issuer.taxId}`]) {
+      if (line) {
+        doc.text(line, { width: contentWidth / 2 });
+      }
+    }
+
+    doc.fillColor(template.textColor).font('Helvetica-Bold').fontSize(20);
+    doc.text(TITLES[invoice.status], left + contentWidth / 2, 50, {
+      width: contentWidth / 2,
+      align: 'right',
+    });
+    doc.font('Helvetica').fontSize(10);
+    const meta = [
+      `Number: ${invoice.invoice_number}`,
+      `Issued: ${formatDate(invoice.issued_at)}`,
+      invoice.due_at && invoice.status === 'ISSUED' ? `Due: ${formatDate(invoice.due_at)}` : null,
+      invoice.paid_at ? `Paid: ${formatDate(invoice.paid_at)}` : null,
+    ];
+    for (const line of meta) {
+      if (line) {
+        doc.text(line, { width: contentWidth / 2, align: 'right' });
+      }
+    }
+
+    // Bill to
+    doc.moveDown(2);
+    const billToY = Math.max(doc.y, 140);
+    doc.fillColor(template.mutedColor).font('Helvetica-Bold').fontSize(10);
+    doc.text('BILL TO', left, billToY);
+    doc.fillColor(template.textColor).font('Helvetica').fontSize(11);
+    for (const line of [
+      invoice.bill_to_name,
+      invoice.bill_to_company,
+      invoice.bill_to_address,
+      invoice.bill_to_email,
+    ]) {
+      if (line) {
+        doc.text(line, { width: contentWidth / 2 });
+      }
+    }
+
+    // Line items table
+    const columns = [
+      { label: 'Description', x: left, width: 230, align: 'left' as const },
+      { label: 'Qty', x: left + 235, width: 40, align: 'right' as const },
+      { label: 'Unit price', x: left + 280, width: 75, align: 'right' as const },
+      { label: 'Tax', x: left + 360, width: 45, align: 'right' as const },
+      { label: 'Amount', x: left + 410, width: contentWidth - 410, align: 'right' as const },
+    ];
+
+    let y = doc.y + 25;
+    doc.fillColor(template.mutedColor).font('Helvetica-Bold').fontSize(10);
+    for (const column of columns) {
+      doc.text(column.label, column.x, y, { width: column.width, align: column.align });
+    }
+    y += 16;
+    doc.strokeColor(template.ruleColor).lineWidth(1).moveTo(left, y).lineTo(right, y).stroke();
+    y += 8;
+
+    doc.fillColor(template.textColor).font('Helvetica').fontSize(10);
+    for (const item of invoice.items) {
+      const cells = [
+        item.description,
+        String(parseFloat(item.quantity)),
+        money(item.unit_price),
+        `${parseFloat(item.tax_rate)}%`,
+        money(item.line_subtotal),
+      ];
+      const rowHeight = Math.max(
+        ...cells.map((cell, index) => doc.heightOfString(cell, { width: columns[index].width }))
+      );
+
+      if (y + rowHeight > doc.page.height - 150) {
+        doc.addPage();
+        y = 50;
+      }
+
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        doc.text(cell, column.x, y, { width: column.width, align: column.align });
+      });
+      y += rowHeight + 8;
+    }
+
+    doc.strokeColor(template.ruleColor).moveTo(left, y).lineTo(right, y).stroke();
+    y += 10;
+
+    // Totals
+    const totals: [string, string][] = [
+      ['Subtotal', money(invoice.subtotal)],
+      ['Tax', money(invoice.tax_total)],
+      [`Total (${invoice.currency})`, money(invoice.total)],
+    ];
+    totals.forEach(([label, value], index) => {
+      const isGrandTotal = index === totals.length - 1;
+      doc.font(isGrandTotal ? 'Helvetica-Bold' : 'Helvetica').fontSize(isGrandTotal ? 12 : 10);
+      doc.text(label, left + 280, y, { width: 125, align: 'right' });
+      doc.text(value, left + 410, y, { width: contentWidth - 410, align: 'right' });
+      y += isGrandTotal ? 20 : 16;
+    });
+
+    if (invoice.notes) {
+      doc.fillColor(template.mutedColor).font('Helvetica').fontSize(10);
+      doc.text(invoice.notes, left, y + 20, { width: contentWidth });
+    }
+
+    doc
+      .fillColor(template.mutedColor)
+      .fontSize(9)
+      .text(`Thank you for learning with ${issuer.name}.`, left, doc.page.height - 80, {
+        width: contentWidth,
+        align: 'center',
+      });
+
+    doc.end();
+  });
+};
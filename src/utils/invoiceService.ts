@@ -0,0 +1,109 @@
+import { InvoiceRepository } from '../repositories/invoiceRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { invoiceConfig } from '../config/invoices';
+import { isUniqueViolation } from '../config/database';
+import { InvoiceDraft, InvoiceItemInput, InvoiceWithItems } from '../types/invoice';
+import { Order } from '../types/order';
+import { computeInvoiceTotals, formatMoney } from './invoiceTotals';
+import { renderInvoicePdf } from './invoicePdf';
+import { sendInvoiceEmail } from './emailService';
+
+/**
+ * Price and store an invoice
+ */
+export const createInvoice = async (draft: InvoiceDraft): Promise<InvoiceWithItems> => {
+  const totals = computeInvoiceTotals(draft.items, invoiceConfig.defaultTaxRate);
+  return InvoiceRepository.createInvoice(draft, totals);
+};
+
+/**
+ * Email an invoice to its bill-to address with the PDF attached
+ */
+export const emailInvoice = async (invoice: InvoiceWithItems): Promise<boolean> => {
+  const pdf = await renderInvoicePdf(invoice);
+  const sent = await sendInvoiceEmail(
+    invoice.bill_to_name,
+    invoice.bill_to_email,
+    invoice.invoice_number,
+    formatMoney(invoice.total, invoice.currency),
+    invoice.status === 'PAID',
+    pdf
+  );
+
+  if (sent) {
+    await InvoiceRepository.markEmailed(invoice.id);
+  }
+  return sent;
+};
+
+/**
+ * Issue (and email) the receipt for a paid order. Does nothing when the order already has one.
+ */
+export const issueOrderInvoice = async (order: Order): Promise<InvoiceWithItems | null> => {
+  if (await InvoiceRepository.getInvoiceByOrderId(order.id)) {
+    return null;
+  }
+
+  const user = await UserRepository.getUserById(order.user_id);
+  if (!user) {
+    return null;
+  }
+
+  // Course and batch prices are tax-inclusive, so receipt lines carry no extra tax
+  const items: InvoiceItemInput[] = [
+    {
+      description: order.description,
+      quantity: 1,
+      unit_price: parseFloat(order.subtotal),
+      tax_rate: 0,
+    },
+  ];
+  if (parseFloat(order.discount_amount) > 0) {
+    items.push({
+      description: order.coupon_code ? `Discount (${order.coupon_code})` : 'Discount',
+      quantity: 1,
+      unit_price: -parseFloat(order.discount_amount),
+      tax_rate: 0,
+    });
+  }
+
+  let invoice: InvoiceWithItems;
+  try {
+    invoice = await createInvoice({
+      user_id: user.id,
+      order_id: order.id,
+      quote_id: null,
+      bill_to_name: `${user.first_name} ${user.last_name}`,
+      bill_to_email: user.email,
+      bill_to_company: null,
+      bill_to_address: user.address || null,
+      currency: order.currency,
+      status: 'PAID',
+      notes: `Order #${order.id}`,
+      due_at: null,
+      created_by: null,
+      items,
+    });
+  } catch (error: unknown) {
+    // A concurrent delivery of the same payment event issued it first
+    if (isUniqueViolation(error)) {
+      return null;
+    }
+    throw error;
+  }
+
+  await emailInvoice(invoice).catch((error) =>
+    console.error(`Failed to email receipt ${invoice.invoice_number}:`, error)
+  );
+  return invoice;
+};
+
+/**
+ * Void the receipt of a refunded order
+ */
+export const voidOrderInvoice = async (order: Order): Promise<void> => {
+  const invoice = await InvoiceRepository.getInvoiceByOrderId(order.id);
+  if (invoice) {
+    await InvoiceRepository.updateStatus(invoice.id, 'VOID');
+  }
+};
@@ -0,0 +1,46 @@
+import { InvoiceItemInput, InvoiceTotals } from '../types/invoice';
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Price every line and sum the invoice. Tax is computed and rounded per line so the printed
+ * lines always add up to the printed totals.
+ */
+export const computeInvoiceTotals = (
+  items: InvoiceItemInput[],
+  defaultTaxRate: number
+): InvoiceTotals => {
+  const priced = items.map((item) => {
+    const taxRate = item.tax_rate ?? defaultTaxRate;
+    const lineSubtotal = roundMoney(item.quantity * item.unit_price);
+    return {
+      ...item,
+      tax_rate: taxRate,
+      line_subtotal: lineSubtotal,
+      tax_amount: roundMoney((lineSubtotal * taxRate) / 100),
+    };
+  });
+
+  const subtotal = roundMoney(priced.reduce((sum, item) => sum + item.line_subtotal, 0));
+  const taxTotal = roundMoney(priced.reduce((sum, item) => sum + item.tax_amount, 0));
+
+  return {
+    items: priced,
+    subtotal,
+    tax_total: taxTotal,
+    total: roundMoney(subtotal + taxTotal),
+  };
+};
+
+/**
+ * Format an amount in a currency for display, e.g. "$1,250.00"
+ */
+export const formatMoney = (amount: number | string, currency: string): string => {
+  const value = parseFloat(String(amount));
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+  } catch {
+    // Unknown currency code
+    return `${currency} ${value.toFixed(2)}`;
+  }
+};
@@ -0,0 +1,28 @@
+import { EmailTransport, OutgoingMessage } from '../types/email';
+
+export interface CapturedEmail extends OutgoingMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+const captured: CapturedEmail[] = [];
+
+/**
+ * Test driver: keeps sent emails in process memory. Read them with getCapturedEmails()
+ * and reset between tests with clearCapturedEmails().
+ */
+export const memoryEmailTransport = (): EmailTransport => ({
+  name: 'memory',
+
+  async send(message: OutgoingMessage): Promise<string | null> {
+    const messageId = `<memory-${captured.length + 1}-${Date.now()}@localhost>`;
+    captured.push({ ...message, messageId, sentAt: new Date() });
+    return messageId;
+  },
+});
+
+export const getCapturedEmails = (): CapturedEmail[] => [...captured];
+
+export const clearCapturedEmails = (): void => {
+  captured.length = 0;
+};
@@ -0,0 +1,104 @@
+import { newsletterConfig } from '../config/newsletter';
+import { EmailTemplateRepository } from '../repositories/emailTemplateRepository';
+import { NewsletterCampaignRepository } from '../repositories/newsletterCampaignRepository';
+import { CampaignRecipient, NewsletterCampaign } from '../types/newsletter';
+import { processEmailQueue } from './emailQueue';
+import { processCampaigns } from './newsletterCampaigns';
+
+jest.mock('../repositories/emailTemplateRepository', () => ({
+  EmailTemplateRepository: { getPartials: jest.fn(), getActiveTemplateByName: jest.fn() },
+}));
+jest.mock('../repositories/newsletterCampaignRepository', () => ({
+  NewsletterCampaignRepository: {
+    startDueCampaigns: jest.fn(),
+    getSendingCampaigns: jest.fn(),
+    queueRecipientBatch: jest.fn(),
+  },
+}));
+jest.mock('./emailQueue', () => ({ processEmailQueue: jest.fn() }));
+jest.mock('./emailService', () => ({ sendEmail: jest.fn() }));
+
+const campaign = (id: number): NewsletterCampaign =>
+  ({
+    id,
+    subject: 'Issue {{ email }}',
+    html_body: '<p>Hi</p><a href="{{ unsubscribe_url }}">Unsubscribe</a>',
+    text_body: null,
+    layout_name: null,
+    status: 'SENDING',
+  }) as NewsletterCampaign;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.mocked(EmailTemplateRepository.getPartials).mockResolvedValue({});
+  jest.mocked(NewsletterCampaignRepository.startDueCampaigns).mockResolvedValue([]);
+  jest.mocked(NewsletterCampaignRepository.getSendingCampaigns).mockResolvedValue([]);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('processCampaigns', () => {
+  it('queues one throttled batch per sending campaign and wakes the email worker', async () => {
+    jest
+      .mocked(NewsletterCampaignRepository.getSendingCampaigns)
+      .mockResolvedValue([campaign(1), campaign(2)]);
+    jest
+      .mocked(NewsletterCampaignRepository.queueRecipientBatch)
+      .mockResolvedValueOnce({ queued: newsletterConfig.batchSize, completed: false })
+      .mockResolvedValueOnce({ queued: 3, completed: true });
+
+    expect(await processCampaigns()).toBe(newsletterConfig.batchSize + 3);
+
+    const calls = jest.mocked(NewsletterCampaignRepository.queueRecipientBatch).mock.calls;
+    expect(calls.map(([id, limit]) => [id, limit])).toEqual([
+      [1, newsletterConfig.batchSize],
+      [2, newsletterConfig.batchSize],
+    ]);
+    expect(processEmailQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('personalises each email with the recipient address and unsubscribe link', async () => {
+    jest.mocked(NewsletterCampaignRepository.getSendingCampaigns).mockResolvedValue([campaign(1)]);
+    jest
+      .mocked(NewsletterCampaignRepository.queueRecipientBatch)
+      .mockResolvedValue({ queued: 0, completed: false });
+
+    await processCampaigns();
+
+    const buildEmail = jest.mocked(NewsletterCampaignRepository.queueRecipientBatch).mock
+      .calls[0][2];
+    const options = buildEmail({ email: 'a+b@example.com' } as CampaignRecipient);
+
+    expect(options.to).toBe('a+b@example.com');
+    expect(options.subject).toBe('Issue a+b@example.com');
+    expect(options.html).toContain(
+      `${newsletterConfig.unsubscribeUrl}?email=${encodeURIComponent('a+b@example.com')}`
+    );
+  });
+
+  it('does not wake the email worker when nothing was queued', async () => {
+    jest.mocked(NewsletterCampaignRepository.getSendingCampaigns).mockResolvedValue([campaign(1)]);
+    jest
+      .mocked(NewsletterCampaignRepository.queueRecipientBatch)
+      .mockResolvedValue({ queued: 0, completed: true });
+
+    expect(await processCampaigns()).toBe(0);
+    expect(processEmailQueue).not.toHaveBeenCalled();
+  });
+
+  it('survives a failing batch so the next tick can retry', async () => {
+    jest.mocked(NewsletterCampaignRepository.getSendingCampaigns).mockResolvedValue([campaign(1)]);
+    jest
+      .mocked(NewsletterCampaignRepository.queueRecipientBatch)
+      .mockRejectedValue(new Error('deadlock detected'));
+
+    await expect(processCampaigns()).resolves.toBe(0);
+
+    jest
+      .mocked(NewsletterCampaignRepository.queueRecipientBatch)
+      .mockResolvedValue({ queued: 1, completed: true });
+    expect(await processCampaigns()).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import { emailConfig } from '../config/email';
+import { newsletterConfig } from '../config/newsletter';
+import { EmailTemplateRepository } from '../repositories/emailTemplateRepository';
+import { NewsletterCampaignRepository } from '../repositories/newsletterCampaignRepository';
+import { EmailOptions } from '../types/email';
+import { RenderedEmail } from '../types/emailTemplate';
+import { CreateCampaignRequest, NewsletterCampaign } from '../types/newsletter';
+import { compileTemplate } from './emailTemplates';
+import { processEmailQueue } from './emailQueue';
+import { sendEmail } from './emailService';
+import { validateTemplateSource } from './templateEngine';
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let processing = false;
+
+const unsubscribeUrl = (email: string): string =>
+  `${newsletterConfig.unsubscribeUrl}?email=${encodeURIComponent(email)}`;
+
+/**
+ * Compile a campaign once; the returned function renders it for one recipient
+ */
+const compileCampaign = async (
+  campaign: NewsletterCampaign
+): Promise<(email: string) => RenderedEmail> => {
+  const render = await compileTemplate({
+    kind: 'TEMPLATE',
+    subject: campaign.subject,
+    html_body: campaign.html_body,
+    text_body: campaign.text_body,
+    layout_name: campaign.layout_name,
+  });
+  return (email: string) => render({ email, unsubscribe_url: unsubscribeUrl(email) });
+};
+
+/**
+ * Validate campaign content. `existing` supplies current values on update. Bodies and subject
+ * use the email template syntax, with {{ email }} and {{ unsubscribe_url }} per recipient.
+ */
+export const validateCampaign = async (
+  body: Record<string, any>,
+  existing?: NewsletterCampaign
+): Promise<{ data: Partial<CreateCampaignRequest>; error?: string }> => {
+  const data: Partial<CreateCampaignRequest> = {};
+
+  for (const field of ['subject', 'html_body'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'string' || !body[field].trim()) {
+      return { data, error: `${field} must be a non-empty string` };
+    }
+    data[field] = body[field];
+  }
+
+  for (const field of ['text_body', 'layout_name'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return { data, error: `${field} must be a string` };
+    }
+    data[field] = body[field] || null;
+  }
+
+  if (!existing && (!data.subject || !data.html_body)) {
+    return { data, error: 'subject and html_body are required' };
+  }
+
+  if (data.layout_name) {
+    const layout = await EmailTemplateRepository.getActiveTemplateByName(
+      data.layout_name,
+      'LAYOUT'
+    );
+    if (!layout) {
+      return { data, error: `Layout not found: ${data.layout_name}` };
+    }
+  }
+
+  const partialNames = Object.keys(await EmailTemplateRepository.getPartials());
+  const sources: Array<[string, string | null | undefined]> = [
+    ['subject', data.subject],
+    ['html_body', data.html_body],
+    ['text_body', data.text_body],
+  ];
+  for (const [field, source] of sources) {
+    if (!source) continue;
+    const syntaxError = validateTemplateSource(source, partialNames);
+    if (syntaxError) {
+      return { data, error: `${field}: ${syntaxError}` };
+    }
+  }
+
+  return { data };
+};
+
+/**
+ * Start due campaigns, then queue one batch of recipients per sending campaign. Called on
+ * every worker tick, so each campaign goes out at most batchSize emails per interval.
+ */
+export const processCampaigns = async (): Promise<number> => {
+  if (processing) {
+    return 0;
+  }
+
+  processing = true;
+  let queued = 0;
+  try {
+    const started = await NewsletterCampaignRepository.startDueCampaigns();
+    for (const campaign of started) {
+      console.log(`✓ Campaign ${campaign.id} started for ${campaign.recipient_count} recipients`);
+    }
+
+    const campaigns = await NewsletterCampaignRepository.getSendingCampaigns();
+    for (const campaign of campaigns) {
+      const render = await compileCampaign(campaign);
+      const buildEmail = (recipient: { email: string }): EmailOptions => ({
+        to: recipient.email,
+        ...render(recipient.email),
+      });
+
+      const result = await NewsletterCampaignRepository.queueRecipientBatch(
+        campaign.id,
+        newsletterConfig.batchSize,
+        buildEmail,
+        emailConfig.queue.maxAttempts
+      );
+      queued += result.queued;
+      if (result.completed) {
+        console.log(`✓ Campaign ${campaign.id} fully queued`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Newsletter campaign processing failed:', error);
+  } finally {
+    processing = false;
+  }
+
+  if (queued > 0) {
+    processEmailQueue();
+  }
+  return queued;
+};
+
+/**
+ * Send a campaign to a few addresses with a [TEST] subject, regardless of its status
+ */
+export const sendCampaignTest = async (
+  campaign: NewsletterCampaign,
+  emails: string[]
+): Promise<string[]> => {
+  const render = await compileCampaign(campaign);
+  const failed: string[] = [];
+
+  for (const email of emails) {
+    const rendered = render(email);
+    const sent = await sendEmail({
+      to: email,
+      subject: `[TEST] ${rendered.subject}`,
+      html: rendered.html,
+      text: rendered.text,
+    });
+    if (!sent) {
+      failed.push(email);
+    }
+  }
+  return failed;
+};
+
+/**
+ * Start the campaign sender (no-op when NEWSLETTER_WORKER_ENABLED=false or already started)
+ */
+export const startNewsletterWorker = (): void => {
+  if (workerTimer || !newsletterConfig.workerEnabled) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    processCampaigns();
+  }, newsletterConfig.batchIntervalMs);
+  workerTimer.unref();
+  processCampaigns();
+};
+
+/**
+ * Stop the campaign sender
+ */
+export const stopNewsletterWorker = (): void => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
@@ -0,0 +1,86 @@
+import { newsletterConfig } from '../config/newsletter';
+import { NewsletterRepository } from '../repositories/newsletterRepository';
+import { NewsletterSubscriber } from '../types/newsletter';
+import { sendNewsletterConfirmationEmail } from './emailService';
+import { signNewsletterConfirmToken } from './tokenService';
+
+// Expired sign-ups are purged hourly
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Whether a pending subscriber may be sent another confirmation email yet
+ */
+export const canResendConfirmation = (subscriber: NewsletterSubscriber): boolean => {
+  if (!subscriber.confirmation_sent_at) {
+    return true;
+  }
+  const elapsedMs = Date.now() - new Date(subscriber.confirmation_sent_at).getTime();
+  return elapsedMs >= newsletterConfig.confirmResendMinutes * 60 * 1000;
+};
+
+/**
+ * Email a signed confirmation link to a pending subscriber
+ */
+export const sendSubscriptionConfirmation = async (
+  subscriber: NewsletterSubscriber
+): Promise<boolean> => {
+  const token = signNewsletterConfirmToken(subscriber, newsletterConfig.confirmTtlHours);
+
+  const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  const confirmUrl = `${apiUrl}/api/newsletter/confirm?token=${encodeURIComponent(token)}`;
+
+  const sent = await sendNewsletterConfirmationEmail(
+    subscriber.email,
+    confirmUrl,
+    newsletterConfig.confirmTtlHours
+  );
+  if (sent) {
+    await NewsletterRepository.markConfirmationSent(subscriber.id);
+  }
+  return sent;
+};
+
+/**
+ * Remove sign-ups that were not confirmed within the confirmation window
+ */
+export const expirePendingSubscriptions = async (): Promise<number> => {
+  try {
+    const expired = await NewsletterRepository.deleteExpiredPending(
+      newsletterConfig.confirmTtlHours
+    );
+    if (expired > 0) {
+      console.log(`✓ Removed ${expired} unconfirmed newsletter sign-ups`);
+    }
+    return expired;
+  } catch (error) {
+    console.error('❌ Failed to remove unconfirmed newsletter sign-ups:', error);
+    return 0;
+  }
+};
+
+/**
+ * Start purging expired sign-ups (no-op when NEWSLETTER_WORKER_ENABLED=false or already started)
+ */
+export const startSubscriptionCleanup = (): void => {
+  if (cleanupTimer || !newsletterConfig.workerEnabled) {
+    return;
+  }
+
+  cleanupTimer = setInterval(() => {
+    expirePendingSubscriptions();
+  }, CLEANUP_INTERVAL_MS);
+  cleanupTimer.unref();
+  expirePendingSubscriptions();
+};
+
+/**
+ * Stop purging expired sign-ups
+ */
+export const stopSubscriptionCleanup = (): void => {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+};
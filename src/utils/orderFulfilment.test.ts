@@ -0,0 +1,137 @@
+import { CouponRepository } from '../repositories/couponRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import { Order } from '../types/order';
+import { notifyPromoted } from './enrollmentNotifications';
+import { issueOrderInvoice, voidOrderInvoice } from './invoiceService';
+import { fulfilOrder, handleOrderTransition } from './orderFulfilment';
+
+jest.mock('../repositories/couponRepository', () => ({
+  CouponRepository: { releaseRedemption: jest.fn() },
+}));
+jest.mock('../repositories/enrollmentRepository', () => ({
+  EnrollmentRepository: { enroll: jest.fn(), withdraw: jest.fn() },
+}));
+jest.mock('../repositories/orderRepository', () => ({
+  OrderRepository: { markFulfilled: jest.fn() },
+}));
+jest.mock('./enrollmentNotifications', () => ({ notifyPromoted: jest.fn() }));
+jest.mock('./invoiceService', () => ({
+  issueOrderInvoice: jest.fn(),
+  voidOrderInvoice: jest.fn(),
+}));
+
+const order = (overrides: Partial<Order> = {}): Order =>
+  ({
+    id: 31,
+    user_id: 7,
+    batch_id: 4,
+    amount: '199.00',
+    status: 'PAID',
+    coupon_id: null,
+    ...overrides,
+  }) as Order;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.mocked(issueOrderInvoice).mockResolvedValue(undefined as never);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('fulfilOrder', () => {
+  it('enrolls the buyer and marks the order fulfilled', async () => {
+    jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome: 'ENROLLED' });
+
+    await fulfilOrder(order());
+
+    expect(EnrollmentRepository.enroll).toHaveBeenCalledWith(4, 7);
+    expect(OrderRepository.markFulfilled).toHaveBeenCalledWith(31);
+  });
+
+  it('counts a waitlist place or an existing seat as fulfilled', async () => {
+    for (const outcome of ['WAITLISTED', 'ALREADY_ENROLLED', 'ALREADY_WAITLISTED'] as const) {
+      jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome });
+      await fulfilOrder(order());
+    }
+
+    expect(OrderRepository.markFulfilled).toHaveBeenCalledTimes(3);
+  });
+
+  it('leaves a paid order for a closed or missing batch unfulfilled', async () => {
+    for (const outcome of ['BATCH_CLOSED', 'BATCH_NOT_FOUND'] as const) {
+      jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome });
+      await fulfilOrder(order());
+    }
+
+    expect(OrderRepository.markFulfilled).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleOrderTransition', () => {
+  it('fulfils a paid order and issues its receipt', async () => {
+    jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome: 'ENROLLED' });
+
+    await handleOrderTransition(order());
+
+    expect(OrderRepository.markFulfilled).toHaveBeenCalledWith(31);
+    expect(issueOrderInvoice).toHaveBeenCalledWith(order());
+  });
+
+  it('issues no receipt for a free order', async () => {
+    jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome: 'ENROLLED' });
+
+    await handleOrderTransition(order({ amount: '0.00' }));
+
+    expect(OrderRepository.markFulfilled).toHaveBeenCalled();
+    expect(issueOrderInvoice).not.toHaveBeenCalled();
+  });
+
+  it('keeps the enrollment when the receipt cannot be issued', async () => {
+    jest.mocked(EnrollmentRepository.enroll).mockResolvedValue({ outcome: 'ENROLLED' });
+    jest.mocked(issueOrderInvoice).mockRejectedValue(new Error('pdf failed'));
+
+    await expect(handleOrderTransition(order())).resolves.toBeUndefined();
+    expect(OrderRepository.markFulfilled).toHaveBeenCalled();
+  });
+
+  it('withdraws the buyer of a refunded order and seats the next student', async () => {
+    const promoted = [{ id: 20, user_id: 9 }];
+    jest
+      .mocked(EnrollmentRepository.withdraw)
+      .mockResolvedValue({ outcome: 'WITHDRAWN', promoted } as never);
+
+    await handleOrderTransition(order({ status: 'REFUNDED' }));
+
+    expect(EnrollmentRepository.withdraw).toHaveBeenCalledWith(4, 7);
+    expect(notifyPromoted).toHaveBeenCalledWith(4, promoted);
+    expect(voidOrderInvoice).toHaveBeenCalled();
+  });
+
+  it('has no side effects for a cancelled order without a coupon', async () => {
+    await handleOrderTransition(order({ status: 'CANCELLED' }));
+
+    expect(EnrollmentRepository.enroll).not.toHaveBeenCalled();
+    expect(EnrollmentRepository.withdraw).not.toHaveBeenCalled();
+    expect(CouponRepository.releaseRedemption).not.toHaveBeenCalled();
+  });
+
+  it('gives back the coupon of an abandoned or declined checkout', async () => {
+    await handleOrderTransition(order({ status: 'CANCELLED', coupon_id: 5 }));
+    await handleOrderTransition(order({ id: 32, status: 'FAILED', coupon_id: 5 }));
+
+    expect(CouponRepository.releaseRedemption).toHaveBeenCalledWith(31);
+    expect(CouponRepository.releaseRedemption).toHaveBeenCalledWith(32);
+  });
+
+  it('keeps the coupon of a refunded order redeemed', async () => {
+    jest
+      .mocked(EnrollmentRepository.withdraw)
+      .mockResolvedValue({ outcome: 'NOT_ENROLLED' } as never);
+
+    await handleOrderTransition(order({ status: 'REFUNDED', coupon_id: 5 }));
+
+    expect(CouponRepository.releaseRedemption).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { CouponRepository } from '../repositories/couponRepository';
+import { EnrollmentRepository } from '../repositories/enrollmentRepository';
+import { OrderRepository } from '../repositories/orderRepository';
+import { Order } from '../types/order';
+import { notifyPromoted } from './enrollmentNotifications';
+import { issueOrderInvoice, voidOrderInvoice } from './invoiceService';
+
+/**
+ * Enroll the buyer of a paid order. Safe to call more than once: enrolling twice is a no-op.
+ */
+export const fulfilOrder = async (order: Order): Promise<void> => {
+  const { outcome } = await EnrollmentRepository.enroll(order.batch_id, order.user_id);
+
+  if (outcome === 'BATCH_NOT_FOUND' || outcome === 'BATCH_CLOSED') {
+    // Paid but nowhere to seat the student: leave unfulfilled for an admin to enroll or refund
+    console.error(
+      `Order ${order.id} is paid but batch ${order.batch_id} is not open for enrollment`
+    );
+    return;
+  }
+
+  // A full batch puts the buyer on the waitlist; the seat is theirs once one frees up
+  await OrderRepository.markFulfilled(order.id);
+};
+
+/**
+ * Withdraw the buyer of a refunded order, handing the seat to the waitlist
+ */
+export const revokeOrder = async (order: Order): Promise<void> => {
+  const { outcome, promoted } = await EnrollmentRepository.withdraw(order.batch_id, order.user_id);
+
+  if (outcome === 'WITHDRAWN' && promoted) {
+    await notifyPromoted(order.batch_id, promoted);
+  }
+};
+
+/**
+ * Side effects of an order entering a new status
+ */
+export const handleOrderTransition = async (order: Order): Promise<void> => {
+  if (order.status === 'PAID') {
+    await fulfilOrder(order);
+    // Free orders need no receipt
+    if (parseFloat(order.amount) > 0) {
+      await issueOrderInvoice(order).catch((error) =>
+        console.error(`Failed to issue receipt for order ${order.id}:`, error)
+      );
+    }
+  } else if (order.status === 'REFUNDED') {
+    await revokeOrder(order);
+    await voidOrderInvoice(order);
+  } else if ((order.status === 'CANCELLED' || order.status === 'FAILED') && order.coupon_id) {
+    // An abandoned or declined checkout must not use up the coupon
+    await CouponRepository.releaseRedemption(order.id);
+  }
+};
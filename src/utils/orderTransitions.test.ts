@@ -0,0 +1,37 @@
+import { ORDER_STATUSES } from '../types/order';
+import { canTransitionOrder } from './orderTransitions';
+
+describe('canTransitionOrder', () => {
+  it('lets a pending order be paid, declined or cancelled', () => {
+    expect(canTransitionOrder('PENDING', 'PAID')).toBe(true);
+    expect(canTransitionOrder('PENDING', 'FAILED')).toBe(true);
+    expect(canTransitionOrder('PENDING', 'CANCELLED')).toBe(true);
+    expect(canTransitionOrder('PENDING', 'REFUNDED')).toBe(false);
+  });
+
+  it('only refunds a paid order', () => {
+    expect(canTransitionOrder('PAID', 'REFUNDED')).toBe(true);
+    expect(canTransitionOrder('PAID', 'FAILED', true)).toBe(false);
+    expect(canTransitionOrder('PAID', 'CANCELLED')).toBe(false);
+  });
+
+  it('never moves an order to the status it already has', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrder(status, status, true)).toBe(false);
+    }
+  });
+
+  it('keeps failed and refunded orders final', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrder('FAILED', status, true)).toBe(false);
+      expect(canTransitionOrder('REFUNDED', status, true)).toBe(false);
+    }
+  });
+
+  it('lets only a provider event mark a cancelled checkout paid', () => {
+    expect(canTransitionOrder('CANCELLED', 'PAID', true)).toBe(true);
+    expect(canTransitionOrder('CANCELLED', 'PAID')).toBe(false);
+    expect(canTransitionOrder('CANCELLED', 'FAILED', true)).toBe(false);
+    expect(canTransitionOrder('CANCELLED', 'REFUNDED', true)).toBe(false);
+  });
+});
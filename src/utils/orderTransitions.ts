@@ -0,0 +1,16 @@
+import { OrderStatus, ORDER_TRANSITIONS, PROVIDER_EVENT_TRANSITIONS } from '../types/order';
+
+/**
+ * Whether an order may move from one status to another. Provider events may also revive a
+ * cancelled checkout the customer paid for anyway.
+ */
+export const canTransitionOrder = (
+  from: OrderStatus,
+  to: OrderStatus,
+  fromProviderEvent: boolean = false
+): boolean => {
+  if (ORDER_TRANSITIONS[from].includes(to)) {
+    return true;
+  }
+  return fromProviderEvent && (PROVIDER_EVENT_TRANSITIONS[from] || []).includes(to);
+};
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { hashPassword, needsRehash, verifyPassword } from './passwordHasher';
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('hashPassword / verifyPassword', () => {
+  it('verifies the original password only', async () => {
+    const stored = await hashPassword('correct horse battery staple');
+
+    expect(stored).toMatch(/^scrypt\$\d+\$\d+\$\d+\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    await expect(verifyPassword('correct horse battery staple', stored)).resolves.toBe(true);
+    await expect(verifyPassword('correct horse battery stapler', stored)).resolves.toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    const first = await hashPassword('same password');
+    const second = await hashPassword('same password');
+
+    expect(first).not.toEqual(second);
+  });
+
+  it('accepts legacy SHA-256 hashes', async () => {
+    await expect(verifyPassword('legacy-pass', sha256('legacy-pass'))).resolves.toBe(true);
+    await expect(verifyPassword('other-pass', sha256('legacy-pass'))).resolves.toBe(false);
+  });
+
+  it('rejects empty and malformed stored hashes', async () => {
+    await expect(verifyPassword('anything', '')).resolves.toBe(false);
+    await expect(verifyPassword('anything', 'plaintext')).resolves.toBe(false);
+    await expect(verifyPassword('anything', 'scrypt$16384$8$1$c2FsdA==')).resolves.toBe(false);
+  });
+
+  it('rejects a hash whose stored key was truncated', async () => {
+    const stored = await hashPassword('secret-value');
+    const truncated = stored.slice(0, stored.lastIndexOf('$') + 5);
+
+    await expect(verifyPassword('secret-value', truncated)).resolves.toBe(false);
+  });
+});
+
+describe('needsRehash', () => {
+  it('is false for hashes made with the current parameters', async () => {
+    expect(needsRehash(await hashPassword('up to date'))).toBe(false);
+  });
+
+  it('is true for legacy hashes and older cost parameters', async () => {
+    const current = await hashPassword('outdated');
+    const [prefix, , r, p, salt, hash] = current.split('$');
+
+    expect(needsRehash(sha256('outdated'))).toBe(true);
+    expect(needsRehash([prefix, 1024, r, p, salt, hash].join('$'))).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+
+/**
+ * Password hashing with scrypt.
+ * Hashes are encoded as `scrypt$<N>$<r>$<p>$<salt>$<hash>` (base64 salt/hash) so the
+ * cost parameters can be raised later without invalidating stored passwords.
+ */
+
+const SCRYPT_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const currentParams = {
+  N: parseInt(process.env.PASSWORD_SCRYPT_COST || '32768'),
+  r: parseInt(process.env.PASSWORD_SCRYPT_BLOCK_SIZE || '8'),
+  p: parseInt(process.env.PASSWORD_SCRYPT_PARALLELIZATION || '1'),
+};
+
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (err, derivedKey) => (err ? reject(err) : resolve(derivedKey))
+    );
+  });
+};
+
+/**
+ * Unsalted SHA-256 hex digests written before scrypt was introduced
+ */
+const isLegacyHash = (stored: string): boolean => /^[a-f0-9]{64}$/i.test(stored);
+
+const parseScryptHash = (
+  stored: string
+): { params: ScryptParams; salt: Buffer; hash: Buffer } | null => {
+  const parts = stored.split('$');
+  if (parts.length !== 6 || parts[0] !== SCRYPT_PREFIX) {
+    return null;
+  }
+
+  const [, N, r, p, salt, hash] = parts;
+  return {
+    params: { N: parseInt(N), r: parseInt(r), p: parseInt(p) },
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+};
+
+/**
+ * Hash a password with the current scrypt parameters
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, currentParams);
+  const { N, r, p } = currentParams;
+  return [SCRYPT_PREFIX, N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+/**
+ * Check a password against a stored hash (scrypt or legacy SHA-256)
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!stored) {
+    return false;
+  }
+
+  if (isLegacyHash(stored)) {
+    const candidate = crypto.createHash('sha256').update(password).digest();
+    return crypto.timingSafeEqual(candidate, Buffer.from(stored, 'hex'));
+  }
+
+  const parsed = parseScryptHash(stored);
+  if (!parsed) {
+    return false;
+  }
+
+  const candidate = await deriveKey(password, parsed.salt, parsed.params);
+  return candidate.length === parsed.hash.length && crypto.timingSafeEqual(candidate, parsed.hash);
+};
+
+/**
+ * Whether a stored hash should be replaced after the next successful login
+ */
+export const needsRehash = (stored: string): boolean => {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) {
+    return true;
+  }
+
+  const { N, r, p } = parsed.params;
+  return N !== currentParams.N || r !== currentParams.r || p !== currentParams.p;
+};
@@ -0,0 +1,26 @@
+import { validatePassword } from './passwordPolicy';
+
+describe('validatePassword', () => {
+  it('accepts a long, uncommon password', () => {
+    expect(validatePassword('plum-orbit-cascade-41')).toEqual([]);
+  });
+
+  it('enforces the length limits', () => {
+    expect(validatePassword('short')).toContain('Password must be at least 8 characters');
+    expect(validatePassword('x'.repeat(129))).toContain('Password must be at most 128 characters');
+  });
+
+  it('rejects common passwords regardless of case', () => {
+    expect(validatePassword('PassWord')).toContain('Password is too common');
+  });
+
+  it('rejects passwords containing the name or email', () => {
+    const errors = validatePassword('ada.lovelace-1815', ['ada.lovelace@example.com', 'Ada']);
+
+    expect(errors).toContain('Password must not contain your name or email');
+  });
+
+  it('ignores personal values too short to matter', () => {
+    expect(validatePassword('plum-orbit-cascade-41', ['Al', ''])).toEqual([]);
+  });
+});
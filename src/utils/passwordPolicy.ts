@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+
+const MIN_LENGTH = parseInt(process.env.PASSWORD_MIN_LENGTH || '8');
+const MAX_LENGTH = 128;
+
+// Resolves to <project root>/data from both src/utils and dist/utils
+const BLOCKLIST_FILE =
+  process.env.PASSWORD_BLOCKLIST_FILE || path.join(__dirname, '..', '..', 'data', 'common-passwords.txt');
+
+let blocklist: Set<string> | null = null;
+
+/**
+ * Load the common/breached password list once, one password per line
+ */
+const getBlocklist = (): Set<string> => {
+  if (blocklist) {
+    return blocklist;
+  }
+
+  try {
+    const contents = fs.readFileSync(BLOCKLIST_FILE, 'utf8');
+    blocklist = new Set(
+      contents
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith('#'))
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.warn(`⚠️ Password blocklist not loaded (${BLOCKLIST_FILE}):`, errorMessage);
+    blocklist = new Set();
+  }
+
+  return blocklist;
+};
+
+/**
+ * Validate a new password, returning the list of violated rules (empty when valid)
+ * @param password - Candidate password
+ * @param personalInfo - Values the password must not contain (email, names)
+ */
+export const validatePassword = (password: string, personalInfo: string[] = []): string[] => {
+  const errors: string[] = [];
+
+  if (typeof password !== 'string') {
+    return ['Password must be a string'];
+  }
+
+  if (password.length < MIN_LENGTH) {
+    errors.push(`Password must be at least ${MIN_LENGTH} characters`);
+  }
+
+  if (password.length > MAX_LENGTH) {
+    errors.push(`Password must be at most ${MAX_LENGTH} characters`);
+  }
+
+  if (getBlocklist().has(password.toLowerCase())) {
+    errors.push('Password is too common');
+  }
+
+  const lowered = password.toLowerCase();
+  const containsPersonalInfo = personalInfo
+    .map((value) => (value || '').toLowerCase().split('@')[0])
+    .filter((value) => value.length >= 3)
+    .some((value) => lowered.includes(value));
+  if (containsPersonalInfo) {
+    errors.push('Password must not contain your name or email');
+  }
+
+  return errors;
+};
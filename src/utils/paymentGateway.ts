@@ -0,0 +1,37 @@
+import { paymentConfig } from '../config/payments';
+import { PaymentGateway } from '../types/order';
+import { fakePaymentGateway } from './fakePaymentGateway';
+
+/**
+ * Installed payment providers by name. A real provider implements PaymentGateway and is
+ * added here; PAYMENT_PROVIDER picks the one used for new checkouts. The fake provider is only
+ * installed when FAKE_PAYMENTS_ENABLED allows it.
+ */
+const gateways: Record<string, PaymentGateway> = {
+  ...(paymentConfig.fakeEnabled ? { [fakePaymentGateway.name]: fakePaymentGateway } : {}),
+};
+
+/**
+ * Look up a provider by name (webhooks name their provider in the URL)
+ */
+export const getPaymentGateway = (name: string): PaymentGateway | null => {
+  return gateways[name] || null;
+};
+
+/**
+ * Provider used for new checkouts
+ */
+export const getDefaultPaymentGateway = (): PaymentGateway => {
+  const gateway = getPaymentGateway(paymentConfig.provider);
+  if (!gateway) {
+    throw new Error(`Payment provider not available: ${paymentConfig.provider}`);
+  }
+  return gateway;
+};
+
+/**
+ * Convert a decimal amount to the minor units (cents) providers work in
+ */
+export const toMinorUnits = (amount: string | number): number => {
+  return Math.round(parseFloat(String(amount)) * 100);
+};
@@ -0,0 +1,52 @@
+import { Batch } from '../types/batch';
+import { Course } from '../types/course';
+import { getBatchPrice, getCoursePrice, getSeatPrice } from './pricing';
+
+// DECIMAL columns arrive as strings, so fixtures use them too
+const batch = (overrides: Record<string, unknown> = {}): Batch =>
+  ({ id: 7, course_id: 3, price: '0.00', discount_price: null, ...overrides }) as unknown as Batch;
+
+const course = (overrides: Record<string, unknown> = {}): Course =>
+  ({
+    id: 3,
+    price: '199.00',
+    discount_flag: 0,
+    discounted_price: null,
+    is_free_course: 0,
+    ...overrides,
+  }) as unknown as Course;
+
+describe('getBatchPrice', () => {
+  it('uses the discount price only when it is below the list price', () => {
+    expect(getBatchPrice(batch({ price: '300.00', discount_price: '250.00' }))).toBe(250);
+    expect(getBatchPrice(batch({ price: '300.00', discount_price: '350.00' }))).toBe(300);
+  });
+});
+
+describe('getCoursePrice', () => {
+  it('makes free courses cost nothing', () => {
+    expect(getCoursePrice(course({ is_free_course: 1 }))).toBe(0);
+  });
+
+  it('applies the discounted price only when discount_flag is set', () => {
+    expect(getCoursePrice(course({ discounted_price: '149.00' }))).toBe(199);
+    expect(getCoursePrice(course({ discount_flag: 1, discounted_price: '149.00' }))).toBe(149);
+  });
+});
+
+describe('getSeatPrice', () => {
+  it('charges the batch price when the batch has one, even for a free course', () => {
+    expect(getSeatPrice(batch({ price: '300.00' }), course())).toBe(300);
+    expect(getSeatPrice(batch({ price: '300.00' }), course({ is_free_course: 1 }))).toBe(300);
+    expect(getSeatPrice(batch({ price: '300.00', discount_price: '250.00' }), course())).toBe(250);
+  });
+
+  it('falls back to the course price for a batch without its own price', () => {
+    expect(getSeatPrice(batch(), course())).toBe(199);
+    expect(getSeatPrice(batch(), course({ is_free_course: 1 }))).toBe(0);
+  });
+
+  it('is free when neither the batch nor a course has a price', () => {
+    expect(getSeatPrice(batch(), null)).toBe(0);
+  });
+});
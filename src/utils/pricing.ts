@@ -0,0 +1,46 @@
+import { Batch } from '../types/batch';
+import { Course } from '../types/course';
+
+/**
+ * DECIMAL columns come back from pg as strings
+ */
+const toAmount = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const amount = parseFloat(String(value));
+  return isNaN(amount) ? null : amount;
+};
+
+/**
+ * Price a student pays for a batch seat: the discount price when one is set below the list price
+ */
+export const getBatchPrice = (batch: Batch): number => {
+  const price = toAmount(batch.price) ?? 0;
+  const discount = toAmount(batch.discount_price);
+  return discount !== null && discount < price ? discount : price;
+};
+
+/**
+ * Price a student pays for a course: free courses cost nothing, discount_flag enables discounted_price
+ */
+export const getCoursePrice = (course: Course): number => {
+  if (course.is_free_course === 1) {
+    return 0;
+  }
+
+  const price = toAmount(course.price) ?? 0;
+  const discount = toAmount(course.discounted_price);
+  return course.discount_flag === 1 && discount !== null ? discount : price;
+};
+
+/**
+ * Price of a seat in a batch, whichever way it is bought: a batch with its own price charges that,
+ * otherwise the seat costs what its course does
+ */
+export const getSeatPrice = (batch: Batch, course: Course | null): number => {
+  if ((toAmount(batch.price) ?? 0) > 0) {
+    return getBatchPrice(batch);
+  }
+  return course ? getCoursePrice(course) : 0;
+};
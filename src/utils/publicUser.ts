@@ -0,0 +1,11 @@
+import { User } from '../types/user';
+import { PublicUser } from '../types/auth';
+
+/**
+ * Strip credentials from a user row before it leaves the API
+ */
+export const toPublicUser = (user: User): PublicUser => {
+  const publicUser: Partial<User> = { ...user };
+  delete publicUser.password_hash;
+  return publicUser as PublicUser;
+};
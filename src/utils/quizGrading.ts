@@ -0,0 +1,189 @@
+import {
+  CreateQuestionRequest,
+  GradedAttempt,
+  PublicQuizQuestion,
+  QuestionAnswer,
+  QuestionResult,
+  QuizQuestion,
+  QUESTION_TYPES,
+} from '../types/quiz';
+
+const isOptionIndex = (value: unknown, options: string[]): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < options.length;
+
+// Case, surrounding and repeated whitespace do not matter for short answers
+const normalizeText = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Validate a question definition. `existing` supplies current values on update, since the
+ * type, options and answer key must stay consistent with each other.
+ */
+export const validateQuestion = (
+  body: Record<string, any>,
+  existing?: QuizQuestion
+): { data: Partial<CreateQuestionRequest>; error?: string } => {
+  const data: Partial<CreateQuestionRequest> = {};
+
+  if (body.question_type !== undefined) {
+    if (!QUESTION_TYPES.includes(body.question_type)) {
+      return { data, error: `Invalid question_type. Must be one of: ${QUESTION_TYPES.join(', ')}` };
+    }
+    data.question_type = body.question_type;
+  }
+
+  if (body.prompt !== undefined) {
+    if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+      return { data, error: 'prompt cannot be empty' };
+    }
+    data.prompt = body.prompt.trim();
+  }
+
+  if (body.explanation !== undefined) {
+    data.explanation = body.explanation;
+  }
+
+  for (const field of ['points', 'sort_order'] as const) {
+    if (body[field] === undefined) continue;
+    if (!Number.isInteger(body[field]) || body[field] < (field === 'points' ? 1 : 0)) {
+      return {
+        data,
+        error: `${field} must be a ${field === 'points' ? 'positive' : 'non-negative'} integer`,
+      };
+    }
+    data[field] = body[field];
+  }
+
+  if (body.options !== undefined) {
+    data.options = body.options;
+  }
+  if (body.correct_answers !== undefined) {
+    data.correct_answers = body.correct_answers;
+  }
+
+  const type = data.question_type ?? existing?.question_type;
+  const options = data.options !== undefined ? data.options : existing?.options;
+  const answers = data.correct_answers ?? existing?.correct_answers;
+
+  if (!Array.isArray(answers) || answers.length === 0) {
+    return { data, error: 'correct_answers must be a non-empty array' };
+  }
+
+  if (type === 'MULTIPLE_CHOICE' || type === 'MULTI_SELECT') {
+    if (
+      !Array.isArray(options) ||
+      options.length < 2 ||
+      !options.every((option) => typeof option === 'string' && option.trim())
+    ) {
+      return { data, error: 'options must be an array of at least two non-empty strings' };
+    }
+    if (!answers.every((answer) => isOptionIndex(answer, options))) {
+      return { data, error: 'correct_answers must be indexes into options' };
+    }
+    if (type === 'MULTIPLE_CHOICE' && answers.length !== 1) {
+      return { data, error: 'MULTIPLE_CHOICE questions have exactly one correct answer' };
+    }
+  } else {
+    // Only choice questions carry options
+    data.options = null;
+  }
+
+  if (type === 'TRUE_FALSE' && (answers.length !== 1 || typeof answers[0] !== 'boolean')) {
+    return { data, error: 'TRUE_FALSE questions take correct_answers of [true] or [false]' };
+  }
+
+  if (
+    type === 'SHORT_ANSWER' &&
+    !answers.every((answer) => typeof answer === 'string' && answer.trim())
+  ) {
+    return {
+      data,
+      error: 'SHORT_ANSWER questions take correct_answers as accepted answer strings',
+    };
+  }
+
+  return { data };
+};
+
+/**
+ * Whether a submitted answer matches the question's answer key
+ */
+const isCorrect = (question: QuizQuestion, answer: QuestionAnswer | undefined): boolean => {
+  if (answer === undefined || answer === null) {
+    return false;
+  }
+
+  const key = question.correct_answers as unknown[];
+
+  if (question.question_type === 'MULTIPLE_CHOICE' || question.question_type === 'TRUE_FALSE') {
+    return answer === key[0];
+  }
+
+  if (question.question_type === 'MULTI_SELECT') {
+    // All-or-nothing: exactly the correct set of options
+    if (!Array.isArray(answer)) return false;
+    const selected = new Set(answer);
+    return selected.size === key.length && key.every((option) => selected.has(option as number));
+  }
+
+  if (typeof answer !== 'string') {
+    return false;
+  }
+  const normalized = normalizeText(answer);
+  return key.some((accepted) => normalizeText(accepted as string) === normalized);
+};
+
+/**
+ * Score a submission against the quiz's questions
+ */
+export const gradeAttempt = (
+  questions: QuizQuestion[],
+  answers: Record<string, QuestionAnswer>,
+  passPercentage: number
+): GradedAttempt => {
+  const results: QuestionResult[] = questions.map((question) => {
+    const correct = isCorrect(question, answers[String(question.id)]);
+    return {
+      question_id: Number(question.id),
+      correct,
+      points_awarded: correct ? question.points : 0,
+      points: question.points,
+    };
+  });
+
+  const score = results.reduce((sum, result) => sum + result.points_awarded, 0);
+  const maxScore = results.reduce((sum, result) => sum + result.points, 0);
+  const percentage = maxScore > 0 ? Math.round((score / maxScore) * 10000) / 100 : 0;
+
+  // Only answers to this quiz's questions are stored
+  const storedAnswers: Record<string, QuestionAnswer> = {};
+  for (const question of questions) {
+    const answer = answers[String(question.id)];
+    if (answer !== undefined) {
+      storedAnswers[String(question.id)] = answer;
+    }
+  }
+
+  return {
+    answers: storedAnswers,
+    results,
+    score,
+    max_score: maxScore,
+    percentage,
+    passed: percentage >= passPercentage,
+  };
+};
+
+/**
+ * Strip the answer key from a question before showing it to students
+ */
+export const toPublicQuestion = (question: QuizQuestion): PublicQuizQuestion => ({
+  id: question.id,
+  quiz_id: question.quiz_id,
+  question_type: question.question_type,
+  prompt: question.prompt,
+  options: question.options,
+  points: question.points,
+  sort_order: question.sort_order,
+  created_at: question.created_at,
+  updated_at: question.updated_at,
+});
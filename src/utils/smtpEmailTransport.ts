@@ -0,0 +1,56 @@
+import nodemailer from 'nodemailer';
+import { emailConfig } from '../config/email';
+import { EmailTransport, OutgoingMessage } from '../types/email';
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+}
+
+/**
+ * Build an SMTP driver. The nodemailer transporter is created on first use, so importing
+ * or selecting this driver never opens a connection.
+ */
+export const createSmtpTransport = (name: string, options: SmtpOptions): EmailTransport => {
+  let transporter: nodemailer.Transporter | null = null;
+
+  const getTransporter = (): nodemailer.Transporter => {
+    if (!transporter) {
+      transporter = nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      });
+    }
+    return transporter;
+  };
+
+  return {
+    name,
+
+    async send(message: OutgoingMessage): Promise<string | null> {
+      const info = await getTransporter().sendMail(message);
+      return info.messageId || null;
+    },
+
+    async verify(): Promise<void> {
+      await getTransporter().verify();
+    },
+  };
+};
+
+export const brevoEmailTransport = (): EmailTransport =>
+  createSmtpTransport('brevo', {
+    host: 'smtp-relay.brevo.com',
+    port: 587,
+    secure: false, // TLS
+    user: emailConfig.brevo.user,
+    pass: emailConfig.brevo.pass,
+  });
+
+export const smtpEmailTransport = (): EmailTransport =>
+  createSmtpTransport('smtp', emailConfig.smtp);
@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+import { captchaConfig } from '../config/captcha';
+import { CaptchaVerifier, CaptchaVerificationResult } from '../types/captcha';
+
+/**
+ * Local captcha verifier for development and tests: accepts only the configured
+ * CAPTCHA_STUB_TOKEN, so clients and tests can exercise both outcomes.
+ */
+export const stubCaptchaVerifier: CaptchaVerifier = {
+  name: 'stub',
+
+  async verify(token: string): Promise<CaptchaVerificationResult> {
+    const expected = Buffer.from(captchaConfig.stubToken);
+    const received = Buffer.from(token);
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      return { success: false, error: 'Captcha verification failed' };
+    }
+    return { success: true };
+  },
+};
@@ -0,0 +1,82 @@
+import {
+  escapeHtml,
+  htmlToText,
+  renderTemplateString,
+  validateTemplateSource,
+} from './templateEngine';
+
+const html = { mode: 'html' as const };
+const text = { mode: 'text' as const };
+
+describe('escaping', () => {
+  it('escapes every HTML-significant character', () => {
+    expect(escapeHtml('<a href="x" title=\'y\'>&</a>')).toBe(
+      '&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;'
+    );
+  });
+
+  it('escapes variables in html mode and keeps line breaks', () => {
+    const rendered = renderTemplateString(
+      '<p>{{ message }}</p>',
+      { message: '<script>alert(1)</script>\nbye' },
+      html
+    );
+
+    expect(rendered).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;<br>bye</p>');
+  });
+
+  it('escapes attribute values so quotes cannot break out', () => {
+    const rendered = renderTemplateString('<a href="{{ url }}">', { url: '" onclick="x' }, html);
+
+    expect(rendered).toBe('<a href="&quot; onclick=&quot;x">');
+  });
+
+  it('leaves variables as-is in text mode', () => {
+    expect(renderTemplateString('Hi {{ name }}', { name: 'Tom & <Jerry>' }, text)).toBe(
+      'Hi Tom & <Jerry>'
+    );
+  });
+
+  it('does not evaluate tags that appear inside variable values', () => {
+    const rendered = renderTemplateString(
+      '{{ name }}',
+      { name: '{{{ content }}}{{> footer }}' },
+      { ...html, partials: { footer: '<b>footer</b>' }, trusted: { content: '<b>body</b>' } }
+    );
+
+    expect(rendered).toBe('{{{ content }}}{{&gt; footer }}');
+  });
+});
+
+describe('trusted slots', () => {
+  it('fills triple braces only from trusted values, never from variables', () => {
+    const source = '{{{ content }}}|{{{ name }}}';
+    const rendered = renderTemplateString(
+      source,
+      { content: '<i>variable</i>', name: '<i>variable</i>' },
+      { ...html, trusted: { content: '<b>body</b>' } }
+    );
+
+    expect(rendered).toBe('<b>body</b>|');
+  });
+
+  it('rejects triple braces outside the trusted slots when validating', () => {
+    expect(validateTemplateSource('{{{ content }}}', [])).toBeNull();
+    expect(validateTemplateSource('{{{ name }}}', [])).toBe(
+      'Triple braces are only allowed for: content'
+    );
+  });
+});
+
+describe('variable lookup', () => {
+  it('resolves only own properties', () => {
+    expect(renderTemplateString('[{{ constructor.name }}]', {}, text)).toBe('[]');
+    expect(renderTemplateString('{{ user.name }}', { user: { name: 'Ada' } }, text)).toBe('Ada');
+  });
+});
+
+describe('htmlToText', () => {
+  it('decodes each entity once', () => {
+    expect(htmlToText('<p>&lt;b&gt; &amp;lt; &#39;x&#39;</p>')).toBe("<b> &lt; 'x'");
+  });
+});
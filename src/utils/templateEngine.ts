@@ -0,0 +1,185 @@
+/**
+ * Minimal, logic-light template engine for stored email templates.
+ *
+ *   {{ name }}              variable (dotted paths allowed); HTML-escaped in html mode
+ *   {{#if name}}…{{else}}…{{/if}}   conditional block (not nestable)
+ *   {{> partial_name }}     include a partial
+ *   {{{ content }}}         unescaped slot; only filled from trusted values supplied by code
+ *                           (the rendered body inside a layout), never from template variables
+ */
+
+export type TemplateVariables = Record<string, unknown>;
+
+export type TemplateMode = 'html' | 'text';
+
+interface RenderOptions {
+  mode: TemplateMode;
+  partials?: Record<string, string>;
+  // Values for {{{ slot }}} tags, already rendered/escaped by the caller
+  trusted?: Record<string, string>;
+}
+
+// Slots a layout may use with triple braces
+export const TRUSTED_SLOTS = ['content'];
+
+const MAX_PARTIAL_DEPTH = 5;
+
+const TAG_PATTERN = /\{\{\{?[\s\S]*?\}?\}\}/g;
+const VARIABLE_TAG = /^\{\{\s*([A-Za-z_][\w.]*)\s*\}\}$/;
+const RAW_TAG = /^\{\{\{\s*([A-Za-z_][\w.]*)\s*\}\}\}$/;
+const PARTIAL_TAG = /\{\{>\s*([a-z0-9_]+)\s*\}\}/g;
+const IF_BLOCK =
+  /\{\{#if\s+([A-Za-z_][\w.]*)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const lookup = (variables: TemplateVariables, path: string): unknown => {
+  let value: unknown = variables;
+  for (const key of path.split('.')) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+const isTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+};
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const expandPartials = (
+  source: string,
+  partials: Record<string, string>,
+  depth: number = 0
+): string => {
+  return source.replace(PARTIAL_TAG, (_tag, name: string) => {
+    const partial = partials[name];
+    if (partial === undefined || depth >= MAX_PARTIAL_DEPTH) {
+      return '';
+    }
+    return expandPartials(partial, partials, depth + 1);
+  });
+};
+
+/**
+ * Render a template string. Unknown variables render as empty strings.
+ */
+export const renderTemplateString = (
+  source: string,
+  variables: TemplateVariables,
+  options: RenderOptions
+): string => {
+  const expanded = expandPartials(source, options.partials || {});
+
+  const withConditionals = expanded.replace(
+    IF_BLOCK,
+    (_block, path: string, whenTrue: string, whenFalse?: string) =>
+      isTruthy(lookup(variables, path)) ? whenTrue : whenFalse || ''
+  );
+
+  return withConditionals.replace(TAG_PATTERN, (tag) => {
+    const raw = RAW_TAG.exec(tag);
+    if (raw) {
+      return options.trusted?.[raw[1]] ?? '';
+    }
+
+    const variable = VARIABLE_TAG.exec(tag);
+    if (!variable) {
+      return tag;
+    }
+
+    const value = stringify(lookup(variables, variable[1]));
+    // Keep line breaks of multi-line input (e.g. a quote message) in HTML
+    return options.mode === 'html' ? escapeHtml(value).replace(/\r?\n/g, '<br>') : value;
+  });
+};
+
+/**
+ * Check template syntax: balanced, non-nested conditionals, known partials and triple-brace
+ * tags limited to trusted slots. Returns an error message, or null when the source is valid.
+ */
+export const validateTemplateSource = (source: string, partialNames: string[]): string | null => {
+  let depth = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const tag = match[0];
+
+    if (/^\{\{#if\s+[A-Za-z_][\w.]*\s*\}\}$/.test(tag)) {
+      if (depth > 0) return 'Conditional blocks cannot be nested';
+      depth++;
+      continue;
+    }
+    if (tag === '{{else}}') {
+      if (depth === 0) return '{{else}} outside of an {{#if}} block';
+      continue;
+    }
+    if (tag === '{{/if}}') {
+      if (depth === 0) return '{{/if}} without a matching {{#if}}';
+      depth--;
+      continue;
+    }
+
+    const partial = /^\{\{>\s*([a-z0-9_]+)\s*\}\}$/.exec(tag);
+    if (partial) {
+      if (!partialNames.includes(partial[1])) return `Unknown partial: ${partial[1]}`;
+      continue;
+    }
+
+    const raw = RAW_TAG.exec(tag);
+    if (raw) {
+      if (!TRUSTED_SLOTS.includes(raw[1])) {
+        return `Triple braces are only allowed for: ${TRUSTED_SLOTS.join(', ')}`;
+      }
+      continue;
+    }
+
+    if (!VARIABLE_TAG.test(tag)) {
+      return `Invalid tag: ${tag}`;
+    }
+  }
+
+  return depth === 0 ? null : 'Unclosed {{#if}} block';
+};
+
+/**
+ * Derive a plain-text alternative from rendered HTML
+ */
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,103 @@
+import jwt from 'jsonwebtoken';
+import { authConfig } from '../config/auth';
+import {
+  generateOpaqueToken,
+  hashToken,
+  signAccessToken,
+  signNewsletterConfirmToken,
+  verifyAccessToken,
+  verifyNewsletterConfirmToken,
+} from './tokenService';
+
+describe('access tokens', () => {
+  it('round-trips the user, session and role', () => {
+    const token = signAccessToken({ id: 12, role: 'ADMIN' }, 34);
+
+    expect(verifyAccessToken(token)).toEqual({ sub: 12, sid: 34, role: 'ADMIN' });
+  });
+
+  it('accepts the string session id node-postgres returns for BIGSERIAL columns', () => {
+    const token = signAccessToken({ id: 12, role: 'STUDENT' }, '34');
+
+    expect(verifyAccessToken(token)).toEqual({ sub: 12, sid: 34, role: 'STUDENT' });
+  });
+
+  it('rejects a tampered token', () => {
+    const [header, , signature] = signAccessToken({ id: 12, role: 'STUDENT' }, 34).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: 1, sid: 1, role: 'ADMIN' })).toString(
+      'base64url'
+    );
+
+    expect(verifyAccessToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = jwt.sign({ sub: 12, sid: 34, role: 'ADMIN' }, 'some-other-secret');
+
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rejects an unsigned token', () => {
+    const token = jwt.sign({ sub: 12, sid: 34, role: 'ADMIN' }, '', { algorithm: 'none' });
+
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    const exp = Math.floor(Date.now() / 1000) - 10;
+    const token = jwt.sign({ sub: 12, sid: 34, role: 'ADMIN', exp }, authConfig.jwtSecret);
+
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+
+  it('rejects a token without a session', () => {
+    const token = jwt.sign({ sub: 12, role: 'ADMIN' }, authConfig.jwtSecret);
+
+    expect(verifyAccessToken(token)).toBeNull();
+  });
+});
+
+describe('newsletter confirmation tokens', () => {
+  it('round-trips the subscriber', () => {
+    const token = signNewsletterConfirmToken({ id: 7, email: 'reader@example.com' }, 48);
+
+    expect(verifyNewsletterConfirmToken(token)).toEqual({ sub: 7, email: 'reader@example.com' });
+  });
+
+  it('cannot be used as an access token and vice versa', () => {
+    const confirmToken = signNewsletterConfirmToken({ id: 7, email: 'reader@example.com' }, 48);
+    const accessToken = signAccessToken({ id: 7, role: 'ADMIN' }, 1);
+
+    expect(verifyAccessToken(confirmToken)).toBeNull();
+    expect(verifyNewsletterConfirmToken(accessToken)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    const token = jwt.sign(
+      { sub: 7, email: 'reader@example.com', exp: Math.floor(Date.now() / 1000) - 10 },
+      authConfig.jwtSecret,
+      { audience: 'newsletter-confirm' }
+    );
+
+    expect(verifyNewsletterConfirmToken(token)).toBeNull();
+  });
+});
+
+describe('opaque tokens', () => {
+  it('generates distinct url-safe tokens of the requested size', () => {
+    const first = generateOpaqueToken(32);
+    const second = generateOpaqueToken(32);
+
+    expect(first).not.toEqual(second);
+    expect(first).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(Buffer.from(first, 'base64url')).toHaveLength(32);
+  });
+
+  it('hashes deterministically without revealing the token', () => {
+    const token = generateOpaqueToken();
+
+    expect(hashToken(token)).toEqual(hashToken(token));
+    expect(hashToken(token)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashToken(token)).not.toContain(token);
+  });
+});
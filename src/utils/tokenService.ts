@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { authConfig } from '../config/auth';
+import { AccessTokenPayload } from '../types/auth';
+import { NewsletterConfirmTokenPayload } from '../types/newsletter';
+import { User } from '../types/user';
+
+/**
+ * Sign a short-lived access token bound to a session.
+ * Session ids are BIGSERIAL, which node-postgres returns as strings, so the id is coerced here.
+ */
+export const signAccessToken = (
+  user: Pick<User, 'id' | 'role'>,
+  sessionId: number | string
+): string => {
+  const payload: AccessTokenPayload = { sub: user.id, sid: Number(sessionId), role: user.role };
+  return jwt.sign(payload, authConfig.jwtSecret, {
+    algorithm: 'HS256',
+    expiresIn: authConfig.accessTokenTtlSeconds,
+  });
+};
+
+/**
+ * Verify an access token, returning its payload or null when invalid/expired
+ */
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, authConfig.jwtSecret, { algorithms: ['HS256'] });
+    if (typeof decoded === 'string' || typeof decoded.sub !== 'number' || typeof decoded.sid !== 'number') {
+      return null;
+    }
+    return { sub: decoded.sub, sid: decoded.sid, role: decoded.role };
+  } catch {
+    return null;
+  }
+};
+
+// Audience of newsletter confirmation tokens, so they cannot be used as access tokens or vice versa
+const NEWSLETTER_CONFIRM_AUDIENCE = 'newsletter-confirm';
+
+/**
+ * Sign a newsletter confirmation token for a pending subscriber
+ */
+export const signNewsletterConfirmToken = (
+  subscriber: { id: number; email: string },
+  expiresInHours: number
+): string => {
+  const payload: NewsletterConfirmTokenPayload = { sub: subscriber.id, email: subscriber.email };
+  return jwt.sign(payload, authConfig.jwtSecret, {
+    algorithm: 'HS256',
+    audience: NEWSLETTER_CONFIRM_AUDIENCE,
+    expiresIn: expiresInHours * 60 * 60,
+  });
+};
+
+/**
+ * Verify a newsletter confirmation token, returning its payload or null when invalid/expired
+ */
+export const verifyNewsletterConfirmToken = (token: string): NewsletterConfirmTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, authConfig.jwtSecret, {
+      algorithms: ['HS256'],
+      audience: NEWSLETTER_CONFIRM_AUDIENCE,
+    });
+    if (typeof decoded === 'string' || typeof decoded.sub !== 'number' || typeof decoded.email !== 'string') {
+      return null;
+    }
+    return { sub: decoded.sub, email: decoded.email };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Generate an opaque random token (refresh tokens, one-time links)
+ */
+export const generateOpaqueToken = (bytes: number = 48): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash an opaque token for storage at rest
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Expiry date for a newly issued refresh token
+ */
+export const refreshTokenExpiry = (): Date => {
+  return new Date(Date.now() + authConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+};